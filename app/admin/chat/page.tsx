@@ -41,32 +41,58 @@ export default function AdminChatPage() {
     const interval = setInterval(() => {
       loadConversations()
       if (selectedConversation) {
-        setMessages(getMessages(selectedConversation.id))
+        loadMessages(selectedConversation.id)
       }
     }, 2000)
 
     return () => clearInterval(interval)
   }, [user, router, selectedConversation])
 
-  const loadConversations = () => {
-    const convs = getConversations()
-    setConversations(convs.sort((a, b) => b.lastMessageTime - a.lastMessageTime))
+  const loadConversations = async () => {
+    try {
+      const convs = await getConversations()
+      setConversations(convs.sort((a, b) => b.lastMessageTime - a.lastMessageTime))
+    } catch (error) {
+      console.error("[admin] loadConversations error", error)
+    }
+  }
+
+  const loadMessages = async (conversationId: string) => {
+    try {
+      setMessages(await getMessages(conversationId))
+    } catch (error) {
+      console.error("[admin] loadMessages error", error)
+    }
   }
 
-  const handleSelectConversation = (conversation: Conversation) => {
+  const handleSelectConversation = async (conversation: Conversation) => {
     setSelectedConversation(conversation)
-    const msgs = getMessages(conversation.id)
-    setMessages(msgs)
-    markMessagesAsRead(conversation.id, "admin")
+    await loadMessages(conversation.id)
+    try {
+      await markMessagesAsRead(conversation.id, "admin")
+    } catch (error) {
+      console.error("[admin] markMessagesAsRead error", error)
+    }
     loadConversations()
   }
 
-  const handleSend = () => {
+  const handleSend = async () => {
     if (!newMessage.trim() || !selectedConversation || !user) return
 
-    sendMessage(selectedConversation.id, user.id, "Admin", "admin", newMessage)
-    setMessages(getMessages(selectedConversation.id))
+    try {
+      await sendMessage({
+        conversationId: selectedConversation.id,
+        senderId: user.id,
+        senderName: "Admin",
+        senderRole: "admin",
+        content: newMessage,
+      })
+    } catch (error) {
+      console.error("[admin] sendMessage error", error)
+      return
+    }
     setNewMessage("")
+    loadMessages(selectedConversation.id)
     loadConversations()
   }
 
@@ -5,8 +5,12 @@ import { Package, ShoppingBag, Users, DollarSign } from "lucide-react"
 import { AdminHeader } from "@/components/admin-header"
 import { AdminNav } from "@/components/admin-nav"
 import { AdminGuard } from "@/components/admin-guard"
+import { LowStockAlert } from "@/components/low-stock-alert"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
-import { createClient } from "@/lib/supabase/client"
+import { formatMoney } from "@/lib/currency"
+import { getAllOrdersForAdmin } from "@/lib/orders"
+import { getProducts, type Product } from "@/lib/products"
+import { getUsers } from "@/lib/users"
 
 export default function AdminDashboardPage() {
   const [stats, setStats] = useState({
@@ -16,35 +20,29 @@ export default function AdminDashboardPage() {
     totalUsers: 0,
     totalRevenue: 0,
   })
+  const [products, setProducts] = useState<Product[]>([])
 
   useEffect(() => {
     loadStats()
   }, [])
 
   const loadStats = async () => {
-    const supabase = createClient()
+    const [orders, products, users] = await Promise.all([
+      getAllOrdersForAdmin().catch(() => []),
+      getProducts().catch(() => []),
+      getUsers().catch(() => []),
+    ])
 
-    const { data: orders } = await supabase
-      .from("orders")
-      .select("id, status, total_amount")
-
-    const { data: products } = await supabase
-      .from("products")
-      .select("id")
-
-    const { data: users } = await supabase
-      .from("users")
-      .select("id")
-
-    const pendingOrders = (orders || []).filter((o: any) => o.status === "pending")
-    const completedOrders = (orders || []).filter((o: any) => o.status === "completed")
-    const revenue = completedOrders.reduce((sum: number, order: any) => sum + Number(order.total_amount || 0), 0)
+    const pendingOrders = orders.filter((o) => o.status === "pending")
+    const completedOrders = orders.filter((o) => o.status === "completed")
+    const revenue = completedOrders.reduce((sum, order) => sum + order.total, 0)
 
+    setProducts(products)
     setStats({
-      totalOrders: orders?.length || 0,
+      totalOrders: orders.length,
       pendingOrders: pendingOrders.length,
-      totalProducts: products?.length || 0,
-      totalUsers: users?.length || 0,
+      totalProducts: products.length,
+      totalUsers: users.length,
       totalRevenue: revenue,
     })
   }
@@ -62,6 +60,8 @@ export default function AdminDashboardPage() {
             <p className="text-white/80">Monitor your e-commerce platform</p>
           </div>
 
+          <LowStockAlert products={products} />
+
           <div className="grid gap-6 md:grid-cols-2 lg:grid-cols-4">
             <Card className="bg-white/10 backdrop-blur border-white/20">
               <CardHeader className="flex flex-row items-center justify-between space-y-0 pb-2">
@@ -69,7 +69,7 @@ export default function AdminDashboardPage() {
                 <DollarSign className="h-4 w-4 text-white/70" />
               </CardHeader>
               <CardContent>
-                <div className="text-2xl font-bold text-white">${stats.totalRevenue.toFixed(2)}</div>
+                <div className="text-2xl font-bold text-white">{formatMoney(stats.totalRevenue)}</div>
                 <p className="text-xs text-white/80">From completed orders</p>
               </CardContent>
             </Card>
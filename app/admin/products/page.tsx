@@ -1,80 +1,200 @@
 "use client"
 
 import { useEffect, useState } from "react"
-import { Trash2 } from "lucide-react"
+import Link from "next/link"
+import { Download, Eye, Trash2 } from "lucide-react"
 import { AdminHeader } from "@/components/admin-header"
 import { AdminNav } from "@/components/admin-nav"
 import { AdminGuard } from "@/components/admin-guard"
+import { CategoryFormDialog } from "@/components/category-form-dialog"
+import { InventoryDialog } from "@/components/inventory-dialog"
+import { LowStockAlert } from "@/components/low-stock-alert"
 import { ProductFormDialog } from "@/components/product-form-dialog"
+import { ProductImportDialog } from "@/components/product-import-dialog"
+import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { DropdownMenu, DropdownMenuContent, DropdownMenuItem, DropdownMenuTrigger } from "@/components/ui/dropdown-menu"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
 import { useToast } from "@/hooks/use-toast"
 import Image from "next/image"
-import { createClient } from "@/lib/supabase/client"
-
-type Product = {
-  id: string
-  name: string
-  description: string
-  price: number
-  image: string
-  category: string
-  stock: number
-  download_url?: string
+import { subscribeToTables } from "@/lib/backend"
+import {
+  categoryTree,
+  deleteCategory,
+  flattenCategoryTree,
+  getCategories,
+  CATEGORIES_KEY,
+  CATEGORIES_TABLE,
+  type Category,
+} from "@/lib/categories"
+import { formatMoney } from "@/lib/currency"
+import { getReservedStock, needsRestock, STOCK_RESERVATIONS_KEY, STOCK_RESERVATIONS_TABLE } from "@/lib/inventory"
+import { releaseExpiredReservations } from "@/lib/orders"
+import { PRODUCT_IMAGES_KEY, PRODUCT_IMAGES_TABLE } from "@/lib/product-images"
+import { exportProductsCsv, exportProductsJson } from "@/lib/product-import"
+import {
+  deleteProduct,
+  getProducts,
+  lowestPrice,
+  productAvailability,
+  productHref,
+  productThumbnail,
+  stockedItems,
+  PRODUCTS_KEY,
+  PRODUCTS_TABLE,
+  PRODUCT_VARIANTS_KEY,
+  PRODUCT_VARIANTS_TABLE,
+  type Product,
+  type ProductAvailability,
+} from "@/lib/products"
+
+const AVAILABILITY_BADGES: Record<ProductAvailability, { label: string; className: string }> = {
+  draft: { label: "Draft", className: "bg-gray-500" },
+  scheduled: { label: "Scheduled", className: "bg-blue-600" },
+  live: { label: "Live", className: "bg-green-600" },
+  expired: { label: "Ended", className: "bg-yellow-600" },
+  archived: { label: "Archived", className: "bg-gray-700" },
+}
+
+/** Status of a product on the storefront; hover for its publish window. */
+function AvailabilityBadge({ product }: { product: Product }) {
+  const badge = AVAILABILITY_BADGES[productAvailability(product)]
+  const publishWindow = [
+    product.publishAt && `From ${new Date(product.publishAt).toLocaleString()}`,
+    product.unpublishAt && `Until ${new Date(product.unpublishAt).toLocaleString()}`,
+  ].filter(Boolean)
+  return (
+    <Badge className={badge.className} title={publishWindow.join("\n") || undefined}>
+      {badge.label}
+    </Badge>
+  )
+}
+
+/** Stock of the product, or of each of its variants, with low-stock badges and units held by orders. */
+function StockSummary({ product, reserved }: { product: Product; reserved: Map<string, number> }) {
+  if (product.unlimitedStock) return <span className="text-white/70">Unlimited</span>
+  return (
+    <div className="space-y-1">
+      {stockedItems(product).map(({ product: item, variant }) => {
+        const held = reserved.get(variant?.id ?? product.id) ?? 0
+        return (
+          <div key={variant?.id ?? product.id}>
+            <div className="flex items-center gap-2">
+              <span>{variant ? `${variant.name}: ${item.stock}` : item.stock}</span>
+              {needsRestock(item) && (
+                <Badge variant="destructive" title={`Alert below ${product.lowStockThreshold}`}>
+                  Low
+                </Badge>
+              )}
+            </div>
+            {held > 0 && <div className="text-xs text-white/60">{held} held</div>}
+          </div>
+        )
+      })}
+    </div>
+  )
 }
 
 export default function AdminProductsPage() {
   const { toast } = useToast()
   const [products, setProducts] = useState<Product[]>([])
+  const [categories, setCategories] = useState<Category[]>([])
+  const [reserved, setReserved] = useState<Map<string, number>>(new Map())
 
   const loadProducts = async () => {
-    const supabase = createClient()
-    const { data, error } = await supabase
-      .from("products")
-      .select("id, title, description, price, image_url, stock, download_url, created_at")
-      .order("created_at", { ascending: false })
-
-    if (error) {
+    try {
+      setProducts(await getProducts())
+    } catch (error) {
       console.error("[v0] Error loading products:", error)
-      return
     }
+  }
 
-    const normalized = (data || []).map((p: any) => ({
-      id: p.id,
-      name: p.title || 'Untitled',
-      description: p.description || '',
-      price: Number(p.price) || 0,
-      image: p.image_url || '/placeholder.svg',
-      category: 'general',
-      stock: Number(p.stock) || 0,
-      download_url: p.download_url || '',
-    }))
-
-    setProducts(normalized)
+  const loadReserved = async () => {
+    try {
+      setReserved(await getReservedStock())
+    } catch (error) {
+      console.error("[admin] Error loading stock reservations:", error)
+    }
+  }
+
+  const loadCategories = async () => {
+    try {
+      setCategories(await getCategories())
+    } catch (error) {
+      console.error("[admin] Error loading categories:", error)
+    }
   }
 
   useEffect(() => {
-    loadProducts()
+    // Abandoned gateway checkouts give their stock back before the figures are shown
+    releaseExpiredReservations()
+      .catch((error) => console.error("[admin] Error releasing expired reservations:", error))
+      .finally(() => {
+        loadProducts()
+        loadReserved()
+      })
+    loadCategories()
 
-    // Realtime: refresh on products change
-    const supabase = createClient()
-    const channel = supabase
-      .channel("admin-products")
-      .on("postgres_changes", { event: "*", schema: "public", table: "products" }, () => loadProducts())
-      .subscribe()
+    // Realtime: refresh on products change; product rows show their category's name
+    const unsubscribers = [
+      subscribeToTables(
+        [PRODUCTS_TABLE, PRODUCT_VARIANTS_TABLE, PRODUCT_IMAGES_TABLE],
+        [PRODUCTS_KEY, PRODUCT_VARIANTS_KEY, PRODUCT_IMAGES_KEY],
+        () => loadProducts(),
+      ),
+      subscribeToTables([STOCK_RESERVATIONS_TABLE], [STOCK_RESERVATIONS_KEY], () => loadReserved()),
+      subscribeToTables([CATEGORIES_TABLE], [CATEGORIES_KEY], () => {
+        loadCategories()
+        loadProducts()
+      }),
+    ]
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe())
+  }, [])
 
-    return () => {
-      supabase.removeChannel(channel)
+  const handleDeleteCategory = async (category: Category) => {
+    if (!confirm(`Delete the category ${category.name}? Its products and subcategories are kept without it.`)) return
+    try {
+      await deleteCategory(category.id)
+    } catch (error) {
+      console.error("[admin] Failed to delete category", { id: category.id, error })
+      toast({
+        title: "Error",
+        description: "Failed to delete category",
+        variant: "destructive",
+      })
+      return
     }
-  }, [])
 
-  const handleDelete = async (id: string) => {
-    if (confirm("Are you sure you want to delete this product?")) {
-      const supabase = createClient()
-      const { error } = await supabase.from("products").delete().eq("id", id)
+    loadCategories()
+    loadProducts()
+    toast({
+      title: "Category Deleted",
+      description: `${category.name} has been removed`,
+    })
+  }
 
-      if (error) {
+  const handleExport = (format: "csv" | "json") => {
+    const content = format === "csv" ? exportProductsCsv(products, categories) : exportProductsJson(products, categories)
+    const blob = new Blob([content], { type: format === "csv" ? "text/csv;charset=utf-8" : "application/json" })
+    const url = URL.createObjectURL(blob)
+    const link = document.createElement("a")
+    link.href = url
+    link.download = `products-${new Date().toISOString().slice(0, 10)}.${format}`
+    link.click()
+    URL.revokeObjectURL(url)
+  }
+
+  const handleDelete = async (id: string) => {
+    // Orders keep their items, but the product's page and download go away with it
+    if (
+      confirm(
+        "Are you sure you want to delete this product? If it has been ordered, archive it instead so customers keep their downloads.",
+      )
+    ) {
+      try {
+        await deleteProduct(id)
+      } catch (error) {
         toast({
           title: "Error",
           description: "Failed to delete product",
@@ -99,6 +219,8 @@ export default function AdminProductsPage() {
         <main className="container py-8">
           <AdminNav />
 
+          <LowStockAlert products={products} />
+
           <Card className="bg-white/10 backdrop-blur border-white/20">
             <CardHeader>
               <div className="flex items-center justify-between">
@@ -106,7 +228,22 @@ export default function AdminProductsPage() {
                   <CardTitle className="text-white">Products Management</CardTitle>
                   <CardDescription className="text-white/80">Manage your product catalog</CardDescription>
                 </div>
-                <ProductFormDialog onSuccess={loadProducts} />
+                <div className="flex items-center gap-2">
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" disabled={products.length === 0}>
+                        <Download className="h-4 w-4 mr-2" />
+                        Export
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent>
+                      <DropdownMenuItem onClick={() => handleExport("csv")}>CSV</DropdownMenuItem>
+                      <DropdownMenuItem onClick={() => handleExport("json")}>JSON</DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                  <ProductImportDialog products={products} categories={categories} onSuccess={loadProducts} />
+                  <ProductFormDialog categories={categories} onSuccess={loadProducts} />
+                </div>
               </div>
             </CardHeader>
             <CardContent>
@@ -115,6 +252,9 @@ export default function AdminProductsPage() {
                   <TableRow>
                     <TableHead>Image</TableHead>
                     <TableHead>Name</TableHead>
+                    <TableHead>Status</TableHead>
+                    <TableHead>SKU</TableHead>
+                    <TableHead>Category</TableHead>
                     <TableHead>Price</TableHead>
                     <TableHead>Stock</TableHead>
                     <TableHead>Download URL</TableHead>
@@ -127,7 +267,7 @@ export default function AdminProductsPage() {
                       <TableCell>
                         <div className="relative h-12 w-12 rounded-md overflow-hidden bg-muted">
                           <Image
-                            src={product.image || "/placeholder.svg"}
+                            src={productThumbnail(product)}
                             alt={product.name || 'Product image'}
                             fill
                             className="object-cover"
@@ -135,20 +275,40 @@ export default function AdminProductsPage() {
                         </div>
                       </TableCell>
                       <TableCell className="font-medium">{product.name}</TableCell>
-                      <TableCell>${product.price}</TableCell>
-                      <TableCell>{product.stock}</TableCell>
+                      <TableCell>
+                        <AvailabilityBadge product={product} />
+                      </TableCell>
+                      <TableCell className="font-mono text-xs">{product.sku ?? <span className="text-gray-400">—</span>}</TableCell>
+                      <TableCell>{product.categoryId ? product.category : <span className="text-gray-400 text-xs">None</span>}</TableCell>
+                      <TableCell>
+                        {product.variants.length > 0 ? (
+                          <>
+                            From {formatMoney(lowestPrice(product))}
+                            <div className="text-xs text-white/60">{product.variants.length} variants</div>
+                          </>
+                        ) : (
+                          formatMoney(product.price)
+                        )}
+                      </TableCell>
+                      <TableCell>
+                        <StockSummary product={product} reserved={reserved} />
+                      </TableCell>
                       <TableCell className="max-w-xs">
-                        {product.download_url ? (
+                        {product.variants.length > 0 ? (
+                          <span className="text-xs text-white/70">
+                            {product.variants.filter((v) => v.downloadUrl).length} of {product.variants.length} variants
+                          </span>
+                        ) : product.downloadUrl ? (
                           <div className="flex items-center gap-2">
                             <span className="text-green-400 text-xs">✓ Available</span>
                             <a 
-                              href={product.download_url} 
+                              href={product.downloadUrl} 
                               target="_blank" 
                               rel="noopener noreferrer"
                               className="text-blue-400 hover:text-blue-300 text-xs truncate block max-w-32"
-                              title={product.download_url}
+                              title={product.downloadUrl}
                             >
-                              {product.download_url}
+                              {product.downloadUrl}
                             </a>
                           </div>
                         ) : (
@@ -157,7 +317,17 @@ export default function AdminProductsPage() {
                       </TableCell>
                       <TableCell className="text-right">
                         <div className="flex items-center justify-end gap-2">
-                          <ProductFormDialog product={product} onSuccess={loadProducts} />
+                          <Button variant="ghost" size="sm" asChild title="Preview">
+                            <Link href={productHref(product)} target="_blank">
+                              <Eye className="h-4 w-4" />
+                            </Link>
+                          </Button>
+                          <InventoryDialog
+                            product={product}
+                            reserved={reserved}
+                            onSuccess={loadProducts}
+                          />
+                          <ProductFormDialog product={product} categories={categories} onSuccess={loadProducts} />
                           <Button variant="ghost" size="sm" onClick={() => handleDelete(product.id)}>
                             <Trash2 className="h-4 w-4 text-destructive" />
                           </Button>
@@ -169,6 +339,57 @@ export default function AdminProductsPage() {
               </Table>
             </CardContent>
           </Card>
+
+          <Card className="bg-white/10 backdrop-blur border-white/20 mt-6">
+            <CardHeader>
+              <div className="flex items-center justify-between">
+                <div>
+                  <CardTitle className="text-white">Categories</CardTitle>
+                  <CardDescription className="text-white/80">
+                    Nest categories under a parent; a category page also lists its subcategories&apos; products
+                  </CardDescription>
+                </div>
+                <CategoryFormDialog categories={categories} onSuccess={loadCategories} />
+              </div>
+            </CardHeader>
+            <CardContent>
+              {categories.length === 0 ? (
+                <p className="text-white/70">No categories yet</p>
+              ) : (
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Name</TableHead>
+                      <TableHead>Slug</TableHead>
+                      <TableHead>Sort Order</TableHead>
+                      <TableHead>Products</TableHead>
+                      <TableHead className="text-right">Actions</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {flattenCategoryTree(categoryTree(categories)).map((category) => (
+                      <TableRow key={category.id}>
+                        <TableCell className="font-medium" style={{ paddingLeft: `${1 + category.depth * 1.5}rem` }}>
+                          {category.name}
+                        </TableCell>
+                        <TableCell className="font-mono text-xs">/category/{category.slug}</TableCell>
+                        <TableCell>{category.sortOrder}</TableCell>
+                        <TableCell>{products.filter((p) => p.categoryId === category.id).length}</TableCell>
+                        <TableCell className="text-right">
+                          <div className="flex items-center justify-end gap-2">
+                            <CategoryFormDialog category={category} categories={categories} onSuccess={loadCategories} />
+                            <Button variant="ghost" size="sm" onClick={() => handleDeleteCategory(category)}>
+                              <Trash2 className="h-4 w-4 text-destructive" />
+                            </Button>
+                          </div>
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              )}
+            </CardContent>
+          </Card>
         </main>
       </div>
     </AdminGuard>
@@ -1,6 +1,6 @@
 "use client"
 
-import { useEffect, useMemo, useState } from "react"
+import { useEffect, useState } from "react"
 import { AdminGuard } from "@/components/admin-guard"
 import { AdminHeader } from "@/components/admin-header"
 import { AdminNav } from "@/components/admin-nav"
@@ -8,26 +8,85 @@ import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/com
 import { Label } from "@/components/ui/label"
 import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Switch } from "@/components/ui/switch"
+import { Textarea } from "@/components/ui/textarea"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
 import { useToast } from "@/hooks/use-toast"
-import { createClient } from "@/lib/supabase/client"
-import { Plus, Save, Calendar as CalendarIcon } from "lucide-react"
-
-// Types matching your Supabase schema
-interface Discount { id: string; name: string; percentage: number; active: boolean; created_at: string }
-interface Sale { id: string; product_id: string; discount_id: string | null; start_date: string | null; end_date: string | null; created_at: string }
-interface PaymentMethod {
-  id: string
-  method_name: string
-  active: boolean
-  upi_qr: string | null
-  upi_id: string | null
-  binance_qr: string | null
-  binance_id: string | null
-  paypal_qr: string | null
-  paypal_id: string | null
-  created_at: string
+import { subscribeToTables } from "@/lib/backend"
+import {
+  createCoupon,
+  deleteCoupon,
+  getCoupons,
+  updateCoupon,
+  COUPONS_KEY,
+  COUPONS_TABLE,
+  type Coupon,
+  type CouponInput,
+  type CouponType,
+} from "@/lib/coupons"
+import {
+  createExchangeRate,
+  deleteExchangeRate,
+  findExchangeRate,
+  formatMoney,
+  getExchangeRates,
+  EXCHANGE_RATES_KEY,
+  EXCHANGE_RATES_TABLE,
+  STORE_CURRENCY,
+  type ExchangeRate,
+} from "@/lib/currency"
+import { GATEWAY_IDS, GATEWAY_LABELS, type GatewayId } from "@/lib/payment-gateways/types"
+import {
+  createPaymentProvider,
+  deletePaymentProvider,
+  getPaymentProviders,
+  providerKeyFromName,
+  updatePaymentProvider,
+  PAYMENT_PROVIDERS_KEY,
+  PAYMENT_PROVIDERS_TABLE,
+  PROVIDER_TYPE_LABELS,
+  type PaymentProvider,
+  type PaymentProviderType,
+  type PaymentProviderUpdate,
+} from "@/lib/payment-providers"
+import { isSaleRunning } from "@/lib/pricing"
+import { getProducts, type Product } from "@/lib/products"
+import {
+  createDiscount,
+  createSale,
+  deleteSale,
+  getDiscounts,
+  getSales,
+  updateDiscount,
+  updateSale,
+  DISCOUNTS_KEY,
+  DISCOUNTS_TABLE,
+  SALES_KEY,
+  SALES_TABLE,
+  type Discount,
+  type DiscountInput,
+  type Sale,
+} from "@/lib/settings"
+import {
+  COUNTRY_CODES,
+  countryName,
+  createTaxRule,
+  deleteTaxRule,
+  getTaxRules,
+  updateTaxRule,
+  TAX_RULES_KEY,
+  TAX_RULES_TABLE,
+  type TaxRule,
+  type TaxRuleInput,
+} from "@/lib/taxes"
+import { Plus, Save, Trash2, Calendar as CalendarIcon } from "lucide-react"
+
+// datetime-local inputs work in local time without a zone
+function toLocalInput(iso: string | null): string {
+  if (!iso) return ""
+  const date = new Date(iso)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16)
 }
 
 export default function AdminSettingsPage() {
@@ -40,71 +99,98 @@ export default function AdminSettingsPage() {
 
 function SettingsContent() {
   const { toast } = useToast()
-  const supabase = useMemo(() => createClient(), [])
 
   const [loading, setLoading] = useState(true)
   const [discounts, setDiscounts] = useState<Discount[]>([])
   const [sales, setSales] = useState<Sale[]>([])
-  const [methods, setMethods] = useState<PaymentMethod[]>([])
+  const [providers, setProviders] = useState<PaymentProvider[]>([])
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([])
+  const [coupons, setCoupons] = useState<Coupon[]>([])
+  const [taxRules, setTaxRules] = useState<TaxRule[]>([])
+  const [products, setProducts] = useState<Product[]>([])
 
-  const [newDiscount, setNewDiscount] = useState<{ name: string; percentage: number; active: boolean }>({ name: "", percentage: 0, active: true })
+  const [newDiscount, setNewDiscount] = useState<DiscountInput>({ name: "", percentage: 0, active: true, appliesToAll: false })
+  const [newSale, setNewSale] = useState<{ productId: string; discountId: string; startDate: string; endDate: string }>({ productId: "", discountId: "", startDate: "", endDate: "" })
+  const [newProvider, setNewProvider] = useState<{ name: string; type: PaymentProviderType }>({ name: "", type: "other" })
+  const [newTaxRule, setNewTaxRule] = useState<TaxRuleInput>({ name: "", country: null, rate: 0, inclusive: false, active: true })
+  const [newRate, setNewRate] = useState<{ currency: string; rate: string; effectiveFrom: string }>({ currency: "", rate: "", effectiveFrom: "" })
 
   // Load initial data
   useEffect(() => {
     const load = async () => {
       setLoading(true)
-      await Promise.all([loadDiscounts(), loadSales(), loadPaymentMethods()])
+      await Promise.all([loadDiscounts(), loadSales(), loadProviders(), loadExchangeRates(), loadCoupons(), loadTaxRules(), loadProducts()])
       setLoading(false)
     }
     load()
 
     // Realtime subscriptions — reflect changes across devices instantly
-    const channel = supabase
-      .channel("admin-settings")
-      .on("postgres_changes", { event: "*", schema: "public", table: "discounts" }, () => loadDiscounts())
-      .on("postgres_changes", { event: "*", schema: "public", table: "sales" }, () => loadSales())
-      .on("postgres_changes", { event: "*", schema: "public", table: "payment_methods" }, () => loadPaymentMethods())
-      .subscribe()
+    const unsubscribers = [
+      subscribeToTables([DISCOUNTS_TABLE], [DISCOUNTS_KEY], () => loadDiscounts()),
+      subscribeToTables([SALES_TABLE], [SALES_KEY], () => loadSales()),
+      subscribeToTables([PAYMENT_PROVIDERS_TABLE], [PAYMENT_PROVIDERS_KEY], () => loadProviders()),
+      subscribeToTables([EXCHANGE_RATES_TABLE], [EXCHANGE_RATES_KEY], () => loadExchangeRates()),
+      subscribeToTables([COUPONS_TABLE], [COUPONS_KEY], () => loadCoupons()),
+      subscribeToTables([TAX_RULES_TABLE], [TAX_RULES_KEY], () => loadTaxRules()),
+    ]
 
-    return () => {
-      supabase.removeChannel(channel)
-    }
-  }, [supabase])
+    return () => unsubscribers.forEach((unsubscribe) => unsubscribe())
+  }, [])
 
   const loadDiscounts = async () => {
-    const { data, error } = await supabase
-      .from("discounts")
-      .select("*")
-      .order("created_at", { ascending: false })
-    if (error) {
+    try {
+      setDiscounts(await getDiscounts())
+    } catch (error) {
       console.error("[admin] loadDiscounts error", error)
-      return
     }
-    setDiscounts(data || [])
   }
 
   const loadSales = async () => {
-    const { data, error } = await supabase
-      .from("sales")
-      .select("*")
-      .order("created_at", { ascending: false })
-    if (error) {
+    try {
+      setSales(await getSales())
+    } catch (error) {
       console.error("[admin] loadSales error", error)
-      return
     }
-    setSales(data || [])
   }
 
-  const loadPaymentMethods = async () => {
-    const { data, error } = await supabase
-      .from("payment_methods")
-      .select("*")
-      .order("created_at", { ascending: false })
-    if (error) {
-      console.error("[admin] loadPaymentMethods error", error)
-      return
+  const loadProviders = async () => {
+    try {
+      setProviders(await getPaymentProviders())
+    } catch (error) {
+      console.error("[admin] loadProviders error", error)
+    }
+  }
+
+  const loadExchangeRates = async () => {
+    try {
+      setExchangeRates(await getExchangeRates())
+    } catch (error) {
+      console.error("[admin] loadExchangeRates error", error)
+    }
+  }
+
+  const loadCoupons = async () => {
+    try {
+      setCoupons(await getCoupons())
+    } catch (error) {
+      console.error("[admin] loadCoupons error", error)
+    }
+  }
+
+  const loadTaxRules = async () => {
+    try {
+      setTaxRules(await getTaxRules())
+    } catch (error) {
+      console.error("[admin] loadTaxRules error", error)
+    }
+  }
+
+  const loadProducts = async () => {
+    try {
+      setProducts(await getProducts())
+    } catch (error) {
+      console.error("[admin] loadProducts error", error)
     }
-    setMethods(data || [])
   }
 
   // Discount actions
@@ -113,79 +199,287 @@ function SettingsContent() {
       toast({ title: "Invalid", description: "Provide a name and positive percentage", variant: "destructive" })
       return
     }
-    const { error } = await supabase.from("discounts").insert({
-      name: newDiscount.name,
-      percentage: newDiscount.percentage,
-      active: newDiscount.active,
-    })
-    if (error) {
+    try {
+      await createDiscount(newDiscount)
+    } catch (error) {
       console.error("[admin] addDiscount error", error)
       toast({ title: "Error", description: "Failed to add discount", variant: "destructive" })
       return
     }
-    setNewDiscount({ name: "", percentage: 0, active: true })
+    setNewDiscount({ name: "", percentage: 0, active: true, appliesToAll: false })
     toast({ title: "Added", description: "Discount created" })
   }
 
   const toggleDiscountActive = async (id: string, active: boolean) => {
-    const { error } = await supabase.from("discounts").update({ active }).eq("id", id)
-    if (error) {
+    try {
+      await updateDiscount(id, { active })
+    } catch (error) {
       console.error("[admin] toggleDiscountActive error", error)
       toast({ title: "Error", description: "Failed to update discount", variant: "destructive" })
     }
   }
 
+  const toggleDiscountAppliesToAll = async (id: string, appliesToAll: boolean) => {
+    try {
+      await updateDiscount(id, { appliesToAll })
+    } catch (error) {
+      console.error("[admin] toggleDiscountAppliesToAll error", error)
+      toast({ title: "Error", description: "Failed to update discount", variant: "destructive" })
+    }
+  }
+
   const updateDiscountPercent = async (id: string, percentage: number) => {
-    const { error } = await supabase.from("discounts").update({ percentage }).eq("id", id)
-    if (error) {
+    try {
+      await updateDiscount(id, { percentage })
+    } catch (error) {
       console.error("[admin] updateDiscountPercent error", error)
       toast({ title: "Error", description: "Failed to update percentage", variant: "destructive" })
     }
   }
 
   // Sales actions
-  const updateSaleEndDate = async (id: string, newDate: string) => {
-    const { error } = await supabase.from("sales").update({ end_date: newDate }).eq("id", id)
-    if (error) {
-      console.error("[admin] updateSaleEndDate error", error)
-      toast({ title: "Error", description: "Failed to update sale end date", variant: "destructive" })
+  const addSale = async () => {
+    if (!newSale.productId || !newSale.discountId) {
+      toast({ title: "Invalid", description: "Choose a product and a discount", variant: "destructive" })
       return
     }
-    toast({ title: "Updated", description: "Sale end date updated" })
+    try {
+      await createSale({
+        productId: newSale.productId,
+        discountId: newSale.discountId,
+        startDate: newSale.startDate ? new Date(newSale.startDate).toISOString() : null,
+        endDate: newSale.endDate ? new Date(newSale.endDate).toISOString() : null,
+      })
+    } catch (error: any) {
+      console.error("[admin] addSale error", error)
+      toast({ title: "Error", description: error?.message || "Failed to schedule sale", variant: "destructive" })
+      return
+    }
+    setNewSale({ productId: "", discountId: "", startDate: "", endDate: "" })
+    toast({ title: "Scheduled", description: "The sale starts and ends on its own at its dates" })
   }
 
-  // Payment method actions — one row per method_name
-  const upsertMethod = async (method_name: string, patch: Partial<PaymentMethod>) => {
-    // Find existing row
-    const existing = methods.find((m) => m.method_name === method_name)
-    if (existing) {
-      const { error } = await supabase
-        .from("payment_methods")
-        .update(patch)
-        .eq("id", existing.id)
-      if (error) {
-        console.error("[admin] upsertMethod update error", error)
-        toast({ title: "Error", description: `Failed to update ${method_name}`, variant: "destructive" })
-        return
-      }
-    } else {
-      const { error } = await supabase
-        .from("payment_methods")
-        .insert({ method_name, active: true, ...patch })
-      if (error) {
-        console.error("[admin] upsertMethod insert error", error)
-        toast({ title: "Error", description: `Failed to create ${method_name}`, variant: "destructive" })
-        return
+  const removeSale = async (id: string) => {
+    if (!confirm("Delete this sale?")) return
+    try {
+      await deleteSale(id)
+    } catch (error) {
+      console.error("[admin] removeSale error", error)
+      toast({ title: "Error", description: "Failed to delete sale", variant: "destructive" })
+    }
+  }
+
+  // Saved when the input loses focus; an empty input means the sale never ends
+  const saveSaleEndDate = async (sale: Sale, input: HTMLInputElement) => {
+    // A half-typed date also reads as empty; keep the saved one rather than clearing it
+    if (input.validity.badInput) {
+      input.value = toLocalInput(sale.endDate)
+      return
+    }
+    if (input.value === toLocalInput(sale.endDate)) return
+    try {
+      const endDate = input.value ? new Date(input.value).toISOString() : null
+      if (endDate && sale.startDate && new Date(endDate) <= new Date(sale.startDate)) {
+        throw new Error("The sale must end after it starts")
       }
+      await updateSale(sale.id, { endDate })
+    } catch (error: any) {
+      console.error("[admin] saveSaleEndDate error", error)
+      toast({ title: "Error", description: error?.message || "Failed to update sale end date", variant: "destructive" })
+      input.value = toLocalInput(sale.endDate)
+      return
+    }
+    toast({ title: "Updated", description: "Sale end date updated" })
+  }
+
+  const endSaleNow = async (sale: Sale) => {
+    const now = new Date()
+    // sales_dates_check needs the end after the start
+    if (sale.startDate && new Date(sale.startDate) >= now) {
+      toast({ title: "Not started", description: "This sale has not started yet; delete it instead", variant: "destructive" })
+      return
+    }
+    try {
+      await updateSale(sale.id, { endDate: now.toISOString() })
+    } catch (error: any) {
+      console.error("[admin] endSaleNow error", error)
+      toast({ title: "Error", description: error?.message || "Failed to end the sale", variant: "destructive" })
+      return
+    }
+    toast({ title: "Ended", description: "The sale has ended" })
+  }
+
+  // Tax rule actions
+  const addTaxRule = async () => {
+    try {
+      await createTaxRule(newTaxRule)
+    } catch (error: any) {
+      console.error("[admin] addTaxRule error", error)
+      toast({ title: "Error", description: error?.message || "Failed to add tax rule", variant: "destructive" })
+      return
+    }
+    setNewTaxRule({ name: "", country: null, rate: 0, inclusive: false, active: true })
+    toast({ title: "Added", description: "Tax rule created" })
+  }
+
+  const toggleTaxRuleActive = async (id: string, active: boolean) => {
+    try {
+      await updateTaxRule(id, { active })
+    } catch (error) {
+      console.error("[admin] toggleTaxRuleActive error", error)
+      toast({ title: "Error", description: "Failed to update tax rule", variant: "destructive" })
+    }
+  }
+
+  const removeTaxRule = async (rule: TaxRule) => {
+    if (!confirm(`Delete the tax rule ${rule.name}? Existing orders keep their tax lines.`)) return
+    try {
+      await deleteTaxRule(rule.id)
+    } catch (error) {
+      console.error("[admin] removeTaxRule error", error)
+      toast({ title: "Error", description: "Failed to delete tax rule", variant: "destructive" })
     }
-    toast({ title: "Saved", description: `${method_name} updated` })
   }
 
-  const getField = (method_name: string, field: keyof PaymentMethod): string => {
-    const m = methods.find((x) => x.method_name === method_name)
-    return (m?.[field] as string | null) ?? ""
+  // Payment provider actions
+  const addProvider = async () => {
+    const key = providerKeyFromName(newProvider.name)
+    if (!key) {
+      toast({ title: "Invalid", description: "Provide a name for the payment method", variant: "destructive" })
+      return
+    }
+    if (providers.some((p) => p.key === key)) {
+      toast({ title: "Invalid", description: `A payment method with key "${key}" already exists`, variant: "destructive" })
+      return
+    }
+    try {
+      // New methods start inactive so they are not offered before the account details are filled in
+      await createPaymentProvider({
+        key,
+        type: newProvider.type,
+        gateway: "manual",
+        name: newProvider.name.trim(),
+        instructions: "",
+        qrCode: "",
+        accountId: "",
+        currency: STORE_CURRENCY,
+        minAmount: null,
+        maxAmount: null,
+        sortOrder: Math.max(0, ...providers.map((p) => p.sortOrder)) + 10,
+        active: false,
+      })
+    } catch (error: any) {
+      console.error("[admin] addProvider error", error)
+      toast({ title: "Error", description: error?.message || "Failed to add payment method", variant: "destructive" })
+      return
+    }
+    setNewProvider({ name: "", type: "other" })
+    toast({ title: "Added", description: `${newProvider.name.trim()} created. Fill in its details and activate it.` })
   }
-  const isActive = (method_name: string): boolean => methods.find((x) => x.method_name === method_name)?.active ?? false
+
+  const saveProvider = async (provider: PaymentProvider, updates: PaymentProviderUpdate) => {
+    try {
+      await updatePaymentProvider(provider.id, updates)
+    } catch (error: any) {
+      console.error("[admin] saveProvider error", error)
+      toast({ title: "Error", description: error?.message || `Failed to update ${provider.name}`, variant: "destructive" })
+      return
+    }
+    toast({ title: "Saved", description: `${updates.name ?? provider.name} updated` })
+  }
+
+  const removeProvider = async (provider: PaymentProvider) => {
+    if (!confirm(`Delete the payment method "${provider.name}"?`)) return
+    try {
+      await deletePaymentProvider(provider.id)
+    } catch (error: any) {
+      console.error("[admin] removeProvider error", error)
+      toast({ title: "Error", description: error?.message || `Failed to delete ${provider.name}`, variant: "destructive" })
+      return
+    }
+    toast({ title: "Deleted", description: `${provider.name} removed` })
+  }
+
+  // Exchange rate actions
+  const addExchangeRate = async () => {
+    try {
+      await createExchangeRate({
+        currency: newRate.currency.trim().toUpperCase(),
+        rate: Number(newRate.rate),
+        // Empty means right away
+        effectiveFrom: newRate.effectiveFrom ? new Date(newRate.effectiveFrom).toISOString() : new Date().toISOString(),
+      })
+    } catch (error: any) {
+      console.error("[admin] addExchangeRate error", error)
+      toast({ title: "Error", description: error?.message || "Failed to add exchange rate", variant: "destructive" })
+      return
+    }
+    setNewRate({ currency: "", rate: "", effectiveFrom: "" })
+    toast({ title: "Added", description: `Rate for ${newRate.currency.toUpperCase()} saved` })
+  }
+
+  const removeExchangeRate = async (rate: ExchangeRate) => {
+    if (!confirm(`Delete the ${rate.currency} rate from ${new Date(rate.effectiveFrom).toLocaleString()}?`)) return
+    try {
+      await deleteExchangeRate(rate.id)
+    } catch (error: any) {
+      console.error("[admin] removeExchangeRate error", error)
+      toast({ title: "Error", description: error?.message || "Failed to delete exchange rate", variant: "destructive" })
+    }
+  }
+
+  // Coupon actions
+  const addCoupon = async (input: CouponInput) => {
+    try {
+      await createCoupon(input)
+    } catch (error: any) {
+      console.error("[admin] addCoupon error", error)
+      toast({ title: "Error", description: error?.message || "Failed to add coupon", variant: "destructive" })
+      return false
+    }
+    toast({ title: "Added", description: `Coupon ${input.code.trim().toUpperCase()} created` })
+    return true
+  }
+
+  const toggleCouponActive = async (coupon: Coupon, active: boolean) => {
+    try {
+      await updateCoupon(coupon.id, { active })
+    } catch (error: any) {
+      console.error("[admin] toggleCouponActive error", error)
+      toast({ title: "Error", description: error?.message || `Failed to update ${coupon.code}`, variant: "destructive" })
+    }
+  }
+
+  const removeCoupon = async (coupon: Coupon) => {
+    if (!confirm(`Delete the coupon ${coupon.code}?`)) return
+    try {
+      await deleteCoupon(coupon.id)
+    } catch (error: any) {
+      console.error("[admin] removeCoupon error", error)
+      toast({ title: "Error", description: error?.message || `Failed to delete ${coupon.code}`, variant: "destructive" })
+    }
+  }
+
+  const couponRules = (coupon: Coupon) =>
+    [
+      coupon.type === "percentage" ? `${coupon.value}% off` : `${formatMoney(coupon.value)} off`,
+      coupon.minOrderValue > 0 && `min ${formatMoney(coupon.minOrderValue)}`,
+      coupon.maxUses !== null && `${coupon.maxUses} uses`,
+      coupon.maxUsesPerUser !== null && `${coupon.maxUsesPerUser} per customer`,
+      coupon.firstOrderOnly && "first order only",
+      coupon.productIds.length > 0 &&
+        `products: ${coupon.productIds.map((id) => products.find((p) => p.id === id)?.name ?? id.slice(0, 8)).join(", ")}`,
+      coupon.categories.length > 0 && `categories: ${coupon.categories.join(", ")}`,
+      coupon.startsAt && `from ${new Date(coupon.startsAt).toLocaleString()}`,
+      coupon.endsAt && `until ${new Date(coupon.endsAt).toLocaleString()}`,
+    ]
+      .filter(Boolean)
+      .join(" • ")
+
+  // Currencies payment methods take that have no rate in effect, so those methods are not offered
+  const missingRates = Array.from(new Set(providers.filter((p) => p.active).map((p) => p.currency))).filter(
+    (currency) => currency !== STORE_CURRENCY && !findExchangeRate(exchangeRates, currency),
+  )
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 text-white">
@@ -196,13 +490,16 @@ function SettingsContent() {
         <div className="space-y-6">
           <div>
             <h1 className="text-3xl font-bold">Settings</h1>
-            <p className="text-white/80">Manage discounts, sales, and payment methods (Synced with Supabase)</p>
+            <p className="text-white/80">Manage discounts, sales, coupons, payment methods and exchange rates (Synced with Supabase)</p>
           </div>
 
           <Tabs defaultValue="discounts" className="space-y-6">
             <TabsList className="bg-white/10 backdrop-blur border-white/20">
               <TabsTrigger value="discounts">Discounts & Sales</TabsTrigger>
+              <TabsTrigger value="coupons">Coupons</TabsTrigger>
+              <TabsTrigger value="taxes">Taxes</TabsTrigger>
               <TabsTrigger value="payments">Payment Methods</TabsTrigger>
+              <TabsTrigger value="currency">Exchange Rates</TabsTrigger>
             </TabsList>
 
             {/* Discounts & Sales */}
@@ -210,7 +507,9 @@ function SettingsContent() {
               <Card className="bg-white/10 backdrop-blur border-white/20">
                 <CardHeader>
                   <CardTitle className="text-white">Discounts</CardTitle>
-                  <CardDescription className="text-white/80">Create and manage discounts</CardDescription>
+                  <CardDescription className="text-white/80">
+                    Store-wide discounts apply to every product and stack with a product&apos;s best running sale.
+                  </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-4">
                   {/* Add discount */}
@@ -220,6 +519,9 @@ function SettingsContent() {
                       onChange={(e) => setNewDiscount({ ...newDiscount, percentage: Number(e.target.value) })} />
                     <div className="flex items-center gap-3">
                       <Switch checked={newDiscount.active} onCheckedChange={(v) => setNewDiscount({ ...newDiscount, active: v })} />
+                      <Label className="text-white/80">Active</Label>
+                      <Switch checked={newDiscount.appliesToAll} onCheckedChange={(v) => setNewDiscount({ ...newDiscount, appliesToAll: v })} />
+                      <Label className="text-white/80">Store-wide</Label>
                       <Button onClick={addDiscount}><Plus className="h-4 w-4 mr-2" />Add</Button>
                     </div>
                   </div>
@@ -230,12 +532,15 @@ function SettingsContent() {
                       <div key={d.id} className="flex items-center gap-3 p-3 rounded-md border border-white/20">
                         <div className="flex-1">
                           <div className="font-semibold">{d.name}</div>
-                          <div className="text-sm text-white/80">{d.percentage}% • {d.active ? "Active" : "Inactive"}</div>
+                          <div className="text-sm text-white/80">
+                            {d.percentage}% • {d.active ? "Active" : "Inactive"}{d.appliesToAll && " • Store-wide"}
+                          </div>
                         </div>
                         <div className="flex items-center gap-3">
                           <Input className="w-28" type="number" value={d.percentage}
                             onChange={(e) => updateDiscountPercent(d.id, Number(e.target.value))} />
-                          <Switch checked={d.active} onCheckedChange={(v) => toggleDiscountActive(d.id, v)} />
+                          <Switch title="Store-wide" checked={d.appliesToAll} onCheckedChange={(v) => toggleDiscountAppliesToAll(d.id, v)} />
+                          <Switch title="Active" checked={d.active} onCheckedChange={(v) => toggleDiscountActive(d.id, v)} />
                         </div>
                       </div>
                     ))}
@@ -246,22 +551,96 @@ function SettingsContent() {
               <Card className="bg-white/10 backdrop-blur border-white/20">
                 <CardHeader>
                   <CardTitle className="text-white">Sales</CardTitle>
-                  <CardDescription className="text-white/80">Manage sale periods</CardDescription>
+                  <CardDescription className="text-white/80">
+                    Sales start and end on their own at their dates. Leave a date empty to start now or run until deleted.
+                  </CardDescription>
                 </CardHeader>
                 <CardContent className="space-y-3">
+                  {/* Schedule sale */}
+                  <div className="grid md:grid-cols-5 gap-3 items-end">
+                    <div className="space-y-1">
+                      <Label className="text-white/80">Product</Label>
+                      <Select value={newSale.productId} onValueChange={(v) => setNewSale({ ...newSale, productId: v })}>
+                        <SelectTrigger><SelectValue placeholder="Product" /></SelectTrigger>
+                        <SelectContent>
+                          {products.map((p) => <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-white/80">Discount</Label>
+                      <Select value={newSale.discountId} onValueChange={(v) => setNewSale({ ...newSale, discountId: v })}>
+                        <SelectTrigger><SelectValue placeholder="Discount" /></SelectTrigger>
+                        <SelectContent>
+                          {discounts.map((d) => <SelectItem key={d.id} value={d.id}>{d.name} ({d.percentage}%)</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-white/80">Starts</Label>
+                      <Input type="datetime-local" value={newSale.startDate} onChange={(e) => setNewSale({ ...newSale, startDate: e.target.value })} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-white/80">Ends</Label>
+                      <Input type="datetime-local" value={newSale.endDate} onChange={(e) => setNewSale({ ...newSale, endDate: e.target.value })} />
+                    </div>
+                    <Button onClick={addSale}><Plus className="h-4 w-4 mr-2" />Schedule</Button>
+                  </div>
+
                   {sales.length === 0 && <div className="text-white/70">No sales defined</div>}
-                  {sales.map((s) => (
-                    <div key={s.id} className="flex items-center gap-3 p-3 rounded-md border border-white/20">
-                      <div className="flex-1 text-sm">
-                        <div>Sale #{s.id.slice(0,8)}</div>
-                        <div className="text-white/70">Product: {s.product_id?.slice(0,8) || "-"} • Discount: {s.discount_id?.slice(0,8) || "none"}</div>
+                  {sales.map((s) => {
+                    const discount = discounts.find((d) => d.id === s.discountId)
+                    const status = isSaleRunning(s)
+                      ? "Running"
+                      : s.startDate && new Date(s.startDate) > new Date()
+                        ? `Starts ${new Date(s.startDate).toLocaleString()}`
+                        : "Ended"
+                    return (
+                      <div key={s.id} className="flex items-center gap-3 p-3 rounded-md border border-white/20">
+                        <div className="flex-1 text-sm">
+                          <div>{products.find((p) => p.id === s.productId)?.name ?? `Product #${s.productId?.slice(0, 8) || "-"}`}</div>
+                          <div className="text-white/70">
+                            {discount ? `${discount.name} (${discount.percentage}%${discount.active ? "" : ", inactive"})` : "No discount"} • {status}
+                          </div>
+                        </div>
+                        <div className="flex items-center gap-2">
+                          <CalendarIcon className="h-4 w-4" />
+                          <Input type="datetime-local" className="w-56" key={s.endDate ?? ""} defaultValue={toLocalInput(s.endDate)}
+                            title="Ends (empty: never)" onBlur={(e) => saveSaleEndDate(s, e.currentTarget)} />
+                          <Button variant="outline" onClick={() => endSaleNow(s)}><Save className="h-4 w-4 mr-2"/>End Now</Button>
+                          <Button variant="ghost" size="icon" onClick={() => removeSale(s.id)}><Trash2 className="h-4 w-4" /></Button>
+                        </div>
                       </div>
-                      <div className="flex items-center gap-2">
-                        <CalendarIcon className="h-4 w-4" />
-                        <Input type="datetime-local" className="w-56" value={s.end_date ? new Date(s.end_date).toISOString().slice(0,16) : ""}
-                          onChange={(e) => updateSaleEndDate(s.id, new Date(e.target.value).toISOString())} />
-                        <Button variant="outline" onClick={() => updateSaleEndDate(s.id, new Date().toISOString())}><Save className="h-4 w-4 mr-2"/>Save</Button>
+                    )
+                  })}
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            {/* Coupons */}
+            <TabsContent value="coupons" className="space-y-6">
+              <CouponForm products={products} onCreate={addCoupon} />
+
+              <Card className="bg-white/10 backdrop-blur border-white/20">
+                <CardHeader>
+                  <CardTitle className="text-white">Coupons</CardTitle>
+                  <CardDescription className="text-white/80">
+                    Cancelled orders give their use back. Used coupons cannot be deleted; deactivate them instead.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-2">
+                  {coupons.length === 0 && <div className="text-white/70">No coupons defined</div>}
+                  {coupons.map((coupon) => (
+                    <div key={coupon.id} className="flex items-center gap-3 p-3 rounded-md border border-white/20">
+                      <div className="flex-1 text-sm">
+                        <div className="font-semibold font-mono">
+                          {coupon.code}
+                          {coupon.description && <span className="ml-2 font-sans font-normal text-white/80">{coupon.description}</span>}
+                        </div>
+                        <div className="text-white/70">{couponRules(coupon)}</div>
                       </div>
+                      <Switch checked={coupon.active} onCheckedChange={(v) => toggleCouponActive(coupon, v)} />
+                      <Button variant="destructive" size="icon" onClick={() => removeCoupon(coupon)}><Trash2 className="h-4 w-4" /></Button>
                     </div>
                   ))}
                 </CardContent>
@@ -269,42 +648,135 @@ function SettingsContent() {
             </TabsContent>
 
             {/* Payment Methods */}
+            {/* Taxes */}
+            <TabsContent value="taxes" className="space-y-6">
+              <Card className="bg-white/10 backdrop-blur border-white/20">
+                <CardHeader>
+                  <CardTitle className="text-white">Tax Rules</CardTitle>
+                  <CardDescription className="text-white/80">
+                    All active rules for the customer&apos;s billing country apply. Countries without rules get the
+                    &quot;All other countries&quot; rules, or no tax. Inclusive taxes are already part of the prices.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  <div className="grid md:grid-cols-5 gap-3 items-end">
+                    <div className="space-y-1">
+                      <Label className="text-white/80">Name</Label>
+                      <Input placeholder="GST" value={newTaxRule.name} onChange={(e) => setNewTaxRule({ ...newTaxRule, name: e.target.value })} />
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-white/80">Country</Label>
+                      <Select value={newTaxRule.country ?? "*"} onValueChange={(v) => setNewTaxRule({ ...newTaxRule, country: v === "*" ? null : v })}>
+                        <SelectTrigger><SelectValue /></SelectTrigger>
+                        <SelectContent>
+                          <SelectItem value="*">All other countries</SelectItem>
+                          {COUNTRY_CODES.map((code) => ({ code, name: countryName(code) }))
+                            .sort((a, b) => a.name.localeCompare(b.name))
+                            .map(({ code, name }) => <SelectItem key={code} value={code}>{name}</SelectItem>)}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                    <div className="space-y-1">
+                      <Label className="text-white/80">Rate (%)</Label>
+                      <Input type="number" min={0} max={100} step="0.01" value={newTaxRule.rate}
+                        onChange={(e) => setNewTaxRule({ ...newTaxRule, rate: Number(e.target.value) })} />
+                    </div>
+                    <div className="flex items-center gap-2 pb-2">
+                      <Switch checked={newTaxRule.inclusive} onCheckedChange={(v) => setNewTaxRule({ ...newTaxRule, inclusive: v })} />
+                      <Label className="text-white/80">Included in prices</Label>
+                    </div>
+                    <Button onClick={addTaxRule}><Plus className="h-4 w-4 mr-2" />Add</Button>
+                  </div>
+
+                  <div className="space-y-2">
+                    {taxRules.length === 0 && <div className="text-white/70">No tax rules defined; no tax is charged</div>}
+                    {taxRules.map((rule) => (
+                      <div key={rule.id} className="flex items-center gap-3 p-3 rounded-md border border-white/20">
+                        <div className="flex-1">
+                          <div className="font-semibold">{rule.name} {rule.rate}%</div>
+                          <div className="text-sm text-white/80">
+                            {rule.country ? countryName(rule.country) : "All other countries"} •{" "}
+                            {rule.inclusive ? "Included in prices" : "Added at checkout"} • {rule.active ? "Active" : "Inactive"}
+                          </div>
+                        </div>
+                        <Switch checked={rule.active} onCheckedChange={(v) => toggleTaxRuleActive(rule.id, v)} />
+                        <Button variant="ghost" size="icon" onClick={() => removeTaxRule(rule)}><Trash2 className="h-4 w-4" /></Button>
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
             <TabsContent value="payments" className="space-y-6">
-              {/* Binance Pay */}
-              <PaymentCard
-                title="Binance Pay"
-                description="Manage Binance Pay QR and ID"
-                active={isActive("Binance Pay")}
-                onToggle={(v) => upsertMethod("Binance Pay", { active: v })}
-                fields={[
-                  { label: "Binance ID", value: getField("Binance Pay", "binance_id"), onChange: (v) => upsertMethod("Binance Pay", { binance_id: v }) },
-                  { label: "Binance QR URL", value: getField("Binance Pay", "binance_qr"), onChange: (v) => upsertMethod("Binance Pay", { binance_qr: v }) },
-                ]}
-              />
-
-              {/* PhonePe UPI */}
-              <PaymentCard
-                title="PhonePe UPI"
-                description="Manage UPI QR and UPI ID"
-                active={isActive("PhonePe UPI")}
-                onToggle={(v) => upsertMethod("PhonePe UPI", { active: v })}
-                fields={[
-                  { label: "UPI ID", value: getField("PhonePe UPI", "upi_id"), onChange: (v) => upsertMethod("PhonePe UPI", { upi_id: v }) },
-                  { label: "UPI QR URL", value: getField("PhonePe UPI", "upi_qr"), onChange: (v) => upsertMethod("PhonePe UPI", { upi_qr: v }) },
-                ]}
-              />
-
-              {/* PayPal */}
-              <PaymentCard
-                title="PayPal"
-                description="Manage PayPal QR and ID"
-                active={isActive("PayPal")}
-                onToggle={(v) => upsertMethod("PayPal", { active: v })}
-                fields={[
-                  { label: "PayPal ID/Email", value: getField("PayPal", "paypal_id"), onChange: (v) => upsertMethod("PayPal", { paypal_id: v }) },
-                  { label: "PayPal QR URL", value: getField("PayPal", "paypal_qr"), onChange: (v) => upsertMethod("PayPal", { paypal_qr: v }) },
-                ]}
-              />
+              {providers.map((provider) => (
+                <ProviderCard key={provider.id} provider={provider} onSave={saveProvider} onDelete={removeProvider} />
+              ))}
+
+              <Card className="bg-white/10 backdrop-blur border-white/20">
+                <CardHeader>
+                  <CardTitle className="text-white">Add Payment Method</CardTitle>
+                  <CardDescription className="text-white/80">
+                    E.g. USDT (TRC20) as a crypto wallet or a bank transfer. The type decides which transaction reference
+                    customers must enter; UPI methods get a QR code for the exact amount.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="grid md:grid-cols-3 gap-3">
+                  <Input placeholder="Display name" value={newProvider.name} onChange={(e) => setNewProvider({ ...newProvider, name: e.target.value })} />
+                  <ProviderTypeSelect value={newProvider.type} onChange={(type) => setNewProvider({ ...newProvider, type })} />
+                  <Button onClick={addProvider}><Plus className="h-4 w-4 mr-2" />Add</Button>
+                </CardContent>
+              </Card>
+            </TabsContent>
+
+            {/* Exchange Rates */}
+            <TabsContent value="currency" className="space-y-6">
+              <Card className="bg-white/10 backdrop-blur border-white/20">
+                <CardHeader>
+                  <CardTitle className="text-white">Exchange Rates</CardTitle>
+                  <CardDescription className="text-white/80">
+                    Prices are in {STORE_CURRENCY}. Payment methods in another currency show customers the total converted
+                    with the rate in effect, and the order keeps that rate. Add a new rate to change it; past rates stay for
+                    reference.
+                  </CardDescription>
+                </CardHeader>
+                <CardContent className="space-y-4">
+                  {missingRates.length > 0 && (
+                    <p className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">
+                      No rate set for {missingRates.join(", ")}. Payment methods in {missingRates.length === 1 ? "this currency" : "these currencies"} are
+                      not offered at checkout.
+                    </p>
+                  )}
+                  <div className="grid md:grid-cols-4 gap-3">
+                    <Input placeholder="Currency (e.g. INR)" value={newRate.currency} onChange={(e) => setNewRate({ ...newRate, currency: e.target.value.toUpperCase() })} />
+                    <Input type="number" min={0} step="any" placeholder={`Units per 1 ${STORE_CURRENCY}`} value={newRate.rate}
+                      onChange={(e) => setNewRate({ ...newRate, rate: e.target.value })} />
+                    <Input type="datetime-local" value={newRate.effectiveFrom} title="Effective from (empty: now)"
+                      onChange={(e) => setNewRate({ ...newRate, effectiveFrom: e.target.value })} />
+                    <Button onClick={addExchangeRate}><Plus className="h-4 w-4 mr-2" />Add Rate</Button>
+                  </div>
+                  {exchangeRates.length === 0 && <div className="text-white/70">No exchange rates defined</div>}
+                  {exchangeRates.map((rate) => {
+                    const current = findExchangeRate(exchangeRates, rate.currency)?.id === rate.id
+                    const upcoming = new Date(rate.effectiveFrom) > new Date()
+                    return (
+                      <div key={rate.id} className="flex items-center gap-3 p-3 rounded-md border border-white/20">
+                        <div className="flex-1 text-sm">
+                          <div className="font-semibold">
+                            1 {STORE_CURRENCY} = {rate.rate} {rate.currency}
+                            {current && <span className="ml-2 text-green-400">current</span>}
+                            {upcoming && <span className="ml-2 text-yellow-300">scheduled</span>}
+                          </div>
+                          <div className="text-white/70">
+                            From {new Date(rate.effectiveFrom).toLocaleString()} • {formatMoney(100)} = {formatMoney(100 * rate.rate, rate.currency)}
+                          </div>
+                        </div>
+                        <Button variant="destructive" size="icon" onClick={() => removeExchangeRate(rate)}><Trash2 className="h-4 w-4" /></Button>
+                      </div>
+                    )
+                  })}
+                </CardContent>
+              </Card>
             </TabsContent>
           </Tabs>
         </div>
@@ -313,40 +785,243 @@ function SettingsContent() {
   )
 }
 
-function PaymentCard({
-  title,
-  description,
-  active,
-  onToggle,
-  fields,
+const EMPTY_COUPON = {
+  code: "",
+  description: "",
+  type: "percentage" as CouponType,
+  value: "",
+  startsAt: "",
+  endsAt: "",
+  maxUses: "",
+  maxUsesPerUser: "",
+  minOrderValue: "",
+  productIds: [] as string[],
+  categories: [] as string[],
+  firstOrderOnly: false,
+}
+
+function CouponForm({ products, onCreate }: { products: Product[]; onCreate: (input: CouponInput) => Promise<boolean> }) {
+  const [draft, setDraft] = useState(EMPTY_COUPON)
+  const categories = Array.from(new Set(products.map((p) => p.category))).sort()
+
+  const optionalNumber = (value: string) => (value.trim() === "" ? null : Number(value))
+  const optionalDate = (value: string) => (value ? new Date(value).toISOString() : null)
+  const toggle = (list: string[], value: string) => (list.includes(value) ? list.filter((v) => v !== value) : [...list, value])
+
+  const submit = async () => {
+    const created = await onCreate({
+      code: draft.code,
+      description: draft.description.trim(),
+      type: draft.type,
+      value: Number(draft.value),
+      startsAt: optionalDate(draft.startsAt),
+      endsAt: optionalDate(draft.endsAt),
+      maxUses: optionalNumber(draft.maxUses),
+      maxUsesPerUser: optionalNumber(draft.maxUsesPerUser),
+      minOrderValue: Number(draft.minOrderValue) || 0,
+      productIds: draft.productIds,
+      categories: draft.categories,
+      firstOrderOnly: draft.firstOrderOnly,
+      active: true,
+    })
+    if (created) setDraft(EMPTY_COUPON)
+  }
+
+  return (
+    <Card className="bg-white/10 backdrop-blur border-white/20">
+      <CardHeader>
+        <CardTitle className="text-white">Add Coupon</CardTitle>
+        <CardDescription className="text-white/80">
+          Customers enter the code at checkout. The discount applies after sale prices, to the selected products and
+          categories or to the whole cart when none are selected.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid md:grid-cols-4 gap-3">
+          <Input placeholder="Code (e.g. SUMMER10)" className="font-mono" value={draft.code}
+            onChange={(e) => setDraft({ ...draft, code: e.target.value.toUpperCase() })} />
+          <Input placeholder="Description (e.g. influencer name)" value={draft.description}
+            onChange={(e) => setDraft({ ...draft, description: e.target.value })} />
+          <Select value={draft.type} onValueChange={(v) => setDraft({ ...draft, type: v as CouponType })}>
+            <SelectTrigger className="w-full">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              <SelectItem value="percentage">Percentage off</SelectItem>
+              <SelectItem value="fixed">Fixed amount off ({STORE_CURRENCY})</SelectItem>
+            </SelectContent>
+          </Select>
+          <Input type="number" min={0} step="any" placeholder={draft.type === "percentage" ? "Percent" : `Amount in ${STORE_CURRENCY}`}
+            value={draft.value} onChange={(e) => setDraft({ ...draft, value: e.target.value })} />
+        </div>
+        <div className="grid md:grid-cols-4 gap-3">
+          <div className="space-y-2">
+            <Label>Starts</Label>
+            <Input type="datetime-local" value={draft.startsAt} onChange={(e) => setDraft({ ...draft, startsAt: e.target.value })} />
+          </div>
+          <div className="space-y-2">
+            <Label>Ends</Label>
+            <Input type="datetime-local" value={draft.endsAt} onChange={(e) => setDraft({ ...draft, endsAt: e.target.value })} />
+          </div>
+          <div className="space-y-2">
+            <Label>Total Uses</Label>
+            <Input type="number" min={1} placeholder="Unlimited" value={draft.maxUses}
+              onChange={(e) => setDraft({ ...draft, maxUses: e.target.value })} />
+          </div>
+          <div className="space-y-2">
+            <Label>Uses per Customer</Label>
+            <Input type="number" min={1} placeholder="Unlimited" value={draft.maxUsesPerUser}
+              onChange={(e) => setDraft({ ...draft, maxUsesPerUser: e.target.value })} />
+          </div>
+        </div>
+        <div className="grid md:grid-cols-4 gap-3 items-end">
+          <div className="space-y-2">
+            <Label>Minimum Order ({STORE_CURRENCY})</Label>
+            <Input type="number" min={0} step="any" placeholder="No minimum" value={draft.minOrderValue}
+              onChange={(e) => setDraft({ ...draft, minOrderValue: e.target.value })} />
+          </div>
+          <div className="flex items-center gap-3 pb-2">
+            <Switch checked={draft.firstOrderOnly} onCheckedChange={(v) => setDraft({ ...draft, firstOrderOnly: v })} />
+            <Label>First order only</Label>
+          </div>
+        </div>
+        {categories.length > 0 && (
+          <div className="space-y-2">
+            <Label>Categories</Label>
+            <div className="flex flex-wrap gap-2">
+              {categories.map((category) => (
+                <Button key={category} size="sm" variant={draft.categories.includes(category) ? "default" : "outline"}
+                  onClick={() => setDraft({ ...draft, categories: toggle(draft.categories, category) })}>
+                  {category}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+        {products.length > 0 && (
+          <div className="space-y-2">
+            <Label>Products</Label>
+            <div className="flex flex-wrap gap-2">
+              {products.map((product) => (
+                <Button key={product.id} size="sm" variant={draft.productIds.includes(product.id) ? "default" : "outline"}
+                  onClick={() => setDraft({ ...draft, productIds: toggle(draft.productIds, product.id) })}>
+                  {product.name}
+                </Button>
+              ))}
+            </div>
+          </div>
+        )}
+        <div className="flex justify-end">
+          <Button onClick={submit}><Plus className="h-4 w-4 mr-2" />Add Coupon</Button>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+function ProviderTypeSelect({ value, onChange }: { value: PaymentProviderType; onChange: (type: PaymentProviderType) => void }) {
+  return (
+    <Select value={value} onValueChange={(v) => onChange(v as PaymentProviderType)}>
+      <SelectTrigger className="w-full">
+        <SelectValue />
+      </SelectTrigger>
+      <SelectContent>
+        {(Object.keys(PROVIDER_TYPE_LABELS) as PaymentProviderType[]).map((type) => (
+          <SelectItem key={type} value={type}>{PROVIDER_TYPE_LABELS[type]}</SelectItem>
+        ))}
+      </SelectContent>
+    </Select>
+  )
+}
+
+function ProviderCard({
+  provider,
+  onSave,
+  onDelete,
 }: {
-  title: string
-  description: string
-  active: boolean
-  onToggle: (v: boolean) => void
-  fields: { label: string; value: string; onChange: (v: string) => void }[]
+  provider: PaymentProvider
+  onSave: (provider: PaymentProvider, updates: PaymentProviderUpdate) => void
+  onDelete: (provider: PaymentProvider) => void
 }) {
-  const [localActive, setLocalActive] = useState(active)
-  useEffect(() => setLocalActive(active), [active])
+  const [draft, setDraft] = useState(provider)
+  useEffect(() => setDraft(provider), [provider])
+
+  const amountField = (value: number | null) => (value === null ? "" : String(value))
+  const parseAmount = (value: string) => (value.trim() === "" ? null : Number(value))
+
+  const fields: { label: string; value: string; onChange: (v: string) => void; placeholder?: string }[] = [
+    { label: "Display Name", value: draft.name, onChange: (v) => setDraft({ ...draft, name: v }) },
+    {
+      label: draft.type === "upi" ? "UPI ID (VPA)" : "Account Identifier",
+      value: draft.accountId,
+      onChange: (v) => setDraft({ ...draft, accountId: v }),
+      placeholder: draft.type === "upi" ? "e.g. shop@ybl" : "Wallet address, account number, email...",
+    },
+    {
+      label: draft.type === "upi" ? "Fallback QR URL" : "QR Code URL",
+      value: draft.qrCode,
+      onChange: (v) => setDraft({ ...draft, qrCode: v }),
+    },
+    { label: "Currency", value: draft.currency, onChange: (v) => setDraft({ ...draft, currency: v.toUpperCase() }) },
+    { label: "Minimum Amount", value: amountField(draft.minAmount), onChange: (v) => setDraft({ ...draft, minAmount: parseAmount(v) }), placeholder: "No minimum" },
+    { label: "Maximum Amount", value: amountField(draft.maxAmount), onChange: (v) => setDraft({ ...draft, maxAmount: parseAmount(v) }), placeholder: "No maximum" },
+    { label: "Sort Order", value: String(draft.sortOrder), onChange: (v) => setDraft({ ...draft, sortOrder: Number(v) || 0 }) },
+  ]
+
+  const save = () => {
+    const { id, key, createdAt, ...updates } = draft
+    onSave(provider, updates)
+  }
 
   return (
     <Card className="bg-white/10 backdrop-blur border-white/20">
       <CardHeader>
-        <div className="flex items-center justify-between">
+        <div className="flex items-center justify-between gap-4">
           <div>
-            <CardTitle className="text-white">{title}</CardTitle>
-            <CardDescription className="text-white/80">{description}</CardDescription>
+            <CardTitle className="text-white">{provider.name}</CardTitle>
+            <CardDescription className="text-white/80">
+              {PROVIDER_TYPE_LABELS[provider.type]} • {GATEWAY_LABELS[provider.gateway]} • key{" "}
+              <span className="font-mono">{provider.key}</span>
+            </CardDescription>
           </div>
-          <Switch checked={localActive} onCheckedChange={(v) => { setLocalActive(v); onToggle(v) }} />
+          <Switch checked={draft.active} onCheckedChange={(v) => { setDraft({ ...draft, active: v }); onSave(provider, { active: v }) }} />
         </div>
       </CardHeader>
-      <CardContent className="grid md:grid-cols-2 gap-4">
-        {fields.map((f) => (
-          <div key={f.label} className="space-y-2">
-            <Label>{f.label}</Label>
-            <Input value={f.value || ""} onChange={(e) => f.onChange(e.target.value)} placeholder={`Enter ${f.label}`} />
+      <CardContent className="space-y-4">
+        <div className="grid md:grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label>Type</Label>
+            <ProviderTypeSelect value={draft.type} onChange={(type) => setDraft({ ...draft, type })} />
           </div>
-        ))}
+          <div className="space-y-2">
+            <Label>Gateway</Label>
+            <Select value={draft.gateway} onValueChange={(v) => setDraft({ ...draft, gateway: v as GatewayId })}>
+              <SelectTrigger className="w-full">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {GATEWAY_IDS.map((gateway) => (
+                  <SelectItem key={gateway} value={gateway}>{GATEWAY_LABELS[gateway]}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          {fields.map((f) => (
+            <div key={f.label} className="space-y-2">
+              <Label>{f.label}</Label>
+              <Input value={f.value} onChange={(e) => f.onChange(e.target.value)} placeholder={f.placeholder ?? `Enter ${f.label}`} />
+            </div>
+          ))}
+        </div>
+        <div className="space-y-2">
+          <Label>Instructions</Label>
+          <Textarea value={draft.instructions} onChange={(e) => setDraft({ ...draft, instructions: e.target.value })} rows={2}
+            placeholder="Shown to customers at checkout" />
+        </div>
+        <div className="flex gap-2 justify-end">
+          <Button variant="destructive" onClick={() => onDelete(provider)}><Trash2 className="h-4 w-4 mr-2" />Delete</Button>
+          <Button onClick={save}><Save className="h-4 w-4 mr-2" />Save</Button>
+        </div>
       </CardContent>
     </Card>
   )
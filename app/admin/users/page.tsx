@@ -8,31 +8,24 @@ import { AdminGuard } from "@/components/admin-guard"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Badge } from "@/components/ui/badge"
 import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
-import { createClient } from "@/lib/supabase/client"
+import { subscribeToTables } from "@/lib/backend"
+import { getUsers, USERS_KEY, USERS_TABLE, type User } from "@/lib/users"
 
 export default function AdminUsersPage() {
-  const [users, setUsers] = useState<Array<{id:string;name:string;email:string;role?:string;created_at?:string}>>([])
+  const [users, setUsers] = useState<User[]>([])
 
   useEffect(() => {
-    const supabase = createClient()
     const load = async () => {
-      const { data, error } = await supabase
-        .from('users')
-        .select('id, name, email, role, created_at')
-        .order('created_at', { ascending: false })
-      if (!error) setUsers(data || [])
+      try {
+        setUsers(await getUsers())
+      } catch (error) {
+        console.error("[admin] Failed to load users", error)
+      }
     }
     load()
 
     // Realtime: refresh on users change
-    const channel = supabase
-      .channel('admin-users')
-      .on('postgres_changes', { event: '*', schema: 'public', table: 'users' }, () => load())
-      .subscribe()
-
-    return () => {
-      supabase.removeChannel(channel)
-    }
+    return subscribeToTables([USERS_TABLE], [USERS_KEY], () => load())
   }, [])
 
   return (
@@ -74,7 +67,7 @@ export default function AdminUsersPage() {
                       <TableCell>
                         <div className="flex items-center gap-2">
                           <Calendar className="h-4 w-4 text-muted-foreground" />
-                          {new Date((user as any).created_at ?? (user as any).createdAt ?? new Date().toISOString()).toLocaleDateString()}
+                          {new Date(user.createdAt).toLocaleDateString()}
                         </div>
                       </TableCell>
                     </TableRow>
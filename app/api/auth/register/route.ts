@@ -0,0 +1,53 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { setSessionCookie } from "@/lib/session"
+import { userFromRow } from "@/lib/users"
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+const registerSchema = z.object({
+  email: z.string().trim().email("Enter a valid email"),
+  name: z.string().trim().min(1, "Enter your name").max(200),
+  password: z.string().min(6, "Password must be at least 6 characters"),
+})
+
+/**
+ * Create a customer account through `register_user` (scripts/032_server_side_writes.sql),
+ * which hashes the password and always stores the role "user", then sign it in.
+ * Admins are only made in the database.
+ */
+export async function POST(request: Request) {
+  const parsed = registerSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) return errorResponse(parsed.error.issues[0]?.message ?? "Invalid request", 400)
+  const { email, name, password } = parsed.data
+
+  let supabase
+  try {
+    supabase = createAdminClient()
+  } catch (configError) {
+    console.error("[api/auth/register] the service role key is not configured", configError)
+    return errorResponse("Sign-up is not configured", 500)
+  }
+
+  const { data, error } = await supabase
+    .rpc("register_user", { p_email: email, p_name: name, p_password: password })
+    .single()
+  if (error) {
+    if (error.code === "P0001") return errorResponse(error.message, 409)
+    console.error("[api/auth/register] registration failed", error)
+    return errorResponse("Could not create your account", 500)
+  }
+
+  const user = userFromRow(data)
+  const response = NextResponse.json({ user }, { status: 201 })
+  try {
+    setSessionCookie(response, user)
+  } catch (configError) {
+    console.error("[api/auth/register] sessions are not configured", configError)
+    return errorResponse("Sign-up is not configured", 500)
+  }
+  return response
+}
@@ -0,0 +1,59 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { clearSessionCookie, setSessionCookie } from "@/lib/session"
+import { userFromRow } from "@/lib/users"
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+const loginSchema = z.object({
+  email: z.string().trim().min(1, "Enter your email"),
+  password: z.string().min(1, "Enter your password"),
+})
+
+/**
+ * Sign in: `authenticate_user` (scripts/032_server_side_writes.sql) checks the password
+ * against its bcrypt hash, and the signed, HttpOnly session cookie from lib/session.ts
+ * gets the role stored on that row, which only the service role can change.
+ */
+export async function POST(request: Request) {
+  const parsed = loginSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) return errorResponse(parsed.error.issues[0]?.message ?? "Invalid request", 400)
+  const { email, password } = parsed.data
+
+  let supabase
+  try {
+    supabase = createAdminClient()
+  } catch (configError) {
+    console.error("[api/auth/session] the service role key is not configured", configError)
+    return errorResponse("Sign-in is not configured", 500)
+  }
+
+  const { data, error } = await supabase
+    .rpc("authenticate_user", { p_email: email, p_password: password })
+    .maybeSingle()
+  if (error) {
+    console.error("[api/auth/session] authentication failed", error)
+    return errorResponse("Could not sign you in", 500)
+  }
+  if (!data) return errorResponse("Invalid email or password", 401)
+
+  const user = userFromRow(data)
+  const response = NextResponse.json({ user })
+  try {
+    setSessionCookie(response, user)
+  } catch (configError) {
+    console.error("[api/auth/session] sessions are not configured", configError)
+    return errorResponse("Sign-in is not configured", 500)
+  }
+  return response
+}
+
+/** Sign out: drops the session cookie. */
+export async function DELETE() {
+  const response = NextResponse.json({ ok: true })
+  clearSessionCookie(response)
+  return response
+}
@@ -0,0 +1,71 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { COUPONS_TABLE, couponFromRow, couponInputSchema, couponToRow, CouponError, validateCoupon } from "@/lib/coupons"
+import { getAdminSession } from "@/lib/session"
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+function adminDatabase() {
+  try {
+    return createAdminClient()
+  } catch (configError) {
+    console.error("[api/coupons] the service role key is not configured", configError)
+    return null
+  }
+}
+
+/** Change some of a coupon's fields; the result must still pass the coupon rules. Admin only. */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  if (!getAdminSession(request)) return errorResponse("Admin access required", 403)
+
+  const parsed = couponInputSchema.partial().safeParse(await request.json().catch(() => null))
+  if (!parsed.success) return errorResponse(parsed.error.issues[0]?.message ?? "Invalid coupon", 400)
+
+  const supabase = adminDatabase()
+  if (!supabase) return errorResponse("Coupons are not configured", 500)
+
+  const { id } = await params
+  const { data: current, error: loadError } = await supabase.from(COUPONS_TABLE).select("*").eq("id", id).maybeSingle()
+  if (loadError) {
+    console.error("[api/coupons] coupon lookup failed", loadError)
+    return errorResponse("Could not load the coupon", 500)
+  }
+  if (!current) return errorResponse("Coupon not found", 404)
+
+  try {
+    validateCoupon({ ...couponFromRow(current), ...parsed.data })
+  } catch (error) {
+    if (error instanceof CouponError) return errorResponse(error.message, 400)
+    throw error
+  }
+
+  const { error } = await supabase.from(COUPONS_TABLE).update(couponToRow(parsed.data)).eq("id", id)
+  if (error?.code === "23505") return errorResponse("Another coupon already has this code", 409)
+  if (error) {
+    console.error("[api/coupons] updating the coupon failed", error)
+    return errorResponse("Could not update the coupon", 500)
+  }
+
+  return NextResponse.json({ ok: true })
+}
+
+/** Delete a coupon that was never redeemed. Admin only. */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  if (!getAdminSession(request)) return errorResponse("Admin access required", 403)
+
+  const supabase = adminDatabase()
+  if (!supabase) return errorResponse("Coupons are not configured", 500)
+
+  const { id } = await params
+  const { error } = await supabase.from(COUPONS_TABLE).delete().eq("id", id)
+  // coupon_redemptions keeps redeemed coupons; those are deactivated instead
+  if (error?.code === "23503") return errorResponse("This coupon was already used. Deactivate it instead.", 409)
+  if (error) {
+    console.error("[api/coupons] deleting the coupon failed", error)
+    return errorResponse("Could not delete the coupon", 500)
+  }
+
+  return NextResponse.json({ ok: true })
+}
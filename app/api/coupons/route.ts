@@ -0,0 +1,54 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import {
+  COUPONS_TABLE,
+  CouponError,
+  couponFromRow,
+  couponInputSchema,
+  couponToRow,
+  normalizeCouponCode,
+  validateCoupon,
+} from "@/lib/coupons"
+import { getAdminSession } from "@/lib/session"
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+/**
+ * Create a coupon. Admin only: coupons and coupon_redemptions are read-only with the
+ * anon key (scripts/032_server_side_writes.sql), since the order API trusts them.
+ */
+export async function POST(request: NextRequest) {
+  const session = getAdminSession(request)
+  if (!session) return errorResponse("Admin access required", 403)
+
+  const parsed = couponInputSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) return errorResponse(parsed.error.issues[0]?.message ?? "Invalid coupon", 400)
+  try {
+    validateCoupon(parsed.data)
+  } catch (error) {
+    if (error instanceof CouponError) return errorResponse(error.message, 400)
+    throw error
+  }
+
+  let supabase
+  try {
+    supabase = createAdminClient()
+  } catch (configError) {
+    console.error("[api/coupons] the service role key is not configured", configError)
+    return errorResponse("Coupons are not configured", 500)
+  }
+
+  const { data, error } = await supabase.from(COUPONS_TABLE).insert(couponToRow(parsed.data)).select("*").single()
+  // Unique index on code
+  if (error?.code === "23505") {
+    return errorResponse(`The code ${normalizeCouponCode(parsed.data.code)} already exists`, 409)
+  }
+  if (error) {
+    console.error("[api/coupons] creating the coupon failed", error)
+    return errorResponse("Could not create the coupon", 500)
+  }
+
+  return NextResponse.json({ coupon: couponFromRow(data) }, { status: 201 })
+}
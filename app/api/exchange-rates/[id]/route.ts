@@ -0,0 +1,31 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { EXCHANGE_RATES_TABLE } from "@/lib/currency"
+import { getAdminSession } from "@/lib/session"
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+/** Delete an exchange rate. Admin only. */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = getAdminSession(request)
+  if (!session) return errorResponse("Admin access required", 403)
+
+  let supabase
+  try {
+    supabase = createAdminClient()
+  } catch (configError) {
+    console.error("[api/exchange-rates] the service role key is not configured", configError)
+    return errorResponse("Exchange rates are not configured", 500)
+  }
+
+  const { id } = await params
+  const { error } = await supabase.from(EXCHANGE_RATES_TABLE).delete().eq("id", id)
+  if (error) {
+    console.error("[api/exchange-rates] deleting the rate failed", error)
+    return errorResponse("Could not delete the exchange rate", 500)
+  }
+
+  return NextResponse.json({ ok: true })
+}
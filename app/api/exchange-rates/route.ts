@@ -0,0 +1,53 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { z } from "zod"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { EXCHANGE_RATES_TABLE, exchangeRateFromRow, isCurrencyCode, STORE_CURRENCY } from "@/lib/currency"
+import { getAdminSession } from "@/lib/session"
+
+const rateSchema = z.object({
+  currency: z
+    .string()
+    .trim()
+    .toUpperCase()
+    .refine(isCurrencyCode, "Enter a currency code such as INR or USDT")
+    .refine((currency) => currency !== STORE_CURRENCY, `${STORE_CURRENCY} is the store currency`),
+  rate: z.number().positive("The rate must be greater than zero"),
+  effectiveFrom: z.string().datetime({ offset: true, message: "Choose when the rate takes effect" }),
+})
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+/**
+ * Add an exchange rate. Admin only: exchange_rates is read-only with the anon key
+ * (scripts/032_server_side_writes.sql), since checkout converts totals with it.
+ */
+export async function POST(request: NextRequest) {
+  const session = getAdminSession(request)
+  if (!session) return errorResponse("Admin access required", 403)
+
+  const parsed = rateSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) return errorResponse(parsed.error.issues[0]?.message ?? "Invalid exchange rate", 400)
+  const { currency, rate, effectiveFrom } = parsed.data
+
+  let supabase
+  try {
+    supabase = createAdminClient()
+  } catch (configError) {
+    console.error("[api/exchange-rates] the service role key is not configured", configError)
+    return errorResponse("Exchange rates are not configured", 500)
+  }
+
+  const { data, error } = await supabase
+    .from(EXCHANGE_RATES_TABLE)
+    .insert({ base_currency: STORE_CURRENCY, currency, rate, effective_from: effectiveFrom })
+    .select("*")
+    .single()
+  if (error) {
+    console.error("[api/exchange-rates] saving the rate failed", error)
+    return errorResponse("Could not save the exchange rate", 500)
+  }
+
+  return NextResponse.json({ rate: exchangeRateFromRow(data) }, { status: 201 })
+}
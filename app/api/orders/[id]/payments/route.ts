@@ -0,0 +1,56 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { z } from "zod"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { getAdminSession } from "@/lib/session"
+
+const paymentSchema = z.object({
+  // In the order's payment currency
+  amount: z.number().positive("Enter the amount you received"),
+  overpayment: z.enum(["store_credit", "refund"]),
+  changedBy: z.object({ name: z.string() }).optional(),
+  notes: z.string().max(1000).optional(),
+})
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+/**
+ * Record money received for a manual payment through `record_order_payment`
+ * (scripts/020_partial_payments.sql), which decides the new status and handles any
+ * overpayment. Admin only.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = getAdminSession(request)
+  if (!session) return errorResponse("Admin access required", 403)
+
+  const parsed = paymentSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) return errorResponse(parsed.error.issues[0]?.message ?? "Invalid payment", 400)
+  const { amount, overpayment, changedBy, notes } = parsed.data
+
+  let supabase
+  try {
+    supabase = createAdminClient()
+  } catch (configError) {
+    console.error("[api/orders/payments] the service role key is not configured", configError)
+    return errorResponse("Order updates are not configured", 500)
+  }
+
+  const { id } = await params
+  const { error } = await supabase.rpc("record_order_payment", {
+    p_order_id: id,
+    p_amount: amount,
+    p_overpayment: overpayment,
+    p_recorded_by: session.userId,
+    p_recorded_by_name: changedBy?.name ?? null,
+    p_notes: notes || null,
+  })
+  // P0001: the order stopped awaiting payment in the meantime
+  if (error?.code === "P0001") return errorResponse(error.message, 409)
+  if (error) {
+    console.error("[api/orders/payments] recording the payment failed", error)
+    return errorResponse("Could not record the payment", 500)
+  }
+
+  return NextResponse.json({ recorded: true }, { status: 201 })
+}
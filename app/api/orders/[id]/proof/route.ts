@@ -0,0 +1,52 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { createClient } from "@/lib/supabase/server"
+import { createEnhancedAdminClient } from "@/lib/supabase/enhanced-client"
+import { getAdminSession } from "@/lib/session"
+import { PAYMENT_PROOFS_BUCKET, PAYMENT_PROOFS_TABLE, PROOF_URL_TTL_SECONDS } from "@/lib/payment-proofs"
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+/**
+ * Signed URL for an order's payment proof. Admin only, checked against the signed
+ * session cookie from /api/auth/session.
+ */
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  if (!getAdminSession(request)) return errorResponse("Admin access required", 403)
+
+  const { id } = await params
+  const supabase = await createClient()
+  const { data: proof, error } = await supabase
+    .from(PAYMENT_PROOFS_TABLE)
+    .select("file_path")
+    .eq("order_id", id)
+    .order("created_at", { ascending: false })
+    .limit(1)
+    .maybeSingle()
+  if (error) {
+    console.error("[api/orders/proof] lookup failed", error)
+    return errorResponse("Could not load payment proof", 500)
+  }
+  if (!proof) return errorResponse("No payment proof for this order", 404)
+
+  let storage
+  try {
+    storage = createEnhancedAdminClient("api/orders/proof").storage
+  } catch (configError) {
+    console.error("[api/orders/proof] payment proof storage is not configured", configError)
+    return errorResponse("Payment proof storage is not configured", 500)
+  }
+
+  const { data: signed, error: signError } = await storage.createSignedUrl(
+    PAYMENT_PROOFS_BUCKET,
+    proof.file_path,
+    PROOF_URL_TTL_SECONDS,
+  )
+  if (signError || !signed) {
+    console.error("[api/orders/proof] signing failed", signError)
+    return errorResponse("Could not load payment proof", 500)
+  }
+
+  return NextResponse.json({ url: signed.signedUrl, expiresIn: PROOF_URL_TTL_SECONDS })
+}
@@ -0,0 +1,93 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { z } from "zod"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { canTransition, ORDERS_TABLE, type OrderStatus } from "@/lib/orders"
+import { getPaymentGateway, PaymentGatewayError } from "@/lib/payment-gateways"
+import { getAdminSession } from "@/lib/session"
+
+const refundSchema = z.object({
+  // The status the admin saw, so a refund is not applied to an order that changed meanwhile
+  fromStatus: z.string(),
+  changedBy: z.object({ name: z.string() }).optional(),
+  notes: z.string().max(1000).optional(),
+})
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+/**
+ * Refund an order through its payment gateway, then mark it refunded. Admin only.
+ * Manual payments are refunded by hand and only need the status change, which the
+ * admin UI sends to ../status.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = getAdminSession(request)
+  if (!session) return errorResponse("Admin access required", 403)
+
+  const parsed = refundSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) return errorResponse("Invalid refund request", 400)
+  const { fromStatus, changedBy, notes } = parsed.data
+
+  const { id } = await params
+  let supabase
+  try {
+    supabase = createAdminClient()
+  } catch (configError) {
+    console.error("[api/orders/refund] the service role key is not configured", configError)
+    return errorResponse("Refunds are not configured", 500)
+  }
+  const { data: order, error } = await supabase
+    .from(ORDERS_TABLE)
+    .select(
+      "id, status, total_amount, currency, payment_amount, payment_currency, transaction_reference, payment_providers:payment_method ( gateway )",
+    )
+    .eq("id", id)
+    .maybeSingle()
+  if (error) {
+    console.error("[api/orders/refund] order lookup failed", error)
+    return errorResponse("Could not load the order", 500)
+  }
+  if (!order) return errorResponse("Order not found", 404)
+
+  const status = order.status as OrderStatus
+  if (status !== fromStatus || !canTransition(status, "refunded")) {
+    return errorResponse(`An order cannot go from ${status} to refunded`, 409)
+  }
+
+  const gatewayId = (order.payment_providers as { gateway?: string } | null)?.gateway ?? "manual"
+  const gateway = getPaymentGateway(gatewayId)
+  if (!gateway) return errorResponse(`Payment gateway "${gatewayId}" is not available`, 409)
+
+  let refund
+  try {
+    refund = await gateway.refund({
+      orderId: order.id,
+      paymentId: order.transaction_reference,
+      // Refund what the customer actually paid, in the currency they paid in
+      amount: Number(order.payment_amount ?? order.total_amount) || 0,
+      currency: order.payment_currency ?? order.currency,
+    })
+  } catch (refundError) {
+    console.error(`[api/orders/refund] ${gateway.name} refund failed`, refundError)
+    const message = refundError instanceof PaymentGatewayError ? refundError.message : "Please try again"
+    return errorResponse(`${gateway.name} could not refund the payment: ${message}`, 502)
+  }
+
+  const { refundId } = refund
+  const { error: statusError } = await supabase.rpc("change_order_status", {
+    p_order_id: order.id,
+    p_from_status: status,
+    p_to_status: "refunded",
+    p_changed_by: session.userId,
+    p_changed_by_name: changedBy?.name ?? null,
+    p_notes: [refundId && `${gateway.name} refund ${refundId}`, notes].filter(Boolean).join(". ") || null,
+  })
+  if (statusError) {
+    // The money went back already; the admin has to mark the order refunded by hand
+    console.error("[api/orders/refund] refunded but status change failed", { refundId, statusError })
+    return errorResponse(`Refunded${refundId ? ` (${refundId})` : ""}, but the order status could not be updated`, 500)
+  }
+
+  return NextResponse.json({ refundId })
+}
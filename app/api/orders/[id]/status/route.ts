@@ -0,0 +1,62 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { z } from "zod"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { canTransition, ORDER_TRANSITIONS, type OrderStatus } from "@/lib/orders"
+import { getAdminSession } from "@/lib/session"
+
+const ORDER_STATUSES = Object.keys(ORDER_TRANSITIONS) as [OrderStatus, ...OrderStatus[]]
+
+const statusSchema = z.object({
+  // The status the admin saw, so the change is not applied to an order that changed meanwhile
+  fromStatus: z.enum(ORDER_STATUSES),
+  toStatus: z.enum(ORDER_STATUSES),
+  changedBy: z.object({ name: z.string() }).optional(),
+  notes: z.string().max(1000).optional(),
+})
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+/**
+ * Move an order to another status through `change_order_status`
+ * (scripts/032_server_side_writes.sql), which checks the transition graph again and
+ * writes the history row. Admin only. Gateway refunds go through ../refund instead.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = getAdminSession(request)
+  if (!session) return errorResponse("Admin access required", 403)
+
+  const parsed = statusSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) return errorResponse("Invalid status change", 400)
+  const { fromStatus, toStatus, changedBy, notes } = parsed.data
+  if (!canTransition(fromStatus, toStatus)) {
+    return errorResponse(`An order cannot go from ${fromStatus} to ${toStatus}`, 409)
+  }
+
+  let supabase
+  try {
+    supabase = createAdminClient()
+  } catch (configError) {
+    console.error("[api/orders/status] the service role key is not configured", configError)
+    return errorResponse("Order updates are not configured", 500)
+  }
+
+  const { id } = await params
+  const { error } = await supabase.rpc("change_order_status", {
+    p_order_id: id,
+    p_from_status: fromStatus,
+    p_to_status: toStatus,
+    p_changed_by: session.userId,
+    p_changed_by_name: changedBy?.name ?? null,
+    p_notes: notes || null,
+  })
+  // P0001: the order changed in the meantime, or the transition is not allowed
+  if (error?.code === "P0001") return errorResponse(error.message, 409)
+  if (error) {
+    console.error("[api/orders/status] status change failed", error)
+    return errorResponse("Could not update the order", 500)
+  }
+
+  return NextResponse.json({ status: toStatus })
+}
@@ -0,0 +1,129 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { z } from "zod"
+import { createClient } from "@/lib/supabase/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { createEnhancedAdminClient } from "@/lib/supabase/enhanced-client"
+import { ORDERS_TABLE } from "@/lib/orders"
+import {
+  PAYMENT_PROOFS_BUCKET,
+  PROOF_HASH_MAX_DISTANCE,
+  proofStoragePath,
+  ProofValidationError,
+  sanitizeProof,
+  sha256Hex,
+} from "@/lib/payment-proofs"
+import { proofPerceptualHash } from "@/lib/payment-proof-hash"
+import { normalizeReference } from "@/lib/payment-references"
+import { getSession } from "@/lib/session"
+
+const topUpRequestSchema = z.object({
+  transactionReference: z.string().max(64).default("").transform(normalizeReference),
+})
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+/**
+ * Submit a top-up payment proof for a partially paid order of the signed-in customer.
+ * Expects multipart form data with an optional `transactionReference`, a
+ * `paymentProof` image, like POST /api/orders.
+ *
+ * The proof is sanitized and stored the same way as at checkout; `submit_top_up_proof`
+ * (scripts/020_partial_payments.sql) then records it and puts the order back to
+ * pending for an admin to record the amount received.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = getSession(request)
+  if (!session) return errorResponse("Please sign in again to submit a top-up", 401)
+  const userId = session.userId
+  const { id } = await params
+
+  let form: FormData
+  try {
+    form = await request.formData()
+  } catch {
+    return errorResponse("Expected form data", 400)
+  }
+
+  const parsed = topUpRequestSchema.safeParse({
+    transactionReference: form.get("transactionReference") ?? undefined,
+  })
+  if (!parsed.success) {
+    return errorResponse(parsed.error.issues[0]?.message ?? "Invalid top-up", 400)
+  }
+  const { transactionReference } = parsed.data
+
+  const supabase = await createClient()
+  const { data: order, error: orderError } = await supabase
+    .from(ORDERS_TABLE)
+    .select("id, user_id, status")
+    .eq("id", id)
+    .maybeSingle()
+  if (orderError) {
+    console.error("[api/orders/top-up] order lookup failed", orderError)
+    return errorResponse("Could not load the order", 500)
+  }
+  if (!order || order.user_id !== userId) return errorResponse("Order not found", 404)
+  if (order.status !== "partially_paid") return errorResponse("This order is not waiting for a top-up", 409)
+
+  const paymentProof = form.get("paymentProof")
+  if (!(paymentProof instanceof File) || paymentProof.size === 0) {
+    return errorResponse("Please upload a screenshot of your payment confirmation", 400)
+  }
+
+  let proof, perceptualHash
+  try {
+    proof = sanitizeProof(new Uint8Array(await paymentProof.arrayBuffer()))
+    perceptualHash = await proofPerceptualHash(proof.bytes)
+  } catch (error) {
+    if (error instanceof ProofValidationError) return errorResponse(error.message, 400)
+    throw error
+  }
+
+  const proofSha256 = await sha256Hex(proof.bytes)
+
+  // submit_top_up_proof and record_payment_proof_hashes are only granted to the service role
+  let storage, admin
+  try {
+    storage = createEnhancedAdminClient("api/orders/top-up").storage
+    admin = createAdminClient()
+  } catch (error) {
+    console.error("[api/orders/top-up] payment proof storage is not configured", error)
+    return errorResponse("Payment proof storage is not configured", 500)
+  }
+
+  const proofPath = proofStoragePath(userId, proof.type)
+  const proofFile = new File([proof.bytes], proofPath.split("/").pop()!, { type: proof.type })
+  const { error: uploadError } = await storage.upload(PAYMENT_PROOFS_BUCKET, proofPath, proofFile)
+  if (uploadError) {
+    console.error("[api/orders/top-up] payment proof upload failed", uploadError)
+    return errorResponse("Could not upload your payment proof", 500)
+  }
+
+  const { error: submitError } = await admin.rpc("submit_top_up_proof", {
+    p_order_id: id,
+    p_user_id: userId,
+    p_payment_proof: proofPath,
+    p_transaction_reference: transactionReference || null,
+  })
+  if (submitError) {
+    await storage.delete(PAYMENT_PROOFS_BUCKET, [proofPath])
+    console.error("[api/orders/top-up] submit_top_up_proof failed", submitError)
+    // P0001: the order stopped waiting for a top-up in the meantime
+    if (submitError.code === "P0001") return errorResponse(submitError.message, 409)
+    return errorResponse("Could not submit your payment proof", 500)
+  }
+
+  // Duplicate detection is advisory, as at checkout
+  const { data: duplicates, error: hashError } = await admin.rpc("record_payment_proof_hashes", {
+    p_order_id: id,
+    p_perceptual_hash: perceptualHash,
+    p_sha256: proofSha256,
+    p_max_distance: PROOF_HASH_MAX_DISTANCE,
+  })
+  if (hashError) console.error("[api/orders/top-up] recording payment proof hashes failed", hashError)
+  else if (duplicates?.length) console.warn("[api/orders/top-up] payment proof reused", { orderId: id, duplicates })
+
+  return NextResponse.json({ submitted: true })
+}
@@ -0,0 +1,397 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { z } from "zod"
+import { createClient } from "@/lib/supabase/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { createEnhancedAdminClient } from "@/lib/supabase/enhanced-client"
+import { applyCoupon, COUPONS_TABLE, CouponError, couponFromRow, fetchCouponUsage, normalizeCouponCode } from "@/lib/coupons"
+import {
+  convertFromStoreCurrency,
+  CurrencyError,
+  EXCHANGE_RATES_TABLE,
+  exchangeRateFromRow,
+  STORE_CURRENCY,
+  type PaymentAmount,
+} from "@/lib/currency"
+import { STOCK_RESERVATION_MINUTES } from "@/lib/inventory"
+import { orderFromRow, ORDER_SELECT, ORDERS_TABLE } from "@/lib/orders"
+import {
+  PAYMENT_PROOFS_BUCKET,
+  PROOF_HASH_MAX_DISTANCE,
+  proofStoragePath,
+  ProofValidationError,
+  sanitizeProof,
+  sha256Hex,
+} from "@/lib/payment-proofs"
+import { proofPerceptualHash } from "@/lib/payment-proof-hash"
+import { getPaymentGateway, isManualGateway, PaymentGatewayError } from "@/lib/payment-gateways"
+import { PAYMENT_PROVIDERS_TABLE, providerAmountError, providerFromRow } from "@/lib/payment-providers"
+import { normalizeReference, transactionReferenceError } from "@/lib/payment-references"
+import { PricingError, quoteOrder, type OrderQuote } from "@/lib/pricing"
+import { productFromRow, PRODUCT_SELECT, PRODUCTS_TABLE } from "@/lib/products"
+import { getSession } from "@/lib/session"
+import { discountFromRow, saleFromRow, DISCOUNTS_TABLE, SALES_TABLE } from "@/lib/settings"
+import { applyTax, isCountryCode, normalizeCountry, taxRuleFromRow, TAX_RULES_TABLE } from "@/lib/taxes"
+import { USERS_TABLE } from "@/lib/users"
+
+const orderRequestSchema = z.object({
+  // Generated at checkout and already shown to the customer as the UPI payment note
+  orderId: z.string().uuid("Invalid order reference").optional(),
+  paymentMethod: z.string().min(1, "Please choose a payment method").max(64),
+  // Manual payments only; gateways supply their own payment id
+  transactionReference: z.string().max(64).default("").transform(normalizeReference),
+  couponCode: z.string().max(32).optional().transform((code) => (code ? normalizeCouponCode(code) : undefined)),
+  billingCountry: z
+    .string({ required_error: "Please choose your billing country" })
+    .transform(normalizeCountry)
+    .refine(isCountryCode, "Please choose your billing country"),
+  items: z
+    .array(
+      z.object({
+        productId: z.string().min(1, "productId is required"),
+        variantId: z.string().uuid("Invalid product option").nullish(),
+        quantity: z.number().int().positive().max(100),
+      }),
+    )
+    .min(1, "Your cart is empty")
+    .max(50),
+})
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+function placeOrderLines(quote: OrderQuote) {
+  return quote.lines.map((line) => ({
+    product_id: line.product.id,
+    variant_id: line.variant?.id ?? null,
+    quantity: line.quantity,
+    unit_price: line.unitPrice,
+  }))
+}
+
+function couponArgs(quote: OrderQuote) {
+  return {
+    p_coupon_id: quote.coupon?.id ?? null,
+    p_coupon_discount: quote.coupon?.discount ?? 0,
+  }
+}
+
+function taxArgs(quote: OrderQuote) {
+  return {
+    p_billing_country: quote.billingCountry,
+    p_tax_lines: quote.taxes,
+  }
+}
+
+function paymentSnapshot(payment: PaymentAmount) {
+  return {
+    p_currency: STORE_CURRENCY,
+    p_payment_currency: payment.currency,
+    p_payment_amount: payment.amount,
+    p_exchange_rate: payment.rate,
+  }
+}
+
+function placeOrderErrorResponse(error: { code?: string; message: string }) {
+  console.error(`[api/orders] insert into ${ORDERS_TABLE} failed`, error)
+  // P0001 is raised by place_order when stock ran out after the quote was made, the
+  // order id or transaction reference was already used, or the coupon was used up
+  if (error.code === "P0001") return errorResponse(error.message, 409)
+  // Unique index on transaction_reference, when two submissions race
+  if (error.code === "23505") return errorResponse("This transaction reference was already used for another order", 409)
+  return errorResponse("Failed to place order", 500)
+}
+
+/**
+ * Place an order. Expects multipart form data with an `order` JSON field and, for
+ * manual payment methods, a `paymentProof` image file.
+ *
+ * Only product and variant ids and quantities are taken from the client: prices, stock and
+ * discounts are re-read from the database, and the rows are written by the
+ * `place_order` function (scripts/011_order_items.sql) so the order, its items,
+ * the stock checks and the payment proof record succeed or fail together
+ * (scripts/015_client_order_ids.sql lets the checkout choose the order id,
+ * scripts/016_transaction_references.sql keeps each payment reference unique,
+ * scripts/019_exchange_rates.sql records the amount in the payment currency,
+ * scripts/021_coupons.sql records the coupon and enforces its limits,
+ * scripts/023_taxes.sql stores the tax lines for the billing country,
+ * scripts/029_inventory.sql records the stock taken in the inventory ledger and
+ * holds it until the order is paid or cancelled, scripts/030_product_variants.sql
+ * takes the stock of the variant bought and copies its license onto the order). The
+ * proof is checked (size, magic bytes), stripped of metadata and stored in the
+ * private `payment-proofs` bucket first, and removed again if the order cannot
+ * be placed.
+ *
+ * A SHA-256 and a perceptual hash of the stored image, both computed here
+ * (lib/payment-proof-hash.ts), flag proofs already attached to earlier orders, even
+ * re-compressed or resized.
+ *
+ * For providers with a payment gateway no proof or reference is needed: the payment
+ * is created with the gateway first, its id becomes the transaction reference, and
+ * the response carries the gateway's `payment.redirectUrl`. The order stays pending
+ * until the gateway calls /api/payments/[gateway]/webhook; if that does not happen within
+ * STOCK_RESERVATION_MINUTES the order is cancelled and its stock released.
+ */
+export async function POST(request: NextRequest) {
+  // The order is placed for the signed-in customer, never for an id in the request
+  const session = getSession(request)
+  if (!session) return errorResponse("Please sign in again before placing an order", 401)
+  const userId = session.userId
+
+  let form: FormData
+  let body: unknown
+  try {
+    form = await request.formData()
+    body = JSON.parse(String(form.get("order")))
+  } catch {
+    return errorResponse("Expected form data with an order field", 400)
+  }
+
+  const parsed = orderRequestSchema.safeParse(body)
+  if (!parsed.success) {
+    return errorResponse(parsed.error.issues[0]?.message ?? "Invalid order", 400)
+  }
+  const { orderId: requestedOrderId, paymentMethod, transactionReference, couponCode, billingCountry, items } =
+    parsed.data
+
+  const supabase = await createClient()
+
+  const { data: user, error: userError } = await supabase.from(USERS_TABLE).select("id").eq("id", userId).maybeSingle()
+  if (userError || !user) {
+    if (userError) console.error("[api/orders] user lookup failed", userError)
+    return errorResponse("Please sign in again before placing an order", 401)
+  }
+
+  const { data: providerRow, error: providerError } = await supabase
+    .from(PAYMENT_PROVIDERS_TABLE)
+    .select("*")
+    .eq("key", paymentMethod)
+    .eq("active", true)
+    .maybeSingle()
+  if (providerError) {
+    console.error("[api/orders] payment provider lookup failed", providerError)
+    return errorResponse("Could not load payment methods", 500)
+  }
+  if (!providerRow) return errorResponse("This payment method is not available", 400)
+  const provider = providerFromRow(providerRow)
+  const gateway = getPaymentGateway(provider.gateway)
+  if (!gateway) return errorResponse("This payment method is not available", 400)
+  const manual = isManualGateway(gateway.id)
+
+  if (manual) {
+    const referenceError = transactionReferenceError(provider.type, transactionReference)
+    if (referenceError) return errorResponse(referenceError, 400)
+  }
+
+  // Stock held by abandoned gateway checkouts goes back before this order's stock is checked
+  const { error: expireError } = await supabase.rpc("release_expired_reservations")
+  if (expireError) console.error("[api/orders] releasing expired reservations failed", expireError)
+
+  const productIds = Array.from(new Set(items.map((item) => item.productId)))
+  // With category names, which coupon rules match on
+  const { data: productRows, error: productsError } = await supabase
+    .from(PRODUCTS_TABLE)
+    .select(PRODUCT_SELECT)
+    .in("id", productIds)
+  if (productsError) {
+    console.error("[api/orders] products lookup failed", productsError)
+    return errorResponse("Could not load products", 500)
+  }
+
+  const [salesResult, discountsResult] = await Promise.all([
+    supabase.from(SALES_TABLE).select("*").in("product_id", productIds),
+    supabase.from(DISCOUNTS_TABLE).select("*").eq("active", true),
+  ])
+  // Missing sales/discounts tables only mean there is nothing to discount
+  if (salesResult.error) console.error("[api/orders] sales lookup failed", salesResult.error)
+  if (discountsResult.error) console.error("[api/orders] discounts lookup failed", discountsResult.error)
+
+  let quote: OrderQuote
+  try {
+    quote = quoteOrder(
+      items,
+      (productRows || []).map(productFromRow),
+      (salesResult.data || []).map(saleFromRow),
+      (discountsResult.data || []).map(discountFromRow),
+    )
+  } catch (error) {
+    if (error instanceof PricingError) return errorResponse(error.message, 409)
+    throw error
+  }
+
+  if (couponCode) {
+    const { data: couponRow, error: couponError } = await supabase
+      .from(COUPONS_TABLE)
+      .select("*")
+      .eq("code", couponCode)
+      .maybeSingle()
+    if (couponError) {
+      console.error("[api/orders] coupon lookup failed", couponError)
+      return errorResponse("Could not check your coupon", 500)
+    }
+    if (!couponRow) return errorResponse("This coupon code does not exist", 400)
+
+    try {
+      const coupon = couponFromRow(couponRow)
+      quote = applyCoupon(quote, coupon, await fetchCouponUsage(supabase, coupon.id, userId))
+    } catch (error) {
+      if (error instanceof CouponError) return errorResponse(error.message, 400)
+      console.error("[api/orders] coupon usage lookup failed", error)
+      return errorResponse("Could not check your coupon", 500)
+    }
+  }
+
+  // Tax comes last, on the total after the coupon
+  const { data: taxRows, error: taxError } = await supabase.from(TAX_RULES_TABLE).select("*").eq("active", true)
+  if (taxError) {
+    console.error("[api/orders] tax rules lookup failed", taxError)
+    return errorResponse("Could not work out the tax on your order", 500)
+  }
+  quote = applyTax(quote, (taxRows || []).map(taxRuleFromRow), billingCountry)
+
+  const amountError = providerAmountError(provider, quote.total)
+  if (amountError) return errorResponse(amountError, 400)
+
+  // The customer pays the total converted into the method's currency at the current rate
+  let payment: PaymentAmount
+  const { data: rateRows, error: ratesError } =
+    provider.currency === STORE_CURRENCY
+      ? { data: [], error: null }
+      : await supabase
+          .from(EXCHANGE_RATES_TABLE)
+          .select("*")
+          .eq("base_currency", STORE_CURRENCY)
+          .eq("currency", provider.currency)
+  if (ratesError) {
+    console.error("[api/orders] exchange rate lookup failed", ratesError)
+    return errorResponse("Could not load exchange rates", 500)
+  }
+  try {
+    payment = convertFromStoreCurrency(quote.total, provider.currency, (rateRows || []).map(exchangeRateFromRow))
+  } catch (error) {
+    if (error instanceof CurrencyError) {
+      console.error(`[api/orders] ${provider.key}: ${error.message}`)
+      return errorResponse(`${provider.name} is not available right now. Please choose another payment method.`, 400)
+    }
+    throw error
+  }
+
+  // place_order trusts the prices it is given, so only the service role may run it
+  let admin
+  try {
+    admin = createAdminClient()
+  } catch (configError) {
+    console.error("[api/orders] the service role key is not configured", configError)
+    return errorResponse("Ordering is not configured", 500)
+  }
+
+  if (!manual) {
+    const orderId = requestedOrderId ?? crypto.randomUUID()
+    let session
+    try {
+      session = await gateway.createPayment({
+        orderId,
+        amount: payment.amount,
+        currency: payment.currency,
+        description: `Suman Store order ${orderId}`,
+        returnUrl: new URL(`/dashboard?order=${orderId}`, request.url).toString(),
+      })
+    } catch (error) {
+      console.error(`[api/orders] ${gateway.name} could not create a payment`, error)
+      const message = error instanceof PaymentGatewayError ? error.message : "Please try again"
+      return errorResponse(`Could not start the payment: ${message}`, 502)
+    }
+
+    // A payment session left behind when place_order fails expires unpaid at the gateway
+    const { data: placed, error: placeError } = await admin
+      .rpc("place_order", {
+        p_user_id: userId,
+        p_payment_method: provider.key,
+        p_lines: placeOrderLines(quote),
+        p_payment_proof: null,
+        p_order_id: orderId,
+        p_transaction_reference: session.paymentId,
+        ...paymentSnapshot(payment),
+        ...couponArgs(quote),
+        ...taxArgs(quote),
+        p_reservation_minutes: STOCK_RESERVATION_MINUTES,
+      })
+      .single()
+    if (placeError) return placeOrderErrorResponse(placeError)
+
+    const { data: orderRow, error: reloadError } = await supabase.from(ORDERS_TABLE).select(ORDER_SELECT).eq("id", orderId).single()
+    if (reloadError) console.error("[api/orders] reloading order failed", reloadError)
+
+    return NextResponse.json(
+      { order: orderFromRow(orderRow ?? placed), total: quote.total, payment: { ...session, ...payment } },
+      { status: 201 },
+    )
+  }
+
+  const paymentProof = form.get("paymentProof")
+  if (!(paymentProof instanceof File) || paymentProof.size === 0) {
+    return errorResponse("Please upload a screenshot of your payment confirmation", 400)
+  }
+
+  let proof, perceptualHash
+  try {
+    proof = sanitizeProof(new Uint8Array(await paymentProof.arrayBuffer()))
+    perceptualHash = await proofPerceptualHash(proof.bytes)
+  } catch (error) {
+    if (error instanceof ProofValidationError) return errorResponse(error.message, 400)
+    throw error
+  }
+
+  const proofSha256 = await sha256Hex(proof.bytes)
+
+  let storage
+  try {
+    storage = createEnhancedAdminClient("api/orders").storage
+  } catch (error) {
+    console.error("[api/orders] payment proof storage is not configured", error)
+    return errorResponse("Payment proof storage is not configured", 500)
+  }
+
+  const proofPath = proofStoragePath(userId, proof.type)
+  const proofFile = new File([proof.bytes], proofPath.split("/").pop()!, { type: proof.type })
+  const { error: uploadError } = await storage.upload(PAYMENT_PROOFS_BUCKET, proofPath, proofFile)
+  if (uploadError) {
+    console.error("[api/orders] payment proof upload failed", uploadError)
+    return errorResponse("Could not upload your payment proof", 500)
+  }
+
+  const { data: placed, error: placeError } = await admin
+    .rpc("place_order", {
+      p_user_id: userId,
+      p_payment_method: provider.key,
+      p_lines: placeOrderLines(quote),
+      p_payment_proof: proofPath,
+      p_order_id: requestedOrderId ?? null,
+      p_transaction_reference: transactionReference,
+      ...paymentSnapshot(payment),
+      ...couponArgs(quote),
+      ...taxArgs(quote),
+    })
+    .single()
+  if (placeError) {
+    await storage.delete(PAYMENT_PROOFS_BUCKET, [proofPath])
+    return placeOrderErrorResponse(placeError)
+  }
+
+  const orderId = (placed as { id: string }).id
+
+  // Duplicate detection is advisory: the order stands even if it fails, admins just see no warning
+  const { data: duplicates, error: hashError } = await admin.rpc("record_payment_proof_hashes", {
+    p_order_id: orderId,
+    p_perceptual_hash: perceptualHash,
+    p_sha256: proofSha256,
+    p_max_distance: PROOF_HASH_MAX_DISTANCE,
+  })
+  if (hashError) console.error("[api/orders] recording payment proof hashes failed", hashError)
+  else if (duplicates?.length) console.warn("[api/orders] payment proof reused", { orderId, duplicates })
+
+  const { data: orderRow, error: reloadError } = await supabase.from(ORDERS_TABLE).select(ORDER_SELECT).eq("id", orderId).single()
+  if (reloadError) console.error("[api/orders] reloading order failed", reloadError)
+
+  return NextResponse.json({ order: orderFromRow(orderRow ?? placed), total: quote.total, payment }, { status: 201 })
+}
@@ -0,0 +1,59 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { PAYMENT_PROVIDERS_TABLE, paymentProviderUpdateSchema, providerToRow } from "@/lib/payment-providers"
+import { getAdminSession } from "@/lib/session"
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+function adminDatabase() {
+  try {
+    return createAdminClient()
+  } catch (configError) {
+    console.error("[api/payment-providers] the service role key is not configured", configError)
+    return null
+  }
+}
+
+/** Change some of a payment method's settings; its key stays. Admin only. */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  if (!getAdminSession(request)) return errorResponse("Admin access required", 403)
+
+  const parsed = paymentProviderUpdateSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) return errorResponse(parsed.error.issues[0]?.message ?? "Invalid payment method", 400)
+
+  const supabase = adminDatabase()
+  if (!supabase) return errorResponse("Payment methods are not configured", 500)
+
+  const { id } = await params
+  const { error } = await supabase.from(PAYMENT_PROVIDERS_TABLE).update(providerToRow(parsed.data)).eq("id", id)
+  if (error?.code === "23514") return errorResponse("Check the payment method's amounts", 400)
+  if (error) {
+    console.error("[api/payment-providers] updating the payment method failed", error)
+    return errorResponse("Could not update the payment method", 500)
+  }
+
+  return NextResponse.json({ ok: true })
+}
+
+/** Delete a payment method no order uses. Admin only. */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  if (!getAdminSession(request)) return errorResponse("Admin access required", 403)
+
+  const supabase = adminDatabase()
+  if (!supabase) return errorResponse("Payment methods are not configured", 500)
+
+  const { id } = await params
+  const { error } = await supabase.from(PAYMENT_PROVIDERS_TABLE).delete().eq("id", id)
+  // orders.payment_method references the provider key
+  if (error?.code === "23503") {
+    return errorResponse("This payment method is used by existing orders. Deactivate it instead.", 409)
+  }
+  if (error) {
+    console.error("[api/payment-providers] deleting the payment method failed", error)
+    return errorResponse("Could not delete the payment method", 500)
+  }
+
+  return NextResponse.json({ ok: true })
+}
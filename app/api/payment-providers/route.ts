@@ -0,0 +1,48 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import {
+  PAYMENT_PROVIDERS_TABLE,
+  paymentProviderInputSchema,
+  providerFromRow,
+  providerToRow,
+} from "@/lib/payment-providers"
+import { getAdminSession } from "@/lib/session"
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+/**
+ * Add a payment method. Admin only: payment_providers is read-only with the anon key
+ * (scripts/032_server_side_writes.sql), since checkout shows its QR codes and account ids.
+ */
+export async function POST(request: NextRequest) {
+  const session = getAdminSession(request)
+  if (!session) return errorResponse("Admin access required", 403)
+
+  const parsed = paymentProviderInputSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) return errorResponse(parsed.error.issues[0]?.message ?? "Invalid payment method", 400)
+
+  let supabase
+  try {
+    supabase = createAdminClient()
+  } catch (configError) {
+    console.error("[api/payment-providers] the service role key is not configured", configError)
+    return errorResponse("Payment methods are not configured", 500)
+  }
+
+  const { data, error } = await supabase
+    .from(PAYMENT_PROVIDERS_TABLE)
+    .insert(providerToRow(parsed.data))
+    .select("*")
+    .single()
+  if (error?.code === "23505") return errorResponse(`A payment method with key "${parsed.data.key}" already exists`, 409)
+  // Check constraints, e.g. a minimum above the maximum
+  if (error?.code === "23514") return errorResponse("Check the payment method's amounts", 400)
+  if (error) {
+    console.error("[api/payment-providers] creating the payment method failed", error)
+    return errorResponse("Could not create the payment method", 500)
+  }
+
+  return NextResponse.json({ provider: providerFromRow(data) }, { status: 201 })
+}
@@ -0,0 +1,131 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { roundToCurrency } from "@/lib/currency"
+import { canTransition, ORDERS_TABLE, type OrderStatus } from "@/lib/orders"
+import { getPaymentGateway, PaymentGatewayError, type PaymentEvent } from "@/lib/payment-gateways"
+
+const PAYMENT_EVENTS_TABLE = "payment_events"
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+const TARGET_STATUS: Record<PaymentEvent["type"], OrderStatus> = {
+  "payment.succeeded": "confirmed",
+  "payment.failed": "cancelled",
+  "payment.refunded": "refunded",
+}
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+// Gateways retry anything but a 2xx, so events that are genuine but do not apply are acknowledged
+function ignored(reason: string) {
+  return NextResponse.json({ received: true, ignored: reason })
+}
+
+/**
+ * Payment notifications from a gateway (`[provider]` is the gateway id, e.g. `fake`).
+ * The raw body is checked against the gateway's signature before anything is read
+ * from it. A successful payment of the full amount the order asked for (in its
+ * payment currency, scripts/019_exchange_rates.sql) confirms a pending order, a
+ * failed one cancels it and a refund marks it refunded, all through
+ * `change_order_status` so the change shows up in the order history.
+ *
+ * Every verified event is stored in `payment_events` (scripts/018_payment_gateways.sql);
+ * redelivered events hit its unique key and are acknowledged without doing anything.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ provider: string }> }) {
+  const { provider } = await params
+  const gateway = getPaymentGateway(provider)
+  if (!gateway?.webhooks) return errorResponse("Unknown payment gateway", 404)
+
+  let event: PaymentEvent
+  try {
+    event = await gateway.verifyCallback({ headers: request.headers, body: await request.text() })
+  } catch (error) {
+    if (error instanceof PaymentGatewayError) {
+      console.warn(`[api/payments/webhook] rejected ${gateway.id} callback: ${error.message}`)
+      return errorResponse(error.message, 400)
+    }
+    throw error
+  }
+
+  // change_order_status is only granted to the service role
+  let supabase
+  try {
+    supabase = createAdminClient()
+  } catch (configError) {
+    console.error("[api/payments/webhook] the service role key is not configured", configError)
+    return errorResponse("Payments are not configured", 500)
+  }
+
+  const { data: order, error: orderError } = UUID_PATTERN.test(event.orderId)
+    ? await supabase
+        .from(ORDERS_TABLE)
+        .select(
+          "id, status, total_amount, currency, payment_amount, payment_currency, transaction_reference, payment_providers:payment_method ( gateway )",
+        )
+        .eq("id", event.orderId)
+        .maybeSingle()
+    : { data: null, error: null }
+  if (orderError) {
+    console.error("[api/payments/webhook] order lookup failed", orderError)
+    return errorResponse("Could not load the order", 500)
+  }
+
+  const { error: eventError } = await supabase.from(PAYMENT_EVENTS_TABLE).insert({
+    gateway: gateway.id,
+    event_id: event.id,
+    type: event.type,
+    order_id: order?.id ?? null,
+    payment_id: event.paymentId,
+    amount: event.amount,
+    currency: event.currency,
+    payload: event,
+  })
+  if (eventError?.code === "23505") return ignored("duplicate event")
+  if (eventError) {
+    console.error("[api/payments/webhook] recording event failed", eventError)
+    return errorResponse("Could not record the event", 500)
+  }
+
+  if (!order) return ignored("unknown order")
+  const orderGateway = (order.payment_providers as { gateway?: string } | null)?.gateway
+  // The payment id ties the event to the payment this order created, not just any payment
+  if (orderGateway !== gateway.id || order.transaction_reference !== event.paymentId) {
+    console.warn("[api/payments/webhook] event does not belong to the order", { event, order: order.id })
+    return ignored("payment does not belong to the order")
+  }
+
+  const from = order.status as OrderStatus
+  const to = TARGET_STATUS[event.type]
+  if (from === to) return ignored(`order already ${to}`)
+  if (!canTransition(from, to)) return ignored(`order is ${from}`)
+  const currency = order.payment_currency ?? order.currency
+  const due = Number(order.payment_amount ?? order.total_amount)
+  if (
+    event.type === "payment.succeeded" &&
+    (event.currency !== currency || roundToCurrency(event.amount, currency) !== roundToCurrency(due, currency))
+  ) {
+    console.warn("[api/payments/webhook] paid amount differs from the amount due", { event, due, currency })
+    return ignored("amount does not match the amount due")
+  }
+
+  const { error: statusError } = await supabase.rpc("change_order_status", {
+    p_order_id: order.id,
+    p_from_status: from,
+    p_to_status: to,
+    p_changed_by: `gateway:${gateway.id}`,
+    p_changed_by_name: gateway.name,
+    p_notes: `Payment ${event.paymentId} ${event.type.replace("payment.", "")}`,
+  })
+  // P0001: an admin changed the order in the meantime
+  if (statusError?.code === "P0001") return ignored(statusError.message)
+  if (statusError) {
+    console.error("[api/payments/webhook] status change failed", statusError)
+    // Forget the event so the gateway's retry is not taken for a duplicate
+    await supabase.from(PAYMENT_EVENTS_TABLE).delete().eq("gateway", gateway.id).eq("event_id", event.id)
+    return errorResponse("Could not update the order", 500)
+  }
+
+  return NextResponse.json({ received: true, status: to })
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server"
+import { z } from "zod"
+import { FAKE_SIGNATURE_HEADER, fakeEventBody, isFakeGatewayEnabled, signFakePayload } from "@/lib/payment-gateways/fake"
+
+const simulateSchema = z.object({
+  paymentId: z.string().min(1).max(64),
+  orderId: z.string().uuid(),
+  amount: z.number().nonnegative(),
+  currency: z.string().max(8),
+  outcome: z.enum(["succeeded", "failed"]),
+})
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+/**
+ * Backs the fake gateway's payment page (/payments/fake): signs a webhook for the
+ * chosen outcome and delivers it to /api/payments/fake/webhook, exactly as a real
+ * gateway would call us. Only available while the fake gateway is enabled.
+ */
+export async function POST(request: Request) {
+  if (!isFakeGatewayEnabled()) return errorResponse("The fake payment gateway is disabled", 404)
+
+  const parsed = simulateSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) {
+    return errorResponse(parsed.error.issues[0]?.message ?? "Invalid payment", 400)
+  }
+  const { outcome, ...payment } = parsed.data
+
+  const body = fakeEventBody(`payment.${outcome}`, payment)
+  const response = await fetch(new URL("/api/payments/fake/webhook", request.url), {
+    method: "POST",
+    headers: { "Content-Type": "application/json", [FAKE_SIGNATURE_HEADER]: signFakePayload(body) },
+    body,
+  })
+  const result = await response.json().catch(() => ({}))
+  if (!response.ok) {
+    console.error("[api/payments/fake/simulate] webhook failed", response.status, result)
+    return errorResponse(result.error || `Webhook failed (${response.status})`, 502)
+  }
+
+  return NextResponse.json(result)
+}
@@ -0,0 +1,249 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { z } from "zod"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { createEnhancedAdminClient } from "@/lib/supabase/enhanced-client"
+import {
+  PRODUCT_IMAGES_BUCKET,
+  PRODUCT_IMAGES_TABLE,
+  PRODUCT_IMAGE_SIZES,
+  ProductImageError,
+  productImageObject,
+  sanitizeProductImage,
+  type ProductImageSize,
+} from "@/lib/product-images"
+import { PRODUCTS_TABLE } from "@/lib/products"
+import { getAdminSession } from "@/lib/session"
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+const imageSchema = z.object({
+  alt: z.string().trim().max(200).default(""),
+  width: z.number().int().positive().max(10000).nullable().default(null),
+  height: z.number().int().positive().max(10000).nullable().default(null),
+  sortOrder: z.number().int().min(0).default(0),
+})
+
+const linkSchema = z.object({
+  url: z.string().trim().min(1).max(2000),
+  sortOrder: z.number().int().min(0).default(0),
+})
+
+const idsSchema = z.object({
+  ids: z.array(z.string().uuid()).min(1).max(100),
+})
+
+const SIZES = Object.keys(PRODUCT_IMAGE_SIZES) as ProductImageSize[]
+
+function adminStorage(caller: string) {
+  try {
+    return createEnhancedAdminClient(caller).storage
+  } catch (configError) {
+    console.error(`[${caller}] product image storage is not configured`, configError)
+    return null
+  }
+}
+
+// product_images has no write policies (scripts/031_product_images.sql)
+function adminDatabase() {
+  try {
+    return createAdminClient()
+  } catch (configError) {
+    console.error("[api/products/images] the service role key is not configured", configError)
+    return null
+  }
+}
+
+type AdminDatabase = ReturnType<typeof createAdminClient>
+
+async function productExists(supabase: AdminDatabase, productId: string): Promise<boolean | null> {
+  const { data, error } = await supabase.from(PRODUCTS_TABLE).select("id").eq("id", productId).maybeSingle()
+  if (error) {
+    console.error("[api/products/images] product lookup failed", error)
+    return null
+  }
+  return Boolean(data)
+}
+
+/** A gallery entry for an image URL (imports, links), used as is for every size. */
+async function linkImage(request: NextRequest, supabase: AdminDatabase, productId: string) {
+  const parsed = linkSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) return errorResponse(parsed.error.issues[0]?.message ?? "Invalid image link", 400)
+
+  const exists = await productExists(supabase, productId)
+  if (exists === null) return errorResponse("Could not add the image", 500)
+  if (!exists) return errorResponse("Product not found", 404)
+
+  const { url, sortOrder } = parsed.data
+  const { data: row, error } = await supabase
+    .from(PRODUCT_IMAGES_TABLE)
+    .insert({ product_id: productId, url, medium_url: url, thumbnail_url: url, sort_order: sortOrder })
+    .select("*")
+    .single()
+  if (error) {
+    console.error("[api/products/images] linking the image failed", error)
+    return errorResponse("Could not add the image", 500)
+  }
+  return NextResponse.json({ image: row }, { status: 201 })
+}
+
+/**
+ * Add an uploaded image to a product's gallery. Admin only. The browser sends the
+ * full, medium and thumbnail sizes it scaled (lib/product-images.ts); each is checked
+ * (size, magic bytes), stripped of metadata and stored in the public `product-images`
+ * bucket before the row is added, and removed again if the row cannot be saved.
+ * A JSON body `{ url, sortOrder }` adds an image by URL instead.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  if (!getAdminSession(request)) return errorResponse("Admin access required", 403)
+
+  const { id: productId } = await params
+  const supabase = adminDatabase()
+  if (!supabase) return errorResponse("Product images are not configured", 500)
+  if (request.headers.get("content-type")?.includes("application/json")) {
+    return linkImage(request, supabase, productId)
+  }
+
+  let form: FormData
+  try {
+    form = await request.formData()
+  } catch {
+    return errorResponse("Invalid upload", 400)
+  }
+
+  let details
+  try {
+    const parsed = imageSchema.safeParse(JSON.parse(String(form.get("image") ?? "{}")))
+    if (!parsed.success) return errorResponse(parsed.error.issues[0]?.message ?? "Invalid image details", 400)
+    details = parsed.data
+  } catch {
+    return errorResponse("Invalid image details", 400)
+  }
+
+  const files = new Map<ProductImageSize, { bytes: Uint8Array<ArrayBuffer>; type: string }>()
+  try {
+    for (const size of SIZES) {
+      const file = form.get(size)
+      if (!(file instanceof File)) return errorResponse(`The ${size} image is missing`, 400)
+      files.set(size, sanitizeProductImage(new Uint8Array(await file.arrayBuffer())))
+    }
+  } catch (error) {
+    if (error instanceof ProductImageError) return errorResponse(error.message, 400)
+    throw error
+  }
+
+  const exists = await productExists(supabase, productId)
+  if (exists === null) return errorResponse("Could not upload the image", 500)
+  if (!exists) return errorResponse("Product not found", 404)
+
+  const storage = adminStorage("api/products/images")
+  if (!storage) return errorResponse("Product image storage is not configured", 500)
+
+  const imageId = crypto.randomUUID()
+  const path = `${productId}/${imageId}`
+  const uploaded: string[] = []
+  const urls = {} as Record<ProductImageSize, string>
+  for (const size of SIZES) {
+    const object = productImageObject(path, size)
+    const { bytes, type } = files.get(size)!
+    const { error: uploadError } = await storage.upload(
+      PRODUCT_IMAGES_BUCKET,
+      object,
+      new File([bytes], object.split("/").pop()!, { type }),
+    )
+    if (uploadError) {
+      console.error("[api/products/images] upload failed", uploadError)
+      if (uploaded.length) await storage.delete(PRODUCT_IMAGES_BUCKET, uploaded)
+      return errorResponse("Could not upload the image", 500)
+    }
+    uploaded.push(object)
+    urls[size] = storage.getPublicUrl(PRODUCT_IMAGES_BUCKET, object).data.publicUrl
+  }
+
+  const { data: row, error: insertError } = await supabase
+    .from(PRODUCT_IMAGES_TABLE)
+    .insert({
+      id: imageId,
+      product_id: productId,
+      path,
+      url: urls.full,
+      medium_url: urls.medium,
+      thumbnail_url: urls.thumbnail,
+      alt: details.alt,
+      width: details.width,
+      height: details.height,
+      sort_order: details.sortOrder,
+    })
+    .select("*")
+    .single()
+  if (insertError) {
+    console.error("[api/products/images] saving the image failed", insertError)
+    await storage.delete(PRODUCT_IMAGES_BUCKET, uploaded)
+    return errorResponse("Could not save the image", 500)
+  }
+
+  return NextResponse.json({ image: row }, { status: 201 })
+}
+
+/**
+ * Remove images from a product's gallery, with the stored sizes of uploaded ones.
+ * Admin only. Storage is cleaned up after the rows are gone, so a failed cleanup
+ * leaves unused files rather than broken images.
+ */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  if (!getAdminSession(request)) return errorResponse("Admin access required", 403)
+
+  const { id: productId } = await params
+  const parsed = idsSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) return errorResponse("Invalid request", 400)
+
+  const supabase = adminDatabase()
+  if (!supabase) return errorResponse("Product images are not configured", 500)
+  const { data: rows, error } = await supabase
+    .from(PRODUCT_IMAGES_TABLE)
+    .delete()
+    .eq("product_id", productId)
+    .in("id", parsed.data.ids)
+    .select("path")
+  if (error) {
+    console.error("[api/products/images] deleting images failed", error)
+    return errorResponse("Could not delete the images", 500)
+  }
+
+  const objects = (rows || [])
+    .filter((row) => row.path)
+    .flatMap((row) => SIZES.map((size) => productImageObject(row.path, size)))
+  if (objects.length) {
+    const storage = adminStorage("api/products/images")
+    const removed = storage && (await storage.delete(PRODUCT_IMAGES_BUCKET, objects))
+    if (removed?.error) console.error("[api/products/images] removing stored images failed", removed.error)
+  }
+
+  return NextResponse.json({ deleted: rows?.length ?? 0 })
+}
+
+/** Put a product's gallery in the order of `ids`, cover first. Admin only. */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  if (!getAdminSession(request)) return errorResponse("Admin access required", 403)
+
+  const { id: productId } = await params
+  const parsed = idsSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) return errorResponse("Invalid request", 400)
+
+  const supabase = adminDatabase()
+  if (!supabase) return errorResponse("Product images are not configured", 500)
+  for (const [index, id] of parsed.data.ids.entries()) {
+    const { error } = await supabase
+      .from(PRODUCT_IMAGES_TABLE)
+      .update({ sort_order: index })
+      .eq("product_id", productId)
+      .eq("id", id)
+    if (error) {
+      console.error("[api/products/images] reordering images failed", error)
+      return errorResponse("Could not reorder the images", 500)
+    }
+  }
+
+  return NextResponse.json({ ok: true })
+}
@@ -0,0 +1,57 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { z } from "zod"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { getAdminSession } from "@/lib/session"
+
+const adjustmentSchema = z.object({
+  kind: z.enum(["restock", "adjustment"]),
+  variantId: z.string().uuid().optional(),
+  quantity: z.number().int(),
+  notes: z.string().max(1000).optional(),
+  changedBy: z.object({ name: z.string() }).optional(),
+})
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+/**
+ * Restock or adjust a product, or one of its variants, through `adjust_stock`
+ * (scripts/029_inventory.sql), which writes the ledger entry. Admin only; returns
+ * the new stock.
+ */
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = getAdminSession(request)
+  if (!session) return errorResponse("Admin access required", 403)
+
+  const parsed = adjustmentSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) return errorResponse(parsed.error.issues[0]?.message ?? "Invalid stock change", 400)
+  const { kind, variantId, quantity, notes, changedBy } = parsed.data
+
+  let supabase
+  try {
+    supabase = createAdminClient()
+  } catch (configError) {
+    console.error("[api/products/stock] the service role key is not configured", configError)
+    return errorResponse("Inventory is not configured", 500)
+  }
+
+  const { id } = await params
+  const { data, error } = await supabase.rpc("adjust_stock", {
+    p_product_id: id,
+    p_kind: kind,
+    p_quantity: quantity,
+    p_notes: notes || null,
+    p_changed_by: session.userId,
+    p_changed_by_name: changedBy?.name ?? null,
+    p_variant_id: variantId ?? null,
+  })
+  // P0001: an invalid change, or one that would take stock below zero
+  if (error?.code === "P0001") return errorResponse(error.message, 409)
+  if (error) {
+    console.error("[api/products/stock] adjusting stock failed", error)
+    return errorResponse("Could not update the stock", 500)
+  }
+
+  return NextResponse.json({ stock: Number(data) })
+}
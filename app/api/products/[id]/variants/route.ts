@@ -0,0 +1,92 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { z } from "zod"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { PRODUCT_VARIANTS_TABLE, variantFromRow, variantToRow } from "@/lib/products"
+import { getAdminSession } from "@/lib/session"
+
+const variantsSchema = z.object({
+  variants: z
+    .array(
+      z.object({
+        id: z.string().uuid().optional(),
+        name: z.string().trim().min(1, "Give every variant a name").max(200),
+        price: z.number().min(0),
+        stock: z.number().int(),
+        downloadUrl: z.string().trim().max(2000).optional(),
+        licenseText: z.string().max(20000).default(""),
+      }),
+    )
+    .max(50),
+})
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+/**
+ * Replace a product's variants, in this order. Admin only. Existing variants keep their
+ * stock, which only the inventory ledger changes; new ones are inserted with their
+ * opening stock. Variants left out are archived rather than deleted, so the orders,
+ * ledger entries and reservations that point at them keep working
+ * (scripts/032_server_side_writes.sql). Returns the current variants.
+ */
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  const session = getAdminSession(request)
+  if (!session) return errorResponse("Admin access required", 403)
+
+  const parsed = variantsSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) return errorResponse(parsed.error.issues[0]?.message ?? "Invalid variants", 400)
+  const { variants } = parsed.data
+
+  let supabase
+  try {
+    supabase = createAdminClient()
+  } catch (configError) {
+    console.error("[api/products/variants] the service role key is not configured", configError)
+    return errorResponse("Product variants are not configured", 500)
+  }
+
+  const { id: productId } = await params
+  const keep = variants.filter((v) => v.id).map((v) => v.id!)
+  // Archived first, so a new variant may take the name of one that was removed
+  let archive = supabase
+    .from(PRODUCT_VARIANTS_TABLE)
+    .update({ archived_at: new Date().toISOString() })
+    .eq("product_id", productId)
+    .is("archived_at", null)
+  if (keep.length > 0) archive = archive.not("id", "in", `(${keep.join(",")})`)
+  const { error: archiveError } = await archive
+  if (archiveError) {
+    console.error("[api/products/variants] archiving variants failed", archiveError)
+    return errorResponse("Could not save the variants", 500)
+  }
+
+  for (const [index, variant] of variants.entries()) {
+    const { error } = variant.id
+      ? await supabase
+          .from(PRODUCT_VARIANTS_TABLE)
+          .update(variantToRow(variant, index))
+          .eq("id", variant.id)
+          .eq("product_id", productId)
+      : await supabase
+          .from(PRODUCT_VARIANTS_TABLE)
+          .insert({ ...variantToRow(variant, index), product_id: productId, stock: variant.stock })
+    if (error?.code === "23505") return errorResponse(`There are two variants named ${variant.name}`, 409)
+    if (error) {
+      console.error("[api/products/variants] saving a variant failed", error)
+      return errorResponse("Could not save the variants", 500)
+    }
+  }
+
+  const { data, error } = await supabase
+    .from(PRODUCT_VARIANTS_TABLE)
+    .select("*")
+    .eq("product_id", productId)
+    .is("archived_at", null)
+    .order("sort_order")
+  if (error) {
+    console.error("[api/products/variants] reloading variants failed", error)
+    return errorResponse("Could not load the variants", 500)
+  }
+  return NextResponse.json({ variants: (data || []).map(variantFromRow) })
+}
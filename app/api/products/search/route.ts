@@ -0,0 +1,104 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { z } from "zod"
+import { createClient } from "@/lib/supabase/server"
+import { categoryFromRow, CATEGORIES_TABLE, descendantIds } from "@/lib/categories"
+import { productFromRow, PRODUCT_VARIANTS_TABLE } from "@/lib/products"
+import {
+  decodeCursor,
+  encodeCursor,
+  MAX_SEARCH_PAGE_SIZE,
+  PRODUCT_SORTS,
+  SEARCH_PAGE_SIZE,
+  type ProductSort,
+} from "@/lib/search"
+
+const searchRequestSchema = z
+  .object({
+    q: z.string().max(200).default(""),
+    category: z.string().max(100).optional(),
+    min: z.coerce.number().nonnegative("Prices cannot be negative").optional(),
+    max: z.coerce.number().nonnegative("Prices cannot be negative").optional(),
+    sort: z
+      .enum(PRODUCT_SORTS.map((sort) => sort.value) as [ProductSort, ...ProductSort[]])
+      .default("relevance"),
+    cursor: z.string().max(500).optional(),
+    limit: z.coerce.number().int().min(1).max(MAX_SEARCH_PAGE_SIZE).default(SEARCH_PAGE_SIZE),
+  })
+  .refine((search) => search.min === undefined || search.max === undefined || search.min <= search.max, {
+    message: "The minimum price is above the maximum",
+  })
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+/**
+ * Catalog search for the storefront (see lib/search.ts). `search_products` in
+ * scripts/026_product_search.sql does the matching, filtering and keyset pagination.
+ * Price filters and sorting use the product's price, which the product form keeps at
+ * its cheapest variant.
+ */
+export async function GET(request: NextRequest) {
+  // Empty parameters are the same as leaving them out
+  const raw = Object.fromEntries(Array.from(request.nextUrl.searchParams).filter(([, value]) => value !== ""))
+  const parsed = searchRequestSchema.safeParse(raw)
+  if (!parsed.success) return errorResponse(parsed.error.issues[0]?.message ?? "Invalid search", 400)
+  const search = parsed.data
+
+  const cursor = search.cursor ? decodeCursor(search.cursor) : null
+  if (search.cursor && !cursor) return errorResponse("Invalid cursor", 400)
+
+  const supabase = await createClient()
+
+  let categoryIds: string[] | null = null
+  if (search.category) {
+    const { data, error } = await supabase.from(CATEGORIES_TABLE).select("*")
+    if (error) {
+      console.error("[api/products/search] category lookup failed", error)
+      return errorResponse("Search failed", 500)
+    }
+    const categories = (data || []).map(categoryFromRow)
+    const category = categories.find((c) => c.slug === search.category)
+    if (!category) return NextResponse.json({ products: [], nextCursor: null })
+    categoryIds = descendantIds(categories, category.id)
+  }
+
+  // One extra row tells whether there is a next page
+  const { data, error } = await supabase.rpc("search_products", {
+    p_query: search.q.trim() || null,
+    p_category_ids: categoryIds,
+    p_min_price: search.min ?? null,
+    p_max_price: search.max ?? null,
+    p_sort: search.sort,
+    p_after_key: cursor?.key ?? null,
+    p_after_id: cursor?.id ?? null,
+    p_limit: search.limit + 1,
+  })
+  if (error) {
+    console.error("[api/products/search] search_products failed", error)
+    return errorResponse("Search failed", 500)
+  }
+
+  const rows = (data || []) as { product: any; sort_key: string }[]
+  const page = rows.slice(0, search.limit)
+  const last = page[page.length - 1]
+
+  // search_products returns bare product rows; the cards need their variants for the picker
+  const variants: any[] = []
+  if (page.length > 0) {
+    const { data: variantRows, error: variantsError } = await supabase
+      .from(PRODUCT_VARIANTS_TABLE)
+      .select("*")
+      .in("product_id", page.map((row) => row.product.id))
+    // Missing before scripts/030_product_variants.sql; the products are then sold without variants
+    if (variantsError) console.error("[api/products/search] variants lookup failed", variantsError)
+    else variants.push(...(variantRows || []))
+  }
+
+  return NextResponse.json({
+    products: page.map((row) =>
+      productFromRow({ ...row.product, product_variants: variants.filter((v) => v.product_id === row.product.id) }),
+    ),
+    nextCursor: rows.length > search.limit && last ? encodeCursor({ key: last.sort_key, id: last.product.id }) : null,
+  })
+}
@@ -0,0 +1,68 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { TAX_RULES_TABLE, TaxError, taxRuleFromRow, taxRuleInputSchema, taxRuleToRow, validateTaxRule } from "@/lib/taxes"
+import { getAdminSession } from "@/lib/session"
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+function adminDatabase() {
+  try {
+    return createAdminClient()
+  } catch (configError) {
+    console.error("[api/tax-rules] the service role key is not configured", configError)
+    return null
+  }
+}
+
+/** Change some of a tax rule's fields; the result must still be a valid rule. Admin only. */
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  if (!getAdminSession(request)) return errorResponse("Admin access required", 403)
+
+  const parsed = taxRuleInputSchema.partial().safeParse(await request.json().catch(() => null))
+  if (!parsed.success) return errorResponse(parsed.error.issues[0]?.message ?? "Invalid tax rule", 400)
+
+  const supabase = adminDatabase()
+  if (!supabase) return errorResponse("Taxes are not configured", 500)
+
+  const { id } = await params
+  const { data: current, error: loadError } = await supabase.from(TAX_RULES_TABLE).select("*").eq("id", id).maybeSingle()
+  if (loadError) {
+    console.error("[api/tax-rules] tax rule lookup failed", loadError)
+    return errorResponse("Could not load the tax rule", 500)
+  }
+  if (!current) return errorResponse("Tax rule not found", 404)
+
+  try {
+    validateTaxRule({ ...taxRuleFromRow(current), ...parsed.data })
+  } catch (error) {
+    if (error instanceof TaxError) return errorResponse(error.message, 400)
+    throw error
+  }
+
+  const { error } = await supabase.from(TAX_RULES_TABLE).update(taxRuleToRow(parsed.data)).eq("id", id)
+  if (error) {
+    console.error("[api/tax-rules] updating the tax rule failed", error)
+    return errorResponse("Could not update the tax rule", 500)
+  }
+
+  return NextResponse.json({ ok: true })
+}
+
+/** Delete a tax rule; orders keep their own tax lines. Admin only. */
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  if (!getAdminSession(request)) return errorResponse("Admin access required", 403)
+
+  const supabase = adminDatabase()
+  if (!supabase) return errorResponse("Taxes are not configured", 500)
+
+  const { id } = await params
+  const { error } = await supabase.from(TAX_RULES_TABLE).delete().eq("id", id)
+  if (error) {
+    console.error("[api/tax-rules] deleting the tax rule failed", error)
+    return errorResponse("Could not delete the tax rule", 500)
+  }
+
+  return NextResponse.json({ ok: true })
+}
@@ -0,0 +1,42 @@
+import { NextResponse, type NextRequest } from "next/server"
+import { createAdminClient } from "@/lib/supabase/admin"
+import { TAX_RULES_TABLE, TaxError, taxRuleFromRow, taxRuleInputSchema, taxRuleToRow, validateTaxRule } from "@/lib/taxes"
+import { getAdminSession } from "@/lib/session"
+
+function errorResponse(message: string, status: number) {
+  return NextResponse.json({ error: message }, { status })
+}
+
+/**
+ * Create a tax rule. Admin only: tax_rules and order_tax_lines are read-only with the
+ * anon key (scripts/032_server_side_writes.sql), since the order API taxes with them.
+ */
+export async function POST(request: NextRequest) {
+  const session = getAdminSession(request)
+  if (!session) return errorResponse("Admin access required", 403)
+
+  const parsed = taxRuleInputSchema.safeParse(await request.json().catch(() => null))
+  if (!parsed.success) return errorResponse(parsed.error.issues[0]?.message ?? "Invalid tax rule", 400)
+  try {
+    validateTaxRule(parsed.data)
+  } catch (error) {
+    if (error instanceof TaxError) return errorResponse(error.message, 400)
+    throw error
+  }
+
+  let supabase
+  try {
+    supabase = createAdminClient()
+  } catch (configError) {
+    console.error("[api/tax-rules] the service role key is not configured", configError)
+    return errorResponse("Taxes are not configured", 500)
+  }
+
+  const { data, error } = await supabase.from(TAX_RULES_TABLE).insert(taxRuleToRow(parsed.data)).select("*").single()
+  if (error) {
+    console.error("[api/tax-rules] creating the tax rule failed", error)
+    return errorResponse("Could not create the tax rule", 500)
+  }
+
+  return NextResponse.json({ rule: taxRuleFromRow(data) }, { status: 201 })
+}
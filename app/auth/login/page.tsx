@@ -4,13 +4,13 @@ import type React from "react"
 
 import { useState } from "react"
 import { useRouter } from "next/navigation"
-import { createClient } from "@/lib/supabase/client"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { useToast } from "@/hooks/use-toast"
-import { mockUser, isSupabaseConfigured } from "@/lib/mock-data"
+import { getBackend } from "@/lib/backend"
+import { login } from "@/lib/auth"
 import Link from "next/link"
 
 export default function LoginPage() {
@@ -27,84 +27,23 @@ export default function LoginPage() {
     setIsLoading(true)
 
     try {
-      if (!isSupabaseConfigured()) {
-        // Demo mode - any email/password combination works
-        const isAdmin = email.toLowerCase().includes('admin')
-        const demoUser = { 
-          ...mockUser, 
-          email: email || mockUser.email,
-          role: isAdmin ? "admin" : "user"
-        }
-        localStorage.setItem('demo-user', JSON.stringify(demoUser))
-        // Set lightweight cookies for middleware to recognize client session
-        document.cookie = "sb_local_session=1; Max-Age=604800; path=/";
-        document.cookie = `sb_local_role=${isAdmin ? 'admin' : 'user'}; Max-Age=604800; path=/`;
-        
+      const result = await login(email, password)
+      if (!result.success || !result.user) {
+        throw new Error(result.error || "Invalid email or password")
+      }
+
+      if (getBackend() === "local") {
         toast({
           title: "Login Successful",
-          description: isAdmin ? "Welcome Admin! (Demo Mode)" : "Welcome back! (Demo Mode)",
+          description: result.user.role === "admin" ? "Welcome Admin! (Demo Mode)" : "Welcome back! (Demo Mode)",
         })
-        
         router.push("/")
         return
       }
 
-      const supabase = createClient()
-
-      // Since Supabase Auth might not be enabled, use direct users table login
-      // First get user by email using maybeSingle() to avoid 406 errors
-      const { data: userData, error: userError } = await supabase
-        .from('users')
-        .select('*')
-        .eq('email', email)
-        .maybeSingle() // This prevents 406 errors when no rows found
-      
-      // Handle error (but not "no rows" which is normal)
-      if (userError) {
-        console.error('Database error:', userError)
-        throw new Error("Database connection error. Please try again.")
-      }
-      
-      // If no user found, try default admin fallback
-      if (!userData) {
-        if (email === 'admin@example.com' && password === 'admin123') {
-          const adminUser = {
-            id: 'admin-user',
-            name: 'Admin',
-            email: 'admin@example.com',
-            role: 'admin'
-          }
-          
-          // Store admin session locally
-          localStorage.setItem('supabase-user', JSON.stringify(adminUser))
-          // Cookies for middleware
-          document.cookie = "sb_local_session=1; Max-Age=604800; path=/";
-          document.cookie = "sb_local_role=admin; Max-Age=604800; path=/";
-          
-          setStatus('success')
-          setStatusMessage('Admin login successful! Redirecting...')
-          
-          setTimeout(() => router.push("/"), 1500)
-          return
-        }
-        
-        throw new Error("User not found. Please sign up first or check your email.")
-      }
-      
-      // Simple password check (In production, use proper password hashing!)
-      if (userData.password !== password) {
-        throw new Error("Invalid password")
-      }
-      
-      // Store user session locally
-      localStorage.setItem('supabase-user', JSON.stringify(userData))
-      // Cookies for middleware
-      document.cookie = "sb_local_session=1; Max-Age=604800; path=/";
-      document.cookie = `sb_local_role=${userData.role || 'user'}; Max-Age=604800; path=/`;
-      
       setStatus('success')
-      setStatusMessage(userData.role === "admin" ? "Admin login successful! Redirecting..." : "Login successful! Redirecting...")
-      
+      setStatusMessage(result.user.role === "admin" ? "Admin login successful! Redirecting..." : "Login successful! Redirecting...")
+
       setTimeout(() => router.push("/"), 1500)
     } catch (error: any) {
       setStatus('error')
@@ -120,8 +59,8 @@ export default function LoginPage() {
         <CardHeader>
           <CardTitle className="text-2xl text-white">Login</CardTitle>
           <CardDescription className="text-white/70">
-            {!isSupabaseConfigured() ? 
-              "Demo Mode - Any email/password works (use 'admin' in email for admin access)" : 
+            {getBackend() === "local" ? 
+              "Demo Mode - Any email/password works (the first account is the admin)" : 
               "Enter your credentials to access your account"
             }
           </CardDescription>
@@ -138,7 +77,7 @@ export default function LoginPage() {
                 placeholder="your@email.com"
                 value={email}
                 onChange={(e) => setEmail(e.target.value)}
-                required={isSupabaseConfigured()}
+                required
                 className="bg-white/10 border-white/30 text-white placeholder:text-white/50"
               />
             </div>
@@ -152,7 +91,7 @@ export default function LoginPage() {
                 placeholder="••••••••"
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
-                required={isSupabaseConfigured()}
+                required
                 className="bg-white/10 border-white/30 text-white placeholder:text-white/50"
               />
             </div>
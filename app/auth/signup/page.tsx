@@ -4,13 +4,13 @@ import type React from "react"
 
 import { useState } from "react"
 import { useRouter } from "next/navigation"
-import { createClient } from "@/lib/supabase/client"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
 import { useToast } from "@/hooks/use-toast"
-import { mockUser, isSupabaseConfigured } from "@/lib/mock-data"
+import { getBackend } from "@/lib/backend"
+import { register } from "@/lib/auth"
 import Link from "next/link"
 
 export default function SignupPage() {
@@ -41,68 +41,15 @@ export default function SignupPage() {
     setIsLoading(true)
 
     try {
-      if (!isSupabaseConfigured()) {
-        // Demo mode - create local user
-        const isAdmin = email.toLowerCase().includes('admin')
-        const newUser = {
-          id: Date.now().toString(),
-          name: email.split('@')[0],
-          email: email,
-          role: isAdmin ? "admin" : "user"
-        }
-        
-        // Store in localStorage for demo
-        localStorage.setItem('demo-user', JSON.stringify(newUser))
-        // Cookies for middleware to recognize session immediately
-        document.cookie = "sb_local_session=1; Max-Age=604800; path=/";
-        document.cookie = `sb_local_role=${isAdmin ? 'admin' : 'user'}; Max-Age=604800; path=/`;
-        
-        setStatus('success')
-        setStatusMessage(isAdmin ? "Admin account created! Redirecting..." : "Account created! Redirecting...")
-        
-        setTimeout(() => router.push("/"), 1500)
-        return
+      const result = await register(email, password, email.split('@')[0])
+      if (!result.success) {
+        throw new Error(result.error || "Failed to create account")
       }
 
-      const supabase = createClient()
-      
-      // Since Supabase Auth might not be enabled, create user directly in users table
-      // Check if user already exists using maybeSingle() to avoid 406 errors
-      const { data: existingUser, error: checkError } = await supabase
-        .from('users')
-        .select('email')
-        .eq('email', email)
-        .maybeSingle() // Prevents 406 error when no user found
-      
-      // Handle database errors (but not "no rows" which is expected)
-      if (checkError) {
-        console.error('Database error during user check:', checkError)
-        throw new Error("Database connection error. Please try again.")
-      }
-      
-      // If user already exists, throw error
-      if (existingUser) {
-        throw new Error("User with this email already exists. Please login instead.")
-      }
-      
-      // Create user directly in users table
-      const { error: insertError } = await supabase
-        .from('users')
-        .insert({
-          name: email.split('@')[0],
-          email: email,
-          password: password, // Note: In production, hash this!
-          role: email.toLowerCase().includes('admin') ? 'admin' : 'user'
-        })
-      
-      if (insertError) {
-        throw new Error(insertError.message || "Failed to create account")
-      }
-      
       setStatus('success')
-      setStatusMessage('Account created successfully! Redirecting to login...')
-      
-      setTimeout(() => router.push("/auth/login"), 1500)
+      setStatusMessage(result.user?.role === "admin" ? "Admin account created! Redirecting..." : "Account created! Redirecting...")
+
+      setTimeout(() => router.push("/"), 1500)
     } catch (error: any) {
       setStatus('error')
       setStatusMessage(error.message || "Failed to create account")
@@ -117,8 +64,8 @@ export default function SignupPage() {
         <CardHeader>
           <CardTitle className="text-2xl text-white">Sign Up</CardTitle>
           <CardDescription className="text-white/70">
-            {!isSupabaseConfigured() ? 
-              "Demo Mode - Any email/password works (use 'admin' in email for admin access)" : 
+            {getBackend() === "local" ? 
+              "Demo Mode - Any email/password works (the first account is the admin)" : 
               "Create a new account to get started"
             }
           </CardDescription>
@@ -135,7 +82,7 @@ export default function SignupPage() {
                 placeholder="your@email.com"
                 value={email}
                 onChange={(e) => setEmail(e.target.value)}
-                required={isSupabaseConfigured()}
+                required
                 className="bg-white/10 border-white/30 text-white placeholder:text-white/50"
               />
             </div>
@@ -149,7 +96,7 @@ export default function SignupPage() {
                 placeholder="••••••••"
                 value={password}
                 onChange={(e) => setPassword(e.target.value)}
-                required={isSupabaseConfigured()}
+                required
                 className="bg-white/10 border-white/30 text-white placeholder:text-white/50"
               />
             </div>
@@ -163,7 +110,7 @@ export default function SignupPage() {
                 placeholder="••••••••"
                 value={confirmPassword}
                 onChange={(e) => setConfirmPassword(e.target.value)}
-                required={isSupabaseConfigured()}
+                required
                 className="bg-white/10 border-white/30 text-white placeholder:text-white/50"
               />
             </div>
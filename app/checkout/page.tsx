@@ -1,330 +1,481 @@
-"use client"
-
-import { useState, useEffect } from "react"
-import { useRouter } from "next/navigation"
-import { ArrowLeft } from "lucide-react"
-import { Button } from "@/components/ui/button"
-import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
-import { Header } from "@/components/header"
-import { PaymentQR } from "@/components/payment-qr"
-import { FileUpload } from "@/components/file-upload"
-import { useToast } from "@/hooks/use-toast"
-import { createClient } from "@/lib/supabase/client"
-
-type PaymentMethod = "binance" | "paypal" | "phonepe" | "upi"
-
-type Product = {
-  id: string
-  name: string
-  description: string
-  price: number
-  image: string
-  category: string
-  stock: number
-}
-
-type CartItem = {
-  id: string
-  product_id: string
-  quantity: number
-  product: Product
-}
-
-export default function CheckoutPage() {
-  const router = useRouter()
-  const { toast } = useToast()
-  const [cartItems, setCartItems] = useState<CartItem[]>([])
-  const [total, setTotal] = useState(0)
-  const [paymentMethod, setPaymentMethod] = useState<PaymentMethod>("binance")
-  const [paymentProof, setPaymentProof] = useState<File | null>(null)
-  const [paymentProofPreview, setPaymentProofPreview] = useState<string>("")
-  const [loading, setLoading] = useState(false)
-  const [user, setUser] = useState<any>(null)
-
-  useEffect(() => {
-    loadUserAndCart()
-  }, [])
-
-  const loadUserAndCart = async () => {
-    // Try local session first (demo or legacy)
-    const local =
-      typeof window !== "undefined" &&
-      (localStorage.getItem("supabase-user") ||
-        localStorage.getItem("demo-user") ||
-        localStorage.getItem("crime_zone_current_user"))
-
-    let sessionUser: any = local ? JSON.parse(local) : null
-
-    if (!sessionUser) {
-      try {
-        const supabase = createClient()
-        const {
-          data: { user },
-        } = await supabase.auth.getUser()
-        if (user) sessionUser = user
-      } catch {}
-    }
-
-    if (!sessionUser) {
-      router.push("/auth/login")
-      return
-    }
-
-    setUser(sessionUser)
-
-    // Load cart from localStorage first (since no cart table in your schema)
-    const savedDemoCart = localStorage.getItem("demo-cart")
-    const savedUserCart = sessionUser?.id ? localStorage.getItem(`cart-${sessionUser.id}`) : null
-    let cartData: any[] | null = null
-
-    if (savedUserCart) {
-      try { cartData = JSON.parse(savedUserCart) } catch {}
-    } else if (savedDemoCart) {
-      try { cartData = JSON.parse(savedDemoCart) } catch {}
-    }
-
-    // As a fallback, try Supabase cart table if it exists
-    if (!cartData) {
-      try {
-        const supabase = createClient()
-        const { data } = await supabase
-          .from("cart")
-          .select(`*, product:products(*)`)
-          .eq("user_id", sessionUser.id)
-        if (data && data.length > 0) {
-          cartData = data as any[]
-        }
-      } catch {}
-    }
-
-    if (!cartData || cartData.length === 0) {
-      // No items — go back to home
-      router.push("/")
-      return
-    }
-
-    setCartItems(cartData as any)
-    const cartTotal = cartData.reduce((sum: number, item: any) => sum + item.product.price * item.quantity, 0)
-    setTotal(cartTotal)
-  }
-
-  const handleFileSelect = (file: File) => {
-    setPaymentProof(file)
-    const reader = new FileReader()
-    reader.onloadend = () => {
-      setPaymentProofPreview(reader.result as string)
-    }
-    reader.readAsDataURL(file)
-  }
-
-  const handleRemoveFile = () => {
-    setPaymentProof(null)
-    setPaymentProofPreview("")
-  }
-
-  const handleSubmitOrder = async () => {
-    if (!user) {
-      router.push("/auth/login")
-      return
-    }
-
-    if (!paymentProof) {
-      toast({
-        title: "Payment Proof Required",
-        description: "Please upload a screenshot of your payment confirmation",
-        variant: "destructive",
-      })
-      return
-    }
-
-    setLoading(true)
-
-    try {
-      const supabase = createClient()
-
-      // Insert one order per cart item according to your schema
-      // CRITICAL FIX: Removed 'notes' field that was causing PGRST204 error
-      const inserts = cartItems.map((item) => ({
-        user_id: user.id,
-        product_id: item.product_id,
-        quantity: item.quantity,
-        total_amount: Number(item.product.price) * item.quantity,
-        status: "pending",
-        // NO 'notes' field - this was causing the error!
-      }))
-
-      console.log("[Checkout] Inserting orders:", inserts)
-
-      const { data: createdOrders, error: ordersError } = await supabase
-        .from("orders")
-        .insert(inserts)
-        .select("id")
-
-      if (ordersError) {
-        console.error("[Checkout] Orders insert error:", ordersError)
-        throw ordersError
-      }
-
-      console.log("[Checkout] ✅ Orders created successfully:", createdOrders)
-
-      // Clear local cart (we use local carts)
-      if (user?.id) {
-        localStorage.removeItem(`cart-${user.id}`)
-      }
-      localStorage.removeItem('demo-cart')
-
-      toast({
-        title: "Order Submitted",
-        description: "Your order(s) have been submitted and are pending confirmation",
-      })
-
-      // Redirect to dashboard; include first order id if available
-      const firstId = createdOrders && createdOrders.length > 0 ? createdOrders[0].id : ''
-      router.push(firstId ? `/dashboard?order=${firstId}` : "/dashboard")
-      
-    } catch (error: any) {
-      // Fallback: save orders locally so UX is not blocked
-      console.error("[Checkout] Error submitting order:", error?.message || JSON.stringify(error) || error)
-      
-      try {
-        const key = user?.id ? `local-orders-${user.id}` : 'local-orders'
-        const existing = localStorage.getItem(key)
-        const arr = existing ? JSON.parse(existing) : []
-        const now = Date.now()
-        
-        cartItems.forEach((item, idx) => {
-          const localId = `local-${now}-${idx}`
-          arr.unshift({
-            id: localId,
-            user_id: user.id,
-            product_id: item.product_id,
-            quantity: item.quantity,
-            total_amount: Number(item.product.price) * item.quantity,
-            status: 'pending',
-            created_at: new Date().toISOString(),
-            order_items: [
-              {
-                id: `local-item-${item.id}`,
-                product_id: item.product_id,
-                quantity: item.quantity,
-                price: item.product.price,
-                product: item.product,
-              }
-            ]
-          })
-        })
-        localStorage.setItem(key, JSON.stringify(arr))
-
-        // Clear local cart
-        if (user?.id) localStorage.removeItem(`cart-${user.id}`)
-        localStorage.removeItem('demo-cart')
-
-        toast({ 
-          title: 'Order saved locally', 
-          description: 'Showing on your dashboard (demo mode).' 
-        })
-        router.push(`/dashboard`)
-        return
-        
-      } catch (fallbackErr) {
-        toast({
-          title: "Error",
-          description: "Failed to submit order. Please try again.",
-          variant: "destructive",
-        })
-      }
-    } finally {
-      setLoading(false)
-    }
-  }
-
-  if (cartItems.length === 0) {
-    return (
-      <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 flex items-center justify-center">
-        <p className="text-white/80">Your cart is empty. Redirecting...</p>
-      </div>
-    )
-  }
-
-  return (
-    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 text-white">
-      <Header />
-
-      <main className="container py-8">
-        <Button variant="ghost" onClick={() => router.back()} className="mb-6">
-          <ArrowLeft className="h-4 w-4 mr-2" />
-          Back
-        </Button>
-
-        <div className="grid lg:grid-cols-2 gap-8">
-          <div className="space-y-6">
-            <Card className="bg-white/10 backdrop-blur border-white/20">
-              <CardHeader>
-                <CardTitle className="text-white">Order Summary</CardTitle>
-                <CardDescription className="text-white/80">Review your items before payment</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <div className="space-y-4">
-                  {cartItems.map((item) => (
-                    <div key={item.id} className="flex justify-between items-start pb-4 border-b last:border-0">
-                      <div className="flex-1">
-                        <p className="font-semibold">{item.product.name}</p>
-                        <p className="text-sm text-muted-foreground">
-                          ${item.product.price} × {item.quantity}
-                        </p>
-                      </div>
-                      <p className="font-semibold">${(item.product.price * item.quantity).toFixed(2)}</p>
-                    </div>
-                  ))}
-
-                <div className="space-y-2 pt-4 border-t">
-                  <div className="flex justify-between items-center text-lg font-bold">
-                    <span>Total:</span>
-                    <span className="text-primary">${total.toFixed(2)}</span>
-                  </div>
-                </div>
-
-                {/* OKLCH colored info boxes */}
-                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mt-4">
-                  <div className="rounded-lg p-3 border text-foreground" style={{ background: 'oklch(var(--chart-1) / 0.18)', borderColor: 'oklch(var(--chart-1))' }}>
-                    <p className="text-xs opacity-80">Items</p>
-                    <p className="text-lg font-semibold">{cartItems.reduce((s, i) => s + i.quantity, 0)}</p>
-                  </div>
-                  <div className="rounded-lg p-3 border text-foreground" style={{ background: 'oklch(var(--chart-2) / 0.18)', borderColor: 'oklch(var(--chart-2))' }}>
-                    <p className="text-xs opacity-80">Method</p>
-                    <p className="text-lg font-semibold capitalize">{paymentMethod}</p>
-                  </div>
-                  <div className="rounded-lg p-3 border text-foreground" style={{ background: 'oklch(var(--chart-4) / 0.18)', borderColor: 'oklch(var(--chart-4))' }}>
-                    <p className="text-xs opacity-80">Total</p>
-                    <p className="text-lg font-semibold">${total.toFixed(2)}</p>
-                  </div>
-                </div>
-                </div>
-              </CardContent>
-            </Card>
-
-            <Card className="bg-white/10 backdrop-blur border-white/20">
-              <CardHeader>
-                <CardTitle className="text-white">Upload Payment Proof</CardTitle>
-                <CardDescription className="text-white/80">Upload a screenshot of your payment confirmation</CardDescription>
-              </CardHeader>
-              <CardContent>
-                <FileUpload onFileSelect={handleFileSelect} preview={paymentProofPreview} onRemove={handleRemoveFile} />
-              </CardContent>
-            </Card>
-
-            <Button onClick={handleSubmitOrder} disabled={!paymentProof || loading} size="lg" className="w-full">
-              {loading ? "Submitting Order..." : "Submit Order"}
-            </Button>
-          </div>
-
-          <div>
-            <div className="bg-white/10 backdrop-blur border border-white/20 rounded-xl p-2">
-              <PaymentQR total={total} onMethodChange={setPaymentMethod} />
-            </div>
-          </div>
-        </div>
-      </main>
-    </div>
-  )
+"use client"
+
+import { useState, useEffect } from "react"
+import { useRouter } from "next/navigation"
+import { ArrowLeft, Tag, X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Header } from "@/components/header"
+import { PaymentQR } from "@/components/payment-qr"
+import { FileUpload } from "@/components/file-upload"
+import { TaxBreakdown } from "@/components/tax-breakdown"
+import { useToast } from "@/hooks/use-toast"
+import { getCurrentUser, type User } from "@/lib/auth"
+import { CouponError } from "@/lib/coupons"
+import { convertFromStoreCurrency, formatMoney, getExchangeRates, type ExchangeRate, type PaymentAmount } from "@/lib/currency"
+import { createOrder, newOrderId, quoteCart, type OrderLine } from "@/lib/orders"
+import type { AppliedCoupon, OrderQuote, PricedLine, TaxLine } from "@/lib/pricing"
+import { isManualGateway } from "@/lib/payment-gateways/types"
+import type { PaymentProvider } from "@/lib/payment-providers"
+import { REFERENCE_FORMATS, transactionReferenceError } from "@/lib/payment-references"
+import type { Product } from "@/lib/products"
+import { COUNTRY_CODES, countryName, isCountryCode } from "@/lib/taxes"
+
+type CartItem = {
+  id: string
+  product_id: string
+  variant_id?: string | null
+  variant_name?: string
+  quantity: number
+  product: Product
+}
+
+export default function CheckoutPage() {
+  const router = useRouter()
+  const { toast } = useToast()
+  const [cartItems, setCartItems] = useState<CartItem[]>([])
+  const [total, setTotal] = useState(0)
+  const [pricedLines, setPricedLines] = useState<PricedLine[]>([])
+  const [taxes, setTaxes] = useState<TaxLine[]>([])
+  const [billingCountry, setBillingCountry] = useState("")
+  const [provider, setProvider] = useState<PaymentProvider | null>(null)
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([])
+  const [couponInput, setCouponInput] = useState("")
+  const [coupon, setCoupon] = useState<AppliedCoupon | null>(null)
+  const [couponError, setCouponError] = useState("")
+  const [applyingCoupon, setApplyingCoupon] = useState(false)
+  const [transactionReference, setTransactionReference] = useState("")
+  const [paymentProof, setPaymentProof] = useState<File | null>(null)
+  const [paymentProofPreview, setPaymentProofPreview] = useState<string>("")
+  const [loading, setLoading] = useState(false)
+  const [user, setUser] = useState<User | null>(null)
+  // Chosen up front so the payment can reference the order before it is submitted
+  const [orderId] = useState(newOrderId)
+
+  // Gateways take the payment on their own page; only manual payments need a reference and proof
+  const manualPayment = !provider || isManualGateway(provider.gateway)
+  const referenceFormat = REFERENCE_FORMATS[provider?.type ?? "other"]
+  const referenceError = !provider
+    ? "Please choose a payment method"
+    : manualPayment
+      ? transactionReferenceError(provider.type, transactionReference)
+      : null
+  // What the customer pays in the method's currency; the order API converts with the same rates
+  let payment: PaymentAmount | null = null
+  let paymentError: string | null = null
+  if (provider) {
+    try {
+      payment = convertFromStoreCurrency(total, provider.currency, exchangeRates)
+    } catch (error: any) {
+      paymentError = error.message
+    }
+  }
+  // Only complain once the customer has typed something that could be a whole reference
+  const showReferenceError = transactionReference.replace(/\s/g, "").length >= 10
+
+  useEffect(() => {
+    loadUserAndCart()
+  }, [])
+
+  const loadUserAndCart = async () => {
+    const sessionUser = getCurrentUser()
+
+    if (!sessionUser) {
+      router.push("/auth/login")
+      return
+    }
+
+    setUser(sessionUser)
+
+    // Load cart from localStorage (since no cart table in your schema)
+    const savedDemoCart = localStorage.getItem("demo-cart")
+    const savedUserCart = localStorage.getItem(`cart-${sessionUser.id}`)
+    let cartData: CartItem[] | null = null
+
+    if (savedUserCart) {
+      try { cartData = JSON.parse(savedUserCart) } catch {}
+    } else if (savedDemoCart) {
+      try { cartData = JSON.parse(savedDemoCart) } catch {}
+    }
+
+    if (!cartData || cartData.length === 0) {
+      // No items — go back to home
+      router.push("/")
+      return
+    }
+
+    setCartItems(cartData)
+    const cartTotal = cartData.reduce((sum, item) => sum + item.product.price * item.quantity, 0)
+    setTotal(cartTotal)
+
+    // A guess from the browser language; the customer confirms it in the Billing Country card
+    const region = navigator.language.split("-")[1]?.toUpperCase()
+    const country = region && isCountryCode(region) ? region : ""
+    setBillingCountry(country)
+
+    // The amount to pay must match what the order API will charge, sales and tax included
+    try {
+      showQuote(
+        await quoteCart(
+          cartData.map((item) => ({ product: item.product, variantId: item.variant_id, quantity: item.quantity })),
+          { billingCountry: country || undefined },
+        ),
+      )
+    } catch (error: any) {
+      console.error("[Checkout] Failed to price cart:", error?.message || error)
+    }
+
+    try {
+      setExchangeRates(await getExchangeRates())
+    } catch (error: any) {
+      console.error("[Checkout] Failed to load exchange rates:", error?.message || error)
+    }
+  }
+
+  const showQuote = (quote: OrderQuote) => {
+    setTotal(quote.total)
+    setPricedLines(quote.lines)
+    setTaxes(quote.taxes)
+  }
+
+  const pricedLine = (item: CartItem) =>
+    pricedLines.find((line) => line.product.id === item.product_id && (line.variant?.id ?? null) === (item.variant_id ?? null))
+
+  const unitPrice = (item: CartItem) => pricedLine(item)?.unitPrice ?? item.product.price
+
+  const cartLines = (): OrderLine[] =>
+    cartItems.map((item) => ({ product: item.product, variantId: item.variant_id, quantity: item.quantity }))
+
+  // The coupon is checked again by the order API; this only shows the customer the new total
+  const applyCouponCode = async () => {
+    if (!couponInput.trim() || !user) return
+    setApplyingCoupon(true)
+    setCouponError("")
+    try {
+      const quote = await quoteCart(cartLines(), {
+        couponCode: couponInput,
+        userId: user.id,
+        billingCountry: billingCountry || undefined,
+      })
+      showQuote(quote)
+      setCoupon(quote.coupon)
+    } catch (error: any) {
+      if (!(error instanceof CouponError)) console.error("[Checkout] Failed to apply coupon:", error?.message || error)
+      setCouponError(error instanceof CouponError ? error.message : "Could not check this coupon. Please try again.")
+    } finally {
+      setApplyingCoupon(false)
+    }
+  }
+
+  const removeCoupon = async () => {
+    setCoupon(null)
+    setCouponInput("")
+    setCouponError("")
+    try {
+      showQuote(await quoteCart(cartLines(), { billingCountry: billingCountry || undefined }))
+    } catch (error: any) {
+      console.error("[Checkout] Failed to price cart:", error?.message || error)
+    }
+  }
+
+  const changeBillingCountry = async (country: string) => {
+    setBillingCountry(country)
+    try {
+      showQuote(await quoteCart(cartLines(), { couponCode: coupon?.code, userId: user?.id, billingCountry: country }))
+    } catch (error: any) {
+      console.error("[Checkout] Failed to price cart:", error?.message || error)
+    }
+  }
+
+  const handleFileSelect = (file: File) => {
+    setPaymentProof(file)
+    const reader = new FileReader()
+    reader.onloadend = () => {
+      setPaymentProofPreview(reader.result as string)
+    }
+    reader.readAsDataURL(file)
+  }
+
+  const handleRemoveFile = () => {
+    setPaymentProof(null)
+    setPaymentProofPreview("")
+  }
+
+  const handleSubmitOrder = async () => {
+    if (!user) {
+      router.push("/auth/login")
+      return
+    }
+
+    if (!provider || referenceError) {
+      toast({
+        title: "Transaction Reference Required",
+        description: referenceError ?? "Please choose a payment method",
+        variant: "destructive",
+      })
+      return
+    }
+
+    if (paymentError) {
+      toast({ title: "Payment Method Unavailable", description: paymentError, variant: "destructive" })
+      return
+    }
+
+    if (!billingCountry) {
+      toast({
+        title: "Billing Country Required",
+        description: "Please choose your billing country so we can work out the tax",
+        variant: "destructive",
+      })
+      return
+    }
+
+    if (manualPayment && !paymentProof) {
+      toast({
+        title: "Payment Proof Required",
+        description: "Please upload a screenshot of your payment confirmation",
+        variant: "destructive",
+      })
+      return
+    }
+
+    setLoading(true)
+
+    try {
+      const { order, redirectUrl } = await createOrder({
+        id: orderId,
+        user,
+        lines: cartLines(),
+        provider,
+        transactionReference: manualPayment ? transactionReference : "",
+        paymentProof: manualPayment ? paymentProof : null,
+        couponCode: coupon?.code,
+        billingCountry,
+      })
+
+      // Clear local cart (we use local carts)
+      localStorage.removeItem(`cart-${user.id}`)
+      localStorage.removeItem('demo-cart')
+
+      if (redirectUrl) {
+        window.location.assign(redirectUrl)
+        return
+      }
+
+      toast({
+        title: "Order Submitted",
+        description: "Your order has been submitted and is pending confirmation",
+      })
+
+      router.push(`/dashboard?order=${order.id}`)
+    } catch (error: any) {
+      console.error("[Checkout] Error submitting order:", error?.message || error)
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to submit order. Please try again.",
+        variant: "destructive",
+      })
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  if (cartItems.length === 0) {
+    return (
+      <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 flex items-center justify-center">
+        <p className="text-white/80">Your cart is empty. Redirecting...</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 text-white">
+      <Header />
+
+      <main className="container py-8">
+        <Button variant="ghost" onClick={() => router.back()} className="mb-6">
+          <ArrowLeft className="h-4 w-4 mr-2" />
+          Back
+        </Button>
+
+        <div className="grid lg:grid-cols-2 gap-8">
+          <div className="space-y-6">
+            <Card className="bg-white/10 backdrop-blur border-white/20">
+              <CardHeader>
+                <CardTitle className="text-white">Order Summary</CardTitle>
+                <CardDescription className="text-white/80">Review your items before payment</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <div className="space-y-4">
+                  {cartItems.map((item) => (
+                    <div key={item.id} className="flex justify-between items-start pb-4 border-b last:border-0">
+                      <div className="flex-1">
+                        <p className="font-semibold">{item.product.name}</p>
+                        {item.variant_name && <p className="text-sm text-white/80">{item.variant_name}</p>}
+                        <p className="text-sm text-muted-foreground">
+                          {unitPrice(item) < item.product.price && (
+                            <span className="line-through mr-2">{formatMoney(item.product.price)}</span>
+                          )}
+                          {formatMoney(unitPrice(item))} × {item.quantity}
+                        </p>
+                        {pricedLine(item)?.variant?.licenseText && (
+                          <p className="text-xs text-white/60 mt-1 whitespace-pre-line">
+                            {pricedLine(item)?.variant?.licenseText}
+                          </p>
+                        )}
+                      </div>
+                      <p className="font-semibold">{formatMoney(unitPrice(item) * item.quantity)}</p>
+                    </div>
+                  ))}
+
+                <div className="space-y-2 pt-4 border-t">
+                  {coupon && (
+                    <div className="flex justify-between items-center text-sm text-green-400">
+                      <span>Coupon {coupon.code}</span>
+                      <span>-{formatMoney(coupon.discount)}</span>
+                    </div>
+                  )}
+                  <TaxBreakdown taxes={taxes} className="text-white/80" />
+                  <div className="flex justify-between items-center text-lg font-bold">
+                    <span>Total:</span>
+                    <span className="text-primary">{formatMoney(total)}</span>
+                  </div>
+                </div>
+
+                {/* OKLCH colored info boxes */}
+                <div className="grid grid-cols-1 sm:grid-cols-3 gap-3 mt-4">
+                  <div className="rounded-lg p-3 border text-foreground" style={{ background: 'oklch(var(--chart-1) / 0.18)', borderColor: 'oklch(var(--chart-1))' }}>
+                    <p className="text-xs opacity-80">Items</p>
+                    <p className="text-lg font-semibold">{cartItems.reduce((s, i) => s + i.quantity, 0)}</p>
+                  </div>
+                  <div className="rounded-lg p-3 border text-foreground" style={{ background: 'oklch(var(--chart-2) / 0.18)', borderColor: 'oklch(var(--chart-2))' }}>
+                    <p className="text-xs opacity-80">Method</p>
+                    <p className="text-lg font-semibold">{provider?.name ?? "-"}</p>
+                  </div>
+                  <div className="rounded-lg p-3 border text-foreground" style={{ background: 'oklch(var(--chart-4) / 0.18)', borderColor: 'oklch(var(--chart-4))' }}>
+                    <p className="text-xs opacity-80">You Pay</p>
+                    <p className="text-lg font-semibold">{payment ? formatMoney(payment.amount, payment.currency) : formatMoney(total)}</p>
+                  </div>
+                </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-white/10 backdrop-blur border-white/20">
+              <CardHeader>
+                <CardTitle className="text-white">Billing Country</CardTitle>
+                <CardDescription className="text-white/80">Tax is worked out for the country you are billed in.</CardDescription>
+              </CardHeader>
+              <CardContent>
+                <Select value={billingCountry} onValueChange={changeBillingCountry}>
+                  <SelectTrigger className="bg-white/5 border-white/20 text-white">
+                    <SelectValue placeholder="Choose your country" />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {COUNTRY_CODES.map((code) => ({ code, name: countryName(code) }))
+                      .sort((a, b) => a.name.localeCompare(b.name))
+                      .map(({ code, name }) => (
+                        <SelectItem key={code} value={code}>
+                          {name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </CardContent>
+            </Card>
+
+            <Card className="bg-white/10 backdrop-blur border-white/20">
+              <CardHeader>
+                <CardTitle className="text-white">Coupon Code</CardTitle>
+                <CardDescription className="text-white/80">Have a promo code? Apply it before paying.</CardDescription>
+              </CardHeader>
+              <CardContent className="space-y-2">
+                {coupon ? (
+                  <div className="flex items-center justify-between p-3 rounded-md border border-green-500/40 bg-green-500/10">
+                    <span className="flex items-center gap-2 font-mono font-semibold">
+                      <Tag className="h-4 w-4" />
+                      {coupon.code}
+                    </span>
+                    <Button variant="ghost" size="sm" onClick={removeCoupon}>
+                      <X className="h-4 w-4 mr-1" />
+                      Remove
+                    </Button>
+                  </div>
+                ) : (
+                  <div className="flex gap-2">
+                    <Input
+                      value={couponInput}
+                      onChange={(e) => setCouponInput(e.target.value.toUpperCase())}
+                      onKeyDown={(e) => e.key === "Enter" && applyCouponCode()}
+                      placeholder="e.g. WELCOME10"
+                      maxLength={32}
+                      autoComplete="off"
+                      className="font-mono"
+                    />
+                    <Button variant="outline" onClick={applyCouponCode} disabled={!couponInput.trim() || applyingCoupon}>
+                      {applyingCoupon ? "Checking..." : "Apply"}
+                    </Button>
+                  </div>
+                )}
+                {couponError && <p className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">{couponError}</p>}
+              </CardContent>
+            </Card>
+
+            {manualPayment && (
+              <>
+                <Card className="bg-white/10 backdrop-blur border-white/20">
+                  <CardHeader>
+                    <CardTitle className="text-white">Payment Reference</CardTitle>
+                    <CardDescription className="text-white/80">{referenceFormat.hint}</CardDescription>
+                  </CardHeader>
+                  <CardContent className="space-y-2">
+                    <Label htmlFor="transaction-reference">{referenceFormat.label}</Label>
+                    <Input
+                      id="transaction-reference"
+                      value={transactionReference}
+                      onChange={(e) => setTransactionReference(e.target.value)}
+                      placeholder={referenceFormat.placeholder}
+                      autoComplete="off"
+                      className="font-mono"
+                    />
+                    {transactionReference && showReferenceError && (
+                      <p className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">{referenceError}</p>
+                    )}
+                  </CardContent>
+                </Card>
+
+                <Card className="bg-white/10 backdrop-blur border-white/20">
+                  <CardHeader>
+                    <CardTitle className="text-white">Upload Payment Proof</CardTitle>
+                    <CardDescription className="text-white/80">Upload a screenshot of your payment confirmation</CardDescription>
+                  </CardHeader>
+                  <CardContent>
+                    <FileUpload onFileSelect={handleFileSelect} preview={paymentProofPreview} onRemove={handleRemoveFile} />
+                  </CardContent>
+                </Card>
+              </>
+            )}
+
+            <Button
+              onClick={handleSubmitOrder}
+              disabled={(manualPayment && !paymentProof) || !!referenceError || !!paymentError || loading}
+              size="lg"
+              className="w-full"
+            >
+              {loading ? "Submitting Order..." : manualPayment ? "Submit Order" : `Continue to ${provider?.name}`}
+            </Button>
+          </div>
+
+          <div>
+            <div className="bg-white/10 backdrop-blur border border-white/20 rounded-xl p-2">
+              <PaymentQR total={total} orderId={orderId} onMethodChange={(_, selected) => setProvider(selected)} />
+            </div>
+          </div>
+        </div>
+      </main>
+    </div>
+  )
 }
\ No newline at end of file
@@ -450,7 +450,7 @@ export default function CheckoutPage() {
 
           <div>
             <div className="bg-white/10 backdrop-blur border border-white/20 rounded-xl p-2">
-              <PaymentQR total={total} onMethodChange={setPaymentMethod} />
+              <PaymentQR total={total} onMethodChange={(method) => setPaymentMethod(method as PaymentMethod)} />
             </div>
           </div>
         </div>
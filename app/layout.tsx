@@ -9,6 +9,8 @@ import "./globals.css"
 import "./app.css"
 
 export const metadata: Metadata = {
+  // Base for the relative image URLs in Open Graph tags, so shared links show previews
+  metadataBase: new URL(process.env.NEXT_PUBLIC_SITE_URL || "http://localhost:3000"),
   title: "Suman Store - Premium Digital Products",
   description: "Discover premium digital products and exclusive access",
   generator: "v0.app",
@@ -0,0 +1,93 @@
+"use client"
+
+import { useState } from "react"
+import { useSearchParams } from "next/navigation"
+import { CheckCircle, FlaskConical, XCircle } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { useToast } from "@/hooks/use-toast"
+import { formatMoney } from "@/lib/currency"
+
+/**
+ * Hosted payment page of the fake gateway (lib/payment-gateways/fake.ts). Paying or
+ * declining sends a signed webhook through /api/payments/fake/simulate, then returns
+ * to the shop like a real gateway redirect would.
+ */
+export default function FakePaymentPage() {
+  const searchParams = useSearchParams()
+  const { toast } = useToast()
+  const [submitting, setSubmitting] = useState(false)
+
+  const paymentId = searchParams.get("payment") ?? ""
+  const orderId = searchParams.get("order") ?? ""
+  const amount = Number(searchParams.get("amount")) || 0
+  const currency = searchParams.get("currency") ?? "USD"
+  const description = searchParams.get("description") ?? ""
+  const returnTo = searchParams.get("return") ?? "/dashboard"
+
+  const simulate = async (outcome: "succeeded" | "failed") => {
+    setSubmitting(true)
+    try {
+      const response = await fetch("/api/payments/fake/simulate", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ paymentId, orderId, amount, currency, outcome }),
+      })
+      const body = await response.json().catch(() => ({}))
+      if (!response.ok) throw new Error(body.error || `Payment failed (${response.status})`)
+      // Only go back to this shop, never to a URL someone put in the link
+      const target = new URL(returnTo, window.location.origin)
+      window.location.assign(target.origin === window.location.origin ? target.toString() : "/dashboard")
+    } catch (error: any) {
+      console.error("[FakePayment] Simulated payment failed:", error?.message || error)
+      toast({
+        title: "Error",
+        description: error?.message || "The simulated payment failed",
+        variant: "destructive",
+      })
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 text-white flex items-center justify-center p-4">
+      <Card className="bg-white/10 backdrop-blur border-white/20 w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-white flex items-center gap-2">
+            <FlaskConical className="h-5 w-5" />
+            Fake Payment Gateway
+          </CardTitle>
+          <CardDescription className="text-white/70">
+            Development only. No money is moved; choose the outcome the gateway should report.
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {!paymentId || !orderId ? (
+            <p className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">This payment link is incomplete.</p>
+          ) : (
+            <>
+              <div className="text-center">
+                <p className="text-sm text-white/70">{description}</p>
+                <p className="text-3xl font-bold text-green-400">{formatMoney(amount, currency)}</p>
+              </div>
+              <div className="p-3 bg-white/5 rounded-lg border border-white/20">
+                <p className="text-xs text-white/70 mb-1">Payment ID</p>
+                <p className="font-mono text-sm break-all">{paymentId}</p>
+              </div>
+              <div className="grid grid-cols-2 gap-3">
+                <Button onClick={() => simulate("succeeded")} disabled={submitting}>
+                  <CheckCircle className="h-4 w-4 mr-2" />
+                  Pay
+                </Button>
+                <Button variant="destructive" onClick={() => simulate("failed")} disabled={submitting}>
+                  <XCircle className="h-4 w-4 mr-2" />
+                  Decline
+                </Button>
+              </div>
+            </>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
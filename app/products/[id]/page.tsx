@@ -0,0 +1,101 @@
+import { cache } from "react"
+import type { Metadata } from "next"
+import { cookies } from "next/headers"
+import { notFound, permanentRedirect } from "next/navigation"
+import { Storefront } from "@/components/storefront"
+import { getBackend } from "@/lib/backend"
+import { SESSION_COOKIE, verifySession } from "@/lib/session"
+import { createClient } from "@/lib/supabase/server"
+import { isProductLive, productFromRow, productHref, PRODUCT_SELECT, PRODUCTS_TABLE, relatedProducts, type Product } from "@/lib/products"
+
+type ProductPageProps = { params: Promise<{ id: string }> }
+
+interface LoadedProduct {
+  product: Product | null
+  related: Product[]
+}
+
+const STORE_NAME = "Suman Store"
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
+
+/**
+ * The product behind a `/products/[id]` URL (slug, or id for old links) and its related
+ * products. Null when the server cannot read the catalog: the local backend lives in the
+ * browser, and Storefront loads the product there instead. Products that are not live are
+ * missing for everyone but admins, who get a preview. Cached so the metadata and the page
+ * share one query.
+ */
+const loadProduct = cache(async (slugOrId: string): Promise<LoadedProduct | null> => {
+  if (getBackend() !== "supabase") return null
+
+  try {
+    const supabase = await createClient()
+    const { data, error } = await supabase
+      .from(PRODUCTS_TABLE)
+      .select(PRODUCT_SELECT)
+      .eq(UUID_PATTERN.test(slugOrId) ? "id" : "slug", slugOrId)
+      .maybeSingle()
+    if (error) throw error
+    if (!data) return { product: null, related: [] }
+    const product = productFromRow(data)
+    if (!isProductLive(product) && verifySession((await cookies()).get(SESSION_COOKIE)?.value)?.role !== "admin") {
+      return { product: null, related: [] }
+    }
+
+    const [sameCategory, latest] = await Promise.all([
+      product.categoryId
+        ? supabase.from(PRODUCTS_TABLE).select(PRODUCT_SELECT).eq("category_id", product.categoryId).neq("id", product.id).limit(4)
+        : Promise.resolve({ data: [], error: null }),
+      supabase.from(PRODUCTS_TABLE).select(PRODUCT_SELECT).neq("id", product.id).order("created_at", { ascending: false }).limit(4),
+    ])
+    if (sameCategory.error) throw sameCategory.error
+    if (latest.error) throw latest.error
+    const candidates = new Map([...(sameCategory.data || []), ...(latest.data || [])].map((row: any) => [row.id, productFromRow(row)]))
+    const live = Array.from(candidates.values()).filter((p) => isProductLive(p))
+    return { product, related: relatedProducts(live, product) }
+  } catch (error) {
+    console.error("[products/[id]] Error loading product:", error)
+    return null
+  }
+})
+
+export async function generateMetadata({ params }: ProductPageProps): Promise<Metadata> {
+  const { id } = await params
+  const product = (await loadProduct(id))?.product
+  if (!product) return { title: `Product - ${STORE_NAME}` }
+
+  // Relative image paths resolve against metadataBase from the root layout
+  const images = product.images.map((image) => image.url)
+  const description = product.description || `${product.name} at ${STORE_NAME}`
+  return {
+    title: `${product.name} - ${STORE_NAME}`,
+    description,
+    // Admin previews of drafts must not end up in search engines
+    robots: isProductLive(product) ? undefined : { index: false, follow: false },
+    alternates: { canonical: productHref(product) },
+    openGraph: {
+      type: "website",
+      siteName: STORE_NAME,
+      url: productHref(product),
+      title: product.name,
+      description,
+      images: images.map((url) => ({ url, alt: product.name })),
+    },
+    twitter: {
+      card: "summary_large_image",
+      title: product.name,
+      description,
+      images,
+    },
+  }
+}
+
+export default async function ProductPage({ params }: ProductPageProps) {
+  const { id } = await params
+  const loaded = await loadProduct(id)
+  if (loaded && !loaded.product) notFound()
+  // Links by id move to the shareable slug URL
+  if (loaded?.product && loaded.product.slug !== id) permanentRedirect(productHref(loaded.product))
+
+  return <Storefront productSlug={id} initialProduct={loaded?.product ?? null} initialRelated={loaded?.related ?? []} />
+}
@@ -2,27 +2,19 @@
 
 import React, { useEffect, useState } from "react"
 import { useRouter } from "next/navigation"
+import { getCurrentUser } from "@/lib/auth"
 
 interface AdminGuardProps {
   children: React.ReactNode
 }
 
-function getLocalSession(): { role?: string } | null {
-  if (typeof window === "undefined") return null
-  const supa = localStorage.getItem("supabase-user")
-  const demo = localStorage.getItem("demo-user")
-  const legacy = localStorage.getItem("crime_zone_current_user")
-  const raw = supa || demo || legacy
-  return raw ? JSON.parse(raw) : null
-}
-
 export function AdminGuard({ children }: AdminGuardProps) {
   const router = useRouter()
   const [status, setStatus] = useState<"checking" | "authorized" | "unauthorized">("checking")
 
   useEffect(() => {
     try {
-      const session = getLocalSession()
+      const session = getCurrentUser()
       if (session && session.role === "admin") {
         setStatus("authorized")
       } else {
@@ -27,14 +27,9 @@ export function AuthForm({ onSuccess }: AuthFormProps) {
     setLoading(true)
 
     try {
-      const result = isLogin ? login(email, password) : register(email, password, name)
+      const result = isLogin ? await login(email, password) : await register(email, password, name)
 
       if (result.success) {
-        // Set cookies to inform middleware about local session
-        if (result.user) {
-          document.cookie = "sb_local_session=1; Max-Age=604800; path=/";
-          document.cookie = `sb_local_role=${result.user.role}; Max-Age=604800; path=/`;
-        }
         onSuccess()
       } else {
         setError(result.error || "Authentication failed")
@@ -113,12 +108,6 @@ export function AuthForm({ onSuccess }: AuthFormProps) {
             </button>
           </div>
 
-          {isLogin && (
-            <div className="text-center text-xs text-muted-foreground pt-2 border-t">
-              Admin login: email: <span className="font-mono">admin</span>, password:{" "}
-              <span className="font-mono">Mafi123</span>
-            </div>
-          )}
         </form>
       </CardContent>
     </Card>
@@ -4,20 +4,16 @@ import { Minus, Plus, Trash2 } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Sheet, SheetContent, SheetHeader, SheetTitle, SheetFooter } from "@/components/ui/sheet"
 import Image from "next/image"
-
-type Product = {
-  id: string
-  name: string
-  description: string
-  price: number
-  image: string
-  category: string
-  stock: number
-}
+import { formatMoney } from "@/lib/currency"
+import { availableStock } from "@/lib/inventory"
+import type { EffectivePrice } from "@/lib/pricing"
+import { productThumbnail, type Product } from "@/lib/products"
 
 type CartItem = {
   id: string
   product_id: string
+  variant_id?: string | null
+  variant_name?: string
   quantity: number
   product: Product
 }
@@ -29,10 +25,13 @@ interface CartDrawerProps {
   onUpdateQuantity: (cartItemId: string, quantity: number) => void
   onRemove: (cartItemId: string) => void
   onCheckout: () => void
+  /** Sale prices from `usePromotions`; list prices when omitted */
+  priceOf?: (product: Product) => EffectivePrice
 }
 
-export function CartDrawer({ open, onClose, items, onUpdateQuantity, onRemove, onCheckout }: CartDrawerProps) {
-  const total = items.reduce((sum, item) => sum + item.product.price * item.quantity, 0)
+export function CartDrawer({ open, onClose, items, onUpdateQuantity, onRemove, onCheckout, priceOf }: CartDrawerProps) {
+  const unitPrice = (product: Product) => priceOf?.(product).price ?? product.price
+  const total = items.reduce((sum, item) => sum + unitPrice(item.product) * item.quantity, 0)
 
   return (
     <Sheet open={open} onOpenChange={onClose}>
@@ -52,7 +51,7 @@ export function CartDrawer({ open, onClose, items, onUpdateQuantity, onRemove, o
                 <div key={item.id} className="flex gap-4 p-4 rounded-lg bg-card border">
                   <div className="relative h-20 w-20 rounded-md overflow-hidden bg-muted flex-shrink-0">
                     <Image
-                      src={item.product.image || "/placeholder.svg"}
+                      src={productThumbnail(item.product)}
                       alt={item.product.name}
                       fill
                       className="object-cover"
@@ -61,7 +60,13 @@ export function CartDrawer({ open, onClose, items, onUpdateQuantity, onRemove, o
 
                   <div className="flex-1 min-w-0">
                     <h3 className="font-semibold text-sm line-clamp-1">{item.product.name}</h3>
-                    <p className="text-sm text-muted-foreground">${item.product.price}</p>
+                    {item.variant_name && <p className="text-xs text-muted-foreground">{item.variant_name}</p>}
+                    <p className="text-sm text-muted-foreground">
+                      {unitPrice(item.product) < item.product.price && (
+                        <span className="line-through mr-2">{formatMoney(item.product.price)}</span>
+                      )}
+                      {formatMoney(unitPrice(item.product))}
+                    </p>
 
                     <div className="flex items-center gap-2 mt-2">
                       <Button
@@ -78,7 +83,7 @@ export function CartDrawer({ open, onClose, items, onUpdateQuantity, onRemove, o
                         size="icon"
                         className="h-7 w-7 bg-transparent"
                         onClick={() => onUpdateQuantity(item.id, item.quantity + 1)}
-                        disabled={item.quantity >= item.product.stock}
+                        disabled={item.quantity >= availableStock(item.product)}
                       >
                         <Plus className="h-3 w-3" />
                       </Button>
@@ -94,7 +99,7 @@ export function CartDrawer({ open, onClose, items, onUpdateQuantity, onRemove, o
                   </div>
 
                   <div className="text-right">
-                    <p className="font-semibold">${(item.product.price * item.quantity).toFixed(2)}</p>
+                    <p className="font-semibold">{formatMoney(unitPrice(item.product) * item.quantity)}</p>
                   </div>
                 </div>
               ))}
@@ -106,7 +111,7 @@ export function CartDrawer({ open, onClose, items, onUpdateQuantity, onRemove, o
           <SheetFooter className="flex-col gap-4">
             <div className="flex items-center justify-between text-lg font-bold">
               <span>Total:</span>
-              <span className="text-primary">${total.toFixed(2)}</span>
+              <span className="text-primary">{formatMoney(total)}</span>
             </div>
             <Button onClick={onCheckout} size="lg" className="w-full">
               Proceed to Checkout
@@ -0,0 +1,201 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Plus } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Textarea } from "@/components/ui/textarea"
+import { useToast } from "@/hooks/use-toast"
+import {
+  categoryTree,
+  createCategory,
+  descendantIds,
+  flattenCategoryTree,
+  slugify,
+  updateCategory,
+  type Category,
+} from "@/lib/categories"
+
+interface CategoryFormDialogProps {
+  category?: Category
+  categories: Category[]
+  onSuccess: () => void
+}
+
+const NO_PARENT = "none"
+
+export function CategoryFormDialog({ category, categories, onSuccess }: CategoryFormDialogProps) {
+  const { toast } = useToast()
+  const [open, setOpen] = useState(false)
+  // The slug follows the name until it is edited by hand
+  const [slugEdited, setSlugEdited] = useState(Boolean(category))
+  const [formData, setFormData] = useState({
+    name: category?.name || "",
+    slug: category?.slug || "",
+    description: category?.description || "",
+    image: category?.image || "",
+    parentId: category?.parentId ?? null,
+    sortOrder: category?.sortOrder ?? 0,
+  })
+
+  // A category cannot be moved under itself or its subcategories
+  const excluded = category ? descendantIds(categories, category.id) : []
+  const parents = flattenCategoryTree(categoryTree(categories)).filter((c) => !excluded.includes(c.id))
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    const input = { ...formData, image: formData.image || null }
+
+    try {
+      if (category) await updateCategory(category.id, input)
+      else await createCategory(input)
+    } catch (error: any) {
+      console.error("[admin] Failed to save category", { id: category?.id, error })
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to save category",
+        variant: "destructive",
+      })
+      return
+    }
+
+    toast({
+      title: category ? "Category Updated" : "Category Added",
+      description: `${formData.name} has been saved`,
+    })
+    setOpen(false)
+    if (!category) {
+      setFormData({ name: "", slug: "", description: "", image: "", parentId: null, sortOrder: 0 })
+      setSlugEdited(false)
+    }
+    onSuccess()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={setOpen}>
+      <DialogTrigger asChild>
+        {category ? (
+          <Button variant="outline" size="sm">
+            Edit
+          </Button>
+        ) : (
+          <Button variant="outline">
+            <Plus className="h-4 w-4 mr-2" />
+            Add Category
+          </Button>
+        )}
+      </DialogTrigger>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{category ? "Edit Category" : "Add Category"}</DialogTitle>
+          <DialogDescription>Categories appear as chips on the storefront and at /category/[slug]</DialogDescription>
+        </DialogHeader>
+
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="category-name">Name</Label>
+              <Input
+                id="category-name"
+                value={formData.name}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    name: e.target.value,
+                    slug: slugEdited ? formData.slug : slugify(e.target.value),
+                  })
+                }
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="category-slug">Slug</Label>
+              <Input
+                id="category-slug"
+                value={formData.slug}
+                onChange={(e) => {
+                  setSlugEdited(true)
+                  setFormData({ ...formData, slug: e.target.value.toLowerCase() })
+                }}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="category-parent">Parent</Label>
+              <Select
+                value={formData.parentId ?? NO_PARENT}
+                onValueChange={(value) => setFormData({ ...formData, parentId: value === NO_PARENT ? null : value })}
+              >
+                <SelectTrigger id="category-parent">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={NO_PARENT}>None (top level)</SelectItem>
+                  {parents.map((parent) => (
+                    <SelectItem key={parent.id} value={parent.id}>
+                      {"\u00a0\u00a0".repeat(parent.depth)}
+                      {parent.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="category-sort">Sort Order</Label>
+              <Input
+                id="category-sort"
+                type="number"
+                value={formData.sortOrder}
+                onChange={(e) => setFormData({ ...formData, sortOrder: Number.parseInt(e.target.value) || 0 })}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="category-image">Image URL</Label>
+            <Input
+              id="category-image"
+              value={formData.image}
+              onChange={(e) => setFormData({ ...formData, image: e.target.value })}
+              placeholder="/placeholder.svg"
+            />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="category-description">Description</Label>
+            <Textarea
+              id="category-description"
+              value={formData.description}
+              onChange={(e) => setFormData({ ...formData, description: e.target.value })}
+            />
+          </div>
+
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+              Cancel
+            </Button>
+            <Button type="submit">{category ? "Update Category" : "Add Category"}</Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,75 @@
+"use client"
+
+import Link from "next/link"
+import { categoryPath, categoryTree, type Category, type CategoryNode } from "@/lib/categories"
+
+interface CategoryNavProps {
+  categories: Category[]
+  /** Slug of the category being shown; none on the home page */
+  activeSlug?: string
+}
+
+function activeIds(categories: Category[], activeSlug?: string): string[] {
+  const active = categories.find((c) => c.slug === activeSlug)
+  return active ? categoryPath(categories, active.id).map((c) => c.id) : []
+}
+
+/** Top-level categories as chips, with "All" leading back to the home page. */
+export function CategoryChips({ categories, activeSlug }: CategoryNavProps) {
+  const roots = categoryTree(categories)
+  if (roots.length === 0) return null
+  const path = activeIds(categories, activeSlug)
+
+  const chip = (href: string, label: string, active: boolean) => (
+    <Link
+      key={href}
+      href={href}
+      className={`px-4 py-1.5 rounded-full text-sm border transition-colors hover-3d ${
+        active ? "bg-white text-purple-900 border-white" : "bg-white/10 text-white border-white/30 hover:bg-white/20"
+      }`}
+    >
+      {label}
+    </Link>
+  )
+
+  return (
+    <nav aria-label="Categories" className="flex flex-wrap gap-2 mb-6">
+      {chip("/", "All", !activeSlug)}
+      {roots.map((category) => chip(`/category/${category.slug}`, category.name, path.includes(category.id)))}
+    </nav>
+  )
+}
+
+/** The whole category tree, with the path to the current category highlighted. */
+export function CategorySidebar({ categories, activeSlug }: CategoryNavProps) {
+  const path = activeIds(categories, activeSlug)
+
+  const renderNodes = (nodes: CategoryNode[]) => (
+    <ul className="space-y-1">
+      {nodes.map((node) => (
+        <li key={node.id}>
+          <Link
+            href={`/category/${node.slug}`}
+            className={`block rounded-md px-3 py-1.5 text-sm transition-colors ${
+              node.slug === activeSlug
+                ? "bg-white/20 text-white font-semibold"
+                : path.includes(node.id)
+                  ? "text-white"
+                  : "text-white/70 hover:text-white hover:bg-white/10"
+            }`}
+          >
+            {node.name}
+          </Link>
+          {node.children.length > 0 && <div className="ml-3 mt-1 border-l border-white/10 pl-2">{renderNodes(node.children)}</div>}
+        </li>
+      ))}
+    </ul>
+  )
+
+  return (
+    <aside className="glass-card rounded-2xl p-4 h-fit">
+      <h2 className="text-sm font-semibold uppercase tracking-wide text-white/60 mb-3 px-3">Categories</h2>
+      {renderNodes(categoryTree(categories))}
+    </aside>
+  )
+}
@@ -34,24 +34,35 @@ export function ChatWidget() {
 
     if (!currentUser) return
 
-    const conversation = getOrCreateConversation(currentUser.id, currentUser.name, currentUser.email)
-    setConversationId(conversation.id)
-    setMessages(getMessages(conversation.id))
-    setUnreadCount(getUnreadCount(currentUser.id))
-
-    // Poll for new messages every 2 seconds
-    const interval = setInterval(() => {
-      const updatedMessages = getMessages(conversation.id)
-      setMessages(updatedMessages)
-      setUnreadCount(getUnreadCount(currentUser.id))
-    }, 2000)
+    let interval: ReturnType<typeof setInterval> | undefined
+
+    const refresh = async (id: string) => {
+      try {
+        setMessages(await getMessages(id))
+        setUnreadCount(await getUnreadCount(id, "user"))
+      } catch (error) {
+        console.error("[chat] Failed to load messages:", error)
+      }
+    }
+
+    getOrCreateConversation(currentUser.id, currentUser.name, currentUser.email)
+      .then((conversation) => {
+        setConversationId(conversation.id)
+        refresh(conversation.id)
+
+        // Poll for new messages every 2 seconds
+        interval = setInterval(() => refresh(conversation.id), 2000)
+      })
+      .catch((error) => console.error("[chat] Failed to open conversation:", error))
 
     return () => clearInterval(interval)
   }, []) // Empty dependency array - only run once on mount
 
   useEffect(() => {
     if (isOpen && user && conversationId) {
-      markMessagesAsRead(conversationId, user.id)
+      markMessagesAsRead(conversationId, "user").catch((error) =>
+        console.error("[chat] Failed to mark messages as read:", error),
+      )
       setUnreadCount(0)
     }
   }, [isOpen, user, conversationId])
@@ -62,12 +73,16 @@ export function ChatWidget() {
 
   if (!user) return null
 
-  const handleSend = () => {
+  const handleSend = async () => {
     if (!newMessage.trim() || !conversationId) return
 
-    sendMessage(conversationId, user.id, user.name, "user", newMessage)
-    setMessages(getMessages(conversationId))
-    setNewMessage("")
+    try {
+      await sendMessage({ conversationId, senderId: user.id, senderName: user.name, senderRole: "user", content: newMessage })
+      setMessages(await getMessages(conversationId))
+      setNewMessage("")
+    } catch (error) {
+      console.error("[chat] Failed to send message:", error)
+    }
   }
 
   const handleKeyPress = (e: React.KeyboardEvent) => {
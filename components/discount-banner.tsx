@@ -1,20 +1,65 @@
 "use client"
 
 import { useEffect, useState } from "react"
-import { getSettings, type DiscountSettings } from "@/lib/settings"
-import { Sparkles, Tag } from "lucide-react"
+import { Clock, Sparkles, Tag } from "lucide-react"
+import { usePromotions } from "@/hooks/use-promotions"
+import { activePromotions, type ActivePromotion } from "@/lib/pricing"
+import { getProductsByIds, isProductLive, type Product } from "@/lib/products"
 
+const ROTATE_EVERY_MS = 6000
+
+function formatCountdown(ms: number): string {
+  const totalSeconds = Math.max(0, Math.floor(ms / 1000))
+  const days = Math.floor(totalSeconds / 86400)
+  const time = [Math.floor(totalSeconds / 3600) % 24, Math.floor(totalSeconds / 60) % 60, totalSeconds % 60]
+    .map((part) => String(part).padStart(2, "0"))
+    .join(":")
+  return days > 0 ? `${days}d ${time}` : time
+}
+
+function describeProducts(promotion: ActivePromotion, products: Product[]): string {
+  if (promotion.productIds.length === 0) return "all products"
+  const names = promotion.productIds
+    .map((id) => products.find((product) => product.id === id)?.name)
+    .filter((name): name is string => Boolean(name))
+  if (names.length === 0) return "selected products"
+  if (names.length <= 2) return names.join(" and ")
+  return `${names.slice(0, 2).join(", ")} and ${names.length - 2} more`
+}
+
+/** The promotions running right now, rotating when there are several, with a countdown to their end. */
 export function DiscountBanner() {
-  const [discount, setDiscount] = useState<DiscountSettings | null>(null)
+  const { promotions, now } = usePromotions()
+  const [clock, setClock] = useState(() => Date.now())
+  const [index, setIndex] = useState(0)
+  // Only the products on sale, to name them; the storefront no longer loads the whole catalog
+  const [products, setProducts] = useState<Product[]>([])
+
+  const running = activePromotions(promotions, now)
+  const promotion = running.length > 0 ? running[index % running.length] : null
+  const productIds = Array.from(new Set(running.flatMap((p) => p.productIds))).sort().join(",")
 
   useEffect(() => {
-    const settings = getSettings()
-    if (settings.discount.enabled && settings.discount.value > 0) {
-      setDiscount(settings.discount)
-    }
-  }, [])
+    if (!productIds) return
+    getProductsByIds(productIds.split(","))
+      .then((onSale) => setProducts(onSale.filter((product) => isProductLive(product))))
+      .catch((error) => console.error("[discount-banner] Error loading products on sale:", error))
+  }, [productIds])
 
-  if (!discount) return null
+  // Countdown; usePromotions takes the promotion down when it ends
+  useEffect(() => {
+    if (!promotion?.endsAt) return
+    const timer = setInterval(() => setClock(Date.now()), 1000)
+    return () => clearInterval(timer)
+  }, [promotion?.endsAt])
+
+  useEffect(() => {
+    if (running.length < 2) return
+    const timer = setInterval(() => setIndex((i) => i + 1), ROTATE_EVERY_MS)
+    return () => clearInterval(timer)
+  }, [running.length])
+
+  if (!promotion) return null
 
   return (
     <div className="relative overflow-hidden mb-8">
@@ -31,24 +76,42 @@ export function DiscountBanner() {
             <div>
               <div className="flex items-center gap-2 mb-1">
                 <Sparkles className="h-5 w-5 text-yellow-400 animate-pulse" />
-                <h2 className="text-2xl font-bold text-white neon-text">SPECIAL OFFER!</h2>
+                <h2 className="text-2xl font-bold text-white neon-text">{promotion.discount.name || "SPECIAL OFFER!"}</h2>
                 <Sparkles className="h-5 w-5 text-yellow-400 animate-pulse" />
               </div>
               <p className="text-white/90 text-lg">
-                Get{" "}
-                <span className="font-bold text-yellow-300 text-2xl">
-                  {discount.type === "percentage" ? `${discount.value}% OFF` : `$${discount.value} OFF`}
-                </span>{" "}
-                on all products!
+                Get <span className="font-bold text-yellow-300 text-2xl">{promotion.discount.percentage}% OFF</span> on{" "}
+                {describeProducts(promotion, products)}!
               </p>
             </div>
           </div>
 
-          <div className="bg-gradient-to-r from-yellow-400 to-orange-500 text-white px-6 py-3 rounded-full font-bold text-lg shadow-lg hover-3d cursor-default">
-            LIMITED TIME ONLY
+          <div className="bg-gradient-to-r from-yellow-400 to-orange-500 text-white px-6 py-3 rounded-full font-bold text-lg shadow-lg hover-3d cursor-default flex items-center gap-2">
+            {promotion.endsAt ? (
+              <>
+                <Clock className="h-5 w-5" />
+                <span className="tabular-nums">Ends in {formatCountdown(new Date(promotion.endsAt).getTime() - clock)}</span>
+              </>
+            ) : (
+              "ON NOW"
+            )}
           </div>
         </div>
 
+        {running.length > 1 && (
+          <div className="relative z-10 flex justify-center gap-2 mt-4">
+            {running.map((p, i) => (
+              <button
+                key={p.discount.id}
+                type="button"
+                aria-label={`Show ${p.discount.name}`}
+                onClick={() => setIndex(i)}
+                className={`h-2 w-2 rounded-full ${i === index % running.length ? "bg-yellow-300" : "bg-white/30"}`}
+              />
+            ))}
+          </div>
+        )}
+
         {/* Decorative elements */}
         <div className="absolute top-0 right-0 w-32 h-32 bg-yellow-400/10 rounded-full blur-3xl" />
         <div className="absolute bottom-0 left-0 w-32 h-32 bg-orange-400/10 rounded-full blur-3xl" />
@@ -6,6 +6,7 @@ import { useState, useRef } from "react"
 import { Upload, X } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card } from "@/components/ui/card"
+import { prepareProofFile, ProofValidationError } from "@/lib/payment-proofs"
 
 interface FileUploadProps {
   onFileSelect: (file: File) => void
@@ -15,6 +16,8 @@ interface FileUploadProps {
 
 export function FileUpload({ onFileSelect, preview, onRemove }: FileUploadProps) {
   const [dragActive, setDragActive] = useState(false)
+  const [processing, setProcessing] = useState(false)
+  const [error, setError] = useState("")
   const inputRef = useRef<HTMLInputElement>(null)
 
   const handleDrag = (e: React.DragEvent) => {
@@ -44,9 +47,18 @@ export function FileUpload({ onFileSelect, preview, onRemove }: FileUploadProps)
     }
   }
 
-  const handleFile = (file: File) => {
-    if (file.type.startsWith("image/")) {
-      onFileSelect(file)
+  // Validates the image and returns a compressed copy without EXIF/GPS metadata
+  const handleFile = async (file: File) => {
+    setError("")
+    setProcessing(true)
+    try {
+      onFileSelect(await prepareProofFile(file))
+    } catch (err) {
+      console.error("[upload] Failed to prepare payment proof", err)
+      setError(err instanceof ProofValidationError ? err.message : "Could not process this image. Please try another one.")
+    } finally {
+      setProcessing(false)
+      if (inputRef.current) inputRef.current.value = ""
     }
   }
 
@@ -74,18 +86,27 @@ export function FileUpload({ onFileSelect, preview, onRemove }: FileUploadProps)
           onDrop={handleDrop}
           onClick={() => inputRef.current?.click()}
         >
-          <input ref={inputRef} type="file" className="hidden" accept="image/*" onChange={handleChange} />
+          <input
+            ref={inputRef}
+            type="file"
+            className="hidden"
+            accept="image/jpeg,image/png,image/webp,image/gif"
+            onChange={handleChange}
+            disabled={processing}
+          />
           <div className="flex flex-col items-center gap-2">
             <div className="p-3 rounded-full bg-primary/10">
               <Upload className="h-6 w-6 text-primary" />
             </div>
             <div>
-              <p className="font-semibold">Upload Payment Proof</p>
+              <p className="font-semibold">{processing ? "Processing image..." : "Upload Payment Proof"}</p>
               <p className="text-sm text-muted-foreground">Drag and drop or click to select an image</p>
             </div>
           </div>
         </div>
       )}
+
+      {error && <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">{error}</div>}
     </div>
   )
 }
@@ -11,23 +11,7 @@ import {
   DropdownMenuSeparator,
   DropdownMenuTrigger,
 } from "@/components/ui/dropdown-menu"
-import { createClient } from "@/lib/supabase/client"
-
-interface SessionUser {
-  id: string
-  email: string
-  name?: string
-  role?: string
-}
-
-function getUnifiedUser(): SessionUser | null {
-  if (typeof window === "undefined") return null
-  const supa = localStorage.getItem("supabase-user")
-  const demo = localStorage.getItem("demo-user")
-  const legacy = localStorage.getItem("crime_zone_current_user")
-  const raw = supa || demo || legacy
-  return raw ? JSON.parse(raw) : null
-}
+import { getCurrentUser, logout, type User as SessionUser } from "@/lib/auth"
 
 interface HeaderProps {
   cartCount?: number
@@ -36,26 +20,18 @@ interface HeaderProps {
 
 export function Header({ cartCount = 0, onCartClick }: HeaderProps) {
   const router = useRouter()
-  const [user, setUser] = useState<SessionUser | null>(getUnifiedUser())
+  const [user, setUser] = useState<SessionUser | null>(getCurrentUser())
 
   useEffect(() => {
-    setUser(getUnifiedUser())
+    setUser(getCurrentUser())
   }, [])
 
-  const handleLogout = async () => {
-    try {
-      const u = getUnifiedUser() as any
-      if (u?.id) {
-        localStorage.removeItem(`cart-${u.id}`)
-      }
-      localStorage.removeItem("supabase-user")
-      localStorage.removeItem("demo-user")
-      localStorage.removeItem("crime_zone_current_user")
-      document.cookie = "sb_local_session=; Max-Age=0; path=/";
-      document.cookie = "sb_local_role=; Max-Age=0; path=/";
-      const supabase = createClient()
-      await supabase.auth.signOut()
-    } catch {}
+  const handleLogout = () => {
+    const u = getCurrentUser()
+    if (u?.id) {
+      localStorage.removeItem(`cart-${u.id}`)
+    }
+    logout()
     setUser(null)
     router.push("/")
   }
@@ -0,0 +1,240 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Boxes } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { getCurrentUser } from "@/lib/auth"
+import {
+  adjustStock,
+  getInventoryMovements,
+  InventoryError,
+  MOVEMENT_LABELS,
+  type InventoryMovement,
+  type StockAdjustment,
+} from "@/lib/inventory"
+import { withVariant, type Product } from "@/lib/products"
+
+interface InventoryDialogProps {
+  product: Product
+  /** Units held by orders awaiting payment, from `getReservedStock` */
+  reserved: Map<string, number>
+  onSuccess: () => void
+}
+
+/** Restock or adjust a product's stock, or one of its variants', by hand, and read its inventory ledger. */
+export function InventoryDialog({ product, reserved, onSuccess }: InventoryDialogProps) {
+  const { toast } = useToast()
+  const [open, setOpen] = useState(false)
+  const [variantId, setVariantId] = useState(product.variants[0]?.id ?? null)
+  const [movements, setMovements] = useState<InventoryMovement[] | null>(null)
+  const [kind, setKind] = useState<StockAdjustment["kind"]>("restock")
+  const [quantity, setQuantity] = useState("")
+  const [notes, setNotes] = useState("")
+  const [saving, setSaving] = useState(false)
+
+  // Products with variants are stocked per variant; the dialog works on the one chosen
+  const variant = product.variants.find((v) => v.id === variantId) ?? null
+  const stocked = withVariant(product, variant)
+  const stockedName = variant ? `${product.name} (${variant.name})` : product.name
+  const held = reserved.get(variant?.id ?? product.id) ?? 0
+  const shownMovements = movements?.filter((movement) => (movement.variantId ?? null) === (variant?.id ?? null)) ?? null
+
+  const loadMovements = async () => {
+    try {
+      setMovements(await getInventoryMovements(product.id))
+    } catch (error) {
+      console.error("[admin] Error loading inventory movements", { id: product.id, error })
+      setMovements([])
+    }
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    setOpen(next)
+    if (next) loadMovements()
+  }
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault()
+    setSaving(true)
+    try {
+      const stock = await adjustStock(product.id, {
+        kind,
+        variantId: variant?.id,
+        quantity: Number(quantity),
+        notes: notes.trim() || undefined,
+        changedBy: getCurrentUser() ?? undefined,
+      })
+      toast({ title: "Stock Updated", description: `${stockedName} now has ${stock} in stock` })
+    } catch (error) {
+      console.error("[admin] Failed to change stock", { id: product.id, error })
+      toast({
+        title: "Error",
+        description: error instanceof InventoryError ? error.message : "Failed to change stock",
+        variant: "destructive",
+      })
+      return
+    } finally {
+      setSaving(false)
+    }
+
+    setQuantity("")
+    setNotes("")
+    loadMovements()
+    onSuccess()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline" size="sm">
+          <Boxes className="h-4 w-4 mr-1" />
+          Stock
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Inventory: {product.name}</DialogTitle>
+          <DialogDescription>
+            {product.unlimitedStock
+              ? "Unlimited stock: orders do not count this product"
+              : `${stocked.stock} in stock, ${held} more held by orders awaiting payment`}
+          </DialogDescription>
+        </DialogHeader>
+
+        {product.variants.length > 0 && (
+          <div className="space-y-2">
+            <Label htmlFor="inventory-variant">Variant</Label>
+            <Select value={variantId ?? undefined} onValueChange={setVariantId}>
+              <SelectTrigger id="inventory-variant">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {product.variants.map((v) => (
+                  <SelectItem key={v.id} value={v.id}>
+                    {v.name} ({product.unlimitedStock ? "unlimited" : `${v.stock} in stock`})
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        )}
+
+        {!product.unlimitedStock && (
+          <form onSubmit={handleSubmit} className="grid grid-cols-[10rem_8rem_1fr_auto] items-end gap-3">
+            <div className="space-y-2">
+              <Label htmlFor="inventory-kind">Change</Label>
+              <Select value={kind} onValueChange={(value) => setKind(value as StockAdjustment["kind"])}>
+                <SelectTrigger id="inventory-kind">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="restock">{MOVEMENT_LABELS.restock}</SelectItem>
+                  <SelectItem value="adjustment">{MOVEMENT_LABELS.adjustment}</SelectItem>
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="inventory-quantity">Quantity</Label>
+              <Input
+                id="inventory-quantity"
+                type="number"
+                step="1"
+                min={kind === "restock" ? "1" : undefined}
+                value={quantity}
+                onChange={(e) => setQuantity(e.target.value)}
+                placeholder={kind === "restock" ? "10" : "-2"}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="inventory-notes">Notes</Label>
+              <Input
+                id="inventory-notes"
+                value={notes}
+                onChange={(e) => setNotes(e.target.value)}
+                placeholder={kind === "restock" ? "Supplier delivery" : "Stock count correction"}
+              />
+            </div>
+            <Button type="submit" disabled={saving}>
+              {saving ? "Saving..." : "Save"}
+            </Button>
+          </form>
+        )}
+
+        <div className="max-h-[50vh] overflow-y-auto border rounded-md">
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>When</TableHead>
+                <TableHead>Movement</TableHead>
+                <TableHead className="text-right">Quantity</TableHead>
+                <TableHead className="text-right">Stock After</TableHead>
+                <TableHead>Details</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {shownMovements === null ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-muted-foreground">
+                    Loading...
+                  </TableCell>
+                </TableRow>
+              ) : shownMovements.length === 0 ? (
+                <TableRow>
+                  <TableCell colSpan={5} className="text-muted-foreground">
+                    No stock movements yet
+                  </TableCell>
+                </TableRow>
+              ) : (
+                shownMovements.map((movement) => (
+                  <TableRow key={movement.id}>
+                    <TableCell className="text-xs whitespace-nowrap">{new Date(movement.createdAt).toLocaleString()}</TableCell>
+                    <TableCell>
+                      <Badge variant="outline">{MOVEMENT_LABELS[movement.kind]}</Badge>
+                    </TableCell>
+                    <TableCell className={`text-right ${movement.quantity < 0 ? "text-destructive" : "text-green-600"}`}>
+                      {movement.quantity > 0 ? `+${movement.quantity}` : movement.quantity}
+                    </TableCell>
+                    <TableCell className="text-right">{movement.stockAfter}</TableCell>
+                    <TableCell className="text-xs">
+                      {[
+                        movement.orderId && `Order ${movement.orderId.slice(0, 8)}`,
+                        movement.notes,
+                        movement.createdByName && `by ${movement.createdByName}`,
+                      ]
+                        .filter(Boolean)
+                        .join(" · ")}
+                    </TableCell>
+                  </TableRow>
+                ))
+              )}
+            </TableBody>
+          </Table>
+        </div>
+
+        <DialogFooter>
+          <Button type="button" variant="outline" onClick={() => setOpen(false)}>
+            Close
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,50 @@
+"use client"
+
+import Link from "next/link"
+import { AlertTriangle } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { needsRestock } from "@/lib/inventory"
+import { stockedItems, type Product } from "@/lib/products"
+
+interface LowStockAlertProps {
+  products: Product[]
+  /** Where the product names link to; the admin products page when omitted */
+  href?: string
+}
+
+/**
+ * Admin alert listing the products, or variants, whose stock fell below their threshold;
+ * renders nothing when there are none.
+ */
+export function LowStockAlert({ products, href = "/admin/products" }: LowStockAlertProps) {
+  const low = products
+    .flatMap((product) => stockedItems(product).map((item) => item.product))
+    .filter(needsRestock)
+    .sort((a, b) => a.stock - b.stock)
+  if (low.length === 0) return null
+
+  return (
+    <Card className="bg-red-500/10 backdrop-blur border-red-400/40 mb-6">
+      <CardHeader className="pb-2">
+        <CardTitle className="text-white flex items-center gap-2">
+          <AlertTriangle className="h-5 w-5 text-red-300" />
+          Low Stock
+        </CardTitle>
+        <CardDescription className="text-white/80">
+          {low.length === 1 ? "1 product is" : `${low.length} products are`} below the low-stock threshold
+        </CardDescription>
+      </CardHeader>
+      <CardContent>
+        <ul className="flex flex-wrap gap-2 text-sm">
+          {low.map((product) => (
+            <li key={`${product.id}-${product.name}`}>
+              <Link href={href} className="rounded-full bg-white/10 px-3 py-1 text-white hover:bg-white/20">
+                {product.name}: {product.stock <= 0 ? "sold out" : `${product.stock} left`}
+              </Link>
+            </li>
+          ))}
+        </ul>
+      </CardContent>
+    </Card>
+  )
+}
@@ -0,0 +1,34 @@
+import ReactMarkdown, { type Components } from "react-markdown"
+import { cn } from "@/lib/utils"
+
+// Raw HTML in the markdown is not rendered, so admin-written text cannot inject scripts
+// Headings rank below the product name, which is an h2 under the store's h1
+const components: Components = {
+  h1: ({ node, ...props }) => <h3 className="text-2xl font-bold mt-6 mb-3" {...props} />,
+  h2: ({ node, ...props }) => <h4 className="text-xl font-bold mt-6 mb-3" {...props} />,
+  h3: ({ node, ...props }) => <h5 className="text-lg font-semibold mt-4 mb-2" {...props} />,
+  p: ({ node, ...props }) => <p className="mb-4 leading-relaxed" {...props} />,
+  ul: ({ node, ...props }) => <ul className="list-disc pl-6 mb-4 space-y-1" {...props} />,
+  ol: ({ node, ...props }) => <ol className="list-decimal pl-6 mb-4 space-y-1" {...props} />,
+  a: ({ node, ...props }) => (
+    <a className="underline underline-offset-2 hover:opacity-80" target="_blank" rel="noopener noreferrer" {...props} />
+  ),
+  blockquote: ({ node, ...props }) => <blockquote className="border-l-4 border-white/30 pl-4 italic mb-4" {...props} />,
+  code: ({ node, ...props }) => <code className="rounded bg-black/30 px-1.5 py-0.5 font-mono text-sm" {...props} />,
+  pre: ({ node, ...props }) => <pre className="rounded-lg bg-black/30 p-4 overflow-x-auto mb-4 [&_code]:bg-transparent [&_code]:p-0" {...props} />,
+  hr: ({ node, ...props }) => <hr className="my-6 border-white/20" {...props} />,
+}
+
+interface MarkdownProps {
+  children: string
+  className?: string
+}
+
+/** Markdown written by admins, such as the long description of a product. */
+export function Markdown({ children, className }: MarkdownProps) {
+  return (
+    <div className={cn("text-white/90", className)}>
+      <ReactMarkdown components={components}>{children}</ReactMarkdown>
+    </div>
+  )
+}
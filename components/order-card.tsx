@@ -5,29 +5,8 @@ import { ChevronDown, ChevronUp, Package } from "lucide-react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
 import { Button } from "@/components/ui/button"
 import { OrderStatusBadge } from "@/components/order-status-badge"
-
-type Order = {
-  id: string
-  user_id: string
-  total: number
-  status: string
-  payment_method: string
-  payment_proof: string | null
-  notes?: string | null
-  created_at: string
-  order_items: Array<{
-    id: string
-    product_id: string
-    quantity: number
-    price: number
-    product: {
-      id: string
-      name: string
-      description: string
-      image: string
-    }
-  }>
-}
+import { formatMoney } from "@/lib/currency"
+import type { Order } from "@/lib/orders"
 
 interface OrderCardProps {
   order: Order
@@ -55,7 +34,10 @@ export function OrderCard({ order }: OrderCardProps) {
               <Package className="h-5 w-5" />
               Order #{order.id.slice(0, 8)}
             </CardTitle>
-            <p className="text-sm text-muted-foreground mt-1">{formatDate(order.created_at)}</p>
+            <p className="text-sm text-muted-foreground mt-1">{formatDate(order.createdAt)}</p>
+            <p className="text-sm text-muted-foreground">
+              {order.items.map((item) => `${item.product.name} × ${item.quantity}`).join(", ")}
+            </p>
           </div>
           <OrderStatusBadge status={order.status} />
         </div>
@@ -65,11 +47,14 @@ export function OrderCard({ order }: OrderCardProps) {
         <div className="flex items-center justify-between">
           <div>
             <p className="text-sm text-muted-foreground">Total Amount</p>
-            <p className="text-2xl font-bold text-primary">${order.total.toFixed(2)}</p>
+            <p className="text-2xl font-bold text-primary">{formatMoney(order.total, order.currency)}</p>
+            {order.paymentCurrency !== order.currency && (
+              <p className="text-sm text-muted-foreground">Paid as {formatMoney(order.paymentAmount, order.paymentCurrency)}</p>
+            )}
           </div>
           <div className="text-right">
             <p className="text-sm text-muted-foreground">Payment Method</p>
-            <p className="font-semibold capitalize">{order.payment_method}</p>
+            <p className="font-semibold">{order.paymentMethodName}</p>
           </div>
         </div>
 
@@ -89,38 +74,29 @@ export function OrderCard({ order }: OrderCardProps) {
           ) : (
             <>
               <ChevronDown className="h-4 w-4 mr-2" />
-              Show Items ({order.order_items.length})
+              Show Items ({order.items.length})
             </>
           )}
         </Button>
 
         {expanded && (
           <div className="space-y-3 pt-2 border-t">
-            {order.order_items.map((item) => (
+            {order.items.map((item) => (
               <div key={item.id} className="flex justify-between items-start">
                 <div className="flex-1">
                   <p className="font-semibold text-sm">{item.product.name}</p>
                   <p className="text-sm text-muted-foreground">
-                    ${item.price} × {item.quantity}
+                    {formatMoney(item.price, order.currency)} × {item.quantity}
                   </p>
                 </div>
-                <p className="font-semibold">${(item.price * item.quantity).toFixed(2)}</p>
+                <p className="font-semibold">{formatMoney(item.price * item.quantity, order.currency)}</p>
               </div>
             ))}
           </div>
         )}
 
-        {order.payment_proof && (
-          <div className="pt-2 border-t">
-            <p className="text-sm font-semibold mb-2">Payment Proof:</p>
-            <div className="relative aspect-video rounded-lg overflow-hidden bg-muted">
-              <img
-                src={order.payment_proof || "/placeholder.svg"}
-                alt="Payment proof"
-                className="w-full h-full object-contain"
-              />
-            </div>
-          </div>
+        {order.paymentProof && (
+          <p className="pt-2 border-t text-sm text-muted-foreground">Payment proof received</p>
         )}
       </CardContent>
     </Card>
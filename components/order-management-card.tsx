@@ -1,37 +1,39 @@
 "use client"
 
 import { useState } from "react"
-import { Check, X, Eye, EyeOff } from "lucide-react"
+import { AlertTriangle, Check, X, Eye, EyeOff, Loader, PackageCheck, Undo2, Wallet } from "lucide-react"
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Textarea } from "@/components/ui/textarea"
 import { Label } from "@/components/ui/label"
 import { OrderStatusBadge } from "@/components/order-status-badge"
+import { TaxBreakdown } from "@/components/tax-breakdown"
 import { useToast } from "@/hooks/use-toast"
-import { createClient } from "@/lib/supabase/client"
-
-type Order = {
-  id: string
-  user_id: string
-  total?: number | null
-  total_amount?: number | null
-  status: string
-  payment_method?: string | null
-  payment_proof?: string | null
-  notes?: string | null
-  created_at: string
-  order_items?: Array<{
-    id: string
-    product_id: string
-    quantity: number
-    price: number
-    product: {
-      id: string
-      name: string
-      description?: string | null
-      image: string
-    }
-  }>
+import { getCurrentUser } from "@/lib/auth"
+import { formatMoney } from "@/lib/currency"
+import {
+  canRecordPayment,
+  getPaymentProofUrl,
+  ORDER_TRANSITIONS,
+  recordOrderPayment,
+  updateOrderStatus,
+  type Order,
+  type OrderStatus,
+  type OverpaymentResolution,
+} from "@/lib/orders"
+import { countryName } from "@/lib/taxes"
+
+const STATUS_ACTIONS: Partial<
+  Record<OrderStatus, { label: string; icon: typeof Check; variant: "default" | "destructive" | "outline"; defaultNote?: string }>
+> = {
+  confirmed: { label: "Confirm Order", icon: Check, variant: "default" },
+  processing: { label: "Mark Processing", icon: Loader, variant: "outline" },
+  completed: { label: "Mark Completed", icon: PackageCheck, variant: "default" },
+  cancelled: { label: "Reject Order", icon: X, variant: "destructive", defaultNote: "Order cancelled by admin" },
+  refunded: { label: "Refund", icon: Undo2, variant: "destructive", defaultNote: "Payment refunded by admin" },
 }
 
 interface OrderManagementCardProps {
@@ -44,30 +46,58 @@ export function OrderManagementCard({ order, onUpdate }: OrderManagementCardProp
   const [expanded, setExpanded] = useState(false)
   const [notes, setNotes] = useState(order.notes || "")
   const [showProof, setShowProof] = useState(false)
+  const [proofUrl, setProofUrl] = useState<string | null>(null)
+  const [proofLoading, setProofLoading] = useState(false)
+  const [amountReceived, setAmountReceived] = useState(String(order.balanceDue || order.paymentAmount))
+  const [overpayment, setOverpayment] = useState<OverpaymentResolution>("store_credit")
+  const [recording, setRecording] = useState(false)
+
+  // Manual payments are confirmed by recording the amount received, which decides
+  // between confirmed and partially_paid; the other actions stay as buttons
+  const recordsPayment = canRecordPayment(order)
+  const nextStatuses = ORDER_TRANSITIONS[order.status].filter(
+    (status) => !recordsPayment || (status !== "confirmed" && status !== "partially_paid"),
+  )
+  const received = Number(amountReceived)
+  const overpaid = recordsPayment && received > order.balanceDue ? received - order.balanceDue : 0
 
-  const handleStatusUpdate = async (status: "confirmed" | "cancelled", adminNotes?: string) => {
-    const supabase = createClient()
-    const updateData: any = { status }
-    if (adminNotes) {
-      updateData.notes = adminNotes
+  // Signed URLs expire quickly, so a fresh one is requested every time the proof is opened
+  const toggleProof = async () => {
+    if (showProof) {
+      setShowProof(false)
+      setProofUrl(null)
+      return
     }
-    const { error } = await supabase
-      .from("orders")
-      .update(updateData)
-      .eq("id", order.id)
-      .select()
 
-    if (error) {
+    setProofLoading(true)
+    try {
+      setProofUrl(await getPaymentProofUrl(order))
+      setShowProof(true)
+    } catch (error: any) {
+      console.error("[admin] Failed to load payment proof", { orderId: order.id, error })
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to load payment proof",
+        variant: "destructive",
+      })
+    } finally {
+      setProofLoading(false)
+    }
+  }
+
+  const handleStatusUpdate = async (status: OrderStatus, adminNotes?: string) => {
+    try {
+      await updateOrderStatus(order.id, status, { changedBy: getCurrentUser() ?? undefined, notes: adminNotes })
+    } catch (error: any) {
       console.error("[admin] Failed to update order status", { orderId: order.id, status, error })
       toast({
         title: "Error",
-        description: "Failed to update order",
+        description: error?.message || "Failed to update order",
         variant: "destructive",
       })
       return
     }
 
-    console.log("[admin] Order status updated", { orderId: order.id, status })
     toast({
       title: "Order Updated",
       description: `Order has been ${status}`,
@@ -75,6 +105,33 @@ export function OrderManagementCard({ order, onUpdate }: OrderManagementCardProp
     onUpdate()
   }
 
+  const handleRecordPayment = async () => {
+    setRecording(true)
+    try {
+      await recordOrderPayment(
+        order.id,
+        { amount: received, overpayment },
+        { changedBy: getCurrentUser() ?? undefined, notes: notes || undefined },
+      )
+    } catch (error: any) {
+      console.error("[admin] Failed to record payment", { orderId: order.id, amount: received, error })
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to record payment",
+        variant: "destructive",
+      })
+      setRecording(false)
+      return
+    }
+
+    toast({
+      title: "Payment Recorded",
+      description: `${formatMoney(received, order.paymentCurrency)} received for order #${order.id.slice(0, 8)}`,
+    })
+    setRecording(false)
+    onUpdate()
+  }
+
   const formatDate = (dateString: string) => {
     return new Date(dateString).toLocaleDateString("en-US", {
       year: "numeric",
@@ -85,21 +142,6 @@ export function OrderManagementCard({ order, onUpdate }: OrderManagementCardProp
     })
   }
 
-  // Derive items for denormalized orders (single product)
-  const derivedItems = order.order_items && order.order_items.length > 0
-    ? order.order_items
-    : [
-        {
-          id: `${order.id}-item`,
-          product_id: "unknown",
-          quantity: 1,
-          price: Number(order.total ?? order.total_amount ?? 0),
-          product: { id: "unknown", name: "Item", description: null, image: "/placeholder.svg" },
-        },
-      ]
-
-  const totalValue = Number(order.total ?? order.total_amount ?? 0)
-
   return (
     <Card className="bg-white/10 backdrop-blur border-white/20 text-white">
       <CardHeader>
@@ -107,11 +149,30 @@ export function OrderManagementCard({ order, onUpdate }: OrderManagementCardProp
           <div className="flex-1">
             <CardTitle className="text-lg">Order #{order.id.slice(0, 8)}</CardTitle>
             <div className="space-y-1 mt-2">
-              <p className="text-sm text-muted-foreground">Customer ID: {order.user_id.slice(0, 8)}</p>
-              <p className="text-sm text-muted-foreground">Date: {formatDate(order.created_at)}</p>
+              <p className="text-sm text-muted-foreground">
+                Customer: {order.userName || order.userEmail || order.userId.slice(0, 8)}
+              </p>
+              <p className="text-sm text-muted-foreground">Date: {formatDate(order.createdAt)}</p>
+              <p className="text-sm text-muted-foreground">
+                Items: {order.items.map((item) => `${item.product.name} × ${item.quantity}`).join(", ")}
+              </p>
             </div>
           </div>
-          <OrderStatusBadge status={order.status} />
+          <div className="flex flex-col items-end gap-2">
+            <OrderStatusBadge status={order.status} />
+            {order.overpaymentResolution === "refund" && (
+              <Badge variant="destructive" className="gap-1">
+                <Undo2 className="h-3 w-3" />
+                Refund {formatMoney(order.overpaidAmount, order.paymentCurrency)}
+              </Badge>
+            )}
+            {order.duplicateProofOrderIds.length > 0 && (
+              <Badge variant="destructive" className="gap-1">
+                <AlertTriangle className="h-3 w-3" />
+                Proof reused
+              </Badge>
+            )}
+          </div>
         </div>
       </CardHeader>
 
@@ -119,51 +180,108 @@ export function OrderManagementCard({ order, onUpdate }: OrderManagementCardProp
         <div className="grid grid-cols-2 gap-4 p-4 bg-muted rounded-lg">
           <div>
             <p className="text-sm text-muted-foreground">Total Amount</p>
-            <p className="text-2xl font-bold text-primary">${totalValue.toFixed(2)}</p>
+            <p className="text-2xl font-bold text-primary">{formatMoney(order.total, order.currency)}</p>
+            {order.paymentCurrency !== order.currency && (
+              <p className="text-sm text-muted-foreground">
+                Paid as {formatMoney(order.paymentAmount, order.paymentCurrency)} (1 {order.currency} = {order.exchangeRate}{" "}
+                {order.paymentCurrency})
+              </p>
+            )}
           </div>
           <div>
             <p className="text-sm text-muted-foreground">Payment Method</p>
-            <p className="font-semibold capitalize">{order.payment_method || 'n/a'}</p>
+            <p className="font-semibold">{order.paymentMethodName}</p>
           </div>
+          {order.couponCode && (
+            <div>
+              <p className="text-sm text-muted-foreground">Coupon</p>
+              <p className="font-semibold">
+                <span className="font-mono">{order.couponCode}</span> (-{formatMoney(order.couponDiscount, order.currency)})
+              </p>
+            </div>
+          )}
+          {order.taxes.length > 0 && (
+            <div>
+              <p className="text-sm text-muted-foreground">
+                Tax{order.billingCountry && ` (${countryName(order.billingCountry)})`}
+              </p>
+              <TaxBreakdown taxes={order.taxes} currency={order.currency} className="font-semibold" />
+            </div>
+          )}
+          {(order.amountReceived > 0 || order.status === "partially_paid") && (
+            <div>
+              <p className="text-sm text-muted-foreground">Received</p>
+              <p className="font-semibold">{formatMoney(order.amountReceived, order.paymentCurrency)}</p>
+              {order.overpaidAmount > 0 && (
+                <p className="text-sm text-muted-foreground">
+                  Overpaid {formatMoney(order.overpaidAmount, order.paymentCurrency)} (
+                  {order.overpaymentResolution === "refund" ? "to refund" : "store credit"})
+                </p>
+              )}
+            </div>
+          )}
+          {order.balanceDue > 0 && order.amountReceived > 0 && (
+            <div>
+              <p className="text-sm text-muted-foreground">Balance Due</p>
+              <p className="font-semibold text-destructive">{formatMoney(order.balanceDue, order.paymentCurrency)}</p>
+            </div>
+          )}
+          {order.transactionReference && (
+            <div className="col-span-2">
+              <p className="text-sm text-muted-foreground">Transaction Reference</p>
+              <p className="font-mono font-semibold break-all">{order.transactionReference}</p>
+            </div>
+          )}
         </div>
 
         <div>
           <Button variant="ghost" size="sm" onClick={() => setExpanded(!expanded)} className="w-full">
             {expanded ? <EyeOff className="h-4 w-4 mr-2" /> : <Eye className="h-4 w-4 mr-2" />}
-            {expanded ? "Hide Items" : `Show Items (${derivedItems.length})`}
+            {expanded ? "Hide Items" : `Show Items (${order.items.length})`}
           </Button>
 
           {expanded && (
             <div className="space-y-2 mt-4 p-4 border rounded-lg">
-              {derivedItems.map((item) => (
+              {order.items.map((item) => (
                 <div key={item.id} className="flex justify-between items-start pb-2 border-b last:border-0">
                   <div className="flex-1">
                     <p className="font-semibold text-sm">{item.product.name}</p>
                     <p className="text-sm text-muted-foreground">
-                      ${item.price} × {item.quantity}
+                      {formatMoney(item.price, order.currency)} × {item.quantity}
                     </p>
                   </div>
-                  <p className="font-semibold">${(item.price * item.quantity).toFixed(2)}</p>
+                  <p className="font-semibold">{formatMoney(item.price * item.quantity, order.currency)}</p>
                 </div>
               ))}
             </div>
           )}
         </div>
 
-        {order.payment_proof && (
+        {order.paymentProof && (
           <div>
+            {order.duplicateProofOrderIds.length > 0 && (
+              <div className="flex items-start gap-2 text-sm text-destructive bg-destructive/10 p-3 rounded-md mb-2">
+                <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0" />
+                <p>
+                  This screenshot matches the proof of{" "}
+                  {order.duplicateProofOrderIds.map((id) => `#${id.slice(0, 8)}`).join(", ")}. Check the
+                  transaction before confirming.
+                </p>
+              </div>
+            )}
+
             <div className="flex items-center justify-between mb-2">
               <Label>Payment Proof</Label>
-              <Button variant="ghost" size="sm" onClick={() => setShowProof(!showProof)}>
+              <Button variant="ghost" size="sm" onClick={toggleProof} disabled={proofLoading}>
                 {showProof ? <EyeOff className="h-4 w-4 mr-2" /> : <Eye className="h-4 w-4 mr-2" />}
-                {showProof ? "Hide" : "Show"}
+                {proofLoading ? "Loading..." : showProof ? "Hide" : "Show"}
               </Button>
             </div>
 
             {showProof && (
               <div className="relative aspect-video rounded-lg overflow-hidden bg-muted border">
                 <img
-                  src={order.payment_proof || "/placeholder.svg"}
+                  src={proofUrl || "/placeholder.svg"}
                   alt="Payment proof"
                   className="w-full h-full object-contain"
                 />
@@ -172,7 +290,7 @@ export function OrderManagementCard({ order, onUpdate }: OrderManagementCardProp
           </div>
         )}
 
-        {order.status === "pending" && (
+        {nextStatuses.length > 0 && (
           <div className="space-y-4 pt-4 border-t">
             <div className="space-y-2">
               <Label htmlFor={`notes-${order.id}`}>Admin Notes (Optional)</Label>
@@ -185,24 +303,71 @@ export function OrderManagementCard({ order, onUpdate }: OrderManagementCardProp
               />
             </div>
 
-            <div className="flex gap-2">
-              <Button onClick={() => handleStatusUpdate("confirmed", notes)} className="flex-1">
-                <Check className="h-4 w-4 mr-2" />
-                Confirm Order
-              </Button>
-              <Button
-                variant="destructive"
-                onClick={() => handleStatusUpdate("cancelled", notes || "Order cancelled by admin")}
-                className="flex-1"
-              >
-                <X className="h-4 w-4 mr-2" />
-                Reject Order
-              </Button>
+            {recordsPayment && (
+              <div className="space-y-2">
+                <Label htmlFor={`received-${order.id}`}>Amount Received ({order.paymentCurrency})</Label>
+                <div className="flex flex-wrap gap-2">
+                  <Input
+                    id={`received-${order.id}`}
+                    type="number"
+                    min="0"
+                    step="any"
+                    value={amountReceived}
+                    onChange={(e) => setAmountReceived(e.target.value)}
+                    className="flex-1 min-w-32"
+                  />
+                  <Button onClick={handleRecordPayment} disabled={!(received > 0) || recording}>
+                    <Wallet className="h-4 w-4 mr-2" />
+                    {recording ? "Recording..." : "Record Payment"}
+                  </Button>
+                </div>
+                {received > 0 && received < order.balanceDue && (
+                  <p className="text-sm text-muted-foreground">
+                    The order will be partially paid with{" "}
+                    {formatMoney(order.balanceDue - received, order.paymentCurrency)} still due.
+                  </p>
+                )}
+                {overpaid > 0 && (
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    <span className="text-muted-foreground">
+                      {formatMoney(overpaid, order.paymentCurrency)} more than due. Keep it as
+                    </span>
+                    <Select value={overpayment} onValueChange={(value) => setOverpayment(value as OverpaymentResolution)}>
+                      <SelectTrigger className="w-40">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value="store_credit">Store credit</SelectItem>
+                        <SelectItem value="refund">Refund</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                )}
+              </div>
+            )}
+
+            <div className="flex flex-wrap gap-2">
+              {nextStatuses.map((status) => {
+                const action = STATUS_ACTIONS[status]
+                if (!action) return null
+                const Icon = action.icon
+                return (
+                  <Button
+                    key={status}
+                    variant={action.variant}
+                    onClick={() => handleStatusUpdate(status, notes || action.defaultNote)}
+                    className="flex-1"
+                  >
+                    <Icon className="h-4 w-4 mr-2" />
+                    {action.label}
+                  </Button>
+                )
+              })}
             </div>
           </div>
         )}
 
-        {order.notes && order.status !== "pending" && (
+        {order.notes && nextStatuses.length === 0 && (
           <div className="p-3 bg-muted rounded-lg">
             <p className="text-sm font-semibold mb-1">Admin Notes:</p>
             <p className="text-sm text-muted-foreground">{order.notes}</p>
@@ -9,10 +9,12 @@ export function OrderStatusBadge({ status }: OrderStatusBadgeProps) {
   const variants: Record<OrderStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> =
     {
       pending: { label: "Pending", variant: "secondary" },
+      partially_paid: { label: "Partially Paid", variant: "secondary" },
       confirmed: { label: "Confirmed", variant: "default" },
       processing: { label: "Processing", variant: "default" },
       completed: { label: "Completed", variant: "outline" },
       cancelled: { label: "Cancelled", variant: "destructive" },
+      refunded: { label: "Refunded", variant: "destructive" },
     }
 
   const { label, variant } = variants[status]
@@ -4,124 +4,145 @@ import { useState, useEffect } from "react"
 import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
 import { Label } from "@/components/ui/label"
 import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
-import { createClient } from "@/lib/supabase/client"
-import { useToast } from "@/hooks/use-toast"
+import {
+  DEFAULT_PAYMENT_PROVIDERS,
+  getPaymentProviders,
+  providerAmountError,
+  type PaymentMethod,
+  type PaymentProvider,
+} from "@/lib/payment-providers"
+import {
+  convertFromStoreCurrency,
+  formatMoney,
+  getExchangeRates,
+  STORE_CURRENCY,
+  type ExchangeRate,
+  type PaymentAmount,
+} from "@/lib/currency"
+import { isManualGateway } from "@/lib/payment-gateways/types"
+import { buildUpiUri, isValidVpa } from "@/lib/upi"
 import Image from "next/image"
-import { X } from "lucide-react"
+import { QRCodeSVG } from "qrcode.react"
+import { ExternalLink, Smartphone, X } from "lucide-react"
 import { Button } from "@/components/ui/button"
 
-type PaymentMethodType = "UPI" | "Binance" | "PayPal"
-
-type PaymentMethodData = {
-  id: string
-  method_name: string
-  active: boolean
-  upi_qr?: string
-  upi_id?: string
-  binance_qr?: string
-  binance_id?: string
-  paypal_qr?: string
-  paypal_id?: string
-}
-
 interface PaymentQRProps {
   total: number
-  onMethodChange: (method: string) => void
+  /** Order id chosen at checkout; UPI payments carry it as the transaction note */
+  orderId?: string
+  onMethodChange: (method: PaymentMethod, provider: PaymentProvider) => void
+}
+
+// Used when the payment_providers table cannot be read
+function fallbackProviders(): PaymentProvider[] {
+  return DEFAULT_PAYMENT_PROVIDERS.map((provider) => ({
+    ...provider,
+    id: provider.key,
+    createdAt: new Date(0).toISOString(),
+  }))
+}
+
+const UPI_PAYEE_NAME = "Suman Store"
+
+// The total in the method's currency, or null while no exchange rate is set for it
+function paymentFor(method: PaymentProvider, total: number, rates: ExchangeRate[]): PaymentAmount | null {
+  try {
+    return convertFromStoreCurrency(total, method.currency, rates)
+  } catch {
+    return null
+  }
+}
+
+function unavailableReason(method: PaymentProvider, total: number, rates: ExchangeRate[]): string | null {
+  return (
+    providerAmountError(method, total) ??
+    (paymentFor(method, total, rates) ? null : `${method.name} is not available right now`)
+  )
 }
 
-export function PaymentQR({ total, onMethodChange }: PaymentQRProps) {
-  const [selectedMethod, setSelectedMethod] = useState<string>("PhonePe UPI")
-  const [paymentMethods, setPaymentMethods] = useState<PaymentMethodData[]>([])
+export function PaymentQR({ total, orderId, onMethodChange }: PaymentQRProps) {
+  const [selectedMethod, setSelectedMethod] = useState<PaymentMethod>("")
+  const [paymentMethods, setPaymentMethods] = useState<PaymentProvider[]>([])
+  const [exchangeRates, setExchangeRates] = useState<ExchangeRate[]>([])
   const [loading, setLoading] = useState(true)
   const [isModalOpen, setIsModalOpen] = useState(false)
-  const { toast } = useToast()
 
   useEffect(() => {
     loadPaymentMethods()
   }, [])
 
   const loadPaymentMethods = async () => {
+    let methods: PaymentProvider[]
     try {
-      const supabase = createClient()
-      const { data, error } = await supabase
-        .from('payment_methods')
-        .select('*')
-        .eq('active', true)
-        .order('method_name')
-
-      if (error) {
-        console.error('Error loading payment methods:', error)
-        // Fallback to local QR codes
-        setPaymentMethods([
-          {
-            id: '1',
-            method_name: 'PhonePe UPI',
-            active: true,
-            upi_qr: '/phonepe-qr.jpg',
-            upi_id: 'your-upi-id@paytm'
-          },
-          {
-            id: '2', 
-            method_name: 'Binance Pay',
-            active: true,
-            binance_qr: '/binance-qr-new.jpg',
-            binance_id: 'your-binance-id'
-          },
-          {
-            id: '3',
-            method_name: 'PayPal',
-            active: true,
-            paypal_qr: '/paypal-qr.jpg',
-            paypal_id: 'your-paypal-id'
-          }
-        ])
-      } else {
-        setPaymentMethods(data || [])
-      }
+      methods = await getPaymentProviders({ activeOnly: true })
     } catch (error) {
-      console.error('Failed to load payment methods:', error)
-    } finally {
-      setLoading(false)
+      console.error('Error loading payment methods:', error)
+      // Fallback to the built-in providers and their QR codes
+      methods = fallbackProviders()
     }
+    // Without rates only methods in the store currency can be offered
+    const rates = await getExchangeRates().catch((error) => {
+      console.error('Error loading exchange rates:', error)
+      return []
+    })
+    setPaymentMethods(methods)
+    setExchangeRates(rates)
+    const initial = methods.find((m) => !unavailableReason(m, total, rates)) ?? methods[0]
+    if (initial) selectProvider(initial)
+    setLoading(false)
   }
 
-  const handleMethodChange = (method: string) => {
-    setSelectedMethod(method)
-    onMethodChange(method)
+  const selectProvider = (provider: PaymentProvider) => {
+    setSelectedMethod(provider.key)
+    onMethodChange(provider.key, provider)
   }
 
-  const currentMethod = paymentMethods.find(m => m.method_name === selectedMethod)
-  
-  const getQRImage = (method: PaymentMethodData) => {
-    switch (method.method_name) {
-      case 'PhonePe UPI':
-      case 'UPI':
-        return method.upi_qr || '/phonepe-qr.jpg'
-      case 'Binance Pay':
-      case 'Binance':
-        return method.binance_qr || '/binance-qr-new.jpg'
-      case 'PayPal':
-        return method.paypal_qr || '/paypal-qr.jpg'
-      default:
-        return '/placeholder.svg'
-    }
-  }
-  
-  const getPaymentId = (method: PaymentMethodData) => {
-    switch (method.method_name) {
-      case 'PhonePe UPI':
-      case 'UPI':
-        return method.upi_id || 'your-upi-id@paytm'
-      case 'Binance Pay':
-      case 'Binance':
-        return method.binance_id || 'your-binance-id'
-      case 'PayPal':
-        return method.paypal_id || 'your-paypal-id'
-      default:
-        return 'Not configured'
-    }
+  const handleMethodChange = (method: string) => {
+    const provider = paymentMethods.find((m) => m.key === method)
+    if (provider) selectProvider(provider)
   }
 
+  const currentMethod = paymentMethods.find(m => m.key === selectedMethod)
+  // Gateway methods are paid on the gateway's own page after the order is submitted
+  const gatewayMethod = currentMethod && !isManualGateway(currentMethod.gateway) ? currentMethod : null
+  const payment = currentMethod ? paymentFor(currentMethod, total, exchangeRates) : null
+
+  // UPI gets a QR generated for this exact order; other methods (and a UPI method without
+  // a valid VPA configured) fall back to the static QR image from settings
+  const upiUri =
+    currentMethod?.type === "upi" && isValidVpa(currentMethod.accountId) && payment?.currency === "INR" && payment.amount > 0
+      ? buildUpiUri({ vpa: currentMethod.accountId, payeeName: UPI_PAYEE_NAME, amount: payment.amount, orderId })
+      : null
+
+  // Methods like bank transfers may have no QR code at all
+  const hasQrCode = !gatewayMethod && Boolean(upiUri || currentMethod?.qrCode)
+
+  const renderQrCode = (size: "small" | "large") =>
+    upiUri ? (
+      <QRCodeSVG value={upiUri} level="M" className="w-full h-full" title={`${currentMethod?.name} payment QR code`} />
+    ) : (
+      <Image
+        src={currentMethod?.qrCode || "/placeholder.svg"}
+        alt={size === "large" ? `${currentMethod?.name} QR Code - Enlarged` : `${currentMethod?.name} QR Code`}
+        fill
+        className="object-contain"
+      />
+    )
+
+  const renderAmount = () => (
+    <div className="text-center">
+      <p className="text-sm text-white/70">Amount to Pay</p>
+      <p className="text-3xl font-bold text-green-400">
+        {payment ? formatMoney(payment.amount, payment.currency) : formatMoney(total)}
+      </p>
+      {payment && payment.currency !== STORE_CURRENCY && (
+        <p className="text-xs text-white/60">
+          {formatMoney(total)} at 1 {STORE_CURRENCY} = {payment.rate} {payment.currency}
+        </p>
+      )}
+    </div>
+  )
+
   if (loading) {
     return (
       <div className="space-y-6">
@@ -156,62 +177,107 @@ export function PaymentQR({ total, onMethodChange }: PaymentQRProps) {
         <CardContent>
           <RadioGroup value={selectedMethod} onValueChange={handleMethodChange}>
             <div className="space-y-3">
-              {paymentMethods.map((method) => (
-                <div
-                  key={method.id}
-                  className="flex items-center space-x-3 p-3 rounded-lg border border-white/20 hover:bg-white/5 cursor-pointer"
-                >
-                  <RadioGroupItem value={method.method_name} id={method.method_name} className="border-white/30" />
-                  <Label htmlFor={method.method_name} className="flex-1 cursor-pointer text-white">
-                    <div className="font-semibold">{method.method_name}</div>
-                    <div className="text-sm text-white/70">Pay with {method.method_name}</div>
-                  </Label>
-                </div>
-              ))}
+              {paymentMethods.map((method) => {
+                const unavailable = unavailableReason(method, total, exchangeRates)
+                return (
+                  <div
+                    key={method.id}
+                    className={`flex items-center space-x-3 p-3 rounded-lg border border-white/20 ${unavailable ? "opacity-50" : "hover:bg-white/5 cursor-pointer"}`}
+                  >
+                    <RadioGroupItem value={method.key} id={method.key} disabled={!!unavailable} className="border-white/30" />
+                    <Label htmlFor={method.key} className="flex-1 cursor-pointer text-white">
+                      <div className="font-semibold">{method.name}</div>
+                      <div className="text-sm text-white/70">{unavailable || method.instructions || `Pay with ${method.name}`}</div>
+                    </Label>
+                  </div>
+                )
+              })}
             </div>
           </RadioGroup>
         </CardContent>
       </Card>
 
-      {currentMethod && (
+      {gatewayMethod && (
+        <Card className="bg-white/10 backdrop-blur border-white/20">
+          <CardHeader>
+            <CardTitle className="text-white">Payment Details</CardTitle>
+            <CardDescription className="text-white/70">
+              {gatewayMethod.instructions || `You will be taken to ${gatewayMethod.name} to pay`}
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            {renderAmount()}
+            <p className="flex items-center gap-2 text-sm text-white/70 border-t border-white/20 pt-4">
+              <ExternalLink className="h-4 w-4 shrink-0" />
+              Submit your order to continue to {gatewayMethod.name}. Your order is confirmed automatically once the payment goes through.
+            </p>
+          </CardContent>
+        </Card>
+      )}
+
+      {currentMethod && !gatewayMethod && (
         <Card className="bg-white/10 backdrop-blur border-white/20">
           <CardHeader>
             <CardTitle className="text-white">Payment Details</CardTitle>
-            <CardDescription className="text-white/70">Scan the QR code or use the ID below</CardDescription>
+            <CardDescription className="text-white/70">
+              {hasQrCode ? "Scan the QR code or use the ID below" : currentMethod.instructions || "Send the payment to the account below"}
+            </CardDescription>
           </CardHeader>
           <CardContent className="space-y-4">
             <div className="flex flex-col items-center gap-4">
-              <div
-                className="relative w-64 h-64 bg-white rounded-lg p-4 cursor-pointer hover:ring-2 hover:ring-primary transition-all"
-                onClick={() => setIsModalOpen(true)}
-                title="Click to enlarge"
-              >
-                <Image
-                  src={getQRImage(currentMethod)}
-                  alt={`${currentMethod.method_name} QR Code`}
-                  fill
-                  className="object-contain"
-                />
-              </div>
+              {hasQrCode && (
+                <div
+                  className="relative w-64 h-64 bg-white rounded-lg p-4 cursor-pointer hover:ring-2 hover:ring-primary transition-all"
+                  onClick={() => setIsModalOpen(true)}
+                  title="Click to enlarge"
+                >
+                  {renderQrCode("small")}
+                </div>
+              )}
+
+              {upiUri && (
+                <Button asChild className="w-full md:hidden">
+                  <a href={upiUri}>
+                    <Smartphone className="h-4 w-4 mr-2" />
+                    Pay with a UPI app
+                  </a>
+                </Button>
+              )}
 
               <div className="w-full space-y-2">
-                <div className="text-center">
-                  <p className="text-sm text-white/70">Amount to Pay</p>
-                  <p className="text-3xl font-bold text-green-400">${total.toFixed(2)}</p>
-                </div>
+                {renderAmount()}
 
                 <div className="p-3 bg-white/5 rounded-lg border border-white/20">
-                  <p className="text-xs text-white/70 mb-1">{currentMethod.method_name} ID</p>
-                  <p className="font-mono text-sm break-all text-white">{getPaymentId(currentMethod)}</p>
+                  <p className="text-xs text-white/70 mb-1">{currentMethod.name} ID</p>
+                  <p className="font-mono text-sm break-all text-white">{currentMethod.accountId || 'Not configured'}</p>
                 </div>
+
+                {orderId && (
+                  <div className="p-3 bg-white/5 rounded-lg border border-white/20">
+                    <p className="text-xs text-white/70 mb-1">Order Reference</p>
+                    <p className="font-mono text-sm break-all text-white">{orderId}</p>
+                  </div>
+                )}
               </div>
             </div>
 
             <div className="text-sm text-white/70 space-y-1 border-t border-white/20 pt-4">
               <p className="font-semibold text-white">Instructions:</p>
               <ol className="list-decimal list-inside space-y-1">
-                <li>Scan the QR code with your {currentMethod.method_name} app</li>
-                <li>Send exactly ${total.toFixed(2)} to the address shown</li>
+                {upiUri ? (
+                  <>
+                    <li>Scan the QR code with any UPI app, or tap &quot;Pay with a UPI app&quot; on your phone</li>
+                    <li>Check that the amount{orderId ? " and the order reference are" : " is"} filled in, then pay</li>
+                  </>
+                ) : (
+                  <>
+                    {hasQrCode && <li>Scan the QR code with your {currentMethod.name} app</li>}
+                    <li>
+                      Send exactly {payment ? formatMoney(payment.amount, payment.currency) : formatMoney(total)} to the address
+                      shown{orderId && " and mention the order reference"}
+                    </li>
+                  </>
+                )}
                 <li>Take a screenshot of the payment confirmation</li>
                 <li>Upload the screenshot below to complete your order</li>
               </ol>
@@ -220,7 +286,7 @@ export function PaymentQR({ total, onMethodChange }: PaymentQRProps) {
         </Card>
       )}
 
-      {isModalOpen && (
+      {isModalOpen && hasQrCode && (
         <div
           className="fixed inset-0 z-50 flex items-center justify-center bg-black/80 backdrop-blur-sm"
           onClick={() => setIsModalOpen(false)}
@@ -235,15 +301,10 @@ export function PaymentQR({ total, onMethodChange }: PaymentQRProps) {
               <X className="h-6 w-6" />
             </Button>
             <div className="relative w-full aspect-square bg-white rounded-lg p-8">
-              <Image
-                src={currentMethod ? getQRImage(currentMethod) : "/placeholder.svg"}
-                alt={`${currentMethod?.method_name} QR Code - Enlarged`}
-                fill
-                className="object-contain"
-              />
+              {renderQrCode("large")}
             </div>
             <div className="mt-4 text-center text-white">
-              <p className="text-lg font-semibold">{currentMethod?.method_name}</p>
+              <p className="text-lg font-semibold">{currentMethod?.name}</p>
               <p className="text-sm opacity-80">Click outside to close</p>
             </div>
           </div>
@@ -1,65 +1,43 @@
 "use client"
 
-import { useState, useEffect } from "react"
+import { useState } from "react"
 import { ShoppingCart, Download, Check } from "lucide-react"
 import { Button } from "@/components/ui/button"
 import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card"
-import { createClient } from "@/lib/supabase/client"
+import { VariantPicker } from "@/components/variant-picker"
+import { formatMoney } from "@/lib/currency"
+import { stockLabel, stockLevel, type StockLevel } from "@/lib/inventory"
+import type { EffectivePrice } from "@/lib/pricing"
+import { defaultVariant, productHref, withVariant, type Product, type ProductVariant } from "@/lib/products"
 import Image from "next/image"
+import Link from "next/link"
 
-export type Product = {
-  id: string
-  name: string
-  description: string
-  price: number
-  image: string
-  category: string
-  stock: number
-  download_url?: string
+const STOCK_LEVEL_CLASSES: Record<StockLevel, string> = {
+  unlimited: "text-green-500",
+  in_stock: "text-green-500",
+  low: "text-yellow-600",
+  sold_out: "text-destructive",
 }
 
 interface ProductCardProps {
   product: Product
-  onAddToCart: (product: Product) => void
-  currentUser?: any
+  onAddToCart: (product: Product, variant: ProductVariant | null) => void
+  /** Whether the current user has a confirmed order containing this product, in this variant */
+  isPurchased?: (productId: string, variantId: string | null) => boolean
+  /** Price after sales and discounts, from `usePromotions`; the list price when omitted */
+  priceOf?: (product: Product) => EffectivePrice
 }
 
-export function ProductCard({ product, onAddToCart, currentUser }: ProductCardProps) {
-  const [hasConfirmedOrder, setHasConfirmedOrder] = useState(false)
-  const [downloadUrl, setDownloadUrl] = useState<string | null>(null)
+export function ProductCard({ product, onAddToCart, isPurchased, priceOf }: ProductCardProps) {
   const [loading, setLoading] = useState(false)
-
-  useEffect(() => {
-    if (currentUser?.id) {
-      checkUserOrder()
-    }
-  }, [currentUser, product.id])
-
-  const checkUserOrder = async () => {
-    if (!currentUser?.id) return
-    
-    try {
-      const supabase = createClient()
-      const { data: orders, error } = await supabase
-        .from('orders')
-        .select(`
-          id,
-          status,
-          products:product_id ( id, title, download_url )
-        `)
-        .eq('user_id', currentUser.id)
-        .eq('product_id', product.id)
-        .eq('status', 'confirmed')
-      
-      if (!error && orders && orders.length > 0) {
-        setHasConfirmedOrder(true)
-        const productData = orders[0].products as any
-        setDownloadUrl(productData?.download_url || product.download_url || null)
-      }
-    } catch (error) {
-      console.error('Error checking user orders:', error)
-    }
-  }
+  const [variantId, setVariantId] = useState(() => defaultVariant(product)?.id ?? null)
+  const variant = product.variants.find((v) => v.id === variantId) ?? null
+  // The product as sold in the chosen variant: its price, stock and download
+  const sold = withVariant(product, variant)
+  const price = priceOf?.(sold)
+  const hasConfirmedOrder = isPurchased?.(product.id, variant?.id ?? null) ?? false
+  const downloadUrl = sold.downloadUrl || null
+  const level = stockLevel(sold)
 
   const handleDownload = async () => {
     if (!downloadUrl) return
@@ -77,22 +55,33 @@ export function ProductCard({ product, onAddToCart, currentUser }: ProductCardPr
 
   return (
     <Card className="overflow-hidden hover:border-primary/50 transition-colors">
-      <div className="aspect-square relative overflow-hidden bg-muted">
+      <Link href={productHref(product)} className="block aspect-square relative overflow-hidden bg-muted">
         <Image src={product.image || "/placeholder.svg"} alt={product.name} fill className="object-cover" />
-      </div>
+      </Link>
       <CardHeader>
         <div className="flex items-start justify-between gap-2">
-          <CardTitle className="text-lg line-clamp-1">{product.name}</CardTitle>
-          <span className="text-lg font-bold text-primary whitespace-nowrap">${product.price}</span>
+          <CardTitle className="text-lg line-clamp-1">
+            <Link href={productHref(product)} className="hover:underline">
+              {product.name}
+            </Link>
+          </CardTitle>
+          <div className="text-right whitespace-nowrap">
+            <span className="text-lg font-bold text-primary">{formatMoney(price?.price ?? sold.price)}</span>
+            {price && price.price < price.original && (
+              <div className="text-xs">
+                <span className="text-muted-foreground line-through mr-1">{formatMoney(price.original)}</span>
+                <span className="text-green-500">-{price.discountPercentage}%</span>
+              </div>
+            )}
+          </div>
         </div>
         <CardDescription className="line-clamp-2">{product.description}</CardDescription>
       </CardHeader>
-      <CardContent>
+      <CardContent className="space-y-3">
+        <VariantPicker product={product} value={variantId} onChange={setVariantId} priceOf={priceOf} compact />
         <div className="flex items-center justify-between text-sm">
           <span className="text-muted-foreground">Category: {product.category}</span>
-          <span className={product.stock > 0 ? "text-green-500" : "text-destructive"}>
-            {product.stock > 0 ? `${product.stock} in stock` : "Out of stock"}
-          </span>
+          <span className={STOCK_LEVEL_CLASSES[level]}>{stockLabel(sold)}</span>
         </div>
       </CardContent>
       <CardFooter className="flex flex-col gap-2">
@@ -111,7 +100,7 @@ export function ProductCard({ product, onAddToCart, currentUser }: ProductCardPr
             Purchased - No Download Available
           </Button>
         ) : (
-          <Button onClick={() => onAddToCart(product)} disabled={product.stock === 0} className="w-full">
+          <Button onClick={() => onAddToCart(product, variant)} disabled={level === "sold_out"} className="w-full">
             <ShoppingCart className="h-4 w-4 mr-2" />
             Add to Cart
           </Button>
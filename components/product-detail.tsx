@@ -0,0 +1,221 @@
+"use client"
+
+import { useState } from "react"
+import Link from "next/link"
+import { Check, Download, Eye, Share2, ShoppingCart, Zap } from "lucide-react"
+import { Markdown } from "@/components/markdown"
+import { ProductCard } from "@/components/product-card"
+import { ProductGallery } from "@/components/product-gallery"
+import { Button } from "@/components/ui/button"
+import { VariantPicker } from "@/components/variant-picker"
+import { useToast } from "@/hooks/use-toast"
+import { categoryPath, type Category } from "@/lib/categories"
+import { formatMoney } from "@/lib/currency"
+import { stockLabel, stockLevel, type StockLevel } from "@/lib/inventory"
+import type { EffectivePrice } from "@/lib/pricing"
+import {
+  defaultVariant,
+  productAvailability,
+  productHref,
+  withVariant,
+  type Product,
+  type ProductAvailability,
+  type ProductVariant,
+} from "@/lib/products"
+
+// Why customers cannot see the page an admin is previewing
+const PREVIEW_NOTES: Record<Exclude<ProductAvailability, "live">, string> = {
+  draft: "This product is a draft.",
+  scheduled: "This product is scheduled and not published yet.",
+  expired: "This product's publish window has ended.",
+  archived: "This product is archived.",
+}
+
+const STOCK_LEVEL_CLASSES: Record<StockLevel, string> = {
+  unlimited: "text-green-400",
+  in_stock: "text-green-400",
+  low: "text-yellow-300",
+  sold_out: "text-red-400",
+}
+
+interface ProductDetailProps {
+  product: Product
+  categories: Category[]
+  related: Product[]
+  /** Price after sales and discounts, from `usePromotions` */
+  priceOf: (product: Product) => EffectivePrice
+  /** Whether the current user has a confirmed order containing the product, in this variant */
+  isPurchased: (productId: string, variantId: string | null) => boolean
+  onAddToCart: (product: Product, variant: ProductVariant | null) => void
+  /** Add to the cart and go straight to checkout */
+  onBuyNow: (product: Product, variant: ProductVariant | null) => void
+}
+
+/**
+ * The product page: gallery, variant picker, price, stock, purchase buttons, long description and
+ * related products.
+ * Products that are not live are only shown to admins, as a preview that cannot be bought.
+ */
+export function ProductDetail({
+  product,
+  categories,
+  related,
+  priceOf,
+  isPurchased,
+  onAddToCart,
+  onBuyNow,
+}: ProductDetailProps) {
+  const { toast } = useToast()
+  const [variantId, setVariantId] = useState(() => defaultVariant(product)?.id ?? null)
+  const variant = product.variants.find((v) => v.id === variantId) ?? null
+  // The product as sold in the chosen variant: its price, stock and download
+  const sold = withVariant(product, variant)
+  const price = priceOf(sold)
+  const purchased = isPurchased(product.id, variant?.id ?? null)
+  const category = categories.find((c) => c.id === product.categoryId)
+  const availability = productAvailability(product)
+  const preview = availability !== "live"
+
+  const handleShare = async () => {
+    const url = `${window.location.origin}${productHref(product)}`
+    if (navigator.share) {
+      try {
+        await navigator.share({ title: product.name, text: product.description, url })
+      } catch {
+        // The share sheet was closed
+      }
+      return
+    }
+    try {
+      await navigator.clipboard.writeText(url)
+      toast({ title: "Link Copied", description: url })
+    } catch (error) {
+      console.error("[product] Could not copy the link:", error)
+      toast({ title: "Copy this link", description: url })
+    }
+  }
+
+  const level = stockLevel(sold)
+
+  return (
+    <div className="space-y-8">
+      {availability !== "live" && (
+        <div className="rounded-xl border border-yellow-300/50 bg-yellow-300/10 px-4 py-3 text-sm text-yellow-100 flex items-center gap-2">
+          <Eye className="h-4 w-4 flex-shrink-0" />
+          <span>
+            Preview. {PREVIEW_NOTES[availability]} Customers cannot see this page.
+            {availability === "scheduled" && product.publishAt && ` It goes live ${new Date(product.publishAt).toLocaleString()}.`}
+          </span>
+        </div>
+      )}
+
+      <nav aria-label="Breadcrumb" className="text-sm text-white/60">
+        <Link href="/" className="hover:text-white">All</Link>
+        {category &&
+          categoryPath(categories, category.id).map((c) => (
+            <span key={c.id}>
+              {" / "}
+              <Link href={`/category/${c.slug}`} className="hover:text-white">{c.name}</Link>
+            </span>
+          ))}
+        <span className="text-white/80">{" / "}{product.name}</span>
+      </nav>
+
+      <div className="grid md:grid-cols-2 gap-8">
+        <ProductGallery images={product.images} name={product.name} />
+
+        <div className="glass-card rounded-2xl p-6 flex flex-col gap-4 text-white">
+          <div>
+            <h2 className="text-3xl font-bold neon-text">{product.name}</h2>
+            <p className="text-white/80 mt-2">{product.description}</p>
+          </div>
+
+          <div>
+            <div className="flex items-baseline gap-3">
+              <span className="text-3xl font-bold">{formatMoney(price.price)}</span>
+              {price.price < price.original && (
+                <>
+                  <span className="text-white/60 line-through">{formatMoney(price.original)}</span>
+                  <span className="text-green-400 font-semibold">-{price.discountPercentage}%</span>
+                </>
+              )}
+            </div>
+            {price.endsAt && price.price < price.original && (
+              <p className="text-sm text-white/70 mt-1">Sale ends {new Date(price.endsAt).toLocaleString()}</p>
+            )}
+          </div>
+
+          <VariantPicker product={product} value={variantId} onChange={setVariantId} priceOf={priceOf} />
+
+          <p className={STOCK_LEVEL_CLASSES[level]}>{stockLabel(sold)}</p>
+
+          <div className="flex flex-col gap-2 mt-auto">
+            {purchased ? (
+              sold.downloadUrl ? (
+                <Button asChild className="w-full bg-green-600 hover:bg-green-700">
+                  <a href={sold.downloadUrl} target="_blank" rel="noopener noreferrer">
+                    <Download className="h-4 w-4 mr-2" />
+                    Download
+                  </a>
+                </Button>
+              ) : (
+                <Button disabled className="w-full bg-gray-500">
+                  <Check className="h-4 w-4 mr-2" />
+                  Purchased - No Download Available
+                </Button>
+              )
+            ) : (
+              <>
+                <Button
+                  onClick={() => onBuyNow(product, variant)}
+                  disabled={preview || level === "sold_out"}
+                  className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 button-3d"
+                >
+                  <Zap className="h-4 w-4 mr-2" />
+                  Buy Now
+                </Button>
+                <Button
+                  onClick={() => onAddToCart(product, variant)}
+                  disabled={preview || level === "sold_out"}
+                  variant="outline"
+                  className="w-full border-white/30 text-white hover:bg-white/10 bg-transparent"
+                >
+                  <ShoppingCart className="h-4 w-4 mr-2" />
+                  Add to Cart
+                </Button>
+              </>
+            )}
+            <Button onClick={handleShare} variant="ghost" className="w-full text-white/80 hover:text-white hover:bg-white/10">
+              <Share2 className="h-4 w-4 mr-2" />
+              Share
+            </Button>
+          </div>
+        </div>
+      </div>
+
+      {product.longDescription && (
+        <section className="glass-card rounded-2xl p-6">
+          <Markdown>{product.longDescription}</Markdown>
+        </section>
+      )}
+
+      {related.length > 0 && (
+        <section>
+          <h3 className="text-2xl font-bold text-white mb-4">You may also like</h3>
+          <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-4 gap-6">
+            {related.map((item) => (
+              <div key={item.id} className="glass-card rounded-2xl shadow p-4 flex flex-col card-3d product-hover">
+                <ProductCard
+                  product={item}
+                  onAddToCart={onAddToCart}
+                  isPurchased={isPurchased}
+                  priceOf={priceOf}
+                />
+              </div>
+            ))}
+          </div>
+        </section>
+      )}
+    </div>
+  )
+}
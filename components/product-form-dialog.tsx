@@ -2,8 +2,9 @@
 
 import type React from "react"
 
-import { useState } from "react"
-import { Plus } from "lucide-react"
+import { useEffect, useRef, useState } from "react"
+import { ChevronLeft, ChevronRight, Link2, Plus, Star, Trash2, Upload } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
 import { Button } from "@/components/ui/button"
 import {
   Dialog,
@@ -16,64 +17,453 @@ import {
 } from "@/components/ui/dialog"
 import { Input } from "@/components/ui/input"
 import { Label } from "@/components/ui/label"
+import { Switch } from "@/components/ui/switch"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
 import { Textarea } from "@/components/ui/textarea"
 import { useToast } from "@/hooks/use-toast"
-import { createClient } from "@/lib/supabase/client"
-
-type Product = {
-  id: string
-  name: string
-  description: string
-  price: number
-  image: string
-  category: string
-  stock: number
-  download_url?: string
-}
+import { categoryTree, flattenCategoryTree, slugify, type Category } from "@/lib/categories"
+import { STORE_CURRENCY } from "@/lib/currency"
+import { prepareProductImage, ProductImageError, type ProductImageDraft } from "@/lib/product-images"
+import {
+  createProduct,
+  DEFAULT_LOW_STOCK_THRESHOLD,
+  PLACEHOLDER_IMAGE,
+  ProductError,
+  saveProductImages,
+  saveProductVariants,
+  updateProduct,
+  type Product,
+  type ProductStatus,
+  type ProductVariantInput,
+} from "@/lib/products"
 
 interface ProductFormDialogProps {
   product?: Product
+  categories: Category[]
   onSuccess: () => void
 }
 
-export function ProductFormDialog({ product, onSuccess }: ProductFormDialogProps) {
+const NO_CATEGORY = "none"
+
+const STATUS_OPTIONS: { value: ProductStatus; label: string }[] = [
+  { value: "draft", label: "Draft (admins can preview it)" },
+  { value: "published", label: "Published" },
+  { value: "archived", label: "Archived (kept for existing orders)" },
+]
+
+// datetime-local inputs work in local time without a zone
+function toLocalInput(iso: string | null): string {
+  if (!iso) return ""
+  const date = new Date(iso)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60_000).toISOString().slice(0, 16)
+}
+
+function fromLocalInput(value: string): string | null {
+  return value ? new Date(value).toISOString() : null
+}
+
+const NEW_VARIANT: ProductVariantInput = { name: "", price: 0, stock: 0, downloadUrl: "", licenseText: "" }
+
+interface VariantsEditorProps {
+  variants: ProductVariantInput[]
+  onChange: (variants: ProductVariantInput[]) => void
+  unlimitedStock: boolean
+}
+
+/** Rows of variants in the order customers see them; saved variants change stock with the Stock button. */
+function VariantsEditor({ variants, onChange, unlimitedStock }: VariantsEditorProps) {
+  const update = (index: number, changes: Partial<ProductVariantInput>) =>
+    onChange(variants.map((variant, i) => (i === index ? { ...variant, ...changes } : variant)))
+
+  return (
+    <div className="space-y-3">
+      {variants.map((variant, index) => (
+        <div key={variant.id ?? `new-${index}`} className="rounded-md border p-3 space-y-2">
+          <div className="grid grid-cols-[1fr_7rem_6rem_auto] items-end gap-2">
+            <div className="space-y-1">
+              <Label htmlFor={`variant-name-${index}`}>Name</Label>
+              <Input
+                id={`variant-name-${index}`}
+                value={variant.name}
+                onChange={(e) => update(index, { name: e.target.value })}
+                placeholder="Commercial license"
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`variant-price-${index}`}>Price</Label>
+              <Input
+                id={`variant-price-${index}`}
+                type="number"
+                step="0.01"
+                min="0"
+                value={variant.price}
+                onChange={(e) => update(index, { price: Number.parseFloat(e.target.value) })}
+                required
+              />
+            </div>
+            <div className="space-y-1">
+              <Label htmlFor={`variant-stock-${index}`}>{variant.id ? "Stock" : "Opening"}</Label>
+              <Input
+                id={`variant-stock-${index}`}
+                type="number"
+                min="0"
+                value={variant.stock}
+                onChange={(e) => update(index, { stock: Number.parseInt(e.target.value) || 0 })}
+                disabled={Boolean(variant.id) || unlimitedStock}
+              />
+            </div>
+            <Button
+              type="button"
+              variant="ghost"
+              size="sm"
+              onClick={() => onChange(variants.filter((_, i) => i !== index))}
+              title="Remove variant"
+            >
+              <Trash2 className="h-4 w-4 text-destructive" />
+            </Button>
+          </div>
+          <Input
+            aria-label="Download URL"
+            value={variant.downloadUrl ?? ""}
+            onChange={(e) => update(index, { downloadUrl: e.target.value })}
+            placeholder="Download URL for this variant"
+          />
+          <Textarea
+            aria-label="License text"
+            value={variant.licenseText}
+            onChange={(e) => update(index, { licenseText: e.target.value })}
+            rows={2}
+            placeholder="License the buyer gets, e.g. use in one commercial project"
+          />
+        </div>
+      ))}
+      <Button type="button" variant="outline" size="sm" onClick={() => onChange([...variants, { ...NEW_VARIANT }])}>
+        <Plus className="h-4 w-4 mr-1" />
+        Add Variant
+      </Button>
+    </div>
+  )
+}
+
+function draftKey(draft: ProductImageDraft): string {
+  if (draft.kind === "saved") return draft.image.id
+  return draft.kind === "linked" ? `linked-${draft.url}` : draft.key
+}
+
+function draftPreview(draft: ProductImageDraft): string {
+  if (draft.kind === "saved") return draft.image.thumbnailUrl
+  return draft.kind === "linked" ? draft.url : draft.previewUrl
+}
+
+function isLinked(draft: ProductImageDraft): boolean {
+  return draft.kind === "linked" || (draft.kind === "saved" && draft.image.path === null)
+}
+
+interface ImagesEditorProps {
+  images: ProductImageDraft[]
+  onChange: (images: ProductImageDraft[]) => void
+  /** Images still being scaled; the form waits for them */
+  onProcessingChange: (processing: boolean) => void
+}
+
+/**
+ * The product's gallery: drop or choose image files, drag the tiles into order and pick
+ * the cover. Files are scaled in the browser right away and uploaded when the form is saved.
+ */
+function ImagesEditor({ images, onChange, onProcessingChange }: ImagesEditorProps) {
+  const [dragActive, setDragActive] = useState(false)
+  const [processing, setProcessing] = useState(0)
+  const [error, setError] = useState("")
+  const [linkUrl, setLinkUrl] = useState("")
+  // Index of the tile being dragged to a new place; file drops leave it null
+  const [dragging, setDragging] = useState<number | null>(null)
+  const inputRef = useRef<HTMLInputElement>(null)
+  // Files finish scaling one after another; keep adding to the latest list
+  const latest = useRef(images)
+  latest.current = images
+
+  useEffect(() => onProcessingChange(processing > 0), [processing, onProcessingChange])
+
+  const change = (next: ProductImageDraft[]) => {
+    latest.current = next
+    onChange(next)
+  }
+
+  const move = (from: number, to: number) => {
+    if (to < 0 || to >= images.length || from === to) return
+    const next = [...images]
+    const [moved] = next.splice(from, 1)
+    next.splice(to, 0, moved)
+    change(next)
+  }
+
+  const remove = (index: number) => {
+    const draft = images[index]
+    if (draft.kind === "upload") URL.revokeObjectURL(draft.previewUrl)
+    change(images.filter((_, i) => i !== index))
+  }
+
+  const handleFiles = async (files: File[]) => {
+    if (files.length === 0) return
+    setError("")
+    setProcessing((count) => count + files.length)
+    const failed: string[] = []
+    for (const file of files) {
+      try {
+        const image = await prepareProductImage(file)
+        change([
+          ...latest.current,
+          { kind: "upload", key: crypto.randomUUID(), image, previewUrl: URL.createObjectURL(image.thumbnail), alt: "" },
+        ])
+      } catch (err) {
+        console.error("[admin] Failed to prepare product image", { name: file.name, err })
+        failed.push(err instanceof ProductImageError ? err.message : `${file.name} could not be processed`)
+      } finally {
+        setProcessing((count) => count - 1)
+      }
+    }
+    if (failed.length > 0) setError(failed.join(". "))
+    if (inputRef.current) inputRef.current.value = ""
+  }
+
+  const addLink = () => {
+    const url = linkUrl.trim()
+    if (!url) return
+    if (!/^(https?:\/\/|\/)/.test(url)) {
+      setError("Image links start with https:// or /")
+      return
+    }
+    setError("")
+    if (!images.some((draft) => draft.kind !== "upload" && draftPreview(draft) === url)) {
+      change([...images, { kind: "linked", url }])
+    }
+    setLinkUrl("")
+  }
+
+  const handleDrag = (e: React.DragEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+    if (dragging !== null) return
+    if (e.type === "dragenter" || e.type === "dragover") setDragActive(true)
+    else if (e.type === "dragleave") setDragActive(false)
+  }
+
+  const handleDrop = (e: React.DragEvent) => {
+    e.preventDefault()
+    e.stopPropagation()
+    setDragActive(false)
+    if (dragging === null) handleFiles(Array.from(e.dataTransfer.files))
+  }
+
+  return (
+    <div className="space-y-3">
+      <div
+        className={`relative border-2 border-dashed rounded-lg p-6 text-center cursor-pointer transition-colors ${
+          dragActive ? "border-primary bg-primary/5" : "border-border hover:border-primary/50"
+        }`}
+        onDragEnter={handleDrag}
+        onDragLeave={handleDrag}
+        onDragOver={handleDrag}
+        onDrop={handleDrop}
+        onClick={() => inputRef.current?.click()}
+      >
+        <input
+          ref={inputRef}
+          type="file"
+          className="hidden"
+          accept="image/jpeg,image/png,image/webp"
+          multiple
+          onChange={(e) => handleFiles(Array.from(e.target.files ?? []))}
+        />
+        <div className="flex flex-col items-center gap-2">
+          <div className="p-3 rounded-full bg-primary/10">
+            <Upload className="h-6 w-6 text-primary" />
+          </div>
+          <div>
+            <p className="font-semibold">
+              {processing > 0 ? `Processing ${processing} image${processing === 1 ? "" : "s"}...` : "Upload Images"}
+            </p>
+            <p className="text-sm text-muted-foreground">Drag and drop or click to select JPEG, PNG or WebP images</p>
+          </div>
+        </div>
+      </div>
+
+      {images.length > 0 && (
+        <ul className="grid grid-cols-4 gap-2">
+          {images.map((draft, index) => (
+            <li
+              key={draftKey(draft)}
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = "move"
+                setDragging(index)
+              }}
+              onDragOver={(e) => {
+                if (dragging === null) return
+                e.preventDefault()
+                if (dragging !== index) {
+                  move(dragging, index)
+                  setDragging(index)
+                }
+              }}
+              onDragEnd={() => setDragging(null)}
+              className={`group relative aspect-square rounded-md overflow-hidden border bg-muted cursor-move ${
+                dragging === index ? "opacity-50" : ""
+              }`}
+            >
+              <img src={draftPreview(draft)} alt={`Image ${index + 1}`} className="h-full w-full object-cover" />
+              <div className="absolute top-1 left-1 flex gap-1">
+                {index === 0 && <Badge>Cover</Badge>}
+                {isLinked(draft) && (
+                  <Badge variant="secondary" title="Linked by URL; upload it to keep it from breaking">
+                    <Link2 className="h-3 w-3" />
+                    Linked
+                  </Badge>
+                )}
+              </div>
+              <div className="absolute inset-x-1 bottom-1 flex justify-between gap-1">
+                <div className="flex gap-1">
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    size="icon-sm"
+                    onClick={() => move(index, index - 1)}
+                    disabled={index === 0}
+                    title="Move earlier"
+                  >
+                    <ChevronLeft className="h-4 w-4" />
+                  </Button>
+                  <Button
+                    type="button"
+                    variant="secondary"
+                    size="icon-sm"
+                    onClick={() => move(index, index + 1)}
+                    disabled={index === images.length - 1}
+                    title="Move later"
+                  >
+                    <ChevronRight className="h-4 w-4" />
+                  </Button>
+                </div>
+                <div className="flex gap-1">
+                  {index > 0 && (
+                    <Button type="button" variant="secondary" size="icon-sm" onClick={() => move(index, 0)} title="Make cover">
+                      <Star className="h-4 w-4" />
+                    </Button>
+                  )}
+                  <Button type="button" variant="secondary" size="icon-sm" onClick={() => remove(index)} title="Remove image">
+                    <Trash2 className="h-4 w-4 text-destructive" />
+                  </Button>
+                </div>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <Input
+          aria-label="Image link"
+          value={linkUrl}
+          onChange={(e) => setLinkUrl(e.target.value)}
+          onKeyDown={(e) => {
+            if (e.key === "Enter") {
+              e.preventDefault()
+              addLink()
+            }
+          }}
+          placeholder="Or link an image by URL"
+        />
+        <Button type="button" variant="outline" onClick={addLink} disabled={!linkUrl.trim()}>
+          <Link2 className="h-4 w-4 mr-1" />
+          Link
+        </Button>
+      </div>
+
+      {error && <div className="text-sm text-destructive bg-destructive/10 p-3 rounded-md">{error}</div>}
+    </div>
+  )
+}
+
+export function ProductFormDialog({ product, categories, onSuccess }: ProductFormDialogProps) {
   const { toast } = useToast()
   const [open, setOpen] = useState(false)
+  // The slug follows the name until it is edited by hand
+  const [slugEdited, setSlugEdited] = useState(Boolean(product))
+  // The first image is the cover
+  const [images, setImages] = useState<ProductImageDraft[]>(
+    product?.images.map((image) => ({ kind: "saved", image })) ?? [],
+  )
+  const [processingImages, setProcessingImages] = useState(false)
+  const [saving, setSaving] = useState(false)
+  const [variants, setVariants] = useState<ProductVariantInput[]>(
+    product?.variants.map(({ id, name, price, stock, downloadUrl, licenseText }) => ({
+      id,
+      name,
+      price,
+      stock,
+      downloadUrl: downloadUrl ?? "",
+      licenseText,
+    })) ?? [],
+  )
   const [formData, setFormData] = useState({
     name: product?.name || "",
+    slug: product?.slug || "",
+    sku: product?.sku ?? null,
     description: product?.description || "",
+    longDescription: product?.longDescription || "",
     price: product?.price || 0,
+    categoryId: product?.categoryId ?? null,
     category: product?.category || "",
     stock: product?.stock || 0,
-    image: product?.image || "",
-    download_url: product?.download_url || "",
+    unlimitedStock: product?.unlimitedStock ?? false,
+    lowStockThreshold: product?.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD,
+    downloadUrl: product?.downloadUrl || "",
+    // New products start as drafts so they can be previewed before customers see them
+    status: product?.status ?? ("draft" as ProductStatus),
+    publishAt: toLocalInput(product?.publishAt ?? null),
+    unpublishAt: toLocalInput(product?.unpublishAt ?? null),
   })
 
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault()
-
-    const supabase = createClient()
-
-    // Map UI form data to Supabase schema columns
-    const supaData = {
-      title: formData.name,
-      description: formData.description,
-      price: formData.price,
-      image_url: formData.image,
-      stock: formData.stock,
-      download_url: formData.download_url,
+    // Stock is only set when the product is created; later changes go through the
+    // inventory ledger (InventoryDialog). With variants the product's price is its
+    // cheapest variant's, which search filters and sorts on.
+    const { stock, ...details } = {
+      ...formData,
+      price: variants.length > 0 ? Math.min(...variants.map((variant) => variant.price)) : formData.price,
+      publishAt: fromLocalInput(formData.publishAt),
+      unpublishAt: fromLocalInput(formData.unpublishAt),
+    }
+    // Products that never had variants do not touch the variants table
+    const saveVariants = async (productId: string) => {
+      if (variants.length > 0 || product?.variants.length) await saveProductVariants(productId, variants)
+    }
+    // The gallery keeps products.image_url and gallery up to date, so the form leaves them alone
+    const saveImages = async (productId: string) => {
+      if (images.length === 0 && !product?.images.length) return []
+      return saveProductImages(productId, images)
     }
+    const errorMessage = (error: unknown, fallback: string) =>
+      error instanceof ProductError || error instanceof ProductImageError ? error.message : fallback
 
+    setSaving(true)
     if (product) {
-      const { error } = await supabase.from("products").update(supaData).eq("id", product.id)
-
-      if (error) {
+      try {
+        await updateProduct(product.id, details)
+        await saveVariants(product.id)
+        // Uploaded images are saved now; saving the form again must not upload them twice
+        const saved = await saveImages(product.id)
+        setImages(saved.map((image) => ({ kind: "saved", image })))
+      } catch (error) {
         console.error("[admin] Failed to update product", { id: product.id, error })
         toast({
           title: "Error",
-          description: "Failed to update product",
+          description: errorMessage(error, "Failed to update product"),
           variant: "destructive",
         })
+        setSaving(false)
         return
       }
 
@@ -83,15 +473,19 @@ export function ProductFormDialog({ product, onSuccess }: ProductFormDialogProps
         description: "Product has been updated successfully",
       })
     } else {
-      const { error } = await supabase.from("products").insert(supaData)
-
-      if (error) {
+      try {
+        const created = await createProduct({ ...details, stock, image: PLACEHOLDER_IMAGE, gallery: [] })
+        await saveVariants(created.id)
+        await saveImages(created.id)
+        setImages([])
+      } catch (error) {
         console.error("[admin] Failed to add product", { error })
         toast({
           title: "Error",
-          description: "Failed to add product",
+          description: errorMessage(error, "Failed to add product"),
           variant: "destructive",
         })
+        setSaving(false)
         return
       }
 
@@ -102,6 +496,7 @@ export function ProductFormDialog({ product, onSuccess }: ProductFormDialogProps
       })
     }
 
+    setSaving(false)
     setOpen(false)
     onSuccess()
   }
@@ -129,14 +524,36 @@ export function ProductFormDialog({ product, onSuccess }: ProductFormDialogProps
         </DialogHeader>
 
         <form onSubmit={handleSubmit} className="space-y-4">
-          <div className="space-y-2">
-            <Label htmlFor="name">Product Name</Label>
-            <Input
-              id="name"
-              value={formData.name}
-              onChange={(e) => setFormData({ ...formData, name: e.target.value })}
-              required
-            />
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="name">Product Name</Label>
+              <Input
+                id="name"
+                value={formData.name}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    name: e.target.value,
+                    slug: slugEdited ? formData.slug : slugify(e.target.value),
+                  })
+                }
+                required
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="slug">Slug</Label>
+              <Input
+                id="slug"
+                value={formData.slug}
+                onChange={(e) => {
+                  setSlugEdited(true)
+                  setFormData({ ...formData, slug: e.target.value.toLowerCase() })
+                }}
+                required
+              />
+              <p className="text-xs text-muted-foreground">Page link: /products/{formData.slug || "…"}</p>
+            </div>
           </div>
 
           <div className="space-y-2">
@@ -149,69 +566,193 @@ export function ProductFormDialog({ product, onSuccess }: ProductFormDialogProps
             />
           </div>
 
-          <div className="grid grid-cols-2 gap-4">
+          <div className="space-y-2">
+            <Label htmlFor="long_description">Long Description (Markdown)</Label>
+            <Textarea
+              id="long_description"
+              value={formData.longDescription}
+              onChange={(e) => setFormData({ ...formData, longDescription: e.target.value })}
+              rows={8}
+              placeholder={"## What you get\n\n- Feature one\n- Feature two"}
+            />
+            <p className="text-xs text-muted-foreground">Shown on the product page under the short description</p>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
             <div className="space-y-2">
-              <Label htmlFor="price">Price ($)</Label>
+              <Label htmlFor="sku">SKU (optional)</Label>
+              <Input
+                id="sku"
+                value={formData.sku ?? ""}
+                onChange={(e) => setFormData({ ...formData, sku: e.target.value.trim() || null })}
+                maxLength={64}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="price">Price ({STORE_CURRENCY})</Label>
               <Input
                 id="price"
                 type="number"
                 step="0.01"
                 value={formData.price}
                 onChange={(e) => setFormData({ ...formData, price: Number.parseFloat(e.target.value) })}
+                disabled={variants.length > 0}
                 required
               />
+              {variants.length > 0 && <p className="text-xs text-muted-foreground">Set per variant below</p>}
             </div>
 
             <div className="space-y-2">
-              <Label htmlFor="stock">Stock</Label>
+              <Label htmlFor="stock">{product ? "Stock" : "Opening Stock"}</Label>
               <Input
                 id="stock"
                 type="number"
+                min="0"
                 value={formData.stock}
                 onChange={(e) => setFormData({ ...formData, stock: Number.parseInt(e.target.value) })}
+                disabled={Boolean(product) || formData.unlimitedStock || variants.length > 0}
                 required
               />
+              {variants.length > 0 ? (
+                <p className="text-xs text-muted-foreground">Stocked per variant below</p>
+              ) : (
+                product && <p className="text-xs text-muted-foreground">Restock or adjust with the Stock button</p>
+              )}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="flex items-center gap-3">
+              <Switch
+                id="unlimited_stock"
+                checked={formData.unlimitedStock}
+                onCheckedChange={(checked) => setFormData({ ...formData, unlimitedStock: checked })}
+              />
+              <Label htmlFor="unlimited_stock">Unlimited stock (digital goods that never run out)</Label>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="low_stock_threshold">Low-stock alert below</Label>
+              <Input
+                id="low_stock_threshold"
+                type="number"
+                min="0"
+                value={formData.lowStockThreshold}
+                onChange={(e) => setFormData({ ...formData, lowStockThreshold: Number.parseInt(e.target.value) || 0 })}
+                disabled={formData.unlimitedStock}
+              />
+              <p className="text-xs text-muted-foreground">0 turns the alert off</p>
             </div>
           </div>
 
           <div className="space-y-2">
             <Label htmlFor="category">Category</Label>
-            <Input
-              id="category"
-              value={formData.category}
-              onChange={(e) => setFormData({ ...formData, category: e.target.value })}
-              required
-            />
+            <Select
+              value={formData.categoryId ?? NO_CATEGORY}
+              onValueChange={(value) => {
+                const category = categories.find((c) => c.id === value)
+                setFormData({ ...formData, categoryId: category?.id ?? null, category: category?.name ?? "general" })
+              }}
+            >
+              <SelectTrigger id="category">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={NO_CATEGORY}>Uncategorized</SelectItem>
+                {flattenCategoryTree(categoryTree(categories)).map((category) => (
+                  <SelectItem key={category.id} value={category.id}>
+                    {"\u00a0\u00a0".repeat(category.depth)}
+                    {category.name}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+
+          <div className="grid grid-cols-3 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="status">Status</Label>
+              <Select
+                value={formData.status}
+                onValueChange={(value) => setFormData({ ...formData, status: value as ProductStatus })}
+              >
+                <SelectTrigger id="status">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {STATUS_OPTIONS.map((option) => (
+                    <SelectItem key={option.value} value={option.value}>
+                      {option.label}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="publish_at">Publish at (optional)</Label>
+              <Input
+                id="publish_at"
+                type="datetime-local"
+                value={formData.publishAt}
+                onChange={(e) => setFormData({ ...formData, publishAt: e.target.value })}
+              />
+            </div>
+
+            <div className="space-y-2">
+              <Label htmlFor="unpublish_at">Unpublish at (optional)</Label>
+              <Input
+                id="unpublish_at"
+                type="datetime-local"
+                value={formData.unpublishAt}
+                min={formData.publishAt || undefined}
+                onChange={(e) => setFormData({ ...formData, unpublishAt: e.target.value })}
+              />
+            </div>
           </div>
+          <p className="text-xs text-muted-foreground -mt-2">
+            Published products are on the storefront between these times; leave them empty to show it right away and
+            for good
+          </p>
 
           <div className="space-y-2">
-            <Label htmlFor="image">Image URL</Label>
-            <Input
-              id="image"
-              value={formData.image}
-              onChange={(e) => setFormData({ ...formData, image: e.target.value })}
-              placeholder="/placeholder.svg"
-            />
+            <Label>Images</Label>
+            <p className="text-xs text-muted-foreground">
+              The first image is the cover; thumbnail and medium sizes are made automatically
+            </p>
+            <ImagesEditor images={images} onChange={setImages} onProcessingChange={setProcessingImages} />
           </div>
 
           <div className="space-y-2">
             <Label htmlFor="download_url">Download URL (for digital products)</Label>
             <Input
               id="download_url"
-              value={formData.download_url}
-              onChange={(e) => setFormData({ ...formData, download_url: e.target.value })}
+              value={formData.downloadUrl}
+              onChange={(e) => setFormData({ ...formData, downloadUrl: e.target.value })}
               placeholder="https://example.com/download/product.zip"
             />
             <p className="text-xs text-muted-foreground">
               Only users who have confirmed orders will see the download button
+              {variants.length > 0 && "; with variants, each variant's own download is used"}
             </p>
           </div>
 
+          <div className="space-y-2">
+            <Label>Variants and License Tiers (optional)</Label>
+            <p className="text-xs text-muted-foreground">
+              Each variant has its own price, stock, download and license text; customers pick one on the product page
+            </p>
+            <VariantsEditor variants={variants} onChange={setVariants} unlimitedStock={formData.unlimitedStock} />
+          </div>
+
           <DialogFooter>
             <Button type="button" variant="outline" onClick={() => setOpen(false)}>
               Cancel
             </Button>
-            <Button type="submit">{product ? "Update Product" : "Add Product"}</Button>
+            <Button type="submit" disabled={saving || processingImages}>
+              {saving ? "Saving..." : product ? "Update Product" : "Add Product"}
+            </Button>
           </DialogFooter>
         </form>
       </DialogContent>
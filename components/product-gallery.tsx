@@ -0,0 +1,87 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import Image from "next/image"
+import { Carousel, CarouselContent, CarouselItem, CarouselNext, CarouselPrevious, type CarouselApi } from "@/components/ui/carousel"
+import type { ProductImage } from "@/lib/product-images"
+import { PLACEHOLDER_IMAGE } from "@/lib/products"
+
+interface ProductGalleryProps {
+  images: ProductImage[]
+  /** Alt text for images without their own */
+  name: string
+}
+
+/** Swipeable product page gallery with a thumbnail strip; the cover comes first. */
+export function ProductGallery({ images, name }: ProductGalleryProps) {
+  const [api, setApi] = useState<CarouselApi>()
+  const [selected, setSelected] = useState(0)
+
+  useEffect(() => {
+    if (!api) return
+    const onSelect = () => setSelected(api.selectedScrollSnap())
+    onSelect()
+    api.on("select", onSelect)
+    api.on("reInit", onSelect)
+    return () => {
+      api.off("select", onSelect)
+      api.off("reInit", onSelect)
+    }
+  }, [api])
+
+  if (images.length === 0) {
+    return (
+      <div className="glass-card rounded-2xl aspect-square relative overflow-hidden bg-muted">
+        <Image src={PLACEHOLDER_IMAGE} alt={name} fill priority className="object-cover" />
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      <Carousel setApi={setApi} opts={{ loop: images.length > 1 }} aria-label={`Images of ${name}`}>
+        <CarouselContent className="ml-0">
+          {images.map((image, index) => (
+            <CarouselItem key={image.id} className="pl-0">
+              <div className="glass-card rounded-2xl aspect-square relative overflow-hidden bg-muted">
+                <Image
+                  src={image.url}
+                  alt={image.alt || `${name}, image ${index + 1} of ${images.length}`}
+                  fill
+                  priority={index === 0}
+                  sizes="(min-width: 768px) 50vw, 100vw"
+                  className="object-cover"
+                />
+              </div>
+            </CarouselItem>
+          ))}
+        </CarouselContent>
+        {images.length > 1 && (
+          <>
+            <CarouselPrevious className="left-3 bg-black/40 border-white/30 text-white hover:bg-black/60" />
+            <CarouselNext className="right-3 bg-black/40 border-white/30 text-white hover:bg-black/60" />
+          </>
+        )}
+      </Carousel>
+
+      {images.length > 1 && (
+        <div className="flex gap-2 overflow-x-auto">
+          {images.map((image, index) => (
+            <button
+              key={image.id}
+              type="button"
+              onClick={() => api?.scrollTo(index)}
+              aria-label={`Show image ${index + 1} of ${images.length}`}
+              aria-current={index === selected}
+              className={`relative h-16 w-16 flex-shrink-0 rounded-lg overflow-hidden border-2 ${
+                index === selected ? "border-white" : "border-transparent opacity-70 hover:opacity-100"
+              }`}
+            >
+              <Image src={image.thumbnailUrl} alt="" fill className="object-cover" />
+            </button>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,297 @@
+"use client"
+
+import type React from "react"
+
+import { useState } from "react"
+import { Upload } from "lucide-react"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+  DialogTrigger,
+} from "@/components/ui/dialog"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import type { Category } from "@/lib/categories"
+import {
+  applyImport,
+  guessMapping,
+  IMPORT_FIELDS,
+  ImportError,
+  parseImportFile,
+  planImport,
+  type ColumnMapping,
+  type ImportAction,
+  type ImportFile,
+  type ImportMatch,
+  type ImportPlan,
+  type ImportResult,
+} from "@/lib/product-import"
+import type { Product } from "@/lib/products"
+
+interface ProductImportDialogProps {
+  products: Product[]
+  categories: Category[]
+  onSuccess: () => void
+}
+
+type Step = "file" | "mapping" | "preview" | "result"
+
+const NOT_MAPPED = "none"
+
+const ACTION_BADGES: Record<ImportAction, { label: string; className: string }> = {
+  create: { label: "Create", className: "bg-green-600" },
+  update: { label: "Update", className: "bg-blue-600" },
+  skip: { label: "Skip", className: "bg-gray-500" },
+}
+
+/** Import products from a CSV or JSON file: choose the file, map its columns, check the dry run, import. */
+export function ProductImportDialog({ products, categories, onSuccess }: ProductImportDialogProps) {
+  const { toast } = useToast()
+  const [open, setOpen] = useState(false)
+  const [step, setStep] = useState<Step>("file")
+  const [fileName, setFileName] = useState("")
+  const [file, setFile] = useState<ImportFile | null>(null)
+  const [mapping, setMapping] = useState<ColumnMapping | null>(null)
+  const [match, setMatch] = useState<ImportMatch>("sku")
+  const [plan, setPlan] = useState<ImportPlan | null>(null)
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null)
+  const [result, setResult] = useState<ImportResult | null>(null)
+
+  const reset = () => {
+    setStep("file")
+    setFileName("")
+    setFile(null)
+    setMapping(null)
+    setPlan(null)
+    setProgress(null)
+    setResult(null)
+  }
+
+  const handleOpenChange = (next: boolean) => {
+    // Closing in the middle of an import would hide its result
+    if (!next && progress) return
+    setOpen(next)
+    if (!next) reset()
+  }
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const selected = e.target.files?.[0]
+    if (!selected) return
+    try {
+      const parsed = parseImportFile(selected.name, await selected.text())
+      const guessed = guessMapping(parsed.columns)
+      setFileName(selected.name)
+      setFile(parsed)
+      setMapping(guessed)
+      setMatch(guessed.sku ? "sku" : "slug")
+      setStep("mapping")
+    } catch (error) {
+      console.error("[admin] Could not read import file", { name: selected.name, error })
+      toast({
+        title: "Error",
+        description: error instanceof ImportError ? error.message : "Could not read the file",
+        variant: "destructive",
+      })
+    } finally {
+      e.target.value = ""
+    }
+  }
+
+  const handlePreview = () => {
+    if (!file || !mapping) return
+    if (match === "sku" && !mapping.sku) {
+      toast({ title: "Map the SKU column", description: "Rows are matched by SKU", variant: "destructive" })
+      return
+    }
+    setPlan(planImport(file, mapping, match, products, categories))
+    setStep("preview")
+  }
+
+  const handleImport = async () => {
+    if (!plan) return
+    // Rows that fail are collected in the result, so this does not throw
+    setProgress({ done: 0, total: plan.creates + plan.updates })
+    const imported = await applyImport(plan, (done, total) => setProgress({ done, total }))
+    setProgress(null)
+
+    setResult(imported)
+    setStep("result")
+    onSuccess()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={handleOpenChange}>
+      <DialogTrigger asChild>
+        <Button variant="outline">
+          <Upload className="h-4 w-4 mr-2" />
+          Import
+        </Button>
+      </DialogTrigger>
+      <DialogContent className="max-w-4xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Import Products</DialogTitle>
+          <DialogDescription>
+            {step === "file" && "CSV with a header row, or a JSON array of products"}
+            {step === "mapping" && `${fileName}: ${file?.rows.length} rows. Choose the column for each field.`}
+            {step === "preview" && "Nothing has been saved yet. Check what the import will do."}
+            {step === "result" && "Import finished"}
+          </DialogDescription>
+        </DialogHeader>
+
+        {step === "file" && (
+          <div className="space-y-4">
+            <Input type="file" accept=".csv,.json,text/csv,application/json" onChange={handleFile} />
+            <p className="text-sm text-muted-foreground">
+              Rows update the product with the same SKU or slug and create the others. Categories are given by
+              slug or name and must exist. Put several gallery URLs in one cell separated by &quot;|&quot;. An
+              export from this page can be edited and imported back.
+            </p>
+          </div>
+        )}
+
+        {step === "mapping" && file && mapping && (
+          <div className="space-y-6">
+            <div className="grid grid-cols-2 gap-4">
+              {IMPORT_FIELDS.map(({ field, label, required }) => (
+                <div key={field} className="space-y-1">
+                  <Label htmlFor={`import-${field}`}>
+                    {label}
+                    {required && <span className="text-muted-foreground"> (required for new products)</span>}
+                  </Label>
+                  <Select
+                    value={mapping[field] ?? NOT_MAPPED}
+                    onValueChange={(value) => setMapping({ ...mapping, [field]: value === NOT_MAPPED ? null : value })}
+                  >
+                    <SelectTrigger id={`import-${field}`}>
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={NOT_MAPPED}>Not imported</SelectItem>
+                      {file.columns.filter(Boolean).map((column) => (
+                        <SelectItem key={column} value={column}>
+                          {column}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+              ))}
+            </div>
+
+            <div className="space-y-2">
+              <Label>Match existing products by</Label>
+              <RadioGroup value={match} onValueChange={(value) => setMatch(value as ImportMatch)} className="flex gap-6">
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="sku" id="import-match-sku" />
+                  <Label htmlFor="import-match-sku">SKU</Label>
+                </div>
+                <div className="flex items-center gap-2">
+                  <RadioGroupItem value="slug" id="import-match-slug" />
+                  <Label htmlFor="import-match-slug">Slug (from the name when there is no slug column)</Label>
+                </div>
+              </RadioGroup>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={reset}>
+                Choose Another File
+              </Button>
+              <Button onClick={handlePreview}>Preview Import</Button>
+            </DialogFooter>
+          </div>
+        )}
+
+        {step === "preview" && plan && (
+          <div className="space-y-4">
+            <div className="flex gap-3 text-sm">
+              <Badge className={ACTION_BADGES.create.className}>{plan.creates} to create</Badge>
+              <Badge className={ACTION_BADGES.update.className}>{plan.updates} to update</Badge>
+              <Badge className={ACTION_BADGES.skip.className}>{plan.skips} skipped</Badge>
+            </div>
+
+            <div className="max-h-[50vh] overflow-y-auto border rounded-md">
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Row</TableHead>
+                    <TableHead>Action</TableHead>
+                    <TableHead>Product</TableHead>
+                    <TableHead>Details</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {plan.rows.map((row) => (
+                    <TableRow key={row.line}>
+                      <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                      <TableCell>
+                        <Badge className={ACTION_BADGES[row.action].className}>{ACTION_BADGES[row.action].label}</Badge>
+                      </TableCell>
+                      <TableCell className="font-medium">{row.input.name ?? row.product?.name ?? "—"}</TableCell>
+                      <TableCell className="text-sm">
+                        {row.errors.length > 0 ? (
+                          <ul className="text-destructive list-disc pl-4">
+                            {row.errors.map((error) => (
+                              <li key={error}>{error}</li>
+                            ))}
+                          </ul>
+                        ) : row.action === "update" ? (
+                          `Changes ${row.changes.join(", ")}`
+                        ) : row.action === "create" ? (
+                          `New product at /products/${row.input.slug}`
+                        ) : (
+                          "No changes"
+                        )}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </div>
+
+            <DialogFooter>
+              <Button type="button" variant="outline" onClick={() => setStep("mapping")} disabled={Boolean(progress)}>
+                Back to Mapping
+              </Button>
+              <Button onClick={handleImport} disabled={Boolean(progress) || plan.creates + plan.updates === 0}>
+                {progress
+                  ? `Importing ${progress.done}/${progress.total}...`
+                  : `Import ${plan.creates + plan.updates} Products`}
+              </Button>
+            </DialogFooter>
+          </div>
+        )}
+
+        {step === "result" && result && (
+          <div className="space-y-4">
+            <p>
+              Created {result.created} and updated {result.updated} products.
+              {result.failed.length > 0 && ` ${result.failed.length} rows could not be saved:`}
+            </p>
+            {result.failed.length > 0 && (
+              <ul className="text-sm text-destructive list-disc pl-5 max-h-60 overflow-y-auto">
+                {result.failed.map((failure) => (
+                  <li key={failure.line}>
+                    Row {failure.line}: {failure.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+            <DialogFooter>
+              <Button onClick={() => handleOpenChange(false)}>Done</Button>
+            </DialogFooter>
+          </div>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
@@ -0,0 +1,89 @@
+"use client"
+
+import { useEffect, useState } from "react"
+import { X } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { STORE_CURRENCY } from "@/lib/currency"
+import { isProductSort, PRODUCT_SORTS, type ProductSearch } from "@/lib/search"
+
+interface SearchFiltersProps {
+  search: ProductSearch
+  onChange: (changes: Partial<ProductSearch>) => void
+}
+
+function toPrice(value: string): number | null {
+  const price = Number.parseFloat(value)
+  return Number.isFinite(price) && price >= 0 ? price : null
+}
+
+/** Sort order and price range for the product grid; prices apply on Enter or when leaving the field. */
+export function SearchFilters({ search, onChange }: SearchFiltersProps) {
+  const [minPrice, setMinPrice] = useState(search.minPrice?.toString() ?? "")
+  const [maxPrice, setMaxPrice] = useState(search.maxPrice?.toString() ?? "")
+
+  // Follow the URL when it changes from elsewhere, such as the back button
+  useEffect(() => setMinPrice(search.minPrice?.toString() ?? ""), [search.minPrice])
+  useEffect(() => setMaxPrice(search.maxPrice?.toString() ?? ""), [search.maxPrice])
+
+  const applyPrices = () => {
+    const min = toPrice(minPrice)
+    const max = toPrice(maxPrice)
+    if (min !== search.minPrice || max !== search.maxPrice) onChange({ minPrice: min, maxPrice: max })
+  }
+
+  const filtered = search.query.trim() !== "" || search.minPrice !== null || search.maxPrice !== null
+
+  return (
+    <div className="flex flex-wrap items-center gap-3 mb-6">
+      <Select value={search.sort} onValueChange={(value) => isProductSort(value) && onChange({ sort: value })}>
+        <SelectTrigger className="w-48 bg-white/10 border-white/30 text-white">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          {PRODUCT_SORTS.map((sort) => (
+            <SelectItem key={sort.value} value={sort.value}>
+              {sort.label}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+
+      <div className="flex items-center gap-2 text-white/70 text-sm">
+        <span>Price ({STORE_CURRENCY})</span>
+        {[
+          { label: "Min", value: minPrice, set: setMinPrice },
+          { label: "Max", value: maxPrice, set: setMaxPrice },
+        ].map((field) => (
+          <Input
+            key={field.label}
+            type="number"
+            min="0"
+            step="0.01"
+            inputMode="decimal"
+            placeholder={field.label}
+            aria-label={`${field.label} price`}
+            value={field.value}
+            onChange={(e) => field.set(e.target.value)}
+            onBlur={applyPrices}
+            onKeyDown={(e) => e.key === "Enter" && applyPrices()}
+            className="w-24 bg-white/10 border-white/30 text-white placeholder:text-white/50"
+          />
+        ))}
+      </div>
+
+      {filtered && (
+        <Button
+          variant="ghost"
+          size="sm"
+          onClick={() => onChange({ query: "", minPrice: null, maxPrice: null })}
+          className="text-white/80 hover:text-white hover:bg-white/10"
+        >
+          <X className="h-4 w-4 mr-1" />
+          Clear filters
+        </Button>
+      )}
+    </div>
+  )
+}
@@ -0,0 +1,185 @@
+"use client"
+
+import type React from "react"
+
+import { useRef, useState } from "react"
+import { Check, CheckCheck, FileUp, ListChecks } from "lucide-react"
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card"
+import { Badge } from "@/components/ui/badge"
+import { Button } from "@/components/ui/button"
+import { Textarea } from "@/components/ui/textarea"
+import { Table, TableBody, TableCell, TableHead, TableHeader, TableRow } from "@/components/ui/table"
+import { useToast } from "@/hooks/use-toast"
+import { getCurrentUser } from "@/lib/auth"
+import { formatMoney } from "@/lib/currency"
+import { recordOrderPayment, type Order } from "@/lib/orders"
+import { matchStatement, parseStatement, type StatementMatch, type StatementMatchStatus } from "@/lib/payment-references"
+
+const STATUS_LABELS: Record<StatementMatchStatus, { label: string; variant: "default" | "secondary" | "destructive" | "outline" }> = {
+  matched: { label: "Matched", variant: "default" },
+  amount_mismatch: { label: "Amount differs", variant: "destructive" },
+  already_processed: { label: "Already processed", variant: "outline" },
+  not_found: { label: "No order", variant: "secondary" },
+}
+
+interface StatementMatcherProps {
+  orders: Order[]
+  onUpdate: () => void
+}
+
+/**
+ * Paste or import the references received (e.g. a UPI/bank statement CSV) and confirm
+ * the pending orders whose reference and amount both match.
+ */
+export function StatementMatcher({ orders, onUpdate }: StatementMatcherProps) {
+  const { toast } = useToast()
+  const [statement, setStatement] = useState("")
+  const [matches, setMatches] = useState<StatementMatch[] | null>(null)
+  const [confirming, setConfirming] = useState<string[]>([])
+  const inputRef = useRef<HTMLInputElement>(null)
+
+  const runMatch = (text: string) => {
+    const entries = parseStatement(text)
+    setMatches(matchStatement(entries, orders))
+    if (entries.length === 0) {
+      toast({
+        title: "No references found",
+        description: "Paste one payment per line, or import a CSV with reference and amount columns",
+        variant: "destructive",
+      })
+    }
+  }
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ""
+    if (!file) return
+    const text = await file.text()
+    setStatement(text)
+    runMatch(text)
+  }
+
+  const confirmOrders = async (toConfirm: StatementMatch[]) => {
+    const changedBy = getCurrentUser() ?? undefined
+    let confirmed = 0
+    for (const match of toConfirm) {
+      if (!match.order) continue
+      setConfirming((ids) => [...ids, match.order!.id])
+      try {
+        await recordOrderPayment(
+          match.order.id,
+          { amount: match.entry.amount ?? match.order.paymentAmount, overpayment: "store_credit" },
+          { changedBy, notes: `Payment ${match.entry.reference} matched to statement` },
+        )
+        confirmed++
+      } catch (error: any) {
+        console.error("[admin] Failed to confirm matched order", { orderId: match.order.id, error })
+        toast({
+          title: "Error",
+          description: error?.message || `Failed to confirm order #${match.order.id.slice(0, 8)}`,
+          variant: "destructive",
+        })
+      } finally {
+        setConfirming((ids) => ids.filter((id) => id !== match.order!.id))
+      }
+    }
+
+    if (confirmed > 0) {
+      toast({ title: "Orders Confirmed", description: `${confirmed} matched order${confirmed === 1 ? "" : "s"} confirmed` })
+      setMatches((current) =>
+        current?.map((match) =>
+          toConfirm.includes(match) && match.order ? { ...match, status: "already_processed" } : match,
+        ) ?? null,
+      )
+      onUpdate()
+    }
+  }
+
+  const matched = matches?.filter((match) => match.status === "matched") ?? []
+
+  return (
+    <Card className="bg-white/10 backdrop-blur border-white/20 text-white">
+      <CardHeader>
+        <CardTitle className="flex items-center gap-2">
+          <ListChecks className="h-5 w-5" />
+          Match Received Payments
+        </CardTitle>
+        <CardDescription className="text-white/70">
+          Paste references from your UPI, Binance or PayPal statement (one payment per line) or import a CSV export.
+          Pending orders whose reference and amount both match can be confirmed in one click.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <Textarea
+          value={statement}
+          onChange={(e) => setStatement(e.target.value)}
+          placeholder={"412345678901, 499.00\n9XK12345AB6789012, 25.00"}
+          rows={4}
+          className="font-mono text-sm"
+        />
+
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={() => runMatch(statement)} disabled={!statement.trim()}>
+            <ListChecks className="h-4 w-4 mr-2" />
+            Match
+          </Button>
+          <Button variant="outline" onClick={() => inputRef.current?.click()}>
+            <FileUp className="h-4 w-4 mr-2" />
+            Import CSV
+          </Button>
+          <input ref={inputRef} type="file" accept=".csv,.tsv,.txt,text/csv,text/plain" className="hidden" onChange={handleImport} />
+          {matched.length > 0 && (
+            <Button variant="default" className="ml-auto" onClick={() => confirmOrders(matched)} disabled={confirming.length > 0}>
+              <CheckCheck className="h-4 w-4 mr-2" />
+              Confirm all matched ({matched.length})
+            </Button>
+          )}
+        </div>
+
+        {matches && matches.length > 0 && (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Reference</TableHead>
+                <TableHead>Paid</TableHead>
+                <TableHead>Order</TableHead>
+                <TableHead>Status</TableHead>
+                <TableHead />
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {matches.map((match) => {
+                const status = STATUS_LABELS[match.status]
+                return (
+                  <TableRow key={`${match.entry.line}-${match.entry.reference}`}>
+                    <TableCell className="font-mono text-sm">{match.entry.reference}</TableCell>
+                    <TableCell>{match.entry.amount === null ? "?" : match.entry.amount.toFixed(2)}</TableCell>
+                    <TableCell>
+                      {match.order ? `#${match.order.id.slice(0, 8)} (${formatMoney(match.order.paymentAmount, match.order.paymentCurrency)})` : "-"}
+                    </TableCell>
+                    <TableCell>
+                      <Badge variant={status.variant}>{status.label}</Badge>
+                    </TableCell>
+                    <TableCell className="text-right">
+                      {match.order && match.status !== "already_processed" && match.status !== "not_found" && (
+                        <Button
+                          size="sm"
+                          variant={match.status === "matched" ? "default" : "outline"}
+                          onClick={() => confirmOrders([match])}
+                          disabled={confirming.includes(match.order.id)}
+                        >
+                          <Check className="h-4 w-4 mr-1" />
+                          Confirm
+                        </Button>
+                      )}
+                    </TableCell>
+                  </TableRow>
+                )
+              })}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  )
+}
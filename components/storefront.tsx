@@ -0,0 +1,736 @@
+"use client"
+
+import { useState, useEffect, useRef } from "react"
+import Image from "next/image"
+import Link from "next/link"
+import { usePathname, useRouter, useSearchParams } from "next/navigation"
+import { Search, ShoppingCart, LogOut } from "lucide-react"
+import { SimpleParticles } from "@/components/simple-particles"
+import { ProductCard } from "@/components/product-card"
+import { CartDrawer } from "@/components/cart-drawer"
+import { CategoryChips, CategorySidebar } from "@/components/category-nav"
+import { ChatWidget } from "@/components/chat-widget"
+import { DiscountBanner } from "@/components/discount-banner"
+import { ProductDetail } from "@/components/product-detail"
+import { SearchFilters } from "@/components/search-filters"
+import { Input } from "@/components/ui/input"
+import { Button } from "@/components/ui/button"
+import { usePromotions } from "@/hooks/use-promotions"
+import { useToast } from "@/hooks/use-toast"
+import { getBackend, subscribeToTables } from "@/lib/backend"
+import { getCurrentUser, logout, setCurrentUser, type User } from "@/lib/auth"
+import { categoryPath, getCategories, CATEGORIES_KEY, CATEGORIES_TABLE, type Category } from "@/lib/categories"
+import { mockUser } from "@/lib/mock-data"
+import { getUserOrders, hasPurchased, type Order } from "@/lib/orders"
+import { PRODUCT_IMAGES_KEY, PRODUCT_IMAGES_TABLE } from "@/lib/product-images"
+import {
+  findProductBySlug,
+  getLiveProducts,
+  relatedProducts,
+  withVariant,
+  PRODUCTS_KEY,
+  PRODUCTS_TABLE,
+  PRODUCT_VARIANTS_KEY,
+  PRODUCT_VARIANTS_TABLE,
+  type Product,
+  type ProductVariant,
+} from "@/lib/products"
+import { searchCatalog, searchFromParams, searchToParams, type ProductSearch } from "@/lib/search"
+
+// Typing in the search box updates the URL (and searches) once the customer pauses
+const SEARCH_DEBOUNCE_MS = 300
+
+type CartItem = {
+  id: string
+  product_id: string
+  /** The variant chosen, for products with variants */
+  variant_id: string | null
+  variant_name?: string
+  quantity: number
+  /** With the variant's price, stock and download (see `withVariant`) */
+  product: Product
+}
+
+interface StorefrontProps {
+  /** Show one category (and its subcategories) instead of the whole catalog */
+  categorySlug?: string
+  /** Show one product page; the slug or, for old links, the id */
+  productSlug?: string
+  /** The product and its related products as rendered on the server, until the catalog loads */
+  initialProduct?: Product | null
+  initialRelated?: Product[]
+}
+
+/** The shop: header with search and cart, promotions, category navigation and the product grid. */
+export function Storefront({ categorySlug, productSlug, initialProduct = null, initialRelated = [] }: StorefrontProps) {
+  const router = useRouter()
+  const pathname = usePathname()
+  const searchParams = useSearchParams()
+  const { toast } = useToast()
+  const { priceOf } = usePromotions()
+  // Product pages only: the catalog for the page and its related products
+  const [loadedProduct, setLoadedProduct] = useState<Product | null>(null)
+  const [liveProducts, setLiveProducts] = useState<Product[]>([])
+  const [productsLoaded, setProductsLoaded] = useState(false)
+  // Home and category pages: one search result page at a time
+  const [results, setResults] = useState<Product[]>([])
+  const [nextCursor, setNextCursor] = useState<string | null>(null)
+  const [searching, setSearching] = useState(true)
+  const [loadingMore, setLoadingMore] = useState(false)
+  // null until loaded, so an unknown slug is not reported while categories load
+  const [categories, setCategories] = useState<Category[] | null>(null)
+  const [cartOpen, setCartOpen] = useState(false)
+  const [cartItems, setCartItems] = useState<CartItem[]>([])
+  const [cartCount, setCartCount] = useState(0)
+  const [user, setUser] = useState<User | null>(null)
+  const [cartAnimation, setCartAnimation] = useState(false)
+  const [orders, setOrders] = useState<Order[]>([])
+  const userRole = user?.role ?? null
+
+  // The search lives in the URL so results can be shared and survive a reload
+  const search = searchFromParams(searchParams, categorySlug)
+  const searchKey = searchToParams(search).toString()
+  const [searchInput, setSearchInput] = useState(search.query)
+  // Query last sent to the URL, to tell our own updates from back/forward navigation
+  const pushedQuery = useRef(search.query)
+  // Results of a search that has been superseded are dropped
+  const searchRequest = useRef(0)
+
+  useEffect(() => {
+    setUser(getCurrentUser())
+    loadCategories()
+    if (productSlug) loadProduct(productSlug)
+
+    return subscribeToTables([CATEGORIES_TABLE], [CATEGORIES_KEY], () => loadCategories())
+  }, [])
+
+  useEffect(() => {
+    if (productSlug) return
+    runSearch()
+    return subscribeToTables(
+      [PRODUCTS_TABLE, PRODUCT_VARIANTS_TABLE, PRODUCT_IMAGES_TABLE],
+      [PRODUCTS_KEY, PRODUCT_VARIANTS_KEY, PRODUCT_IMAGES_KEY],
+      () => runSearch(),
+    )
+  }, [searchKey, productSlug])
+
+  useEffect(() => {
+    if (search.query === pushedQuery.current) return
+    pushedQuery.current = search.query
+    setSearchInput(search.query)
+  }, [search.query])
+
+  useEffect(() => {
+    if (searchInput === pushedQuery.current) return
+    const timer = setTimeout(() => {
+      pushedQuery.current = searchInput
+      updateSearch({ query: searchInput })
+    }, SEARCH_DEBOUNCE_MS)
+    return () => clearTimeout(timer)
+  }, [searchInput])
+
+  useEffect(() => {
+    if (user) {
+      loadCart()
+      loadOrders(user.id)
+    } else {
+      setOrders([])
+    }
+  }, [user])
+
+  // Drafts and archived products are only requested for admins, who may preview them
+  const loadProduct = async (slug: string) => {
+    try {
+      const [found, live] = await Promise.all([
+        findProductBySlug(slug, { preview: getCurrentUser()?.role === "admin" }),
+        getLiveProducts(),
+      ])
+      setLoadedProduct(found)
+      setLiveProducts(live)
+    } catch (error) {
+      console.error("[v0] Error loading products:", error)
+      toast({
+        title: "Error",
+        description: "Failed to load products",
+        variant: "destructive",
+      })
+    } finally {
+      setProductsLoaded(true)
+    }
+  }
+
+  const runSearch = async () => {
+    const request = ++searchRequest.current
+    setSearching(true)
+    try {
+      const page = await searchCatalog(search)
+      if (request !== searchRequest.current) return
+      setResults(page.products)
+      setNextCursor(page.nextCursor)
+    } catch (error) {
+      if (request !== searchRequest.current) return
+      console.error("[storefront] Search failed:", error)
+      toast({
+        title: "Error",
+        description: "Failed to load products",
+        variant: "destructive",
+      })
+    } finally {
+      if (request === searchRequest.current) setSearching(false)
+    }
+  }
+
+  const loadMore = async () => {
+    if (!nextCursor) return
+    const request = searchRequest.current
+    setLoadingMore(true)
+    try {
+      const page = await searchCatalog(search, nextCursor)
+      if (request !== searchRequest.current) return
+      setResults((current) => [...current, ...page.products])
+      setNextCursor(page.nextCursor)
+    } catch (error) {
+      console.error("[storefront] Loading more products failed:", error)
+      toast({
+        title: "Error",
+        description: "Failed to load more products",
+        variant: "destructive",
+      })
+    } finally {
+      setLoadingMore(false)
+    }
+  }
+
+  const updateSearch = (changes: Partial<ProductSearch>) => {
+    // Category pages carry the category in the path
+    const query = searchToParams({ ...search, ...changes }, { includeCategory: !categorySlug }).toString()
+    if ("query" in changes) {
+      pushedQuery.current = changes.query ?? ""
+      setSearchInput(changes.query ?? "")
+    }
+    router.replace(query ? `${pathname}?${query}` : pathname, { scroll: false })
+  }
+
+  const loadCategories = async () => {
+    try {
+      setCategories(await getCategories())
+    } catch (error) {
+      // Without categories the storefront still lists every product
+      console.error("[storefront] Error loading categories:", error)
+      setCategories([])
+    }
+  }
+
+  const loadOrders = async (userId: string) => {
+    try {
+      setOrders(await getUserOrders(userId))
+    } catch (error) {
+      console.error("Error checking user orders:", error)
+    }
+  }
+
+  const loadCart = async () => {
+    if (getBackend() === "local") {
+      // Use localStorage when Supabase is not configured
+      const savedCart = localStorage.getItem('demo-cart')
+      if (savedCart) {
+        const cartData = JSON.parse(savedCart)
+        setCartItems(cartData)
+        setCartCount(cartData.reduce((sum: number, item: any) => sum + item.quantity, 0) || 0)
+      }
+      return
+    }
+
+    // For now, use localStorage as cart since cart table doesn't exist in your schema
+    // In the future, you can create a cart table in Supabase
+    const savedCart = localStorage.getItem(`cart-${user?.id}`)
+    if (savedCart) {
+      const cartData = JSON.parse(savedCart)
+      setCartItems(cartData)
+      setCartCount(cartData.reduce((sum: number, item: any) => sum + item.quantity, 0) || 0)
+    }
+
+    // Uncomment this when you add a cart table to your Supabase
+    /*
+    const supabase = createClient()
+    const { data, error } = await supabase
+      .from("cart")
+      .select(`
+        *,
+        product:products(*)
+      `)
+      .eq("user_id", user.id)
+
+    if (error) {
+      console.error("[v0] Error loading cart:", error)
+      return
+    }
+
+    setCartItems(data || [])
+    setCartCount(data?.reduce((sum, item) => sum + item.quantity, 0) || 0)
+    */
+  }
+
+  const category = categorySlug ? categories?.find((c) => c.slug === categorySlug) : undefined
+  // The loaded product wins over the server render so the page follows admin edits
+  const product = productSlug ? (loadedProduct ?? initialProduct) : null
+  const related = product ? (productsLoaded ? relatedProducts(liveProducts, product) : initialRelated) : []
+  const productCategory = product ? categories?.find((c) => c.id === product.categoryId) : undefined
+
+  const handleSearch = (query: string) => {
+    setSearchInput(query)
+  }
+
+  /** Resolves to false when the customer was sent to log in instead. */
+  const handleAddToCart = async (product: Product, variant: ProductVariant | null = null): Promise<boolean> => {
+    if (!user) {
+      // Auto-login with demo user when Supabase is not configured
+      if (getBackend() === "local") {
+        const demoUser: User = { ...mockUser, role: "user", createdAt: new Date().toISOString() }
+        setCurrentUser(demoUser)
+        setUser(demoUser)
+        // Continue with adding to cart
+      } else {
+        toast({
+          title: "Login Required",
+          description: "Please login to add items to cart",
+          variant: "destructive",
+        })
+        router.push("/auth/login")
+        return false
+      }
+    }
+
+    if (getBackend() === "local") {
+      // Handle cart with localStorage
+      const savedCart = localStorage.getItem('demo-cart')
+      let cartData = savedCart ? JSON.parse(savedCart) : []
+      
+      const existingItem = cartData.find(
+        (item: any) => item.product_id === product.id && (item.variant_id ?? null) === (variant?.id ?? null),
+      )
+      
+      if (existingItem) {
+        existingItem.quantity += 1
+      } else {
+        cartData.push({
+          id: Date.now().toString(),
+          product_id: product.id,
+          variant_id: variant?.id ?? null,
+          variant_name: variant?.name,
+          quantity: 1,
+          product: withVariant(product, variant)
+        })
+      }
+      
+      localStorage.setItem('demo-cart', JSON.stringify(cartData))
+      await loadCart()
+    } else {
+      // Handle cart with user-specific localStorage (since no cart table in Supabase yet)
+      const savedCart = localStorage.getItem(`cart-${user?.id}`)
+      let cartData = savedCart ? JSON.parse(savedCart) : []
+      
+      const existingItem = cartData.find(
+        (item: any) => item.product_id === product.id && (item.variant_id ?? null) === (variant?.id ?? null),
+      )
+      
+      if (existingItem) {
+        existingItem.quantity += 1
+      } else {
+        cartData.push({
+          id: Date.now().toString(),
+          product_id: product.id,
+          variant_id: variant?.id ?? null,
+          variant_name: variant?.name,
+          quantity: 1,
+          product: withVariant(product, variant)
+        })
+      }
+      
+      localStorage.setItem(`cart-${user?.id}`, JSON.stringify(cartData))
+      await loadCart()
+    }
+
+    /* Uncomment when you add cart table to Supabase
+    const supabase = createClient()
+
+    // Check if item already in cart
+    const existingItem = cartItems.find((item) => item.product_id === product.id)
+
+    if (existingItem) {
+      // Update quantity
+      const { error } = await supabase
+        .from("cart")
+        .update({ quantity: existingItem.quantity + 1 })
+        .eq("id", existingItem.id)
+
+      if (error) {
+        toast({
+          title: "Error",
+          description: "Failed to update cart",
+          variant: "destructive",
+        })
+        return
+      }
+    } else {
+      // Add new item
+      const { error } = await supabase.from("cart").insert({
+        user_id: user.id,
+        product_id: product.id,
+        quantity: 1,
+      })
+
+      if (error) {
+        toast({
+          title: "Error",
+          description: "Failed to add to cart",
+          variant: "destructive",
+        })
+        return
+      }
+    }
+
+    await loadCart()
+    */
+
+    setCartAnimation(true)
+    setTimeout(() => setCartAnimation(false), 600)
+
+    toast({
+      title: "Added to Cart",
+      description: `${variant ? `${product.name} (${variant.name})` : product.name} has been added to your cart`,
+    })
+    return true
+  }
+
+  const handleBuyNow = async (product: Product, variant: ProductVariant | null) => {
+    if (await handleAddToCart(product, variant)) router.push("/checkout")
+  }
+
+  const handleUpdateQuantity = async (cartItemId: string, quantity: number) => {
+    if (quantity <= 0) {
+      handleRemove(cartItemId)
+      return
+    }
+
+    if (getBackend() === "local") {
+      // Handle with localStorage
+      const savedCart = localStorage.getItem('demo-cart')
+      if (savedCart) {
+        const cartData = JSON.parse(savedCart)
+        const itemIndex = cartData.findIndex((item: any) => item.id === cartItemId)
+        if (itemIndex !== -1) {
+          cartData[itemIndex].quantity = quantity
+          localStorage.setItem('demo-cart', JSON.stringify(cartData))
+          await loadCart()
+        }
+      }
+    } else {
+      // Handle with user-specific localStorage
+      const savedCart = localStorage.getItem(`cart-${user?.id}`)
+      if (savedCart) {
+        const cartData = JSON.parse(savedCart)
+        const itemIndex = cartData.findIndex((item: any) => item.id === cartItemId)
+        if (itemIndex !== -1) {
+          cartData[itemIndex].quantity = quantity
+          localStorage.setItem(`cart-${user?.id}`, JSON.stringify(cartData))
+          await loadCart()
+        }
+      }
+    }
+    return
+
+    /* Uncomment when you add cart table to Supabase
+    const supabase = createClient()
+    const { error } = await supabase.from("cart").update({ quantity }).eq("id", cartItemId)
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to update quantity",
+        variant: "destructive",
+      })
+      return
+    }
+
+    await loadCart()
+    */
+  }
+
+  const handleRemove = async (cartItemId: string) => {
+    if (getBackend() === "local") {
+      // Handle with localStorage
+      const savedCart = localStorage.getItem('demo-cart')
+      if (savedCart) {
+        const cartData = JSON.parse(savedCart)
+        const filteredCart = cartData.filter((item: any) => item.id !== cartItemId)
+        localStorage.setItem('demo-cart', JSON.stringify(filteredCart))
+        await loadCart()
+      }
+    } else {
+      // Handle with user-specific localStorage
+      const savedCart = localStorage.getItem(`cart-${user?.id}`)
+      if (savedCart) {
+        const cartData = JSON.parse(savedCart)
+        const filteredCart = cartData.filter((item: any) => item.id !== cartItemId)
+        localStorage.setItem(`cart-${user?.id}`, JSON.stringify(filteredCart))
+        await loadCart()
+      }
+    }
+    return
+
+    /* Uncomment when you add cart table to Supabase
+    const supabase = createClient()
+    const { error } = await supabase.from("cart").delete().eq("id", cartItemId)
+
+    if (error) {
+      toast({
+        title: "Error",
+        description: "Failed to remove item",
+        variant: "destructive",
+      })
+      return
+    }
+
+    await loadCart()
+    */
+  }
+
+  const handleCheckout = () => {
+    setCartOpen(false)
+    router.push("/checkout")
+  }
+
+  const handleLogout = async () => {
+    // Clear the cart along with the session
+    localStorage.removeItem('demo-cart')
+    if (user?.id) {
+      localStorage.removeItem(`cart-${user.id}`)
+    }
+    logout()
+
+    setUser(null)
+    setCartItems([])
+    setCartCount(0)
+    toast({
+      title: "Logged Out",
+      description: "You have been logged out successfully",
+    })
+    router.push("/")
+  }
+
+  const renderProductGrid = (className: string) => (
+    <>
+      <SearchFilters search={search} onChange={updateSearch} />
+      <section className={`${className} transition-opacity ${searching && results.length > 0 ? "opacity-60" : ""}`}>
+        {results.length === 0 ? (
+          <div className="col-span-full text-center py-12">
+            <p className="text-white/70">{searching ? "Loading products..." : "No products found"}</p>
+          </div>
+        ) : (
+          results.map((product) => (
+            <div key={product.id} className="glass-card rounded-2xl shadow p-4 flex flex-col card-3d product-hover">
+              <ProductCard
+                product={product}
+                onAddToCart={handleAddToCart}
+                isPurchased={(productId, variantId) => hasPurchased(orders, productId, variantId)}
+                priceOf={priceOf}
+              />
+            </div>
+          ))
+        )}
+      </section>
+      {nextCursor && (
+        <div className="flex justify-center mt-8">
+          <Button
+            onClick={loadMore}
+            disabled={loadingMore}
+            variant="outline"
+            className="border-white/30 text-white hover:bg-white/10 bg-transparent button-3d"
+          >
+            {loadingMore ? "Loading..." : "Load more"}
+          </Button>
+        </div>
+      )}
+    </>
+  )
+
+  return (
+    <div className="min-h-screen relative bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900">
+      <SimpleParticles />
+
+      {/* Header */}
+      <header className="flex items-center justify-between mb-6 max-w-6xl mx-auto p-6 relative z-10">
+        <div className="flex items-center gap-2 cursor-pointer hover-3d" onClick={() => router.push("/")}>
+          <div className="h-10 w-10 rounded-full bg-white/20 flex items-center justify-center backdrop-blur logo-3d">
+            <span className="text-white font-bold text-lg">SS</span>
+          </div>
+          <h1 className="text-2xl font-bold text-white neon-text">SUMAN STORE</h1>
+        </div>
+        <div className="flex items-center gap-3">
+          {!productSlug && (
+            <div className="relative">
+              <Search className="absolute left-3 top-1/2 -translate-y-1/2 h-4 w-4 text-white/70" />
+              <Input
+                type="search"
+                placeholder="Search products..."
+                value={searchInput}
+                onChange={(e) => handleSearch(e.target.value)}
+                className="pl-10 bg-white/10 border-white/30 text-white placeholder:text-white/70 input-3d"
+              />
+            </div>
+          )}
+          {user && (
+            <Button
+              onClick={() => setCartOpen(true)}
+              className={`bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 relative button-3d ${cartAnimation ? "cart-bounce" : ""}`}
+            >
+              <ShoppingCart className="h-4 w-4 mr-2" />
+              Cart
+              {cartCount > 0 && (
+                <span className="absolute -top-2 -right-2 h-5 w-5 rounded-full bg-red-500 text-white text-xs flex items-center justify-center neon-glow pulse-glow">
+                  {cartCount}
+                </span>
+              )}
+            </Button>
+          )}
+          {user ? (
+            <>
+              <Button
+                onClick={() => router.push(userRole === "admin" ? "/admin" : "/dashboard")}
+                variant="outline"
+                className="border-white/30 text-white hover:bg-white/10 button-3d"
+              >
+                {userRole === "admin" ? "Admin Panel" : "Dashboard"}
+              </Button>
+              <Button
+                onClick={handleLogout}
+                variant="outline"
+                className="border-white/30 text-white hover:bg-white/10 button-3d bg-transparent"
+              >
+                <LogOut className="h-4 w-4 mr-2" />
+                Logout
+              </Button>
+            </>
+          ) : (
+            <Button onClick={() => router.push("/auth/login")} className="bg-red-600 hover:bg-red-700 button-3d">
+              Login
+            </Button>
+          )}
+        </div>
+      </header>
+
+      <main className="max-w-6xl mx-auto px-6 pb-12 relative z-10">
+        <DiscountBanner />
+
+        <CategoryChips categories={categories ?? []} activeSlug={categorySlug ?? productCategory?.slug} />
+
+        {productSlug ? (
+          product ? (
+            <ProductDetail
+              key={product.id}
+              product={product}
+              categories={categories ?? []}
+              related={related}
+              priceOf={priceOf}
+              isPurchased={(productId, variantId) => hasPurchased(orders, productId, variantId)}
+              onAddToCart={handleAddToCart}
+              onBuyNow={handleBuyNow}
+            />
+          ) : (
+            <div className="glass-card rounded-2xl p-12 text-center">
+              <p className="text-white/70 mb-4">
+                {productsLoaded ? "This product does not exist (anymore)." : "Loading product..."}
+              </p>
+              {productsLoaded && (
+                <Link href="/" className="text-white underline">
+                  Back to all products
+                </Link>
+              )}
+            </div>
+          )
+        ) : categorySlug ? (
+          categories && !category ? (
+            <div className="glass-card rounded-2xl p-12 text-center">
+              <p className="text-white/70 mb-4">This category does not exist (anymore).</p>
+              <Link href="/" className="text-white underline">
+                Back to all products
+              </Link>
+            </div>
+          ) : (
+            <div className="grid lg:grid-cols-[240px_1fr] gap-6">
+              <CategorySidebar categories={categories ?? []} activeSlug={categorySlug} />
+              <div>
+                {category && categories && (
+                  <div className="glass-card rounded-2xl p-6 mb-6 flex items-center gap-4">
+                    {category.image && (
+                      <div className="relative h-20 w-20 rounded-xl overflow-hidden bg-muted flex-shrink-0">
+                        <Image src={category.image} alt={category.name} fill className="object-cover" />
+                      </div>
+                    )}
+                    <div>
+                      <nav aria-label="Breadcrumb" className="text-sm text-white/60 mb-1">
+                        <Link href="/" className="hover:text-white">All</Link>
+                        {categoryPath(categories, category.id).map((c) => (
+                          <span key={c.id}>
+                            {" / "}
+                            <Link href={`/category/${c.slug}`} className="hover:text-white">{c.name}</Link>
+                          </span>
+                        ))}
+                      </nav>
+                      <h2 className="text-3xl font-bold text-white neon-text">{category.name}</h2>
+                      {category.description && <p className="text-white/80 mt-1">{category.description}</p>}
+                    </div>
+                  </div>
+                )}
+                {renderProductGrid("grid grid-cols-1 sm:grid-cols-2 xl:grid-cols-3 gap-6")}
+              </div>
+            </div>
+          )
+        ) : (
+          renderProductGrid("grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-3 gap-6")
+        )}
+      </main>
+
+      <footer className="mt-12 text-center pb-6 relative z-10">
+        <div className="flex items-center justify-center gap-4 mb-2">
+          <a
+            href="https://discord.gg/Mn6MsY4uuS"
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-white/70 hover:text-white transition-colors flex items-center gap-2 hover-3d"
+          >
+            <svg className="h-5 w-5" fill="currentColor" viewBox="0 0 24 24">
+              <path d="M20.317 4.37a19.791 19.791 0 0 0-4.885-1.515a.074.074 0 0 0-.079.037c-.21.375-.444.864-.608 1.25a18.27 18.27 0 0 0-5.487 0a12.64 12.64 0 0 0-.617-1.25a.077.077 0 0 0-.079-.037A19.736 19.736 0 0 0 3.677 4.37a.07.07 0 0 0-.032.027C.533 9.046-.32 13.58.099 18.057a.082.082 0 0 0 .031.057a19.9 19.9 0 0 0 5.993 3.03a.078.078 0 0 0 .084-.028a14.09 14.09 0 0 0 1.226-1.994a.076.076 0 0 0-.041-.106a13.107 13.107 0 0 1-1.872-.892a.077.077 0 0 1-.008-.128a10.2 10.2 0 0 0 .372-.292a.074.074 0 0 1 .077-.01c3.928 1.793 8.18 1.793 12.062 0a.074.074 0 0 1 .078.01c.12.098.246.198.373.292a.077.077 0 0 1-.006.127a12.299 12.299 0 0 1-1.873.892a.077.077 0 0 0-.041.107c.36.698.772 1.362 1.225 1.993a.076.076 0 0 0 .084.028a19.839 19.839 0 0 0 6.002-3.03a.077.077 0 0 0 .032-.054c.5-5.177-.838-9.674-3.549-13.66a.061.061 0 0 0-.031-.03zM8.02 15.33c-1.183 0-2.157-1.085-2.157-2.419c0-1.333.956-2.419 2.157-2.419c1.21 0 2.176 1.096 2.157 2.42c0 1.333-.956 2.418-2.157 2.418zm7.975 0c-1.183 0-2.157-1.085-2.157-2.419c0-1.333.955-2.419 2.157-2.419c1.21 0 2.176 1.096 2.157 2.42c0 1.333-.946 2.418-2.157 2.418z" />
+            </svg>
+            Discord
+          </a>
+          <a
+            href="https://www.youtube.com/@SumanPanel"
+            target="_blank"
+            rel="noopener noreferrer"
+            className="text-white/70 hover:text-white transition-colors flex items-center gap-2 hover-3d"
+          >
+            <svg className="h-5 w-5" fill="currentColor" viewBox="0 0 24 24">
+              <path d="M23.498 6.186a3.016 3.016 0 0 0-2.122-2.136C19.505 3.545 12 3.545 12 3.545s-7.505 0-9.377.505A3.017 3.017 0 0 0 .502 6.186C0 8.07 0 12 0 12s0 3.93.502 5.814a3.016 3.016 0 0 0 2.122 2.136c1.871.505 9.376.505 9.376.505s7.505 0 9.377-.505a3.015 3.015 0 0 0 2.122-2.136C24 15.93 24 12 24 12s0-3.93-.502-5.814zM9.545 15.568V8.432L15.818 12l-6.273 3.568z" />
+            </svg>
+            YouTube
+          </a>
+        </div>
+        <p className="text-white/70">Made By Suman</p>
+      </footer>
+
+      <CartDrawer
+        open={cartOpen}
+        onClose={() => setCartOpen(false)}
+        items={cartItems}
+        onUpdateQuantity={handleUpdateQuantity}
+        onRemove={handleRemove}
+        onCheckout={handleCheckout}
+        priceOf={priceOf}
+      />
+
+      <ChatWidget />
+    </div>
+  )
+}
@@ -0,0 +1,29 @@
+import { formatMoney } from "@/lib/currency"
+import type { TaxLine } from "@/lib/pricing"
+
+interface TaxBreakdownProps {
+  taxes: TaxLine[]
+  currency?: string
+  className?: string
+}
+
+/** One row per tax line; inclusive taxes are marked as already part of the price. */
+export function TaxBreakdown({ taxes, currency, className = "" }: TaxBreakdownProps) {
+  if (taxes.length === 0) return null
+
+  return (
+    <div className={`space-y-1 text-sm ${className}`}>
+      {taxes.map((tax, index) => (
+        <div key={`${tax.name}-${index}`} className="flex justify-between items-center">
+          <span>
+            {tax.name} {tax.rate}%{tax.inclusive && <span className="opacity-70"> (included)</span>}
+          </span>
+          <span>
+            {tax.inclusive ? "" : "+"}
+            {formatMoney(tax.amount, currency)}
+          </span>
+        </div>
+      ))}
+    </div>
+  )
+}
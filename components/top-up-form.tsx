@@ -0,0 +1,97 @@
+"use client"
+
+import { useState } from "react"
+import { AlertTriangle, Upload } from "lucide-react"
+import { Button } from "@/components/ui/button"
+import { Input } from "@/components/ui/input"
+import { Label } from "@/components/ui/label"
+import { FileUpload } from "@/components/file-upload"
+import { useToast } from "@/hooks/use-toast"
+import { formatMoney } from "@/lib/currency"
+import { submitTopUpProof, type Order } from "@/lib/orders"
+
+interface TopUpFormProps {
+  order: Order
+  userId: string
+  onSubmitted: () => void
+}
+
+/** Balance due on a partially paid order and the upload for the proof of the remaining payment. */
+export function TopUpForm({ order, userId, onSubmitted }: TopUpFormProps) {
+  const { toast } = useToast()
+  const [paymentProof, setPaymentProof] = useState<File | null>(null)
+  const [preview, setPreview] = useState("")
+  const [reference, setReference] = useState("")
+  const [submitting, setSubmitting] = useState(false)
+
+  const handleFileSelect = (file: File) => {
+    setPaymentProof(file)
+    const reader = new FileReader()
+    reader.onloadend = () => setPreview(reader.result as string)
+    reader.readAsDataURL(file)
+  }
+
+  const handleSubmit = async () => {
+    if (!paymentProof) return
+    setSubmitting(true)
+    try {
+      await submitTopUpProof(order.id, { userId, paymentProof, transactionReference: reference })
+    } catch (error: any) {
+      console.error("[Dashboard] Failed to submit top-up proof:", error?.message || error)
+      toast({
+        title: "Error",
+        description: error?.message || "Failed to submit your payment proof",
+        variant: "destructive",
+      })
+      setSubmitting(false)
+      return
+    }
+
+    toast({ title: "Proof Submitted", description: "We will review your payment shortly." })
+    setSubmitting(false)
+    onSubmitted()
+  }
+
+  return (
+    <div className="mt-4 p-4 rounded-lg border border-yellow-500/30 bg-yellow-500/10 space-y-4">
+      <div className="flex items-start gap-2">
+        <AlertTriangle className="h-4 w-4 mt-0.5 shrink-0 text-yellow-400" />
+        <div className="text-sm">
+          <p className="font-semibold text-yellow-300">
+            Balance due: {formatMoney(order.balanceDue, order.paymentCurrency)}
+          </p>
+          <p className="text-white/70">
+            We received {formatMoney(order.amountReceived, order.paymentCurrency)} of{" "}
+            {formatMoney(order.paymentAmount, order.paymentCurrency)}. Pay the rest with {order.paymentMethodName} and
+            upload the confirmation below.
+          </p>
+        </div>
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor={`top-up-reference-${order.id}`}>Transaction Reference (Optional)</Label>
+        <Input
+          id={`top-up-reference-${order.id}`}
+          value={reference}
+          onChange={(e) => setReference(e.target.value)}
+          maxLength={64}
+          className="bg-white/5 border-white/20 text-white"
+        />
+      </div>
+
+      <FileUpload
+        onFileSelect={handleFileSelect}
+        preview={preview}
+        onRemove={() => {
+          setPaymentProof(null)
+          setPreview("")
+        }}
+      />
+
+      <Button onClick={handleSubmit} disabled={!paymentProof || submitting} className="w-full">
+        <Upload className="h-4 w-4 mr-2" />
+        {submitting ? "Submitting..." : "Submit Top-Up Proof"}
+      </Button>
+    </div>
+  )
+}
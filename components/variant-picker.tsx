@@ -0,0 +1,77 @@
+"use client"
+
+import { Label } from "@/components/ui/label"
+import { RadioGroup, RadioGroupItem } from "@/components/ui/radio-group"
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from "@/components/ui/select"
+import { formatMoney } from "@/lib/currency"
+import { availableStock } from "@/lib/inventory"
+import type { EffectivePrice } from "@/lib/pricing"
+import { withVariant, type Product } from "@/lib/products"
+
+interface VariantPickerProps {
+  product: Product
+  value: string | null
+  onChange: (variantId: string) => void
+  /** Sale prices from `usePromotions`; list prices when omitted */
+  priceOf?: (product: Product) => EffectivePrice
+  /** A dropdown for product cards; the product page lists the variants with their license */
+  compact?: boolean
+}
+
+/** Choose which variant of a product to buy; renders nothing for products without variants. */
+export function VariantPicker({ product, value, onChange, priceOf, compact = false }: VariantPickerProps) {
+  if (product.variants.length === 0) return null
+
+  const options = product.variants.map((variant) => {
+    const sold = withVariant(product, variant)
+    return { variant, price: priceOf?.(sold).price ?? sold.price, soldOut: availableStock(sold) === 0 }
+  })
+
+  if (compact) {
+    return (
+      <Select value={value ?? undefined} onValueChange={onChange}>
+        <SelectTrigger aria-label={`Option for ${product.name}`} className="w-full">
+          <SelectValue placeholder="Choose an option" />
+        </SelectTrigger>
+        <SelectContent>
+          {options.map(({ variant, price, soldOut }) => (
+            <SelectItem key={variant.id} value={variant.id} disabled={soldOut}>
+              {variant.name} · {soldOut ? "Sold out" : formatMoney(price)}
+            </SelectItem>
+          ))}
+        </SelectContent>
+      </Select>
+    )
+  }
+
+  return (
+    <RadioGroup value={value ?? undefined} onValueChange={onChange} aria-label={`Option for ${product.name}`}>
+      <div className="space-y-2">
+        {options.map(({ variant, price, soldOut }) => (
+          <div
+            key={variant.id}
+            className={`flex items-start gap-3 p-3 rounded-lg border border-white/20 ${
+              soldOut ? "opacity-50" : "hover:bg-white/5 cursor-pointer"
+            } ${variant.id === value ? "bg-white/10" : ""}`}
+          >
+            <RadioGroupItem
+              value={variant.id}
+              id={`variant-${variant.id}`}
+              disabled={soldOut}
+              className="border-white/30 mt-1"
+            />
+            <Label htmlFor={`variant-${variant.id}`} className="flex-1 cursor-pointer text-white block">
+              <div className="flex justify-between gap-2 font-semibold">
+                <span>{variant.name}</span>
+                <span>{soldOut ? "Sold out" : formatMoney(price)}</span>
+              </div>
+              {variant.licenseText && (
+                <p className="text-sm font-normal text-white/70 mt-1 line-clamp-2">{variant.licenseText}</p>
+              )}
+            </Label>
+          </div>
+        ))}
+      </div>
+    </RadioGroup>
+  )
+}
@@ -0,0 +1,48 @@
+"use client"
+
+import { useCallback, useEffect, useState } from "react"
+import { subscribeToTables } from "@/lib/backend"
+import { nextPriceChange, resolvePrice, type EffectivePrice, type Promotions } from "@/lib/pricing"
+import type { Product } from "@/lib/products"
+import { DISCOUNTS_KEY, DISCOUNTS_TABLE, getDiscounts, getSales, SALES_KEY, SALES_TABLE } from "@/lib/settings"
+
+// setTimeout fires immediately for delays over ~24.8 days
+const MAX_TIMER_DELAY = 2 ** 31 - 1
+
+/**
+ * Current sales and discounts, kept up to date when the admin changes them. Prices
+ * from `priceOf` change on their own when a scheduled sale starts or ends.
+ */
+export function usePromotions() {
+  const [promotions, setPromotions] = useState<Promotions>({ sales: [], discounts: [] })
+  const [now, setNow] = useState(() => new Date())
+
+  useEffect(() => {
+    const load = async () => {
+      try {
+        const [sales, discounts] = await Promise.all([getSales(), getDiscounts()])
+        setPromotions({ sales, discounts })
+        setNow(new Date())
+      } catch (error) {
+        // Without promotions the storefront shows list prices, as the order API would
+        console.error("[promotions] load error", error)
+      }
+    }
+    load()
+    return subscribeToTables([SALES_TABLE, DISCOUNTS_TABLE], [SALES_KEY, DISCOUNTS_KEY], load)
+  }, [])
+
+  useEffect(() => {
+    const next = nextPriceChange(promotions.sales, now)
+    if (!next) return
+    const timer = setTimeout(() => setNow(new Date()), Math.min(next.getTime() - Date.now() + 100, MAX_TIMER_DELAY))
+    return () => clearTimeout(timer)
+  }, [promotions, now])
+
+  const priceOf = useCallback(
+    (product: Product): EffectivePrice => resolvePrice(product, promotions, now),
+    [promotions, now],
+  )
+
+  return { promotions, now, priceOf }
+}
@@ -1,111 +1,85 @@
-export interface User {
-  id: string
-  email: string
-  name: string
-  role: "user" | "admin"
-  createdAt: string
-}
+import { getBackend } from "@/lib/backend"
+import { createUser, getUserByEmail, userFromRow, verifyUserPassword, type User, type UserRole } from "@/lib/users"
+
+export type { User, UserRole }
 
 export interface AuthState {
   user: User | null
   isAuthenticated: boolean
 }
 
-const USERS_KEY = "crime_zone_users"
-const CURRENT_USER_KEY = "crime_zone_current_user"
-const ADMIN_PASSWORD = "Mafi123" // Admin password
-
-export function getUsers(): User[] {
-  if (typeof window === "undefined") return []
-  const users = localStorage.getItem(USERS_KEY)
-  return users ? JSON.parse(users) : []
+export interface AuthResult {
+  success: boolean
+  error?: string
+  user?: User
 }
 
-function saveUsers(users: User[]) {
-  localStorage.setItem(USERS_KEY, JSON.stringify(users))
+const CURRENT_USER_KEY = "crime_zone_current_user"
+// Older builds stored the session under these keys; they are still read so nobody gets logged out
+const LEGACY_SESSION_KEYS = ["supabase-user", "demo-user"]
+const SESSION_MAX_AGE = 604800
+
+// The API routes only trust the signed, HttpOnly cookie that /api/auth/session and
+// /api/auth/register set; the cookies written by setCurrentUser are readable and
+// writable by any page script
+function endServerSession() {
+  if (getBackend() !== "supabase") return
+  fetch("/api/auth/session", { method: "DELETE" }).catch((error) => {
+    console.error("[auth] Could not end the server session:", error)
+  })
 }
 
 export function getCurrentUser(): User | null {
   if (typeof window === "undefined") return null
-  const user = localStorage.getItem(CURRENT_USER_KEY)
-  return user ? JSON.parse(user) : null
+  for (const key of [CURRENT_USER_KEY, ...LEGACY_SESSION_KEYS]) {
+    const raw = localStorage.getItem(key)
+    if (!raw) continue
+    try {
+      return userFromRow(JSON.parse(raw))
+    } catch {
+      localStorage.removeItem(key)
+    }
+  }
+  return null
 }
 
-function setCurrentUser(user: User | null) {
+export function setCurrentUser(user: User | null) {
   if (user) {
     localStorage.setItem(CURRENT_USER_KEY, JSON.stringify(user))
+    // Lightweight cookies so the middleware recognizes the client session
+    document.cookie = `sb_local_session=1; Max-Age=${SESSION_MAX_AGE}; path=/`
+    document.cookie = `sb_local_role=${user.role}; Max-Age=${SESSION_MAX_AGE}; path=/`
   } else {
     localStorage.removeItem(CURRENT_USER_KEY)
+    LEGACY_SESSION_KEYS.forEach((key) => localStorage.removeItem(key))
+    document.cookie = "sb_local_session=; Max-Age=0; path=/"
+    document.cookie = "sb_local_role=; Max-Age=0; path=/"
   }
 }
 
-export function register(
-  email: string,
-  password: string,
-  name: string,
-): { success: boolean; error?: string; user?: User } {
-  const users = getUsers()
-
-  if (users.find((u) => u.email === email)) {
-    return { success: false, error: "Email already registered" }
-  }
-
-  const newUser: User = {
-    id: Date.now().toString(),
-    email,
-    name,
-    role: "user",
-    createdAt: new Date().toISOString(),
+export async function register(email: string, password: string, name: string): Promise<AuthResult> {
+  if (await getUserByEmail(email)) {
+    return { success: false, error: "User with this email already exists. Please login instead." }
   }
 
-  // Store password separately (in real app, this would be hashed)
-  const passwords = JSON.parse(localStorage.getItem("crime_zone_passwords") || "{}")
-  passwords[email] = password
-  localStorage.setItem("crime_zone_passwords", JSON.stringify(passwords))
-
-  users.push(newUser)
-  saveUsers(users)
-  setCurrentUser(newUser)
-
-  return { success: true, user: newUser }
+  const user = await createUser({ email, password, name })
+  setCurrentUser(user)
+  return { success: true, user }
 }
 
-export function login(email: string, password: string): { success: boolean; error?: string; user?: User } {
-  const users = getUsers()
-  const passwords = JSON.parse(localStorage.getItem("crime_zone_passwords") || "{}")
-
-  // Check for admin login (original)
-  if (email === "admin" && password === ADMIN_PASSWORD) {
-    const adminUser: User = {
-      id: "admin",
-      email: "admin@crimezone.com",
-      name: "Admin",
-      role: "admin",
-      createdAt: new Date().toISOString(),
-    }
-    setCurrentUser(adminUser)
-    return { success: true, user: adminUser }
-  }
+export async function login(email: string, password: string): Promise<AuthResult> {
+  const existing = await getUserByEmail(email)
 
-  if (email === "admin@gmail.com" && password === "admin123") {
-    const adminUser: User = {
-      id: "admin-gmail",
-      email: "admin@gmail.com",
-      name: "Admin",
-      role: "admin",
-      createdAt: new Date().toISOString(),
+  if (!existing) {
+    if (getBackend() === "local") {
+      // Demo mode - any email/password combination works
+      return register(email, password, email.split("@")[0] || "Demo User")
     }
-    setCurrentUser(adminUser)
-    return { success: true, user: adminUser }
+    return { success: false, error: "User not found. Please sign up first or check your email." }
   }
 
-  const user = users.find((u) => u.email === email)
-
+  const user = await verifyUserPassword(email, password)
   if (!user) {
-    return { success: false, error: "User not found" }
-  }
-
-  if (passwords[email] !== password) {
     return { success: false, error: "Invalid password" }
   }
 
@@ -114,6 +88,7 @@ export function login(email: string, password: string): { success: boolean; erro
 }
 
 export function logout() {
+  endServerSession()
   setCurrentUser(null)
 }
 
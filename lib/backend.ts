@@ -0,0 +1,98 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { createClient } from "@/lib/supabase/client"
+import { isSupabaseConfigured } from "@/lib/mock-data"
+
+/**
+ * Storage backend shared by the repository modules in `lib/` (products, orders,
+ * users, chat, settings). Every repository exposes the same async functions for
+ * both backends so pages never need to know where the data lives.
+ *
+ * - `supabase`: the Postgres tables from `scripts/setup_database_schema.sql`
+ * - `local`: an in-browser store persisted under the `crime_zone_*` localStorage keys
+ *
+ * The backend defaults to Supabase when it is configured and can be forced with
+ * `NEXT_PUBLIC_DATA_BACKEND=local|supabase`.
+ */
+export type Backend = "supabase" | "local"
+
+const LOCAL_CHANGE_EVENT = "crime_zone_store_change"
+
+export function getBackend(): Backend {
+  const forced = process.env.NEXT_PUBLIC_DATA_BACKEND
+  if (forced === "local" || forced === "supabase") return forced
+  return isSupabaseConfigured() ? "supabase" : "local"
+}
+
+/**
+ * Pick the implementation of a repository for the active backend.
+ */
+export function pickBackend<T>(implementations: Record<Backend, T>): T {
+  return implementations[getBackend()]
+}
+
+let browserClient: SupabaseClient | null = null
+
+export function getSupabase(): SupabaseClient {
+  if (!browserClient) {
+    browserClient = createClient()
+  }
+  return browserClient
+}
+
+// Local store helpers
+
+export function readLocal<T>(key: string, fallback: T): T {
+  if (typeof window === "undefined") return fallback
+  const raw = localStorage.getItem(key)
+  if (!raw) return fallback
+  try {
+    return JSON.parse(raw) as T
+  } catch {
+    return fallback
+  }
+}
+
+export function writeLocal<T>(key: string, value: T) {
+  if (typeof window === "undefined") return
+  localStorage.setItem(key, JSON.stringify(value))
+  window.dispatchEvent(new CustomEvent(LOCAL_CHANGE_EVENT, { detail: key }))
+}
+
+export function newLocalId(prefix = ""): string {
+  return `${prefix}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 8)}`
+}
+
+/**
+ * Subscribe to changes of a table in the active backend. Supabase uses realtime
+ * `postgres_changes`; the local store listens to writes from this tab and others.
+ * Returns an unsubscribe function suitable for a `useEffect` cleanup.
+ */
+export function subscribeToTables(tables: string[], localKeys: string[], onChange: () => void): () => void {
+  if (getBackend() === "supabase") {
+    const supabase = getSupabase()
+    let channel = supabase.channel(`changes:${tables.join(",")}:${newLocalId()}`)
+    tables.forEach((table) => {
+      channel = channel.on("postgres_changes", { event: "*", schema: "public", table }, () => onChange())
+    })
+    channel.subscribe()
+    return () => {
+      supabase.removeChannel(channel)
+    }
+  }
+
+  if (typeof window === "undefined") return () => {}
+
+  const handleLocal = (event: Event) => {
+    const key = (event as CustomEvent<string>).detail
+    if (localKeys.includes(key)) onChange()
+  }
+  const handleStorage = (event: StorageEvent) => {
+    if (event.key && localKeys.includes(event.key)) onChange()
+  }
+  window.addEventListener(LOCAL_CHANGE_EVENT, handleLocal)
+  window.addEventListener("storage", handleStorage)
+  return () => {
+    window.removeEventListener(LOCAL_CHANGE_EVENT, handleLocal)
+    window.removeEventListener("storage", handleStorage)
+  }
+}
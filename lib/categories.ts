@@ -0,0 +1,231 @@
+import { getSupabase, newLocalId, pickBackend, readLocal, writeLocal } from "@/lib/backend"
+
+/**
+ * Product categories (scripts/024_categories.sql). Categories nest through
+ * `parentId`; a category page lists the products of the category and of all its
+ * subcategories. Siblings are ordered by `sortOrder`, then by name.
+ */
+
+export interface Category {
+  id: string
+  name: string
+  /** Lower-case words separated by dashes, used in /category/[slug] */
+  slug: string
+  description: string
+  image: string | null
+  parentId: string | null
+  sortOrder: number
+  createdAt: string
+}
+
+export type CategoryInput = Omit<Category, "id" | "createdAt">
+
+export interface CategoryNode extends Category {
+  children: CategoryNode[]
+  depth: number
+}
+
+export const CATEGORIES_TABLE = "categories"
+export const CATEGORIES_KEY = "crime_zone_categories"
+
+/** Raised when a category is invalid, its slug is taken or it would become its own parent. */
+export class CategoryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "CategoryError"
+  }
+}
+
+export function slugify(name: string): string {
+  return name
+    .toLowerCase()
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+}
+
+// Row mapping
+
+export function categoryFromRow(row: any): Category {
+  return {
+    id: row.id,
+    name: row.name ?? "",
+    slug: row.slug ?? "",
+    description: row.description ?? "",
+    image: row.image_url ?? null,
+    parentId: row.parent_id ?? null,
+    sortOrder: Number(row.sort_order) || 0,
+    createdAt: row.created_at ?? new Date().toISOString(),
+  }
+}
+
+function categoryToRow(input: Partial<CategoryInput>): Record<string, unknown> {
+  const row: Record<string, unknown> = {}
+  if (input.name !== undefined) row.name = input.name.trim()
+  if (input.slug !== undefined) row.slug = input.slug
+  if (input.description !== undefined) row.description = input.description
+  if (input.image !== undefined) row.image_url = input.image || null
+  if (input.parentId !== undefined) row.parent_id = input.parentId
+  if (input.sortOrder !== undefined) row.sort_order = input.sortOrder
+  return row
+}
+
+// Hierarchy
+
+function compareCategories(a: Category, b: Category): number {
+  return a.sortOrder - b.sortOrder || a.name.localeCompare(b.name)
+}
+
+/** Categories as a sorted tree. Categories whose parent is gone become roots. */
+export function categoryTree(categories: Category[]): CategoryNode[] {
+  const ids = new Set(categories.map((c) => c.id))
+  const build = (parentId: string | null, depth: number): CategoryNode[] =>
+    categories
+      .filter((c) => (parentId === null ? !c.parentId || !ids.has(c.parentId) : c.parentId === parentId))
+      .sort(compareCategories)
+      .map((c) => ({ ...c, depth, children: build(c.id, depth + 1) }))
+  return build(null, 0)
+}
+
+/** The tree flattened depth-first, for indented lists and selects. */
+export function flattenCategoryTree(nodes: CategoryNode[]): CategoryNode[] {
+  return nodes.flatMap((node) => [node, ...flattenCategoryTree(node.children)])
+}
+
+/** A category and all categories below it. */
+export function descendantIds(categories: Category[], id: string): string[] {
+  const children = categories.filter((c) => c.parentId === id)
+  return [id, ...children.flatMap((child) => descendantIds(categories, child.id))]
+}
+
+/** From the root down to the category, for breadcrumbs. */
+export function categoryPath(categories: Category[], id: string): Category[] {
+  const path: Category[] = []
+  let current = categories.find((c) => c.id === id)
+  while (current && !path.includes(current)) {
+    path.unshift(current)
+    current = categories.find((c) => c.id === current!.parentId)
+  }
+  return path
+}
+
+function validateCategory(input: Partial<CategoryInput>, categories: Category[], id?: string) {
+  if (input.name !== undefined && !input.name.trim()) throw new CategoryError("Give the category a name")
+  if (input.slug !== undefined && !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(input.slug)) {
+    throw new CategoryError("Slugs are lower-case letters and digits separated by dashes")
+  }
+  if (id && input.parentId && descendantIds(categories, id).includes(input.parentId)) {
+    throw new CategoryError("A category cannot be moved under itself or one of its subcategories")
+  }
+}
+
+interface CategoryStore {
+  list(): Promise<Category[]>
+  create(input: CategoryInput): Promise<Category>
+  update(id: string, updates: Partial<CategoryInput>): Promise<void>
+  remove(id: string): Promise<void>
+}
+
+const supabaseStore: CategoryStore = {
+  async list() {
+    const { data, error } = await getSupabase().from(CATEGORIES_TABLE).select("*").order("sort_order").order("name")
+    if (error) throw error
+    return (data || []).map(categoryFromRow)
+  },
+
+  async create(input) {
+    const { data, error } = await getSupabase().from(CATEGORIES_TABLE).insert(categoryToRow(input)).select("*").single()
+    // Unique index on slug
+    if (error?.code === "23505") throw new CategoryError(`The slug ${input.slug} is already used`)
+    if (error) throw error
+    return categoryFromRow(data)
+  },
+
+  async update(id, updates) {
+    const { error } = await getSupabase().from(CATEGORIES_TABLE).update(categoryToRow(updates)).eq("id", id)
+    if (error?.code === "23505") throw new CategoryError(`The slug ${updates.slug} is already used`)
+    if (error) throw error
+  },
+
+  // Products and subcategories are kept; their category_id / parent_id is cleared by the foreign keys
+  async remove(id) {
+    const { error } = await getSupabase().from(CATEGORIES_TABLE).delete().eq("id", id)
+    if (error) throw error
+  },
+}
+
+// The local sample products (lib/products.ts) use these
+const sampleCategories: Category[] = ["Digital", "Access", "Bundle"].map((name, index) => ({
+  id: slugify(name),
+  name,
+  slug: slugify(name),
+  description: "",
+  image: null,
+  parentId: null,
+  sortOrder: index,
+  createdAt: new Date(0).toISOString(),
+}))
+
+function readLocalCategories(): Category[] {
+  const stored = readLocal<Category[] | null>(CATEGORIES_KEY, null)
+  if (stored) return stored
+  writeLocal(CATEGORIES_KEY, sampleCategories)
+  return sampleCategories
+}
+
+const localStore: CategoryStore = {
+  async list() {
+    return readLocalCategories().sort(compareCategories)
+  },
+
+  async create(input) {
+    const categories = readLocalCategories()
+    if (categories.some((c) => c.slug === input.slug)) throw new CategoryError(`The slug ${input.slug} is already used`)
+    const category: Category = { ...input, name: input.name.trim(), id: newLocalId(), createdAt: new Date().toISOString() }
+    writeLocal(CATEGORIES_KEY, [...categories, category])
+    return category
+  },
+
+  async update(id, updates) {
+    const categories = readLocalCategories()
+    if (updates.slug && categories.some((c) => c.slug === updates.slug && c.id !== id)) {
+      throw new CategoryError(`The slug ${updates.slug} is already used`)
+    }
+    writeLocal(
+      CATEGORIES_KEY,
+      categories.map((c) => (c.id === id ? { ...c, ...updates } : c)),
+    )
+  },
+
+  async remove(id) {
+    writeLocal(
+      CATEGORIES_KEY,
+      readLocalCategories()
+        .filter((c) => c.id !== id)
+        .map((c) => (c.parentId === id ? { ...c, parentId: null } : c)),
+    )
+  },
+}
+
+function store(): CategoryStore {
+  return pickBackend({ supabase: supabaseStore, local: localStore })
+}
+
+export function getCategories(): Promise<Category[]> {
+  return store().list()
+}
+
+export async function createCategory(input: CategoryInput): Promise<Category> {
+  validateCategory(input, [])
+  return store().create(input)
+}
+
+export async function updateCategory(id: string, updates: Partial<CategoryInput>): Promise<void> {
+  validateCategory(updates, updates.parentId ? await store().list() : [], id)
+  return store().update(id, updates)
+}
+
+export function deleteCategory(id: string): Promise<void> {
+  return store().remove(id)
+}
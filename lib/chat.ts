@@ -1,14 +1,19 @@
+import { getSupabase, newLocalId, pickBackend, readLocal, writeLocal } from "@/lib/backend"
+
+export type SenderRole = "user" | "admin"
+
 export interface Message {
   id: string
   conversationId: string
   senderId: string
   senderName: string
-  senderRole: "user" | "admin"
+  senderRole: SenderRole
   content: string
   timestamp: number
   read: boolean
 }
 
+/** Every customer has exactly one conversation with the shop; its id is the customer's user id. */
 export interface Conversation {
   id: string
   userId: string
@@ -20,80 +25,181 @@ export interface Conversation {
   status: "active" | "closed"
 }
 
-const MESSAGES_KEY = "crime_zone_messages"
-const CONVERSATIONS_KEY = "crime_zone_conversations"
-
-export function getMessages(conversationId: string): Message[] {
-  if (typeof window === "undefined") return []
-  const messages = JSON.parse(localStorage.getItem(MESSAGES_KEY) || "[]")
-  return messages.filter((m: Message) => m.conversationId === conversationId)
+export interface NewMessage {
+  conversationId: string
+  senderId: string
+  senderName: string
+  senderRole: SenderRole
+  content: string
 }
 
-export function getAllMessages(): Message[] {
-  if (typeof window === "undefined") return []
-  return JSON.parse(localStorage.getItem(MESSAGES_KEY) || "[]")
+export const CHAT_TABLE = "chat_messages"
+export const MESSAGES_KEY = "crime_zone_messages"
+export const CONVERSATIONS_KEY = "crime_zone_conversations"
+
+interface ChatStore {
+  listMessages(conversationId: string): Promise<Message[]>
+  send(input: NewMessage): Promise<Message>
+  markRead(conversationId: string, readerRole: SenderRole): Promise<void>
+  listConversations(): Promise<Conversation[]>
+  ensureConversation(userId: string, userName: string, userEmail: string): Promise<Conversation>
 }
 
-export function sendMessage(
-  conversationId: string,
-  senderId: string,
-  senderName: string,
-  senderRole: "user" | "admin",
-  content: string,
-): Message {
-  const messages = getAllMessages()
-  const newMessage: Message = {
-    id: Date.now().toString(),
-    conversationId,
-    senderId,
-    senderName,
+function messageFromRow(row: any): Message {
+  const senderRole: SenderRole = row.sender === "admin" ? "admin" : "user"
+  return {
+    id: row.id,
+    conversationId: row.user_id,
+    senderId: senderRole === "admin" ? "admin" : row.user_id,
+    senderName: senderRole === "admin" ? "Admin" : row.users?.name ?? "Customer",
     senderRole,
-    content,
-    timestamp: Date.now(),
-    read: senderRole === "admin",
+    content: row.message,
+    timestamp: new Date(row.created_at).getTime(),
+    read: Boolean(row.read),
   }
-  messages.push(newMessage)
-  localStorage.setItem(MESSAGES_KEY, JSON.stringify(messages))
+}
 
-  // Update conversation
-  updateConversation(conversationId, content, senderRole === "user")
+const supabaseStore: ChatStore = {
+  async listMessages(conversationId) {
+    const { data, error } = await getSupabase()
+      .from(CHAT_TABLE)
+      .select("*")
+      .eq("user_id", conversationId)
+      .order("created_at", { ascending: true })
+    if (error) throw error
+    return (data || []).map(messageFromRow)
+  },
+
+  async send(input) {
+    const { data, error } = await getSupabase()
+      .from(CHAT_TABLE)
+      .insert({ user_id: input.conversationId, message: input.content, sender: input.senderRole })
+      .select("*")
+      .single()
+    if (error) throw error
+    return messageFromRow(data)
+  },
+
+  // Messages are read by the other party: the admin reads the customer's messages and vice versa
+  async markRead(conversationId, readerRole) {
+    const { error } = await getSupabase()
+      .from(CHAT_TABLE)
+      .update({ read: true })
+      .eq("user_id", conversationId)
+      .neq("sender", readerRole)
+      .eq("read", false)
+    if (error) throw error
+  },
+
+  async listConversations() {
+    const { data, error } = await getSupabase()
+      .from(CHAT_TABLE)
+      .select("*, users:user_id ( id, name, email )")
+      .order("created_at", { ascending: true })
+    if (error) throw error
+
+    const conversations = new Map<string, Conversation>()
+    for (const row of data || []) {
+      const message = messageFromRow(row)
+      const conversation = conversations.get(row.user_id) ?? {
+        id: row.user_id,
+        userId: row.user_id,
+        userName: row.users?.name ?? "Customer",
+        userEmail: row.users?.email ?? "",
+        lastMessage: "",
+        lastMessageTime: 0,
+        unreadCount: 0,
+        status: "active" as const,
+      }
+      conversation.lastMessage = message.content
+      conversation.lastMessageTime = message.timestamp
+      if (message.senderRole === "user" && !message.read) conversation.unreadCount += 1
+      conversations.set(row.user_id, conversation)
+    }
+    return Array.from(conversations.values())
+  },
+
+  // Conversations exist implicitly as soon as the first message is sent
+  async ensureConversation(userId, userName, userEmail) {
+    const existing = (await supabaseStore.listConversations()).find((c) => c.userId === userId)
+    return (
+      existing ?? {
+        id: userId,
+        userId,
+        userName,
+        userEmail,
+        lastMessage: "",
+        lastMessageTime: Date.now(),
+        unreadCount: 0,
+        status: "active",
+      }
+    )
+  },
+}
 
-  return newMessage
+function updateLocalConversation(conversationId: string, lastMessage: string, incrementUnread: boolean) {
+  const conversations = readLocal<Conversation[]>(CONVERSATIONS_KEY, [])
+  writeLocal(
+    CONVERSATIONS_KEY,
+    conversations.map((c) =>
+      c.id === conversationId
+        ? {
+            ...c,
+            lastMessage,
+            lastMessageTime: Date.now(),
+            unreadCount: incrementUnread ? c.unreadCount + 1 : c.unreadCount,
+          }
+        : c,
+    ),
+  )
 }
 
-export function markMessagesAsRead(conversationId: string, userId: string) {
-  const messages = getAllMessages()
-  const updated = messages.map((m: Message) => {
-    if (m.conversationId === conversationId && m.senderId !== userId) {
-      return { ...m, read: true }
+const localStore: ChatStore = {
+  async listMessages(conversationId) {
+    return readLocal<Message[]>(MESSAGES_KEY, []).filter((m) => m.conversationId === conversationId)
+  },
+
+  async send(input) {
+    const message: Message = {
+      ...input,
+      id: newLocalId(),
+      timestamp: Date.now(),
+      read: false,
     }
-    return m
-  })
-  localStorage.setItem(MESSAGES_KEY, JSON.stringify(updated))
-
-  // Update conversation unread count
-  const conversations = getConversations()
-  const updatedConversations = conversations.map((c) => {
-    if (c.id === conversationId) {
-      return { ...c, unreadCount: 0 }
+    writeLocal(MESSAGES_KEY, [...readLocal<Message[]>(MESSAGES_KEY, []), message])
+    updateLocalConversation(input.conversationId, input.content, input.senderRole === "user")
+    return message
+  },
+
+  async markRead(conversationId, readerRole) {
+    writeLocal(
+      MESSAGES_KEY,
+      readLocal<Message[]>(MESSAGES_KEY, []).map((m) =>
+        m.conversationId === conversationId && m.senderRole !== readerRole ? { ...m, read: true } : m,
+      ),
+    )
+
+    if (readerRole === "admin") {
+      writeLocal(
+        CONVERSATIONS_KEY,
+        readLocal<Conversation[]>(CONVERSATIONS_KEY, []).map((c) =>
+          c.id === conversationId ? { ...c, unreadCount: 0 } : c,
+        ),
+      )
     }
-    return c
-  })
-  localStorage.setItem(CONVERSATIONS_KEY, JSON.stringify(updatedConversations))
-}
+  },
 
-export function getConversations(): Conversation[] {
-  if (typeof window === "undefined") return []
-  return JSON.parse(localStorage.getItem(CONVERSATIONS_KEY) || "[]")
-}
+  async listConversations() {
+    return readLocal<Conversation[]>(CONVERSATIONS_KEY, [])
+  },
 
-export function getOrCreateConversation(userId: string, userName: string, userEmail: string): Conversation {
-  const conversations = getConversations()
-  let conversation = conversations.find((c) => c.userId === userId)
+  async ensureConversation(userId, userName, userEmail) {
+    const conversations = readLocal<Conversation[]>(CONVERSATIONS_KEY, [])
+    const existing = conversations.find((c) => c.userId === userId)
+    if (existing) return existing
 
-  if (!conversation) {
-    conversation = {
-      id: `conv_${userId}_${Date.now()}`,
+    const conversation: Conversation = {
+      id: userId,
       userId,
       userName,
       userEmail,
@@ -102,35 +208,41 @@ export function getOrCreateConversation(userId: string, userName: string, userEm
       unreadCount: 0,
       status: "active",
     }
-    conversations.push(conversation)
-    localStorage.setItem(CONVERSATIONS_KEY, JSON.stringify(conversations))
-  }
+    writeLocal(CONVERSATIONS_KEY, [...conversations, conversation])
+    return conversation
+  },
+}
 
-  return conversation
+function store(): ChatStore {
+  return pickBackend({ supabase: supabaseStore, local: localStore })
 }
 
-function updateConversation(conversationId: string, lastMessage: string, incrementUnread: boolean) {
-  const conversations = getConversations()
-  const updated = conversations.map((c) => {
-    if (c.id === conversationId) {
-      return {
-        ...c,
-        lastMessage,
-        lastMessageTime: Date.now(),
-        unreadCount: incrementUnread ? c.unreadCount + 1 : c.unreadCount,
-      }
-    }
-    return c
-  })
-  localStorage.setItem(CONVERSATIONS_KEY, JSON.stringify(updated))
+export function getMessages(conversationId: string): Promise<Message[]> {
+  return store().listMessages(conversationId)
+}
+
+export function sendMessage(input: NewMessage): Promise<Message> {
+  return store().send(input)
+}
+
+export function markMessagesAsRead(conversationId: string, readerRole: SenderRole): Promise<void> {
+  return store().markRead(conversationId, readerRole)
+}
+
+export function getConversations(): Promise<Conversation[]> {
+  return store().listConversations()
+}
+
+export function getOrCreateConversation(userId: string, userName: string, userEmail: string): Promise<Conversation> {
+  return store().ensureConversation(userId, userName, userEmail)
 }
 
-export function getUnreadCount(userId: string): number {
-  const messages = getAllMessages()
-  return messages.filter((m: Message) => m.senderId !== userId && !m.read).length
+export async function getUnreadCount(conversationId: string, readerRole: SenderRole): Promise<number> {
+  const messages = await getMessages(conversationId)
+  return messages.filter((m) => m.senderRole !== readerRole && !m.read).length
 }
 
-export function getTotalUnreadForAdmin(): number {
-  const conversations = getConversations()
+export async function getTotalUnreadForAdmin(): Promise<number> {
+  const conversations = await getConversations()
   return conversations.reduce((total, c) => total + c.unreadCount, 0)
 }
@@ -0,0 +1,308 @@
+import type { SupabaseClient } from "@supabase/supabase-js"
+import { z } from "zod"
+import { getSupabase, newLocalId, pickBackend, readLocal, writeLocal } from "@/lib/backend"
+import { formatMoney } from "@/lib/currency"
+import { roundMoney, type OrderQuote } from "@/lib/pricing"
+
+/**
+ * Coupon codes entered at checkout (scripts/021_coupons.sql). A coupon takes a
+ * percentage or a fixed amount off the lines it applies to, after sale prices.
+ * The order API checks it against the rules below and `place_order` checks the
+ * usage limits again while it records the redemption, so two checkouts cannot
+ * both take the last use.
+ */
+
+export type CouponType = "percentage" | "fixed"
+
+export interface Coupon {
+  id: string
+  /** Always upper case, see `normalizeCouponCode` */
+  code: string
+  description: string
+  type: CouponType
+  /** Percent off for `percentage`, amount in the store currency for `fixed` */
+  value: number
+  startsAt: string | null
+  endsAt: string | null
+  /** Uses across all customers, null for unlimited */
+  maxUses: number | null
+  maxUsesPerUser: number | null
+  /** Order total after sale prices the coupon requires, in the store currency */
+  minOrderValue: number
+  /** Restrict the coupon to these products and/or categories; both empty means the whole cart */
+  productIds: string[]
+  categories: string[]
+  firstOrderOnly: boolean
+  active: boolean
+  createdAt: string
+}
+
+export type CouponInput = Omit<Coupon, "id" | "createdAt">
+
+/** The shape of a `CouponInput` sent to /api/coupons; `validateCoupon` checks the rules. */
+export const couponInputSchema = z.object({
+  code: z.string().max(32),
+  description: z.string().max(500),
+  type: z.enum(["percentage", "fixed"]),
+  value: z.number(),
+  startsAt: z.string().datetime({ offset: true }).nullable(),
+  endsAt: z.string().datetime({ offset: true }).nullable(),
+  maxUses: z.number().nullable(),
+  maxUsesPerUser: z.number().nullable(),
+  minOrderValue: z.number().min(0),
+  productIds: z.array(z.string()).max(500),
+  categories: z.array(z.string()).max(500),
+  firstOrderOnly: z.boolean(),
+  active: z.boolean(),
+})
+
+/** Orders that count against a coupon's limits; cancelled orders give their use back. */
+export interface CouponUsage {
+  total: number
+  byUser: number
+  /** The customer's orders that were not cancelled, for first-order-only coupons */
+  userOrders: number
+}
+
+export const COUPONS_TABLE = "coupons"
+export const COUPON_REDEMPTIONS_TABLE = "coupon_redemptions"
+export const COUPONS_KEY = "crime_zone_coupons"
+
+/** Raised when a coupon does not exist or does not apply to the order. */
+export class CouponError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "CouponError"
+  }
+}
+
+export function normalizeCouponCode(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+// Row mapping
+
+export function couponFromRow(row: any): Coupon {
+  return {
+    id: row.id,
+    code: row.code ?? "",
+    description: row.description ?? "",
+    type: row.type === "fixed" ? "fixed" : "percentage",
+    value: Number(row.value) || 0,
+    startsAt: row.starts_at ?? null,
+    endsAt: row.ends_at ?? null,
+    maxUses: row.max_uses ?? null,
+    maxUsesPerUser: row.max_uses_per_user ?? null,
+    minOrderValue: Number(row.min_order_value) || 0,
+    productIds: row.product_ids ?? [],
+    categories: row.categories ?? [],
+    firstOrderOnly: Boolean(row.first_order_only),
+    active: Boolean(row.active),
+    createdAt: row.created_at ?? new Date().toISOString(),
+  }
+}
+
+export function couponToRow(input: Partial<CouponInput>): Record<string, unknown> {
+  const row: Record<string, unknown> = {}
+  if (input.code !== undefined) row.code = normalizeCouponCode(input.code)
+  if (input.description !== undefined) row.description = input.description
+  if (input.type !== undefined) row.type = input.type
+  if (input.value !== undefined) row.value = input.value
+  if (input.startsAt !== undefined) row.starts_at = input.startsAt
+  if (input.endsAt !== undefined) row.ends_at = input.endsAt
+  if (input.maxUses !== undefined) row.max_uses = input.maxUses
+  if (input.maxUsesPerUser !== undefined) row.max_uses_per_user = input.maxUsesPerUser
+  if (input.minOrderValue !== undefined) row.min_order_value = input.minOrderValue
+  if (input.productIds !== undefined) row.product_ids = input.productIds
+  if (input.categories !== undefined) row.categories = input.categories
+  if (input.firstOrderOnly !== undefined) row.first_order_only = input.firstOrderOnly
+  if (input.active !== undefined) row.active = input.active
+  return row
+}
+
+/**
+ * Count a coupon's uses with the given client, so the order API (server client) and
+ * the checkout preview (browser client) apply the same limits.
+ */
+export async function fetchCouponUsage(client: SupabaseClient, couponId: string, userId: string): Promise<CouponUsage> {
+  const [redemptions, orders] = await Promise.all([
+    client.from(COUPON_REDEMPTIONS_TABLE).select("user_id, orders:order_id ( status )").eq("coupon_id", couponId),
+    client.from("orders").select("id", { count: "exact", head: true }).eq("user_id", userId).neq("status", "cancelled"),
+  ])
+  if (redemptions.error) throw redemptions.error
+  if (orders.error) throw orders.error
+
+  const counted = (redemptions.data || []).filter((row: any) => row.orders?.status !== "cancelled")
+  return {
+    total: counted.length,
+    byUser: counted.filter((row: any) => row.user_id === userId).length,
+    userOrders: orders.count ?? 0,
+  }
+}
+
+// Evaluation
+
+function couponAppliesTo(coupon: Coupon, line: OrderQuote["lines"][number]): boolean {
+  if (coupon.productIds.length === 0 && coupon.categories.length === 0) return true
+  const category = line.product.category.toLowerCase()
+  return (
+    coupon.productIds.includes(line.product.id) || coupon.categories.some((c) => c.toLowerCase() === category)
+  )
+}
+
+/**
+ * Take a coupon off a quote. Throws `CouponError` with a message for the customer if
+ * the coupon is inactive, outside its dates, used up, or the cart does not qualify.
+ */
+export function applyCoupon(quote: OrderQuote, coupon: Coupon, usage: CouponUsage, now = new Date()): OrderQuote {
+  if (!coupon.active) throw new CouponError("This coupon is not active")
+  if (coupon.startsAt && new Date(coupon.startsAt) > now) throw new CouponError("This coupon is not valid yet")
+  if (coupon.endsAt && new Date(coupon.endsAt) < now) throw new CouponError("This coupon has expired")
+  if (coupon.maxUses !== null && usage.total >= coupon.maxUses) {
+    throw new CouponError("This coupon has reached its usage limit")
+  }
+  if (coupon.maxUsesPerUser !== null && usage.byUser >= coupon.maxUsesPerUser) {
+    throw new CouponError("You have already used this coupon")
+  }
+  if (coupon.firstOrderOnly && usage.userOrders > 0) throw new CouponError("This coupon is only valid on your first order")
+  if (quote.total < coupon.minOrderValue) {
+    throw new CouponError(`This coupon needs an order of at least ${formatMoney(coupon.minOrderValue)}`)
+  }
+
+  const eligible = roundMoney(
+    quote.lines.filter((line) => couponAppliesTo(coupon, line)).reduce((sum, line) => sum + line.lineTotal, 0),
+  )
+  if (eligible <= 0) throw new CouponError("This coupon does not apply to the items in your cart")
+
+  const discount = roundMoney(
+    coupon.type === "percentage" ? (eligible * Math.min(coupon.value, 100)) / 100 : Math.min(coupon.value, eligible),
+  )
+  return {
+    ...quote,
+    coupon: { id: coupon.id, code: coupon.code, discount },
+    discountTotal: roundMoney(quote.discountTotal + discount),
+    total: roundMoney(quote.total - discount),
+  }
+}
+
+export function validateCoupon(input: CouponInput) {
+  if (!/^[A-Z0-9_-]{3,32}$/.test(normalizeCouponCode(input.code))) {
+    throw new CouponError("Codes are 3 to 32 letters, digits, dashes or underscores")
+  }
+  if (!(input.value > 0)) throw new CouponError("The discount must be greater than zero")
+  if (input.type === "percentage" && input.value > 100) throw new CouponError("A percentage cannot be over 100")
+  if (input.startsAt && input.endsAt && new Date(input.endsAt) <= new Date(input.startsAt)) {
+    throw new CouponError("The coupon must end after it starts")
+  }
+  for (const limit of [input.maxUses, input.maxUsesPerUser]) {
+    if (limit !== null && !(Number.isInteger(limit) && limit > 0)) throw new CouponError("Usage limits must be whole numbers")
+  }
+}
+
+interface CouponStore {
+  list(): Promise<Coupon[]>
+  findByCode(code: string): Promise<Coupon | null>
+  create(input: CouponInput): Promise<Coupon>
+  update(id: string, updates: Partial<CouponInput>): Promise<void>
+  remove(id: string): Promise<void>
+}
+
+const supabaseStore: CouponStore = {
+  async list() {
+    const { data, error } = await getSupabase().from(COUPONS_TABLE).select("*").order("created_at", { ascending: false })
+    if (error) throw error
+    return (data || []).map(couponFromRow)
+  },
+
+  async findByCode(code) {
+    const { data, error } = await getSupabase().from(COUPONS_TABLE).select("*").eq("code", code).maybeSingle()
+    if (error) throw error
+    return data ? couponFromRow(data) : null
+  },
+
+  // Coupons are written by admins through the API (scripts/032_server_side_writes.sql)
+  async create(input) {
+    const body = await couponRequest("/api/coupons", "POST", input)
+    return body.coupon as Coupon
+  },
+
+  async update(id, updates) {
+    await couponRequest(`/api/coupons/${id}`, "PATCH", updates)
+  },
+
+  // Coupons that were already redeemed cannot be deleted (coupon_redemptions keeps them); deactivate those instead
+  async remove(id) {
+    await couponRequest(`/api/coupons/${id}`, "DELETE")
+  },
+}
+
+/** Rule violations and conflicts come back as `CouponError`, with the API's message. */
+async function couponRequest(url: string, method: string, payload?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: payload === undefined ? undefined : { "Content-Type": "application/json" },
+    body: payload === undefined ? undefined : JSON.stringify(payload),
+  })
+  const body = await response.json().catch(() => ({}))
+  if (response.status === 400 || response.status === 409) throw new CouponError(body.error || "Invalid coupon")
+  if (!response.ok) throw new Error(body.error || `Coupon request failed (${response.status})`)
+  return body
+}
+
+const localStore: CouponStore = {
+  async list() {
+    return readLocal<Coupon[]>(COUPONS_KEY, [])
+  },
+
+  async findByCode(code) {
+    return readLocal<Coupon[]>(COUPONS_KEY, []).find((coupon) => coupon.code === code) ?? null
+  },
+
+  async create(input) {
+    const coupons = readLocal<Coupon[]>(COUPONS_KEY, [])
+    const code = normalizeCouponCode(input.code)
+    if (coupons.some((coupon) => coupon.code === code)) throw new CouponError(`The code ${code} already exists`)
+    const coupon: Coupon = { ...input, code, id: newLocalId(), createdAt: new Date().toISOString() }
+    writeLocal(COUPONS_KEY, [coupon, ...coupons])
+    return coupon
+  },
+
+  async update(id, updates) {
+    writeLocal(
+      COUPONS_KEY,
+      readLocal<Coupon[]>(COUPONS_KEY, []).map((coupon) => (coupon.id === id ? { ...coupon, ...updates } : coupon)),
+    )
+  },
+
+  async remove(id) {
+    writeLocal(
+      COUPONS_KEY,
+      readLocal<Coupon[]>(COUPONS_KEY, []).filter((coupon) => coupon.id !== id),
+    )
+  },
+}
+
+function store(): CouponStore {
+  return pickBackend({ supabase: supabaseStore, local: localStore })
+}
+
+export function getCoupons(): Promise<Coupon[]> {
+  return store().list()
+}
+
+export function getCouponByCode(code: string): Promise<Coupon | null> {
+  return store().findByCode(normalizeCouponCode(code))
+}
+
+export async function createCoupon(input: CouponInput): Promise<Coupon> {
+  validateCoupon(input)
+  return store().create(input)
+}
+
+export function updateCoupon(id: string, updates: Partial<CouponInput>): Promise<void> {
+  return store().update(id, updates)
+}
+
+export function deleteCoupon(id: string): Promise<void> {
+  return store().remove(id)
+}
@@ -0,0 +1,198 @@
+import { getSupabase, newLocalId, pickBackend, readLocal, writeLocal } from "@/lib/backend"
+
+/**
+ * Money formatting and conversion. Product prices, discounts and order totals are in
+ * the store's base currency (`NEXT_PUBLIC_STORE_CURRENCY`, USD by default); payment
+ * methods that take another currency (INR for UPI, USDT for Binance) are charged the
+ * total converted with the admin-managed rate in effect when the order is placed.
+ * The rate and converted amount are stored on the order.
+ */
+
+export const STORE_CURRENCY = (process.env.NEXT_PUBLIC_STORE_CURRENCY || "USD").toUpperCase()
+
+export const EXCHANGE_RATES_TABLE = "exchange_rates"
+export const EXCHANGE_RATES_KEY = "crime_zone_exchange_rates"
+
+/** Units of `currency` per one unit of the store currency, from `effectiveFrom` on. */
+export interface ExchangeRate {
+  id: string
+  currency: string
+  rate: number
+  effectiveFrom: string
+  createdAt: string
+}
+
+export type ExchangeRateInput = Omit<ExchangeRate, "id" | "createdAt">
+
+/** What the customer pays with the chosen method, snapshotted on the order. */
+export interface PaymentAmount {
+  currency: string
+  amount: number
+  /** Units of `currency` per unit of the store currency; 1 when no conversion was needed */
+  rate: number
+}
+
+/** Raised when a total cannot be converted because no rate is set for the currency. */
+export class CurrencyError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "CurrencyError"
+  }
+}
+
+// Currencies whose smallest unit is not a hundredth
+const CURRENCY_DECIMALS: Record<string, number> = {
+  JPY: 0,
+  KRW: 0,
+  VND: 0,
+  BTC: 8,
+  ETH: 6,
+}
+
+export function currencyDecimals(currency: string): number {
+  return CURRENCY_DECIMALS[currency.toUpperCase()] ?? 2
+}
+
+export function roundToCurrency(amount: number, currency: string): number {
+  const factor = 10 ** currencyDecimals(currency)
+  return Math.round(amount * factor) / factor
+}
+
+/** "$12.50", "₹1,040.00", or "12.50 USDT" for codes Intl does not know. */
+export function formatMoney(amount: number, currency = STORE_CURRENCY): string {
+  const digits = currencyDecimals(currency)
+  try {
+    return new Intl.NumberFormat("en-US", {
+      style: "currency",
+      currency,
+      minimumFractionDigits: digits,
+      maximumFractionDigits: digits,
+    }).format(amount)
+  } catch {
+    return `${amount.toFixed(digits)} ${currency}`
+  }
+}
+
+export function isCurrencyCode(value: string): boolean {
+  return /^[A-Z0-9]{3,5}$/.test(value)
+}
+
+/** The rate for `currency` in effect at `at`: the one with the latest start date not after it. */
+export function findExchangeRate(rates: ExchangeRate[], currency: string, at = new Date()): ExchangeRate | null {
+  return rates
+    .filter((rate) => rate.currency === currency && new Date(rate.effectiveFrom) <= at)
+    .reduce<ExchangeRate | null>(
+      (latest, rate) => (!latest || new Date(rate.effectiveFrom) > new Date(latest.effectiveFrom) ? rate : latest),
+      null,
+    )
+}
+
+/** Convert an amount in the store currency into `currency`. Throws `CurrencyError` if no rate is in effect. */
+export function convertFromStoreCurrency(
+  amount: number,
+  currency: string,
+  rates: ExchangeRate[],
+  at = new Date(),
+): PaymentAmount {
+  if (currency === STORE_CURRENCY) return { currency, amount, rate: 1 }
+  const rate = findExchangeRate(rates, currency, at)
+  if (!rate) throw new CurrencyError(`No exchange rate from ${STORE_CURRENCY} to ${currency} is set`)
+  return { currency, amount: roundToCurrency(amount * rate.rate, currency), rate: rate.rate }
+}
+
+// Row mapping
+
+export function exchangeRateFromRow(row: any): ExchangeRate {
+  return {
+    id: row.id,
+    currency: row.currency,
+    rate: Number(row.rate) || 0,
+    effectiveFrom: row.effective_from,
+    createdAt: row.created_at ?? new Date().toISOString(),
+  }
+}
+
+function byEffectiveFromDesc(a: ExchangeRate, b: ExchangeRate): number {
+  return new Date(b.effectiveFrom).getTime() - new Date(a.effectiveFrom).getTime()
+}
+
+interface ExchangeRateStore {
+  list(): Promise<ExchangeRate[]>
+  create(input: ExchangeRateInput): Promise<ExchangeRate>
+  remove(id: string): Promise<void>
+}
+
+const supabaseStore: ExchangeRateStore = {
+  async list() {
+    const { data, error } = await getSupabase()
+      .from(EXCHANGE_RATES_TABLE)
+      .select("*")
+      .eq("base_currency", STORE_CURRENCY)
+      .order("effective_from", { ascending: false })
+    if (error) throw error
+    return (data || []).map(exchangeRateFromRow)
+  },
+
+  // Checkout converts totals with these rates, so only admins write them, through the API
+  async create(input) {
+    const response = await fetch("/api/exchange-rates", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(input),
+    })
+    const body = await response.json().catch(() => ({}))
+    if (response.status === 400) throw new CurrencyError(body.error || "Invalid exchange rate")
+    if (!response.ok) throw new Error(body.error || `Saving the exchange rate failed (${response.status})`)
+    return body.rate as ExchangeRate
+  },
+
+  async remove(id) {
+    const response = await fetch(`/api/exchange-rates/${id}`, { method: "DELETE" })
+    const body = await response.json().catch(() => ({}))
+    if (!response.ok) throw new Error(body.error || `Deleting the exchange rate failed (${response.status})`)
+  },
+}
+
+const localStore: ExchangeRateStore = {
+  async list() {
+    return readLocal<ExchangeRate[]>(EXCHANGE_RATES_KEY, []).sort(byEffectiveFromDesc)
+  },
+
+  async create(input) {
+    const rate: ExchangeRate = { ...input, id: newLocalId(), createdAt: new Date().toISOString() }
+    writeLocal(EXCHANGE_RATES_KEY, [rate, ...readLocal<ExchangeRate[]>(EXCHANGE_RATES_KEY, [])])
+    return rate
+  },
+
+  async remove(id) {
+    writeLocal(
+      EXCHANGE_RATES_KEY,
+      readLocal<ExchangeRate[]>(EXCHANGE_RATES_KEY, []).filter((rate) => rate.id !== id),
+    )
+  },
+}
+
+function store(): ExchangeRateStore {
+  return pickBackend({ supabase: supabaseStore, local: localStore })
+}
+
+function validateRate(input: ExchangeRateInput) {
+  if (!isCurrencyCode(input.currency)) throw new CurrencyError("Enter a currency code such as INR or USDT")
+  if (input.currency === STORE_CURRENCY) throw new CurrencyError(`${STORE_CURRENCY} is the store currency`)
+  if (!(input.rate > 0)) throw new CurrencyError("The rate must be greater than zero")
+  if (Number.isNaN(new Date(input.effectiveFrom).getTime())) throw new CurrencyError("Choose when the rate takes effect")
+}
+
+/** All rates, newest first. Past rates are kept so orders can be traced back to them. */
+export function getExchangeRates(): Promise<ExchangeRate[]> {
+  return store().list()
+}
+
+export async function createExchangeRate(input: ExchangeRateInput): Promise<ExchangeRate> {
+  validateRate(input)
+  return store().create(input)
+}
+
+export function deleteExchangeRate(id: string): Promise<void> {
+  return store().remove(id)
+}
@@ -101,7 +101,7 @@ class SupabaseDebugger {
    * Enhanced wrapper for Supabase operations with debugging
    */
   public async executeSupabaseOperation<T>(
-    operation: () => Promise<{ data: T | null; error: PostgrestError | AuthError | null }>,
+    operation: () => Promise<{ data: T | null; error: PostgrestError | AuthError | Error | null }>,
     context: DebugContext,
     withRetry: boolean = false
   ): Promise<SupabaseOperationResult<T>> {
@@ -328,7 +328,7 @@ export const supabaseDebugger = SupabaseDebugger.getInstance()
  * )
  */
 export async function debugSupabaseOperation<T>(
-  operation: () => Promise<{ data: T | null; error: PostgrestError | AuthError | null }>,
+  operation: () => Promise<{ data: T | null; error: PostgrestError | AuthError | Error | null }>,
   context: Omit<DebugContext, 'timestamp'>,
   withRetry: boolean = false
 ): Promise<SupabaseOperationResult<T>> {
@@ -0,0 +1,129 @@
+/**
+ * Byte-level helpers for uploaded images: detect the real format from the file's
+ * magic bytes (the browser-reported MIME type is just the file extension) and
+ * remove metadata blocks such as EXIF/GPS, XMP and text comments without
+ * re-encoding the pixels. Works the same in the browser and in route handlers.
+ */
+
+export type ImageType = "image/jpeg" | "image/png" | "image/webp" | "image/gif"
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]
+
+function startsWith(bytes: Uint8Array, prefix: number[], offset = 0): boolean {
+  return prefix.every((byte, index) => bytes[offset + index] === byte)
+}
+
+function ascii(text: string): number[] {
+  return Array.from(text, (char) => char.charCodeAt(0))
+}
+
+/** Identify the image format from its first bytes, or null if it is not a supported image. */
+export function detectImageType(bytes: Uint8Array): ImageType | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return "image/jpeg"
+  if (startsWith(bytes, PNG_SIGNATURE)) return "image/png"
+  if (startsWith(bytes, ascii("RIFF")) && startsWith(bytes, ascii("WEBP"), 8)) return "image/webp"
+  if (startsWith(bytes, ascii("GIF87a")) || startsWith(bytes, ascii("GIF89a"))) return "image/gif"
+  return null
+}
+
+function concat(parts: Uint8Array[]): Uint8Array<ArrayBuffer> {
+  const result = new Uint8Array(parts.reduce((total, part) => total + part.length, 0))
+  let offset = 0
+  for (const part of parts) {
+    result.set(part, offset)
+    offset += part.length
+  }
+  return result
+}
+
+// JPEG: APP1 holds EXIF (including GPS) and XMP, APP13 holds IPTC, COM is a free-text comment.
+// APP2 (ICC colour profile) and the other segments are needed to display the image correctly.
+const JPEG_METADATA_MARKERS = new Set([0xe1, 0xed, 0xfe])
+
+function stripJpeg(bytes: Uint8Array<ArrayBuffer>): Uint8Array<ArrayBuffer> {
+  const parts: Uint8Array[] = [bytes.subarray(0, 2)]
+  let offset = 2
+
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1]
+    // Start of scan: everything after this is compressed image data
+    if (marker === 0xda) break
+
+    const length = (bytes[offset + 2] << 8) | bytes[offset + 3]
+    const end = offset + 2 + length
+    if (length < 2 || end > bytes.length) break
+    if (!JPEG_METADATA_MARKERS.has(marker)) parts.push(bytes.subarray(offset, end))
+    offset = end
+  }
+
+  parts.push(bytes.subarray(offset))
+  return concat(parts)
+}
+
+const PNG_METADATA_CHUNKS = new Set(["eXIf", "tEXt", "zTXt", "iTXt", "tIME"])
+
+function stripPng(bytes: Uint8Array<ArrayBuffer>): Uint8Array<ArrayBuffer> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const parts: Uint8Array[] = [bytes.subarray(0, PNG_SIGNATURE.length)]
+  let offset = PNG_SIGNATURE.length
+
+  while (offset + 12 <= bytes.length) {
+    const length = view.getUint32(offset)
+    const type = String.fromCharCode(...bytes.subarray(offset + 4, offset + 8))
+    const end = offset + 12 + length
+    if (end > bytes.length) break
+    if (!PNG_METADATA_CHUNKS.has(type)) parts.push(bytes.subarray(offset, end))
+    offset = end
+    if (type === "IEND") return concat(parts)
+  }
+
+  parts.push(bytes.subarray(offset))
+  return concat(parts)
+}
+
+const WEBP_EXIF_FLAG = 0x08
+const WEBP_XMP_FLAG = 0x04
+
+function stripWebp(bytes: Uint8Array<ArrayBuffer>): Uint8Array<ArrayBuffer> {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength)
+  const parts: Uint8Array[] = []
+  let offset = 12
+
+  while (offset + 8 <= bytes.length) {
+    const fourcc = String.fromCharCode(...bytes.subarray(offset, offset + 4))
+    const size = view.getUint32(offset + 4, true)
+    const end = Math.min(offset + 8 + size + (size % 2), bytes.length)
+
+    if (fourcc === "VP8X") {
+      // The extended header announces which optional chunks follow; clear the ones we drop
+      const chunk = bytes.slice(offset, end)
+      chunk[8] &= ~(WEBP_EXIF_FLAG | WEBP_XMP_FLAG)
+      parts.push(chunk)
+    } else if (fourcc !== "EXIF" && fourcc !== "XMP ") {
+      parts.push(bytes.subarray(offset, end))
+    }
+    offset = end
+  }
+
+  const body = concat(parts)
+  const header = bytes.slice(0, 12)
+  new DataView(header.buffer).setUint32(4, body.length + 4, true)
+  return concat([header, body])
+}
+
+/**
+ * Return a copy of the image without EXIF/GPS, XMP, IPTC and text metadata.
+ * GIFs carry no EXIF and are returned unchanged.
+ */
+export function stripImageMetadata(bytes: Uint8Array<ArrayBuffer>, type: ImageType): Uint8Array<ArrayBuffer> {
+  switch (type) {
+    case "image/jpeg":
+      return stripJpeg(bytes)
+    case "image/png":
+      return stripPng(bytes)
+    case "image/webp":
+      return stripWebp(bytes)
+    default:
+      return bytes
+  }
+}
@@ -0,0 +1,325 @@
+import { getSupabase, newLocalId, pickBackend, readLocal, writeLocal } from "@/lib/backend"
+import { getProduct, updateProduct, updateVariantStock, type Product, type ProductVariant } from "@/lib/products"
+import type { User } from "@/lib/users"
+
+/**
+ * Inventory ledger and stock reservations (scripts/029_inventory.sql). Every change to a
+ * product's stock is a movement in the ledger. Placing an order takes the stock as a
+ * sale and holds it in a reservation until the order is paid (committed) or cancelled
+ * (released, the stock comes back as a cancellation return). With Supabase the order
+ * side runs in `place_order` and a trigger on orders; the local order store calls the
+ * `...LocalStock` functions below. Products with variants (scripts/030_product_variants.sql)
+ * keep stock per variant; movements and reservations then name the variant as well.
+ */
+
+export type InventoryMovementKind = "sale" | "restock" | "adjustment" | "cancellation_return"
+
+export const MOVEMENT_LABELS: Record<InventoryMovementKind, string> = {
+  sale: "Sale",
+  restock: "Restock",
+  adjustment: "Adjustment",
+  cancellation_return: "Cancellation return",
+}
+
+export interface InventoryMovement {
+  id: string
+  productId: string
+  variantId?: string
+  kind: InventoryMovementKind
+  /** Negative for sales, positive for restocks and returns */
+  quantity: number
+  /** Stock once the movement applied */
+  stockAfter: number
+  orderId?: string
+  notes?: string
+  createdByName?: string
+  createdAt: string
+}
+
+export type ReservationStatus = "held" | "committed" | "released"
+
+export interface StockReservation {
+  id: string
+  orderId: string
+  productId: string
+  variantId?: string
+  quantity: number
+  status: ReservationStatus
+  /** Gateway checkouts only; the unpaid order is cancelled after this */
+  expiresAt: string | null
+  createdAt: string
+}
+
+/** A change an admin makes by hand; `quantity` is added to the stock. */
+export interface StockAdjustment {
+  kind: "restock" | "adjustment"
+  /** Stock of this variant instead of the product's */
+  variantId?: string
+  quantity: number
+  notes?: string
+  changedBy?: Pick<User, "id" | "name">
+}
+
+/** What a product page or card says about stock */
+export type StockLevel = "unlimited" | "in_stock" | "low" | "sold_out"
+
+export const INVENTORY_MOVEMENTS_TABLE = "inventory_movements"
+export const STOCK_RESERVATIONS_TABLE = "stock_reservations"
+export const INVENTORY_MOVEMENTS_KEY = "crime_zone_inventory_movements"
+export const STOCK_RESERVATIONS_KEY = "crime_zone_stock_reservations"
+
+/** How long a gateway checkout holds its stock before the unpaid order is cancelled */
+export const STOCK_RESERVATION_MINUTES = 60
+
+/** Raised when a stock change is invalid or would take stock below zero. */
+export class InventoryError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "InventoryError"
+  }
+}
+
+type StockFields = Pick<Product, "stock" | "unlimitedStock" | "lowStockThreshold">
+
+export function stockLevel(product: StockFields): StockLevel {
+  if (product.unlimitedStock) return "unlimited"
+  if (product.stock <= 0) return "sold_out"
+  return product.stock < product.lowStockThreshold ? "low" : "in_stock"
+}
+
+/** "Sold out", "Only 3 left", "12 in stock"; unlimited products are simply in stock. */
+export function stockLabel(product: StockFields): string {
+  const labels: Record<StockLevel, string> = {
+    unlimited: "In stock",
+    in_stock: `${product.stock} in stock`,
+    low: `Only ${product.stock} left`,
+    sold_out: "Sold out",
+  }
+  return labels[stockLevel(product)]
+}
+
+/** Whether admins should be alerted: stock fell below the product's threshold. */
+export function needsRestock(product: StockFields): boolean {
+  return !product.unlimitedStock && product.stock < product.lowStockThreshold
+}
+
+/** How many a customer can order at most. */
+export function availableStock(product: Pick<Product, "stock" | "unlimitedStock">): number {
+  return product.unlimitedStock ? Number.POSITIVE_INFINITY : Math.max(product.stock, 0)
+}
+
+export function movementFromRow(row: any): InventoryMovement {
+  return {
+    id: row.id,
+    productId: row.product_id,
+    variantId: row.variant_id ?? undefined,
+    kind: row.kind,
+    quantity: Number(row.quantity) || 0,
+    stockAfter: Number(row.stock_after) || 0,
+    orderId: row.order_id ?? undefined,
+    notes: row.notes ?? undefined,
+    createdByName: row.created_by_name ?? undefined,
+    createdAt: row.created_at,
+  }
+}
+
+export function reservationFromRow(row: any): StockReservation {
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    productId: row.product_id,
+    variantId: row.variant_id ?? undefined,
+    quantity: Number(row.quantity) || 0,
+    status: row.status,
+    expiresAt: row.expires_at ?? null,
+    createdAt: row.created_at,
+  }
+}
+
+function validateAdjustment(adjustment: StockAdjustment) {
+  if (!Number.isInteger(adjustment.quantity) || adjustment.quantity === 0) {
+    throw new InventoryError("Enter a whole number other than 0")
+  }
+  if (adjustment.kind === "restock" && adjustment.quantity < 0) {
+    throw new InventoryError("A restock adds stock; use an adjustment to take stock away")
+  }
+}
+
+interface InventoryStore {
+  movements(productId: string): Promise<InventoryMovement[]>
+  heldReservations(): Promise<StockReservation[]>
+  adjust(productId: string, adjustment: StockAdjustment): Promise<number>
+}
+
+const supabaseStore: InventoryStore = {
+  async movements(productId) {
+    const { data, error } = await getSupabase()
+      .from(INVENTORY_MOVEMENTS_TABLE)
+      .select("*")
+      .eq("product_id", productId)
+      .order("created_at", { ascending: false })
+    if (error) throw error
+    return (data || []).map(movementFromRow)
+  },
+
+  async heldReservations() {
+    const { data, error } = await getSupabase().from(STOCK_RESERVATIONS_TABLE).select("*").eq("status", "held")
+    if (error) throw error
+    return (data || []).map(reservationFromRow)
+  },
+
+  // adjust_stock locks the product row, so concurrent checkouts and restocks add up. Only
+  // the service role may run it, so the change goes through the API
+  async adjust(productId, adjustment) {
+    const response = await fetch(`/api/products/${encodeURIComponent(productId)}/stock`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify(adjustment),
+    })
+    const body = await response.json().catch(() => ({}))
+    if (response.status === 409) throw new InventoryError(body.error || "This stock change is not possible")
+    if (!response.ok) throw new Error(body.error || `Stock update failed (${response.status})`)
+    return Number(body.stock)
+  },
+}
+
+function readLocalMovements(): InventoryMovement[] {
+  return readLocal<InventoryMovement[]>(INVENTORY_MOVEMENTS_KEY, [])
+}
+
+function readLocalReservations(): StockReservation[] {
+  return readLocal<StockReservation[]>(STOCK_RESERVATIONS_KEY, [])
+}
+
+// Local counterpart of move_stock: applies the movement to the product, or its variant,
+// and records it
+async function moveLocalStock(
+  productId: string,
+  kind: InventoryMovementKind,
+  quantity: number,
+  details: { variantId?: string; orderId?: string; notes?: string; createdByName?: string } = {},
+): Promise<number> {
+  const product = await getProduct(productId)
+  const variant = details.variantId ? product?.variants.find((v) => v.id === details.variantId) : undefined
+  if (!product || (details.variantId && !variant)) throw new InventoryError("A product in your cart is no longer available")
+  const stockAfter = (variant ?? product).stock + quantity
+  if (stockAfter < 0) {
+    throw new InventoryError(`Not enough stock for "${variant ? `${product.name} (${variant.name})` : product.name}"`)
+  }
+
+  if (variant) await updateVariantStock(variant.id, stockAfter)
+  else await updateProduct(productId, { stock: stockAfter })
+  const movement: InventoryMovement = {
+    id: newLocalId(),
+    productId,
+    kind,
+    quantity,
+    stockAfter,
+    ...details,
+    createdAt: new Date().toISOString(),
+  }
+  writeLocal(INVENTORY_MOVEMENTS_KEY, [...readLocalMovements(), movement])
+  return stockAfter
+}
+
+const localStore: InventoryStore = {
+  async movements(productId) {
+    return readLocalMovements()
+      .filter((movement) => movement.productId === productId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  },
+
+  async heldReservations() {
+    return readLocalReservations().filter((reservation) => reservation.status === "held")
+  },
+
+  async adjust(productId, adjustment) {
+    return moveLocalStock(productId, adjustment.kind, adjustment.quantity, {
+      variantId: adjustment.variantId,
+      notes: adjustment.notes || undefined,
+      createdByName: adjustment.changedBy?.name,
+    })
+  },
+}
+
+function store(): InventoryStore {
+  return pickBackend({ supabase: supabaseStore, local: localStore })
+}
+
+/** A product's ledger, newest first. */
+export function getInventoryMovements(productId: string): Promise<InventoryMovement[]> {
+  return store().movements(productId)
+}
+
+/** Units held by orders awaiting payment, by variant id for variants and by product id otherwise. */
+export async function getReservedStock(): Promise<Map<string, number>> {
+  const reserved = new Map<string, number>()
+  for (const reservation of await store().heldReservations()) {
+    const key = reservation.variantId ?? reservation.productId
+    reserved.set(key, (reserved.get(key) ?? 0) + reservation.quantity)
+  }
+  return reserved
+}
+
+/** Restock or adjust a product, or one of its variants, by hand; returns the new stock. */
+export async function adjustStock(productId: string, adjustment: StockAdjustment): Promise<number> {
+  validateAdjustment(adjustment)
+  return store().adjust(productId, adjustment)
+}
+
+// The order side for the local backend. Local orders are always manual payments, which
+// wait for an admin, so their reservations never expire.
+
+/** Take the stock of a new local order and hold it. */
+export async function reserveLocalStock(
+  orderId: string,
+  lines: { product: Product; variant: ProductVariant | null; quantity: number }[],
+): Promise<void> {
+  const createdAt = new Date().toISOString()
+  const reservations: StockReservation[] = []
+  for (const line of lines) {
+    if (line.product.unlimitedStock) continue
+    const variantId = line.variant?.id
+    await moveLocalStock(line.product.id, "sale", -line.quantity, { variantId, orderId })
+    reservations.push({
+      id: newLocalId(),
+      orderId,
+      productId: line.product.id,
+      variantId,
+      quantity: line.quantity,
+      status: "held",
+      expiresAt: null,
+      createdAt,
+    })
+  }
+  writeLocal(STOCK_RESERVATIONS_KEY, [...readLocalReservations(), ...reservations])
+}
+
+/** The local order was paid: it keeps its stock. */
+export function commitLocalStock(orderId: string): void {
+  writeLocal(
+    STOCK_RESERVATIONS_KEY,
+    readLocalReservations().map((reservation) =>
+      reservation.orderId === orderId && reservation.status === "held" ? { ...reservation, status: "committed" } : reservation,
+    ),
+  )
+}
+
+/** The local order was cancelled: its held stock goes back. */
+export async function releaseLocalStock(orderId: string): Promise<void> {
+  const held = readLocalReservations().filter((r) => r.orderId === orderId && r.status === "held")
+  for (const reservation of held) {
+    await moveLocalStock(reservation.productId, "cancellation_return", reservation.quantity, {
+      variantId: reservation.variantId,
+      orderId,
+      notes: "Order cancelled",
+    })
+  }
+  const released = new Set(held.map((reservation) => reservation.id))
+  writeLocal(
+    STOCK_RESERVATIONS_KEY,
+    readLocalReservations().map((reservation) =>
+      released.has(reservation.id) ? { ...reservation, status: "released" } : reservation,
+    ),
+  )
+}
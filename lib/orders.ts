@@ -1,98 +1,889 @@
-import type { CartItem } from "./cart"
-import type { User } from "./auth"
+import { getSupabase, newLocalId, pickBackend, readLocal, writeLocal } from "@/lib/backend"
+import { applyCoupon, CouponError, fetchCouponUsage, getCouponByCode, type CouponUsage } from "@/lib/coupons"
+import { convertFromStoreCurrency, getExchangeRates, roundToCurrency, STORE_CURRENCY } from "@/lib/currency"
+import {
+  computePerceptualHash,
+  hammingDistance,
+  isInlineProof,
+  PROOF_HASH_MAX_DISTANCE,
+  readFileAsDataUrl,
+} from "@/lib/payment-proofs"
+import {
+  paymentMethodFromName,
+  paymentMethodLabel,
+  providerAmountError,
+  type PaymentMethod,
+  type PaymentProvider,
+} from "@/lib/payment-providers"
+import { commitLocalStock, releaseLocalStock, reserveLocalStock } from "@/lib/inventory"
+import { isManualGateway, toGatewayId, type GatewayId } from "@/lib/payment-gateways/types"
+import { normalizeReference, transactionReferenceError } from "@/lib/payment-references"
+import { quoteOrder, type OrderQuote, type TaxLine } from "@/lib/pricing"
+import { getProductsByIds, productFromRow, variantFromRow, withVariant, type Product } from "@/lib/products"
+import { getDiscounts, getSales } from "@/lib/settings"
+import { addStoreCredit } from "@/lib/store-credit"
+import { applyTax, getTaxRules, taxLineFromRow, taxTotal } from "@/lib/taxes"
+import type { User } from "@/lib/users"
 
-export type PaymentMethod = "binance" | "upi" | "paypal"
-export type OrderStatus = "pending" | "confirmed" | "processing" | "completed" | "cancelled"
+export type { PaymentMethod }
+export type OrderStatus =
+  | "pending"
+  | "partially_paid"
+  | "confirmed"
+  | "processing"
+  | "completed"
+  | "cancelled"
+  | "refunded"
+
+/** What happens to money received beyond what the order costs */
+export type OverpaymentResolution = "store_credit" | "refund"
+
+export interface OrderItem {
+  id: string
+  productId: string
+  /** The variant bought (scripts/030_product_variants.sql); null when the product had none or it was deleted */
+  variantId: string | null
+  /** Name of the variant when the order was placed */
+  variantName?: string
+  /** License the customer bought, as worded when the order was placed */
+  licenseText?: string
+  quantity: number
+  price: number
+  /** `downloadUrl` is the variant's download as it was when the order was placed, for variant items */
+  product: Pick<Product, "id" | "name" | "description" | "image" | "downloadUrl">
+}
 
 export interface Order {
   id: string
   userId: string
-  userEmail: string
-  userName: string
-  items: CartItem[]
+  userEmail?: string
+  userName?: string
+  items: OrderItem[]
+  /** In `currency`, the store currency when the order was placed; coupons taken off, exclusive taxes added */
   total: number
-  paymentMethod: PaymentMethod
+  currency: string
+  couponId?: string
+  couponCode?: string
+  /** Taken off by the coupon, in `currency` */
+  couponDiscount: number
+  /** ISO country code the taxes were worked out for; missing on orders from before taxes */
+  billingCountry?: string
+  /** Taxes charged, in `currency` (scripts/023_taxes.sql) */
+  taxes: TaxLine[]
+  /** Sum of `taxes`, inclusive ones included */
+  taxAmount: number
+  /** The total converted into the payment method's currency at `exchangeRate` */
+  paymentAmount: number
+  paymentCurrency: string
+  exchangeRate: number
+  /** Sum of the payments admins recorded, in `paymentCurrency` */
+  amountReceived: number
+  /** What is still owed in `paymentCurrency`; 0 once the order is paid, cancelled or refunded */
+  balanceDue: number
+  /** Received beyond `paymentAmount`, in `paymentCurrency` */
+  overpaidAmount: number
+  overpaymentResolution?: OverpaymentResolution
+  payments: OrderPayment[]
+  paymentMethod: PaymentMethod | null
+  paymentMethodName: string
+  /** Gateway of the payment method; anything but `manual` confirms orders by webhook */
+  paymentGateway: GatewayId
+  /** UTR / Binance Pay order ID / PayPal transaction ID entered at checkout, or the gateway's payment id */
+  transactionReference?: string
   paymentProof?: string
+  /** Perceptual hash of the proof (local backend only; Supabase keeps it in payment_proofs). */
+  paymentProofHash?: string
+  /** Earlier orders whose payment proof looked the same when this one was uploaded. */
+  duplicateProofOrderIds: string[]
   status: OrderStatus
   createdAt: string
   confirmedAt?: string
   notes?: string
+  history: OrderStatusChange[]
+}
+
+/** One entry of `order_status_history`: who moved the order from one status to another. */
+export interface OrderStatusChange {
+  id: string
+  orderId: string
+  fromStatus: OrderStatus
+  toStatus: OrderStatus
+  changedBy: string
+  changedByName: string
+  notes?: string
+  createdAt: string
+}
+
+/** One entry of `order_payments`: an amount an admin confirmed receiving. */
+export interface OrderPayment {
+  id: string
+  orderId: string
+  amount: number
+  currency: string
+  recordedBy: string
+  recordedByName: string
+  notes?: string
+  createdAt: string
+}
+
+export interface StatusUpdate {
+  changedBy?: Pick<User, "id" | "name">
+  notes?: string
+}
+
+export interface OrderLine {
+  product: Product
+  /** Required for products with variants */
+  variantId?: string | null
+  quantity: number
 }
 
-const ORDERS_KEY = "crime_zone_orders"
+export interface NewOrder {
+  /** Chosen at checkout with `newOrderId()` so it can be quoted in the payment reference. */
+  id: string
+  user: Pick<User, "id" | "email" | "name">
+  lines: OrderLine[]
+  provider: PaymentProvider
+  /** Manual payments only; gateways supply their own payment id */
+  transactionReference: string
+  /** Manual payments only */
+  paymentProof: File | null
+  couponCode?: string
+  billingCountry: string
+}
 
-export function getOrders(): Order[] {
-  if (typeof window === "undefined") return []
-  const orders = localStorage.getItem(ORDERS_KEY)
-  return orders ? JSON.parse(orders) : []
+export interface ReceivedPayment {
+  /** In the order's `paymentCurrency` */
+  amount: number
+  overpayment: OverpaymentResolution
 }
 
-function saveOrders(orders: Order[]) {
-  localStorage.setItem(ORDERS_KEY, JSON.stringify(orders))
+export interface TopUpProof {
+  /** Checked by the local store; the API uses the signed-in customer */
+  userId: string
+  paymentProof: File
+  /** Optional reference of the top-up transfer, recorded in the status history */
+  transactionReference: string
 }
 
-export function createOrder(
-  user: User,
-  items: CartItem[],
-  total: number,
-  paymentMethod: PaymentMethod,
-  paymentProof?: string,
-): Order {
-  const orders = getOrders()
-  const newOrder: Order = {
-    id: `ORD-${Date.now()}`,
-    userId: user.id,
-    userEmail: user.email,
-    userName: user.name,
+export interface PlacedOrder {
+  order: Order
+  /** Gateway payment page to send the customer to, or null when payment is manual */
+  redirectUrl: string | null
+}
+
+export const ORDERS_TABLE = "orders"
+export const ORDER_STATUS_HISTORY_TABLE = "order_status_history"
+export const ORDER_PAYMENTS_TABLE = "order_payments"
+export const ORDERS_KEY = "crime_zone_orders"
+
+/**
+ * Allowed status changes. `updateOrderStatus` rejects anything not listed here, and
+ * `order_transition_allowed` (scripts/032_server_side_writes.sql) repeats the graph
+ * for the database; keep the two in step.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ["confirmed", "partially_paid", "cancelled"],
+  // Back to pending when the customer submits a top-up proof
+  partially_paid: ["pending", "confirmed", "cancelled"],
+  confirmed: ["processing", "completed", "refunded"],
+  processing: ["completed", "refunded"],
+  completed: ["refunded"],
+  cancelled: [],
+  refunded: [],
+}
+
+const ORDER_STATUSES = Object.keys(ORDER_TRANSITIONS) as OrderStatus[]
+
+// Statuses in which the customer has paid and gets access to downloads
+const PAID_STATUSES: OrderStatus[] = ["confirmed", "processing", "completed"]
+
+// Statuses in which an admin can record money received for a manual payment
+const AWAITING_PAYMENT_STATUSES: OrderStatus[] = ["pending", "partially_paid"]
+
+export class OrderTransitionError extends Error {
+  constructor(from: OrderStatus, to: OrderStatus) {
+    super(`An order cannot go from ${from} to ${to}`)
+    this.name = "OrderTransitionError"
+  }
+}
+
+function toOrderStatus(value: unknown): OrderStatus {
+  return ORDER_STATUSES.includes(value as OrderStatus) ? (value as OrderStatus) : "pending"
+}
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return ORDER_TRANSITIONS[from].includes(to)
+}
+
+export function isPaidStatus(status: OrderStatus): boolean {
+  return PAID_STATUSES.includes(status)
+}
+
+/** Whether an admin can record a received amount; gateway payments are settled by webhook. */
+export function canRecordPayment(order: Pick<Order, "status" | "paymentGateway">): boolean {
+  return isManualGateway(order.paymentGateway) && AWAITING_PAYMENT_STATUSES.includes(order.status)
+}
+
+function balanceDue(status: OrderStatus, paymentAmount: number, amountReceived: number, currency: string): number {
+  if (!AWAITING_PAYMENT_STATUSES.includes(status)) return 0
+  return roundToCurrency(Math.max(paymentAmount - amountReceived, 0), currency)
+}
+
+function toOverpaymentResolution(value: unknown): OverpaymentResolution | undefined {
+  return value === "store_credit" || value === "refund" ? value : undefined
+}
+
+function orderPaymentFromRow(row: any): OrderPayment {
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    amount: Number(row.amount) || 0,
+    currency: row.currency,
+    recordedBy: row.recorded_by ?? "",
+    recordedByName: row.recorded_by_name ?? "Admin",
+    notes: row.notes ?? undefined,
+    createdAt: row.created_at,
+  }
+}
+
+// Top-ups add proofs to an order; the newest one is the one waiting for review
+function latestProof(row: any): any {
+  return [...(row.payment_proofs || [])].sort((a: any, b: any) =>
+    String(b.created_at ?? "").localeCompare(String(a.created_at ?? "")),
+  )[0]
+}
+
+function statusChangeFromRow(row: any): OrderStatusChange {
+  return {
+    id: row.id,
+    orderId: row.order_id,
+    fromStatus: toOrderStatus(row.from_status),
+    toStatus: toOrderStatus(row.to_status),
+    changedBy: row.changed_by ?? "",
+    changedByName: row.changed_by_name ?? "Admin",
+    notes: row.notes ?? undefined,
+    createdAt: row.created_at,
+  }
+}
+
+function orderItemFromRow(row: any): OrderItem {
+  const bought = withVariant(
+    productFromRow(row.products ?? { id: row.product_id, title: "Product", price: row.price }),
+    row.product_variants ? variantFromRow(row.product_variants) : null,
+  )
+  // Variant items carry the download they were sold with (scripts/032_server_side_writes.sql)
+  const product = row.download_url ? { ...bought, downloadUrl: row.download_url } : bought
+  return {
+    id: row.id,
+    productId: row.product_id ?? product.id,
+    variantId: row.variant_id ?? null,
+    variantName: row.variant_name ?? undefined,
+    licenseText: row.license_text || undefined,
+    quantity: Number(row.quantity) || 1,
+    price: Number(row.price) || 0,
+    product,
+  }
+}
+
+// Orders keep their lines in `order_items` (scripts/011_order_items.sql). Orders placed
+// before that migration stored a single product on the order row itself.
+export function orderFromRow(row: any): Order {
+  const total = Number(row.total_amount ?? row.total) || 0
+  const currency = row.currency ?? STORE_CURRENCY
+  const status = toOrderStatus(row.status)
+  // Orders from before scripts/019_exchange_rates.sql were paid in the store currency
+  const paymentAmount = row.payment_amount != null ? Number(row.payment_amount) : total
+  const paymentCurrency = row.payment_currency ?? currency
+  // Before scripts/020_partial_payments.sql confirming an order meant it was paid in full
+  const amountReceived =
+    row.amount_received != null ? Number(row.amount_received) : isPaidStatus(status) ? paymentAmount : 0
+  const proof = latestProof(row)
+  const items: OrderItem[] = row.order_items?.length
+    ? row.order_items.map(orderItemFromRow)
+    : [
+        orderItemFromRow({
+          id: `${row.id}-item`,
+          product_id: row.product_id,
+          quantity: row.quantity,
+          price: total / (Number(row.quantity) || 1),
+          products: row.products,
+        }),
+      ]
+
+  return {
+    id: row.id,
+    userId: row.user_id,
+    userEmail: row.users?.email,
+    userName: row.users?.name,
     items,
     total,
-    paymentMethod,
-    paymentProof,
-    status: "pending",
-    createdAt: new Date().toISOString(),
+    currency,
+    couponId: row.coupon_id ?? undefined,
+    couponCode: row.coupon_code ?? undefined,
+    couponDiscount: Number(row.coupon_discount) || 0,
+    billingCountry: row.billing_country ?? undefined,
+    taxes: (row.order_tax_lines || []).map(taxLineFromRow),
+    taxAmount: Number(row.tax_amount) || 0,
+    paymentAmount,
+    paymentCurrency,
+    exchangeRate: row.exchange_rate != null ? Number(row.exchange_rate) : 1,
+    amountReceived,
+    balanceDue: balanceDue(status, paymentAmount, amountReceived, paymentCurrency),
+    overpaidAmount: Number(row.overpaid_amount) || 0,
+    overpaymentResolution: toOverpaymentResolution(row.overpayment_resolution),
+    payments: (row.order_payments || [])
+      .map(orderPaymentFromRow)
+      .sort((a: OrderPayment, b: OrderPayment) => a.createdAt.localeCompare(b.createdAt)),
+    paymentMethod: paymentMethodFromName(row.payment_method),
+    paymentMethodName: row.payment_providers?.display_name ?? paymentMethodLabel(paymentMethodFromName(row.payment_method)),
+    paymentGateway: toGatewayId(row.payment_providers?.gateway),
+    transactionReference: row.transaction_reference ?? undefined,
+    paymentProof: proof?.file_path ?? row.payment_proof_url ?? row.payment_proof ?? undefined,
+    duplicateProofOrderIds: proof?.duplicate_order_ids ?? [],
+    status,
+    createdAt: row.created_at,
+    notes: row.notes ?? undefined,
+    history: (row.order_status_history || [])
+      .map(statusChangeFromRow)
+      .sort((a: OrderStatusChange, b: OrderStatusChange) => a.createdAt.localeCompare(b.createdAt)),
   }
+}
+
+export const ORDER_SELECT = `
+  *,
+  users:user_id ( id, name, email ),
+  payment_providers:payment_method ( display_name, gateway ),
+  products:product_id ( * ),
+  order_items ( *, products:product_id ( * ), product_variants:variant_id ( * ) ),
+  payment_proofs ( file_path, duplicate_order_ids, created_at ),
+  order_payments ( * ),
+  order_tax_lines ( * ),
+  order_status_history ( * )
+`
 
-  orders.push(newOrder)
-  saveOrders(orders)
-  return newOrder
+interface OrderStore {
+  list(filter: { userId?: string; status?: OrderStatus }): Promise<Order[]>
+  get(id: string): Promise<Order | null>
+  couponUsage(couponId: string, userId: string): Promise<CouponUsage>
+  create(input: NewOrder): Promise<PlacedOrder>
+  changeStatus(id: string, from: OrderStatus, to: OrderStatus, update: StatusUpdate): Promise<void>
+  refund(order: Order, update: StatusUpdate): Promise<void>
+  recordPayment(order: Order, payment: ReceivedPayment, update: StatusUpdate): Promise<void>
+  submitTopUp(order: Order, topUp: TopUpProof): Promise<void>
+  proofUrl(order: Order): Promise<string | null>
+  expireReservations(): Promise<number>
 }
 
-export function getUserOrders(userId: string): Order[] {
-  const orders = getOrders()
+const supabaseStore: OrderStore = {
+  async list(filter) {
+    const run = (select: string) => {
+      let query = getSupabase().from(ORDERS_TABLE).select(select).order("created_at", { ascending: false })
+      if (filter.userId) query = query.eq("user_id", filter.userId)
+      if (filter.status) query = query.eq("status", filter.status)
+      return query
+    }
+
+    const { data, error } = await run(ORDER_SELECT)
+    if (!error) return (data || []).map(orderFromRow)
+
+    // Joins fail when foreign keys are missing; fall back to a plain select
+    console.error("[orders] Joined query failed, retrying without joins:", error.message)
+    const { data: simple, error: simpleError } = await run("*")
+    if (simpleError) throw simpleError
+    return (simple || []).map(orderFromRow)
+  },
+
+  async get(id) {
+    const { data, error } = await getSupabase().from(ORDERS_TABLE).select(ORDER_SELECT).eq("id", id).maybeSingle()
+    if (error) throw error
+    return data ? orderFromRow(data) : null
+  },
+
+  async couponUsage(couponId, userId) {
+    return fetchCouponUsage(getSupabase(), couponId, userId)
+  },
+
+  // Prices and stock are checked server-side by app/api/orders; only ids and quantities are sent
+  async create(input) {
+    const form = new FormData()
+    form.append(
+      "order",
+      JSON.stringify({
+        orderId: input.id,
+        paymentMethod: input.provider.key,
+        transactionReference: input.transactionReference,
+        couponCode: input.couponCode || undefined,
+        billingCountry: input.billingCountry,
+        items: input.lines.map((line) => ({
+          productId: line.product.id,
+          variantId: line.variantId ?? null,
+          quantity: line.quantity,
+        })),
+      }),
+    )
+    if (input.paymentProof) form.append("paymentProof", input.paymentProof)
+
+    const response = await fetch("/api/orders", { method: "POST", body: form })
+    const body = await response.json().catch(() => ({}))
+    if (!response.ok) throw new Error(body.error || `Order request failed (${response.status})`)
+    return { order: body.order as Order, redirectUrl: body.payment?.redirectUrl ?? null }
+  },
+
+  // change_order_status (scripts/032_server_side_writes.sql) only applies the change if the
+  // order is still in `from`, and writes the history row in the same transaction. Only the
+  // service role may run it, so the change goes through the API
+  async changeStatus(id, from, to, update) {
+    const response = await fetch(`/api/orders/${id}/status`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ fromStatus: from, toStatus: to, changedBy: update.changedBy, notes: update.notes }),
+    })
+    const body = await response.json().catch(() => ({}))
+    if (!response.ok) throw new Error(body.error || `Status change failed (${response.status})`)
+  },
+
+  // Gateway payments are refunded by the gateway itself, which needs its server-side credentials
+  async refund(order, update) {
+    if (isManualGateway(order.paymentGateway)) {
+      return this.changeStatus(order.id, order.status, "refunded", update)
+    }
+
+    const response = await fetch(`/api/orders/${order.id}/refund`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ fromStatus: order.status, changedBy: update.changedBy, notes: update.notes }),
+    })
+    const body = await response.json().catch(() => ({}))
+    if (!response.ok) throw new Error(body.error || `Refund request failed (${response.status})`)
+  },
+
+  // record_order_payment (scripts/020_partial_payments.sql) decides the new status, keeps
+  // any overpayment as store credit or a refund flag and writes the history row; like
+  // change_order_status it is only run by the API
+  async recordPayment(order, payment, update) {
+    const response = await fetch(`/api/orders/${order.id}/payments`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ...payment, changedBy: update.changedBy, notes: update.notes }),
+    })
+    const body = await response.json().catch(() => ({}))
+    if (!response.ok) throw new Error(body.error || `Recording the payment failed (${response.status})`)
+  },
+
+  // The proof goes to the private bucket through the API, like the one sent at checkout;
+  // the API takes the customer from the session cookie
+  async submitTopUp(order, topUp) {
+    const form = new FormData()
+    form.append("transactionReference", topUp.transactionReference)
+    form.append("paymentProof", topUp.paymentProof)
+
+    const response = await fetch(`/api/orders/${order.id}/top-up`, { method: "POST", body: form })
+    const body = await response.json().catch(() => ({}))
+    if (!response.ok) throw new Error(body.error || `Top-up request failed (${response.status})`)
+  },
+
+  // Proofs live in a private bucket; the API hands out a short-lived signed URL
+  async proofUrl(order) {
+    if (!order.paymentProof) return null
+    if (isInlineProof(order.paymentProof)) return order.paymentProof
+
+    const response = await fetch(`/api/orders/${order.id}/proof`)
+    const body = await response.json().catch(() => ({}))
+    if (!response.ok) throw new Error(body.error || `Proof request failed (${response.status})`)
+    return body.url as string
+  },
+
+  // release_expired_reservations (scripts/029_inventory.sql) cancels the orders, and the
+  // orders trigger gives their stock back
+  async expireReservations() {
+    const { data, error } = await getSupabase().rpc("release_expired_reservations")
+    if (error) throw error
+    return Number(data) || 0
+  },
+}
+
+function duplicateLocalProofs(orders: Order[], paymentProofHash: string): string[] {
   return orders
-    .filter((order) => order.userId === userId)
-    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+    .filter(
+      (order) =>
+        order.paymentProofHash && hammingDistance(order.paymentProofHash, paymentProofHash) <= PROOF_HASH_MAX_DISTANCE,
+    )
+    .map((order) => order.id)
 }
 
-export function getOrderById(orderId: string): Order | null {
-  const orders = getOrders()
-  return orders.find((order) => order.id === orderId) || null
+// Orders saved before status history, duplicate detection, the provider registry,
+// partial payments or taxes lack those fields
+function readLocalOrders(): Order[] {
+  return readLocal<Order[]>(ORDERS_KEY, [])
+    .map((order) => ({
+      ...order,
+      paymentMethodName: order.paymentMethodName ?? paymentMethodLabel(order.paymentMethod),
+      paymentGateway: order.paymentGateway ?? "manual",
+      currency: order.currency ?? STORE_CURRENCY,
+      paymentAmount: order.paymentAmount ?? order.total,
+      paymentCurrency: order.paymentCurrency ?? order.currency ?? STORE_CURRENCY,
+      exchangeRate: order.exchangeRate ?? 1,
+      couponDiscount: order.couponDiscount ?? 0,
+      taxes: order.taxes ?? [],
+      taxAmount: order.taxAmount ?? 0,
+      amountReceived: order.amountReceived ?? (isPaidStatus(order.status) ? order.paymentAmount ?? order.total : 0),
+      overpaidAmount: order.overpaidAmount ?? 0,
+      payments: order.payments ?? [],
+      duplicateProofOrderIds: order.duplicateProofOrderIds ?? [],
+      history: order.history ?? [],
+    }))
+    // Derived, so it is never trusted from storage
+    .map((order) => ({
+      ...order,
+      balanceDue: balanceDue(order.status, order.paymentAmount, order.amountReceived, order.paymentCurrency),
+    }))
 }
 
-export function updateOrderStatus(orderId: string, status: OrderStatus, notes?: string): boolean {
-  const orders = getOrders()
-  const order = orders.find((o) => o.id === orderId)
+const localStore: OrderStore = {
+  async list(filter) {
+    return readLocalOrders()
+      .filter((order) => !filter.userId || order.userId === filter.userId)
+      .filter((order) => !filter.status || order.status === filter.status)
+      .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+  },
+
+  async get(id) {
+    return readLocalOrders().find((order) => order.id === id) || null
+  },
+
+  async couponUsage(couponId, userId) {
+    const counted = readLocalOrders().filter((order) => order.status !== "cancelled")
+    const redeemed = counted.filter((order) => order.couponId === couponId)
+    return {
+      total: redeemed.length,
+      byUser: redeemed.filter((order) => order.userId === userId).length,
+      userOrders: counted.filter((order) => order.userId === userId).length,
+    }
+  },
+
+  async create(input) {
+    // Gateways call back to an API route, which only exists with the Supabase backend
+    if (!isManualGateway(input.provider.gateway)) {
+      throw new Error(`${input.provider.name} is not available without the Supabase backend`)
+    }
+    if (!input.paymentProof) throw new Error("Please upload a screenshot of your payment confirmation")
+    const paymentProof = input.paymentProof
+
+    const quote = await quoteCart(input.lines, {
+      couponCode: input.couponCode,
+      userId: input.user.id,
+      billingCountry: input.billingCountry,
+    })
+    const transactionReference = normalizeReference(input.transactionReference)
+    const referenceError = transactionReferenceError(input.provider.type, transactionReference)
+    if (referenceError) throw new Error(referenceError)
+    const amountError = providerAmountError(input.provider, quote.total)
+    if (amountError) throw new Error(amountError)
+    const payment = convertFromStoreCurrency(quote.total, input.provider.currency, await getExchangeRates())
+    if (readLocalOrders().some((order) => order.id === input.id)) {
+      throw new Error("This order has already been submitted")
+    }
+    if (readLocalOrders().some((order) => order.transactionReference === transactionReference)) {
+      throw new Error("This transaction reference was already used for another order")
+    }
+
+    const existing = readLocalOrders()
+    const paymentProofHash = await computePerceptualHash(paymentProof)
+    const duplicateProofOrderIds = duplicateLocalProofs(existing, paymentProofHash)
+
+    const id = input.id
+    const order: Order = {
+      id,
+      userId: input.user.id,
+      userEmail: input.user.email,
+      userName: input.user.name,
+      items: quote.lines.map((line, index) => ({
+        id: `${id}-${index}`,
+        productId: line.product.id,
+        variantId: line.variant?.id ?? null,
+        variantName: line.variant?.name,
+        licenseText: line.variant?.licenseText || undefined,
+        quantity: line.quantity,
+        price: line.unitPrice,
+        product: line.product,
+      })),
+      total: quote.total,
+      currency: STORE_CURRENCY,
+      couponId: quote.coupon?.id,
+      couponCode: quote.coupon?.code,
+      couponDiscount: quote.coupon?.discount ?? 0,
+      billingCountry: quote.billingCountry ?? undefined,
+      taxes: quote.taxes,
+      taxAmount: taxTotal(quote.taxes),
+      paymentAmount: payment.amount,
+      paymentCurrency: payment.currency,
+      exchangeRate: payment.rate,
+      amountReceived: 0,
+      balanceDue: payment.amount,
+      overpaidAmount: 0,
+      payments: [],
+      paymentMethod: input.provider.key,
+      paymentMethodName: input.provider.name,
+      paymentGateway: input.provider.gateway,
+      transactionReference,
+      paymentProof: await readFileAsDataUrl(paymentProof),
+      paymentProofHash,
+      duplicateProofOrderIds,
+      status: "pending",
+      createdAt: new Date().toISOString(),
+      history: [],
+    }
+
+    await reserveLocalStock(id, quote.lines)
+    writeLocal(ORDERS_KEY, [...existing, order])
+    return { order, redirectUrl: null }
+  },
+
+  async changeStatus(id, from, to, update) {
+    const orders = readLocalOrders()
+    const order = orders.find((o) => o.id === id)
+    if (!order) throw new Error(`Order ${id} not found`)
+    if (order.status !== from) throw new OrderTransitionError(order.status, to)
+
+    const now = new Date().toISOString()
+    order.status = to
+    if (update.notes) order.notes = update.notes
+    if (to === "confirmed" && !order.confirmedAt) {
+      order.confirmedAt = now
+    }
+    order.history.push({
+      id: newLocalId(),
+      orderId: id,
+      fromStatus: from,
+      toStatus: to,
+      changedBy: update.changedBy?.id ?? "",
+      changedByName: update.changedBy?.name ?? "Admin",
+      notes: update.notes || undefined,
+      createdAt: now,
+    })
+    writeLocal(ORDERS_KEY, orders)
+
+    if (to === "cancelled") await releaseLocalStock(id)
+    else if (isPaidStatus(to)) commitLocalStock(id)
+  },
+
+  async refund(order, update) {
+    return this.changeStatus(order.id, order.status, "refunded", update)
+  },
+
+  async recordPayment(input, payment, update) {
+    const orders = readLocalOrders()
+    const order = orders.find((o) => o.id === input.id)
+    if (!order) throw new Error(`Order ${input.id} not found`)
+    if (!AWAITING_PAYMENT_STATUSES.includes(order.status)) {
+      throw new Error(`Order ${input.id} is no longer awaiting payment`)
+    }
+
+    const now = new Date().toISOString()
+    const from = order.status
+    const received = order.amountReceived + payment.amount
+    const overpaid = roundToCurrency(Math.max(received - order.paymentAmount, 0), order.paymentCurrency)
+    order.status = received >= order.paymentAmount ? "confirmed" : "partially_paid"
+    order.amountReceived = received
+    order.overpaidAmount = overpaid
+    order.overpaymentResolution = overpaid > 0 ? payment.overpayment : undefined
+    if (update.notes) order.notes = update.notes
+    if (order.status === "confirmed" && !order.confirmedAt) order.confirmedAt = now
+    order.payments.push({
+      id: newLocalId(),
+      orderId: order.id,
+      amount: payment.amount,
+      currency: order.paymentCurrency,
+      recordedBy: update.changedBy?.id ?? "",
+      recordedByName: update.changedBy?.name ?? "Admin",
+      notes: update.notes || undefined,
+      createdAt: now,
+    })
+    order.history.push({
+      id: newLocalId(),
+      orderId: order.id,
+      fromStatus: from,
+      toStatus: order.status,
+      changedBy: update.changedBy?.id ?? "",
+      changedByName: update.changedBy?.name ?? "Admin",
+      notes: update.notes || `Received ${payment.amount} ${order.paymentCurrency}`,
+      createdAt: now,
+    })
+    writeLocal(ORDERS_KEY, orders)
+    if (order.status === "confirmed") commitLocalStock(order.id)
 
-  if (!order) return false
+    if (overpaid > 0 && payment.overpayment === "store_credit") {
+      await addStoreCredit({
+        userId: order.userId,
+        amount: roundToCurrency(overpaid / (order.exchangeRate || 1), order.currency),
+        currency: order.currency,
+        orderId: order.id,
+        reason: "Overpayment",
+      })
+    }
+  },
 
-  order.status = status
-  if (notes) order.notes = notes
-  if (status === "confirmed" && !order.confirmedAt) {
-    order.confirmedAt = new Date().toISOString()
+  async submitTopUp(input, topUp) {
+    const orders = readLocalOrders()
+    const order = orders.find((o) => o.id === input.id && o.userId === topUp.userId)
+    if (!order || order.status !== "partially_paid") {
+      throw new Error(`Order ${input.id} is not waiting for a top-up`)
+    }
+
+    const reference = normalizeReference(topUp.transactionReference)
+    const paymentProofHash = await computePerceptualHash(topUp.paymentProof)
+    order.paymentProof = await readFileAsDataUrl(topUp.paymentProof)
+    order.paymentProofHash = paymentProofHash
+    order.duplicateProofOrderIds = duplicateLocalProofs(
+      orders.filter((o) => o.id !== order.id),
+      paymentProofHash,
+    )
+    order.status = "pending"
+    order.history.push({
+      id: newLocalId(),
+      orderId: order.id,
+      fromStatus: "partially_paid",
+      toStatus: "pending",
+      changedBy: topUp.userId,
+      changedByName: "Customer",
+      notes: reference ? `Top-up proof submitted (reference ${reference})` : "Top-up proof submitted",
+      createdAt: new Date().toISOString(),
+    })
+    writeLocal(ORDERS_KEY, orders)
+  },
+
+  async proofUrl(order) {
+    return order.paymentProof ?? null
+  },
+
+  // Local orders are manual payments, whose reservations never expire
+  async expireReservations() {
+    return 0
+  },
+}
+
+function store(): OrderStore {
+  return pickBackend({ supabase: supabaseStore, local: localStore })
+}
+
+/**
+ * Id for a new order, chosen at checkout so payments can reference it before it is placed.
+ */
+export function newOrderId(): string {
+  return crypto.randomUUID()
+}
+
+/**
+ * Price a cart with current products, sales and discounts, the same way the order
+ * API will. Use it to show the amount the customer has to pay. With a `couponCode`
+ * the coupon is checked for `userId` and taken off; `CouponError` explains why a
+ * coupon does not apply. With a `billingCountry` the taxes for it are added last.
+ */
+export async function quoteCart(
+  lines: OrderLine[],
+  options: { couponCode?: string; userId?: string; billingCountry?: string } = {},
+): Promise<OrderQuote> {
+  const cart = lines.map((line) => ({ productId: line.product.id, variantId: line.variantId, quantity: line.quantity }))
+  const [products, sales, discounts] = await Promise.all([
+    getProductsByIds(cart.map((line) => line.productId)),
+    getSales(),
+    getDiscounts(),
+  ])
+  let quote = quoteOrder(cart, products, sales, discounts)
+
+  if (options.couponCode) {
+    const coupon = await getCouponByCode(options.couponCode)
+    if (!coupon) throw new CouponError("This coupon code does not exist")
+    const usage = options.userId
+      ? await store().couponUsage(coupon.id, options.userId)
+      : { total: 0, byUser: 0, userOrders: 0 }
+    quote = applyCoupon(quote, coupon, usage)
   }
 
-  saveOrders(orders)
-  return true
+  return options.billingCountry !== undefined ? applyTax(quote, await getTaxRules(), options.billingCountry) : quote
 }
 
-export function getPendingOrders(): Order[] {
-  const orders = getOrders()
-  return orders
-    .filter((order) => order.status === "pending")
-    .sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+/**
+ * Place a single order for all cart lines. For gateway payments the customer still
+ * has to pay on `redirectUrl`; the order stays pending until the gateway's webhook.
+ */
+export function createOrder(input: NewOrder): Promise<PlacedOrder> {
+  return store().create(input)
+}
+
+export function getUserOrders(userId: string): Promise<Order[]> {
+  return store().list({ userId })
+}
+
+export function getOrderById(orderId: string): Promise<Order | null> {
+  return store().get(orderId)
+}
+
+/**
+ * Move an order to `status`, recording who did it in the status history.
+ * Throws `OrderTransitionError` if the transition graph does not allow it. Refunds of
+ * gateway payments go through the gateway before the status changes.
+ */
+export async function updateOrderStatus(orderId: string, status: OrderStatus, update: StatusUpdate = {}): Promise<void> {
+  const order = await store().get(orderId)
+  if (!order) throw new Error(`Order ${orderId} not found`)
+  if (!canTransition(order.status, status)) throw new OrderTransitionError(order.status, status)
+  if (status === "refunded") return store().refund(order, update)
+  return store().changeStatus(orderId, order.status, status, update)
+}
+
+/**
+ * Record money received for a manual payment under review. The order becomes
+ * confirmed once the full `paymentAmount` has arrived and `partially_paid` until then;
+ * anything received beyond it is kept as store credit or flagged for refund.
+ */
+export async function recordOrderPayment(
+  orderId: string,
+  payment: ReceivedPayment,
+  update: StatusUpdate = {},
+): Promise<void> {
+  if (!(payment.amount > 0)) throw new Error("Enter the amount you received")
+  const order = await store().get(orderId)
+  if (!order) throw new Error(`Order ${orderId} not found`)
+  if (!canRecordPayment(order)) throw new Error(`Order ${orderId} is not awaiting a manual payment`)
+  return store().recordPayment(order, payment, update)
+}
+
+/** Send another payment proof for a partially paid order, which puts it back up for review. */
+export async function submitTopUpProof(orderId: string, topUp: TopUpProof): Promise<void> {
+  const order = await store().get(orderId)
+  if (!order) throw new Error(`Order ${orderId} not found`)
+  if (order.status !== "partially_paid") throw new OrderTransitionError(order.status, "pending")
+  return store().submitTopUp(order, topUp)
+}
+
+/** URL an admin can open to view the order's payment proof, or null if none was uploaded. */
+export function getPaymentProofUrl(order: Order): Promise<string | null> {
+  return store().proofUrl(order)
+}
+
+export function getPendingOrders(): Promise<Order[]> {
+  return store().list({ status: "pending" })
+}
+
+export function getAllOrdersForAdmin(): Promise<Order[]> {
+  return store().list({})
+}
+
+/**
+ * Cancel pending orders whose stock reservation expired (unpaid gateway checkouts), which
+ * gives their stock back. Returns how many orders were cancelled.
+ */
+export function releaseExpiredReservations(): Promise<number> {
+  return store().expireReservations()
 }
 
-export function getAllOrdersForAdmin(): Order[] {
-  const orders = getOrders()
-  return orders.sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+/** Whether a paid order bought the product; with a `variantId`, that variant of it. */
+export function hasPurchased(orders: Order[], productId: string, variantId?: string | null): boolean {
+  return orders.some(
+    (order) =>
+      isPaidStatus(order.status) &&
+      order.items.some((item) => item.productId === productId && (!variantId || item.variantId === variantId)),
+  )
 }
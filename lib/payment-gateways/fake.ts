@@ -0,0 +1,137 @@
+import { createHmac, randomBytes, timingSafeEqual } from "node:crypto"
+import { z } from "zod"
+import {
+  PaymentGatewayError,
+  type PaymentEvent,
+  type PaymentEventType,
+  type PaymentGateway,
+} from "@/lib/payment-gateways/types"
+
+/**
+ * Stand-in for a hosted payment gateway so the whole flow (redirect, signed webhook,
+ * automatic confirmation, refund) can be exercised locally. The "hosted page" is
+ * `/payments/fake`, which asks `/api/payments/fake/simulate` to send a signed webhook
+ * the same way a real gateway would. Never enable a fake provider in production.
+ */
+
+export const FAKE_SIGNATURE_HEADER = "x-fake-signature"
+
+const webhookIdSchema = z.union([z.string().min(1), z.number()]).transform(String)
+
+const webhookEventSchema = z.object({
+  id: z.string(),
+  type: z.enum(["payment.succeeded", "payment.failed", "payment.refunded"]),
+  data: z.object({
+    order_id: webhookIdSchema,
+    payment_id: webhookIdSchema,
+    amount: z.unknown(),
+    currency: z.unknown(),
+  }),
+})
+
+// Webhooks older than this are rejected so a captured request cannot be replayed later
+const SIGNATURE_TOLERANCE_SECONDS = 5 * 60
+const DEVELOPMENT_SECRET = "fake-gateway-development-secret"
+
+// Any customer can ask /api/payments/fake/simulate to confirm their order, so no
+// setting turns this on in production
+export function isFakeGatewayEnabled(): boolean {
+  return process.env.NODE_ENV !== "production"
+}
+
+function webhookSecret(): string {
+  return process.env.FAKE_PAYMENTS_WEBHOOK_SECRET || DEVELOPMENT_SECRET
+}
+
+function fakeId(prefix: string): string {
+  return `${prefix}${randomBytes(10).toString("hex").toUpperCase()}`
+}
+
+function hmac(timestamp: number, body: string): string {
+  return createHmac("sha256", webhookSecret()).update(`${timestamp}.${body}`).digest("hex")
+}
+
+/** Value of the signature header for a webhook body: `t=<unix seconds>,v1=<hex HMAC-SHA256>`. */
+export function signFakePayload(body: string, timestamp = Math.floor(Date.now() / 1000)): string {
+  return `t=${timestamp},v1=${hmac(timestamp, body)}`
+}
+
+/** Webhook body for a simulated payment outcome. */
+export function fakeEventBody(
+  type: PaymentEventType,
+  payment: { orderId: string; paymentId: string; amount: number; currency: string },
+): string {
+  return JSON.stringify({
+    id: fakeId("EVT"),
+    type,
+    data: {
+      order_id: payment.orderId,
+      payment_id: payment.paymentId,
+      amount: payment.amount,
+      currency: payment.currency,
+    },
+  })
+}
+
+function parseSignature(header: string | null): { timestamp: number; signature: string } | null {
+  if (!header) return null
+  const parts = Object.fromEntries(header.split(",").map((part) => part.trim().split("=", 2)))
+  const timestamp = Number(parts.t)
+  if (!Number.isInteger(timestamp) || !/^[0-9a-f]{64}$/.test(parts.v1 ?? "")) return null
+  return { timestamp, signature: parts.v1 }
+}
+
+export const fakeGateway: PaymentGateway = {
+  id: "fake",
+  name: "Fake gateway",
+  webhooks: true,
+
+  async createPayment(request) {
+    const paymentId = fakeId("FAKEPAY")
+    const params = new URLSearchParams({
+      payment: paymentId,
+      order: request.orderId,
+      amount: String(request.amount),
+      currency: request.currency,
+      description: request.description,
+      return: request.returnUrl,
+    })
+    return { paymentId, redirectUrl: `/payments/fake?${params}` }
+  },
+
+  async verifyCallback({ headers, body }) {
+    const header = parseSignature(headers.get(FAKE_SIGNATURE_HEADER))
+    if (!header) throw new PaymentGatewayError("Missing or malformed signature")
+    if (Math.abs(Date.now() / 1000 - header.timestamp) > SIGNATURE_TOLERANCE_SECONDS) {
+      throw new PaymentGatewayError("Signature timestamp is too old")
+    }
+
+    const expected = Buffer.from(hmac(header.timestamp, body), "hex")
+    const received = Buffer.from(header.signature, "hex")
+    if (expected.length !== received.length || !timingSafeEqual(expected, received)) throw new PaymentGatewayError("Signature does not match")
+
+    let payload: unknown
+    try {
+      payload = JSON.parse(body)
+    } catch {
+      throw new PaymentGatewayError("Webhook body is not JSON")
+    }
+    const parsed = webhookEventSchema.safeParse(payload)
+    if (!parsed.success) throw new PaymentGatewayError("Webhook body is not a payment event")
+    const { id, type, data } = parsed.data
+
+    const event: PaymentEvent = {
+      id,
+      type,
+      orderId: data.order_id,
+      paymentId: data.payment_id,
+      amount: Number(data.amount) || 0,
+      currency: String(data.currency ?? ""),
+    }
+    return event
+  },
+
+  async refund() {
+    return { refundId: fakeId("FAKERF") }
+  },
+}
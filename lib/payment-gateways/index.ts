@@ -0,0 +1,25 @@
+import { fakeGateway, isFakeGatewayEnabled } from "@/lib/payment-gateways/fake"
+import { manualGateway } from "@/lib/payment-gateways/manual"
+import type { GatewayId, PaymentGateway } from "@/lib/payment-gateways/types"
+
+/**
+ * Server-side registry of payment gateways. Route handlers only: gateways hold
+ * signing secrets. Browser code imports `@/lib/payment-gateways/types` instead.
+ *
+ * A real gateway is added by implementing `PaymentGateway`, registering it here and
+ * allowing its id in `payment_providers.gateway` (scripts/018_payment_gateways.sql).
+ */
+
+export * from "@/lib/payment-gateways/types"
+
+const GATEWAYS: Record<GatewayId, PaymentGateway> = {
+  manual: manualGateway,
+  fake: fakeGateway,
+}
+
+/** The gateway with this id, or null if it is unknown or disabled in this environment. */
+export function getPaymentGateway(id: string): PaymentGateway | null {
+  if (!Object.hasOwn(GATEWAYS, id)) return null
+  if (id === "fake" && !isFakeGatewayEnabled()) return null
+  return GATEWAYS[id as GatewayId]
+}
@@ -0,0 +1,24 @@
+import { PaymentGatewayError, type PaymentGateway } from "@/lib/payment-gateways/types"
+
+/**
+ * The original flow: the customer pays to the provider's QR code or account, enters
+ * the transaction reference and uploads a screenshot, and an admin confirms the order.
+ * Nothing is created up front and refunds are sent back by hand.
+ */
+export const manualGateway: PaymentGateway = {
+  id: "manual",
+  name: "Manual",
+  webhooks: false,
+
+  async createPayment() {
+    return { paymentId: null, redirectUrl: null }
+  },
+
+  async verifyCallback() {
+    throw new PaymentGatewayError("Manual payments have no callbacks")
+  },
+
+  async refund() {
+    return { refundId: null }
+  },
+}
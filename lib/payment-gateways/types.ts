@@ -0,0 +1,90 @@
+/**
+ * How a payment provider collects money. Every row of `payment_providers` names a
+ * gateway: `manual` is the QR code + screenshot flow reviewed by an admin, the others
+ * take the payment themselves and report back through
+ * `/api/payments/[gateway]/webhook`, which confirms the order without an admin.
+ *
+ * This file only holds types and is safe to import in the browser; the gateway
+ * implementations live next to it and run in route handlers only.
+ */
+
+export type GatewayId = "manual" | "fake"
+
+export const GATEWAY_LABELS: Record<GatewayId, string> = {
+  manual: "Manual (QR code + screenshot)",
+  fake: "Fake gateway (development)",
+}
+
+export const GATEWAY_IDS = Object.keys(GATEWAY_LABELS) as GatewayId[]
+
+export function toGatewayId(value: unknown): GatewayId {
+  return GATEWAY_IDS.includes(value as GatewayId) ? (value as GatewayId) : "manual"
+}
+
+export function isManualGateway(gateway: GatewayId): boolean {
+  return gateway === "manual"
+}
+
+export interface GatewayPaymentRequest {
+  orderId: string
+  amount: number
+  currency: string
+  description: string
+  /** Absolute URL the customer comes back to once the gateway is done */
+  returnUrl: string
+}
+
+export interface PaymentSession {
+  /** The gateway's id for the payment, stored as the order's transaction reference */
+  paymentId: string | null
+  /** Hosted payment page to send the customer to, if the gateway has one */
+  redirectUrl: string | null
+}
+
+/** Raw webhook request, before the body is parsed, so the signature can be checked against it. */
+export interface GatewayCallback {
+  headers: Headers
+  body: string
+}
+
+export type PaymentEventType = "payment.succeeded" | "payment.failed" | "payment.refunded"
+
+export interface PaymentEvent {
+  /** Unique per delivery attempt group; gateways resend the same id on retries */
+  id: string
+  type: PaymentEventType
+  orderId: string
+  paymentId: string
+  amount: number
+  currency: string
+}
+
+export interface GatewayRefundRequest {
+  orderId: string
+  paymentId: string | null
+  amount: number
+  currency: string
+}
+
+export interface RefundResult {
+  /** The gateway's id for the refund, or null when money is returned by hand */
+  refundId: string | null
+}
+
+export interface PaymentGateway {
+  id: GatewayId
+  name: string
+  /** Whether the gateway reports payments through the webhook route */
+  webhooks: boolean
+  createPayment(request: GatewayPaymentRequest): Promise<PaymentSession>
+  /** Check the callback's signature and read the event from it. Throws `PaymentGatewayError` if it is not genuine. */
+  verifyCallback(callback: GatewayCallback): Promise<PaymentEvent>
+  refund(request: GatewayRefundRequest): Promise<RefundResult>
+}
+
+export class PaymentGatewayError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "PaymentGatewayError"
+  }
+}
@@ -0,0 +1,23 @@
+import sharp from "sharp"
+import { differenceHash, HASH_HEIGHT, HASH_WIDTH, ProofValidationError } from "@/lib/payment-proofs"
+
+/**
+ * Perceptual hash of an uploaded proof, decoded on the server so that customers
+ * cannot choose it. Server only: the browser computes its own for the local backend
+ * (computePerceptualHash in lib/payment-proofs.ts).
+ */
+export async function proofPerceptualHash(bytes: Uint8Array): Promise<string> {
+  let pixels: Buffer
+  try {
+    // Transparent screenshots are painted on white, like prepareProofFile does
+    pixels = await sharp(bytes, { animated: false })
+      .flatten({ background: "#fff" })
+      .resize(HASH_WIDTH, HASH_HEIGHT, { fit: "fill" })
+      .greyscale()
+      .raw()
+      .toBuffer()
+  } catch {
+    throw new ProofValidationError("The payment proof could not be read as an image")
+  }
+  return differenceHash(pixels)
+}
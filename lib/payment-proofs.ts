@@ -0,0 +1,192 @@
+import { detectImageType, stripImageMetadata, type ImageType } from "@/lib/image-metadata"
+
+/**
+ * Payment proof screenshots. For the Supabase backend they are uploaded by
+ * app/api/orders to a private storage bucket and recorded in `payment_proofs`;
+ * admins view them through short-lived signed URLs. The local backend keeps
+ * them inline as data URLs.
+ */
+
+export const PAYMENT_PROOFS_BUCKET = "payment-proofs"
+export const PAYMENT_PROOFS_TABLE = "payment_proofs"
+
+/** How long a signed proof URL stays valid, in seconds. */
+export const PROOF_URL_TTL_SECONDS = 60
+
+/** Largest proof the API and the storage bucket accept (after compression in the browser). */
+export const MAX_PROOF_BYTES = 5 * 1024 * 1024
+/** Largest original file the browser will try to compress. */
+export const MAX_PROOF_INPUT_BYTES = 25 * 1024 * 1024
+
+// Phone screenshots are downscaled to this longest edge and re-encoded as JPEG,
+// which also drops all metadata since a canvas never carries EXIF over
+const MAX_PROOF_DIMENSION = 1600
+const PROOF_JPEG_QUALITY = 0.82
+
+/**
+ * Proofs whose perceptual hashes differ in at most this many of their 64 bits are
+ * treated as the same screenshot (survives re-compression, resizing and small crops).
+ */
+export const PROOF_HASH_MAX_DISTANCE = 5
+
+// Difference hash: the image is shrunk to 9x8 greyscale pixels and each bit records
+// whether a pixel is brighter than its right-hand neighbour
+export const HASH_WIDTH = 9
+export const HASH_HEIGHT = 8
+
+const EXTENSIONS: Record<ImageType, string> = {
+  "image/jpeg": "jpg",
+  "image/png": "png",
+  "image/webp": "webp",
+  "image/gif": "gif",
+}
+
+/** Raised when an uploaded proof is too large or not a supported image. */
+export class ProofValidationError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ProofValidationError"
+  }
+}
+
+/** Objects are grouped per customer; the file name is random so paths cannot be guessed. */
+export function proofStoragePath(userId: string, type: ImageType): string {
+  return `${userId}/${crypto.randomUUID()}.${EXTENSIONS[type]}`
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${Math.round(bytes / (1024 * 1024))} MB`
+}
+
+/**
+ * Server-side check of an uploaded proof: size limit and real image format from the
+ * magic bytes, then metadata stripping in case the client skipped compression.
+ */
+export function sanitizeProof(bytes: Uint8Array<ArrayBuffer>): { bytes: Uint8Array<ArrayBuffer>; type: ImageType } {
+  if (bytes.length === 0) throw new ProofValidationError("The payment proof is empty")
+  if (bytes.length > MAX_PROOF_BYTES) {
+    throw new ProofValidationError(`Payment proofs must be smaller than ${formatMegabytes(MAX_PROOF_BYTES)}`)
+  }
+
+  const type = detectImageType(bytes)
+  if (!type) throw new ProofValidationError("Payment proofs must be JPEG, PNG, WebP or GIF images")
+
+  return { bytes: stripImageMetadata(bytes, type), type }
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, type: string, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Image encoding failed"))), type, quality)
+  })
+}
+
+/**
+ * Browser-side preparation before upload: validate the file, then downscale and
+ * re-encode it so large screenshots upload quickly and carry no EXIF/GPS data.
+ */
+export async function prepareProofFile(file: File): Promise<File> {
+  if (file.size > MAX_PROOF_INPUT_BYTES) {
+    throw new ProofValidationError(`Please choose an image smaller than ${formatMegabytes(MAX_PROOF_INPUT_BYTES)}`)
+  }
+
+  const header = new Uint8Array(await file.slice(0, 16).arrayBuffer())
+  if (!detectImageType(header)) {
+    throw new ProofValidationError("Please upload a JPEG, PNG, WebP or GIF screenshot")
+  }
+
+  let bitmap: ImageBitmap
+  try {
+    bitmap = await createImageBitmap(file)
+  } catch {
+    throw new ProofValidationError("This image could not be read. Please take a new screenshot.")
+  }
+
+  const scale = Math.min(1, MAX_PROOF_DIMENSION / Math.max(bitmap.width, bitmap.height))
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.round(bitmap.width * scale)
+  canvas.height = Math.round(bitmap.height * scale)
+
+  const context = canvas.getContext("2d")
+  if (!context) throw new ProofValidationError("Your browser cannot process images")
+  // JPEG has no transparency; paint a white background for PNG screenshots with alpha
+  context.fillStyle = "#fff"
+  context.fillRect(0, 0, canvas.width, canvas.height)
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+  bitmap.close()
+
+  const blob = await canvasToBlob(canvas, "image/jpeg", PROOF_JPEG_QUALITY)
+  if (blob.size > MAX_PROOF_BYTES) {
+    throw new ProofValidationError(`Payment proofs must be smaller than ${formatMegabytes(MAX_PROOF_BYTES)}`)
+  }
+
+  const name = file.name.replace(/\.[^.]*$/, "") || "payment-proof"
+  return new File([blob], `${name}.jpg`, { type: "image/jpeg" })
+}
+
+/** True for proofs that can be shown directly (data URLs and absolute URLs) rather than storage paths. */
+export function isInlineProof(proof: string): boolean {
+  return proof.startsWith("data:") || /^https?:\/\//.test(proof) || proof.startsWith("/")
+}
+
+/**
+ * Difference hash of a HASH_WIDTH x HASH_HEIGHT greyscale image, row by row, as 16 hex
+ * characters. Shared by the browser (local backend) and lib/payment-proof-hash.ts.
+ */
+export function differenceHash(luminance: ArrayLike<number>): string {
+  let hash = ""
+  for (let y = 0; y < HASH_HEIGHT; y++) {
+    let byte = 0
+    for (let x = 0; x < HASH_WIDTH - 1; x++) {
+      const i = y * HASH_WIDTH + x
+      byte = (byte << 1) | (luminance[i] > luminance[i + 1] ? 1 : 0)
+    }
+    hash += byte.toString(16).padStart(2, "0")
+  }
+  return hash
+}
+
+/** 64-bit perceptual hash of an image as 16 hex characters. Browser only. */
+export async function computePerceptualHash(image: Blob): Promise<string> {
+  const bitmap = await createImageBitmap(image)
+  const canvas = document.createElement("canvas")
+  canvas.width = HASH_WIDTH
+  canvas.height = HASH_HEIGHT
+  const context = canvas.getContext("2d")
+  if (!context) throw new Error("Your browser cannot process images")
+  context.drawImage(bitmap, 0, 0, HASH_WIDTH, HASH_HEIGHT)
+  bitmap.close()
+
+  const { data } = context.getImageData(0, 0, HASH_WIDTH, HASH_HEIGHT)
+  const luminance = Array.from({ length: HASH_WIDTH * HASH_HEIGHT }, (_, pixel) => {
+    const i = pixel * 4
+    return data[i] * 0.299 + data[i + 1] * 0.587 + data[i + 2] * 0.114
+  })
+  return differenceHash(luminance)
+}
+
+/** Number of differing bits between two perceptual hashes. */
+export function hammingDistance(a: string, b: string): number {
+  let distance = 0
+  for (let i = 0; i < a.length; i += 2) {
+    let diff = parseInt(a.slice(i, i + 2), 16) ^ parseInt(b.slice(i, i + 2), 16)
+    while (diff) {
+      distance += diff & 1
+      diff >>= 1
+    }
+  }
+  return distance
+}
+
+export async function sha256Hex(bytes: BufferSource): Promise<string> {
+  const digest = new Uint8Array(await crypto.subtle.digest("SHA-256", bytes))
+  return Array.from(digest, (byte) => byte.toString(16).padStart(2, "0")).join("")
+}
+
+export function readFileAsDataUrl(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(reader.result as string)
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
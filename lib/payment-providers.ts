@@ -0,0 +1,314 @@
+import { z } from "zod"
+import { getSupabase, newLocalId, pickBackend, readLocal, writeLocal } from "@/lib/backend"
+import { formatMoney } from "@/lib/currency"
+import { GATEWAY_IDS, toGatewayId, type GatewayId } from "@/lib/payment-gateways/types"
+
+/**
+ * Payment methods offered at checkout. Each provider is a row of `payment_providers`;
+ * its `type` selects built-in behaviour (dynamic UPI QR, transaction reference format)
+ * so new methods such as USDT-TRC20 or a bank transfer are configuration only. Its
+ * `gateway` decides who collects the money (lib/payment-gateways).
+ */
+
+/** Key of a payment provider, as stored in `orders.payment_method`. */
+export type PaymentMethod = string
+
+export type PaymentProviderType = "upi" | "binance" | "paypal" | "crypto" | "bank_transfer" | "other"
+
+export interface PaymentProvider {
+  id: string
+  key: PaymentMethod
+  type: PaymentProviderType
+  gateway: GatewayId
+  name: string
+  instructions: string
+  qrCode: string
+  accountId: string
+  currency: string
+  minAmount: number | null
+  maxAmount: number | null
+  sortOrder: number
+  active: boolean
+  createdAt: string
+}
+
+export type PaymentProviderInput = Omit<PaymentProvider, "id" | "createdAt">
+export type PaymentProviderUpdate = Partial<Omit<PaymentProviderInput, "key">>
+
+/** A `PaymentProviderInput` as sent to /api/payment-providers. */
+export const paymentProviderInputSchema = z.object({
+  key: z.string().regex(/^[a-z0-9][a-z0-9_-]*$/, "Keys are lower-case letters, digits, dashes or underscores").max(64),
+  type: z.enum(["upi", "binance", "paypal", "crypto", "bank_transfer", "other"]),
+  gateway: z.enum(GATEWAY_IDS as [GatewayId, ...GatewayId[]]),
+  name: z.string().trim().min(1, "Give the payment method a name").max(200),
+  instructions: z.string().max(2000),
+  qrCode: z.string().max(2000),
+  accountId: z.string().max(500),
+  currency: z.string().trim().min(1).max(10),
+  minAmount: z.number().min(0).nullable(),
+  maxAmount: z.number().min(0).nullable(),
+  sortOrder: z.number().int(),
+  active: z.boolean(),
+})
+
+export const paymentProviderUpdateSchema = paymentProviderInputSchema.omit({ key: true }).partial()
+
+export const PAYMENT_PROVIDERS_TABLE = "payment_providers"
+export const PAYMENT_PROVIDERS_KEY = "crime_zone_payment_providers"
+// Written by the admin settings page before the provider registry existed
+const LEGACY_PAYMENT_METHODS_KEY = "crime_zone_payment_methods"
+
+export const PROVIDER_TYPE_LABELS: Record<PaymentProviderType, string> = {
+  upi: "UPI",
+  binance: "Binance Pay",
+  paypal: "PayPal",
+  crypto: "Crypto wallet",
+  bank_transfer: "Bank transfer",
+  other: "Other",
+}
+
+export const DEFAULT_PAYMENT_PROVIDERS: PaymentProviderInput[] = [
+  {
+    key: "upi",
+    type: "upi",
+    gateway: "manual",
+    name: "PhonePe UPI",
+    instructions: "Scan & Pay Using PhonePe App",
+    qrCode: "/phonepe-qr.jpg",
+    accountId: "",
+    currency: "INR",
+    minAmount: null,
+    maxAmount: null,
+    sortOrder: 10,
+    active: true,
+  },
+  {
+    key: "binance",
+    type: "binance",
+    gateway: "manual",
+    name: "Binance Pay",
+    instructions: "Scan with Binance App to pay",
+    qrCode: "/binance-qr-new.jpg",
+    accountId: "User-4a7ec",
+    currency: "USDT",
+    minAmount: null,
+    maxAmount: null,
+    sortOrder: 20,
+    active: true,
+  },
+  {
+    key: "paypal",
+    type: "paypal",
+    gateway: "manual",
+    name: "PayPal",
+    instructions: "Pay with PayPal",
+    qrCode: "/paypal-qr.jpg",
+    accountId: "satyabanpain0@gmail.com",
+    currency: "USD",
+    minAmount: null,
+    maxAmount: null,
+    sortOrder: 30,
+    active: true,
+  },
+]
+
+const PROVIDER_TYPES = Object.keys(PROVIDER_TYPE_LABELS) as PaymentProviderType[]
+
+/** Turn a display name into a provider key: "USDT (TRC20)" -> "usdt-trc20". */
+export function providerKeyFromName(name: string): PaymentMethod {
+  return name
+    .toLowerCase()
+    .replace(/[^a-z0-9]+/g, "-")
+    .replace(/^-+|-+$/g, "")
+}
+
+/**
+ * Older orders stored the method's display name ("PhonePe UPI", "Binance Pay", ...);
+ * map those to the default provider keys and pass anything else through.
+ */
+export function paymentMethodFromName(name: string | null | undefined): PaymentMethod | null {
+  if (!name) return null
+  const lower = name.toLowerCase()
+  if (lower.includes("upi") || lower.includes("phonepe")) return "upi"
+  if (lower.includes("binance")) return "binance"
+  if (lower.includes("paypal")) return "paypal"
+  return name
+}
+
+/** Name for a provider key when the provider row itself is not at hand. */
+export function paymentMethodLabel(method: PaymentMethod | null | undefined): string {
+  if (!method) return "n/a"
+  return DEFAULT_PAYMENT_PROVIDERS.find((provider) => provider.key === method)?.name ?? method
+}
+
+/** Error message when the provider does not accept this amount (in the store currency), or null. */
+export function providerAmountError(provider: PaymentProvider, amount: number): string | null {
+  if (provider.minAmount !== null && amount < provider.minAmount) {
+    return `${provider.name} is available for orders of ${formatMoney(provider.minAmount)} or more`
+  }
+  if (provider.maxAmount !== null && amount > provider.maxAmount) {
+    return `${provider.name} is available for orders up to ${formatMoney(provider.maxAmount)}`
+  }
+  return null
+}
+
+// Row mapping
+
+function toAmount(value: unknown): number | null {
+  return value === null || value === undefined || value === "" ? null : Number(value)
+}
+
+export function providerFromRow(row: any): PaymentProvider {
+  return {
+    id: row.id,
+    key: row.key,
+    type: PROVIDER_TYPES.includes(row.type) ? row.type : "other",
+    gateway: toGatewayId(row.gateway),
+    name: row.display_name ?? row.key,
+    instructions: row.instructions ?? "",
+    qrCode: row.qr_code_url ?? "",
+    accountId: row.account_identifier ?? "",
+    currency: row.currency ?? "USD",
+    minAmount: toAmount(row.min_amount),
+    maxAmount: toAmount(row.max_amount),
+    sortOrder: Number(row.sort_order) || 0,
+    active: Boolean(row.active),
+    createdAt: row.created_at ?? new Date().toISOString(),
+  }
+}
+
+export function providerToRow(update: Partial<PaymentProviderInput>) {
+  const row: Record<string, unknown> = {}
+  if (update.key !== undefined) row.key = update.key
+  if (update.type !== undefined) row.type = update.type
+  if (update.gateway !== undefined) row.gateway = update.gateway
+  if (update.name !== undefined) row.display_name = update.name
+  if (update.instructions !== undefined) row.instructions = update.instructions
+  if (update.qrCode !== undefined) row.qr_code_url = update.qrCode
+  if (update.accountId !== undefined) row.account_identifier = update.accountId
+  if (update.currency !== undefined) row.currency = update.currency
+  if (update.minAmount !== undefined) row.min_amount = update.minAmount
+  if (update.maxAmount !== undefined) row.max_amount = update.maxAmount
+  if (update.sortOrder !== undefined) row.sort_order = update.sortOrder
+  if (update.active !== undefined) row.active = update.active
+  return row
+}
+
+function byDisplayOrder(a: PaymentProvider, b: PaymentProvider): number {
+  return a.sortOrder - b.sortOrder || a.name.localeCompare(b.name)
+}
+
+interface PaymentProviderStore {
+  list(activeOnly: boolean): Promise<PaymentProvider[]>
+  create(input: PaymentProviderInput): Promise<PaymentProvider>
+  update(id: string, updates: PaymentProviderUpdate): Promise<void>
+  remove(id: string): Promise<void>
+}
+
+const supabaseStore: PaymentProviderStore = {
+  async list(activeOnly) {
+    let query = getSupabase().from(PAYMENT_PROVIDERS_TABLE).select("*").order("sort_order")
+    if (activeOnly) query = query.eq("active", true)
+    const { data, error } = await query
+    if (error) throw error
+    return (data || []).map(providerFromRow).sort(byDisplayOrder)
+  },
+
+  // Checkout and the order API trust these rows, so admins write them through the API
+  // (scripts/032_server_side_writes.sql)
+  async create(input) {
+    const body = await providerRequest("/api/payment-providers", "POST", input)
+    return body.provider as PaymentProvider
+  },
+
+  async update(id, updates) {
+    await providerRequest(`/api/payment-providers/${id}`, "PATCH", updates)
+  },
+
+  async remove(id) {
+    await providerRequest(`/api/payment-providers/${id}`, "DELETE")
+  },
+}
+
+async function providerRequest(url: string, method: string, payload?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: payload === undefined ? undefined : { "Content-Type": "application/json" },
+    body: payload === undefined ? undefined : JSON.stringify(payload),
+  })
+  const body = await response.json().catch(() => ({}))
+  if (!response.ok) throw new Error(body.error || `Payment method request failed (${response.status})`)
+  return body
+}
+
+function readLocalProviders(): PaymentProvider[] {
+  const stored = readLocal<PaymentProvider[] | null>(PAYMENT_PROVIDERS_KEY, null)
+  // Providers saved before gateways existed were all manual
+  if (stored) return stored.map((provider) => ({ ...provider, gateway: toGatewayId(provider.gateway) }))
+
+  // Seed from the defaults, keeping the QR codes and ids configured under the old settings page
+  const legacy = readLocal<{ method: string; active: boolean; qrCode: string; accountId: string }[]>(
+    LEGACY_PAYMENT_METHODS_KEY,
+    [],
+  )
+  return DEFAULT_PAYMENT_PROVIDERS.map((provider) => {
+    const previous = legacy.find((method) => method.method === provider.key)
+    return {
+      ...provider,
+      ...(previous && { active: previous.active, qrCode: previous.qrCode, accountId: previous.accountId }),
+      id: provider.key,
+      createdAt: new Date(0).toISOString(),
+    }
+  })
+}
+
+const localStore: PaymentProviderStore = {
+  async list(activeOnly) {
+    const providers = readLocalProviders().sort(byDisplayOrder)
+    return activeOnly ? providers.filter((provider) => provider.active) : providers
+  },
+
+  async create(input) {
+    const providers = readLocalProviders()
+    if (providers.some((provider) => provider.key === input.key)) {
+      throw new Error(`A payment method with key "${input.key}" already exists`)
+    }
+    const provider: PaymentProvider = { ...input, id: newLocalId(), createdAt: new Date().toISOString() }
+    writeLocal(PAYMENT_PROVIDERS_KEY, [...providers, provider])
+    return provider
+  },
+
+  async update(id, updates) {
+    writeLocal(
+      PAYMENT_PROVIDERS_KEY,
+      readLocalProviders().map((provider) => (provider.id === id ? { ...provider, ...updates } : provider)),
+    )
+  },
+
+  async remove(id) {
+    writeLocal(
+      PAYMENT_PROVIDERS_KEY,
+      readLocalProviders().filter((provider) => provider.id !== id),
+    )
+  },
+}
+
+function store(): PaymentProviderStore {
+  return pickBackend({ supabase: supabaseStore, local: localStore })
+}
+
+export function getPaymentProviders(options: { activeOnly?: boolean } = {}): Promise<PaymentProvider[]> {
+  return store().list(options.activeOnly ?? false)
+}
+
+export function createPaymentProvider(input: PaymentProviderInput): Promise<PaymentProvider> {
+  return store().create(input)
+}
+
+export function updatePaymentProvider(id: string, updates: PaymentProviderUpdate): Promise<void> {
+  return store().update(id, updates)
+}
+
+export function deletePaymentProvider(id: string): Promise<void> {
+  return store().remove(id)
+}
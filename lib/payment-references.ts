@@ -0,0 +1,190 @@
+import { roundToCurrency } from "@/lib/currency"
+import type { Order } from "@/lib/orders"
+import type { PaymentProviderType } from "@/lib/payment-providers"
+
+/**
+ * Transaction references customers copy from their payment app (UPI UTR, Binance Pay
+ * order ID, PayPal transaction ID), and matching them against a statement the admin
+ * pastes or imports so pending orders can be confirmed in one click.
+ */
+
+export interface ReferenceFormat {
+  label: string
+  placeholder: string
+  hint: string
+  pattern: RegExp
+}
+
+export const REFERENCE_FORMATS: Record<PaymentProviderType, ReferenceFormat> = {
+  upi: {
+    label: "UPI Transaction ID (UTR)",
+    placeholder: "e.g. 412345678901",
+    hint: "The 12-digit UTR / UPI reference number shown in your payment app",
+    pattern: /^\d{12}$/,
+  },
+  binance: {
+    label: "Binance Pay Order ID",
+    placeholder: "e.g. 287654321098765432",
+    hint: "The numeric Order ID from the Binance Pay transaction details",
+    pattern: /^\d{10,20}$/,
+  },
+  paypal: {
+    label: "PayPal Transaction ID",
+    placeholder: "e.g. 9XK12345AB6789012",
+    hint: "The 17-character Transaction ID from the PayPal activity details",
+    pattern: /^[A-Z0-9]{17}$/,
+  },
+  crypto: {
+    label: "Transaction Hash",
+    placeholder: "e.g. 0x4e3a…",
+    hint: "The transaction hash (TxID) from your wallet or the block explorer",
+    pattern: /^(0X)?[A-F0-9]{64}$/,
+  },
+  bank_transfer: {
+    label: "Bank Transfer Reference",
+    placeholder: "e.g. N123456789012345",
+    hint: "The UTR / reference number of the transfer shown by your bank",
+    pattern: /^[A-Z0-9]{6,35}$/,
+  },
+  other: {
+    label: "Transaction ID",
+    placeholder: "e.g. TX12345678",
+    hint: "The transaction or reference ID shown in your payment confirmation",
+    pattern: /^[A-Z0-9._/]{4,64}$/,
+  },
+}
+
+// Formats distinctive enough to pick a reference out of an unlabelled statement line
+const STATEMENT_FORMATS: PaymentProviderType[] = ["upi", "binance", "paypal", "crypto"]
+
+/** Remove the spaces and dashes payment apps put in references, and upper-case them. */
+export function normalizeReference(value: string): string {
+  return value.replace(/[\s-]+/g, "").toUpperCase()
+}
+
+/** Error message for an invalid reference, or null when it matches the method's format. */
+export function transactionReferenceError(type: PaymentProviderType, value: string): string | null {
+  const format = REFERENCE_FORMATS[type]
+  const reference = normalizeReference(value)
+  if (!reference) return `Please enter the ${format.label}`
+  if (!format.pattern.test(reference)) return `That does not look like a ${format.label}. ${format.hint}.`
+  return null
+}
+
+function looksLikeReference(value: string): boolean {
+  return STATEMENT_FORMATS.some((type) => REFERENCE_FORMATS[type].pattern.test(value))
+}
+
+// Statement import
+
+export interface StatementEntry {
+  /** 1-based line number in the pasted text or file */
+  line: number
+  reference: string
+  amount: number | null
+}
+
+export type StatementMatchStatus = "matched" | "amount_mismatch" | "already_processed" | "not_found"
+
+export interface StatementMatch {
+  entry: StatementEntry
+  order: Order | null
+  status: StatementMatchStatus
+}
+
+const REFERENCE_HEADER = /utr|ref|transaction|txn|order\s*id/i
+const AMOUNT_HEADER = /amount|credit|paid|value/i
+
+// Splits one CSV/TSV/semicolon-separated line, honouring double quotes
+function splitRow(line: string): string[] {
+  const cells: string[] = []
+  let cell = ""
+  let quoted = false
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i]
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        cell += '"'
+        i++
+      } else {
+        quoted = !quoted
+      }
+    } else if (!quoted && (char === "," || char === ";" || char === "\t")) {
+      cells.push(cell.trim())
+      cell = ""
+    } else {
+      cell += char
+    }
+  }
+  cells.push(cell.trim())
+  return cells
+}
+
+function parseAmount(cell: string): number | null {
+  const cleaned = cell.replace(/[₹$€£,\s]|INR|USD|USDT/gi, "")
+  if (!/^-?\d+(\.\d{1,2})?$/.test(cleaned) || cleaned.replace(/\D/g, "").length > 9) return null
+  return Math.abs(Number(cleaned))
+}
+
+/**
+ * Read references and amounts from a bank/app statement export or from pasted lines.
+ * If the first row is a header with reference and amount columns those are used;
+ * otherwise each row's reference is the first cell in a known format and its amount
+ * the last cell that looks like money.
+ */
+export function parseStatement(text: string): StatementEntry[] {
+  const rows = text
+    .split(/\r?\n/)
+    .map((line, index) => ({ line: index + 1, cells: splitRow(line) }))
+    .filter((row) => row.cells.some(Boolean))
+  if (rows.length === 0) return []
+
+  const header = rows[0].cells
+  const referenceColumn = header.findIndex((cell) => REFERENCE_HEADER.test(cell))
+  const amountColumn = header.findIndex((cell) => AMOUNT_HEADER.test(cell))
+  const hasHeader = referenceColumn >= 0 && amountColumn >= 0 && !looksLikeReference(normalizeReference(header[referenceColumn]))
+
+  const entries: StatementEntry[] = []
+  for (const row of hasHeader ? rows.slice(1) : rows) {
+    if (hasHeader) {
+      const reference = normalizeReference(row.cells[referenceColumn] ?? "")
+      if (reference) entries.push({ line: row.line, reference, amount: parseAmount(row.cells[amountColumn] ?? "") })
+      continue
+    }
+
+    // Pasted lines are often just "reference amount" separated by spaces
+    const cells = row.cells.flatMap((cell) => cell.split(/\s+/))
+    const references = cells.map(normalizeReference)
+    const referenceIndex = references.findIndex(looksLikeReference)
+    if (referenceIndex < 0) continue
+    const amounts = cells
+      .filter((_, index) => index !== referenceIndex)
+      .map(parseAmount)
+      .filter((amount): amount is number => amount !== null)
+    entries.push({ line: row.line, reference: references[referenceIndex], amount: amounts.pop() ?? null })
+  }
+  return entries
+}
+
+/**
+ * Pair statement entries with orders by reference, and check the amount paid against
+ * what the order asked for in its payment currency (INR for UPI statements).
+ */
+export function matchStatement(entries: StatementEntry[], orders: Order[]): StatementMatch[] {
+  const byReference = new Map<string, Order>()
+  for (const order of orders) {
+    if (order.transactionReference) byReference.set(normalizeReference(order.transactionReference), order)
+  }
+
+  return entries.map((entry) => {
+    const order = byReference.get(entry.reference) ?? null
+    if (!order) return { entry, order, status: "not_found" }
+    // A pending order with money already received is a top-up; its first payment was matched before
+    if (order.status !== "pending" || order.amountReceived > 0) return { entry, order, status: "already_processed" }
+    const currency = order.paymentCurrency
+    if (entry.amount === null || roundToCurrency(entry.amount, currency) !== roundToCurrency(order.paymentAmount, currency)) {
+      return { entry, order, status: "amount_mismatch" }
+    }
+    return { entry, order, status: "matched" }
+  })
+}
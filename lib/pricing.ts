@@ -0,0 +1,212 @@
+import { availableStock } from "@/lib/inventory"
+import { isProductLive, withVariant, type Product, type ProductVariant } from "@/lib/products"
+import type { Discount, Sale } from "@/lib/settings"
+
+/**
+ * Order pricing shared by the `/api/orders` route and the local store. Prices always
+ * come from the product records and the active sales, never from the cart the
+ * customer submitted.
+ *
+ * The storefront shows the same prices through `resolvePrice`. Stacking rules:
+ * - of the sales running for a product, only the best one applies;
+ * - of the active store-wide discounts, only the best one applies;
+ * - a sale and a store-wide discount stack multiplicatively (20% and 10% make 28% off);
+ * - coupons are taken off the resulting total (lib/coupons.ts);
+ * - tax for the billing country is worked out last (lib/taxes.ts).
+ */
+
+export interface CartLine {
+  productId: string
+  /** Required for products with variants */
+  variantId?: string | null
+  quantity: number
+}
+
+export interface Promotions {
+  sales: Sale[]
+  discounts: Discount[]
+}
+
+export interface EffectivePrice {
+  original: number
+  price: number
+  /** Total percentage off after stacking */
+  discountPercentage: number
+  /** The sale and store-wide discounts that make up the price */
+  applied: Discount[]
+  /** End of the sale in effect, if it has one */
+  endsAt: string | null
+}
+
+/** A discount running right now, as announced on the storefront. */
+export interface ActivePromotion {
+  discount: Discount
+  /** Products on sale with this discount; empty for a store-wide discount */
+  productIds: string[]
+  /** When the promotion ends, null if it runs until the admin stops it */
+  endsAt: string | null
+}
+
+export interface PricedLine {
+  /** With the variant's price, stock and download when there is a variant (see `withVariant`) */
+  product: Product
+  variant: ProductVariant | null
+  quantity: number
+  unitPrice: number
+  discountPercentage: number
+  lineTotal: number
+}
+
+/** Coupon taken off the order total after sale prices (see lib/coupons.ts). */
+export interface AppliedCoupon {
+  id: string
+  code: string
+  discount: number
+}
+
+/** Tax charged on the order (see lib/taxes.ts), in the store currency. */
+export interface TaxLine {
+  name: string
+  rate: number
+  /** Already part of the prices; only broken out for the invoice */
+  inclusive: boolean
+  amount: number
+}
+
+export interface OrderQuote {
+  lines: PricedLine[]
+  subtotal: number
+  /** Sales and coupon together */
+  discountTotal: number
+  coupon: AppliedCoupon | null
+  /** Country the tax was worked out for, null until `applyTax` */
+  billingCountry: string | null
+  taxes: TaxLine[]
+  /** What the customer pays: after discounts, with exclusive taxes added */
+  total: number
+}
+
+/** Raised when a cart cannot be priced: unknown product, bad quantity or not enough stock. */
+export class PricingError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "PricingError"
+  }
+}
+
+export function roundMoney(amount: number): number {
+  return Math.round(amount * 100) / 100
+}
+
+export function isSaleRunning(sale: Sale, now = new Date()): boolean {
+  if (sale.startDate && new Date(sale.startDate) > now) return false
+  if (sale.endDate && new Date(sale.endDate) < now) return false
+  return true
+}
+
+function clampPercentage(percentage: number): number {
+  return Math.min(Math.max(percentage, 0), 100)
+}
+
+/** Price of a product right now, with its best running sale and the best store-wide discount. */
+export function resolvePrice(product: Product, { sales, discounts }: Promotions, now = new Date()): EffectivePrice {
+  const bestSale = sales
+    .filter((sale) => sale.productId === product.id && sale.discountId && isSaleRunning(sale, now))
+    .map((sale) => ({ sale, discount: discounts.find((d) => d.id === sale.discountId && d.active) }))
+    .filter((entry): entry is { sale: Sale; discount: Discount } => Boolean(entry.discount))
+    .sort((a, b) => b.discount.percentage - a.discount.percentage)[0]
+  const storeWide = discounts
+    .filter((d) => d.active && d.appliesToAll)
+    .sort((a, b) => b.percentage - a.percentage)[0]
+
+  const applied = [bestSale?.discount, storeWide].filter((d): d is Discount => Boolean(d))
+  const factor = applied.reduce((remaining, d) => remaining * (1 - clampPercentage(d.percentage) / 100), 1)
+  return {
+    original: product.price,
+    price: roundMoney(product.price * factor),
+    discountPercentage: roundMoney((1 - factor) * 100),
+    applied,
+    endsAt: bestSale?.sale.endDate ?? null,
+  }
+}
+
+/**
+ * Discounts running right now, store-wide ones first, then the biggest. A discount
+ * used by several running sales is one promotion ending with the last of them.
+ */
+export function activePromotions({ sales, discounts }: Promotions, now = new Date()): ActivePromotion[] {
+  const promotions = discounts
+    .filter((discount) => discount.active && discount.percentage > 0)
+    .map((discount): ActivePromotion | null => {
+      if (discount.appliesToAll) return { discount, productIds: [], endsAt: null }
+      const running = sales.filter((sale) => sale.discountId === discount.id && isSaleRunning(sale, now))
+      if (running.length === 0) return null
+      const endsAt = running.some((sale) => !sale.endDate)
+        ? null
+        : running
+            .map((sale) => sale.endDate!)
+            .reduce((last, endDate) => (new Date(endDate) > new Date(last) ? endDate : last))
+      return { discount, productIds: Array.from(new Set(running.map((sale) => sale.productId))), endsAt }
+    })
+    .filter((promotion): promotion is ActivePromotion => promotion !== null)
+  return promotions.sort(
+    (a, b) =>
+      Number(b.discount.appliesToAll) - Number(a.discount.appliesToAll) || b.discount.percentage - a.discount.percentage,
+  )
+}
+
+/**
+ * When prices next change on their own because a sale starts or ends, so pages can
+ * re-price without a reload. Null if no sale is scheduled to change.
+ */
+export function nextPriceChange(sales: Sale[], now = new Date()): Date | null {
+  const upcoming = sales
+    .flatMap((sale) => [sale.startDate, sale.endDate])
+    .filter((date): date is string => Boolean(date))
+    .map((date) => new Date(date))
+    .filter((date) => date > now)
+    .sort((a, b) => a.getTime() - b.getTime())
+  return upcoming[0] ?? null
+}
+
+export function quoteOrder(
+  cart: CartLine[],
+  products: Product[],
+  sales: Sale[],
+  discounts: Discount[],
+  now = new Date(),
+): OrderQuote {
+  if (cart.length === 0) throw new PricingError("Your cart is empty")
+
+  // The same product and variant may appear twice if the cart was edited by hand; merge the lines
+  const merged = new Map<string, Required<CartLine>>()
+  for (const line of cart) {
+    if (!Number.isInteger(line.quantity) || line.quantity <= 0) {
+      throw new PricingError("Quantities must be positive whole numbers")
+    }
+    const variantId = line.variantId ?? null
+    const key = `${line.productId}:${variantId ?? ""}`
+    merged.set(key, { productId: line.productId, variantId, quantity: (merged.get(key)?.quantity ?? 0) + line.quantity })
+  }
+
+  const lines = Array.from(merged.values(), ({ productId, variantId, quantity }): PricedLine => {
+    const listed = products.find((p) => p.id === productId)
+    if (!listed || !isProductLive(listed, now)) throw new PricingError("A product in your cart is no longer available")
+    const variant = variantId ? listed.variants.find((v) => v.id === variantId) : null
+    if (variant === undefined) throw new PricingError(`An option of "${listed.name}" in your cart is no longer available`)
+    if (!variant && listed.variants.length > 0) throw new PricingError(`Please choose an option for "${listed.name}"`)
+
+    const product = withVariant(listed, variant)
+    const name = variant ? `${listed.name} (${variant.name})` : listed.name
+    if (availableStock(product) < quantity) {
+      throw new PricingError(product.stock > 0 ? `Only ${product.stock} of "${name}" left in stock` : `"${name}" is out of stock`)
+    }
+
+    const { price: unitPrice, discountPercentage } = resolvePrice(product, { sales, discounts }, now)
+    return { product, variant, quantity, unitPrice, discountPercentage, lineTotal: roundMoney(unitPrice * quantity) }
+  })
+
+  const subtotal = roundMoney(lines.reduce((sum, line) => sum + line.product.price * line.quantity, 0))
+  const total = roundMoney(lines.reduce((sum, line) => sum + line.lineTotal, 0))
+  return { lines, subtotal, discountTotal: roundMoney(subtotal - total), coupon: null, billingCountry: null, taxes: [], total }
+}
@@ -0,0 +1,369 @@
+import { getSupabase, newLocalId, pickBackend, readLocal, writeLocal } from "@/lib/backend"
+import { detectImageType, stripImageMetadata, type ImageType } from "@/lib/image-metadata"
+import { readFileAsDataUrl } from "@/lib/payment-proofs"
+
+/**
+ * Product galleries (scripts/031_product_images.sql). Admins upload images in the
+ * product form; the browser scales each one to three sizes (full, medium for cards and
+ * the gallery, thumbnail for lists) so the server never decodes images. For the
+ * Supabase backend the sizes go to the public `product-images` bucket through
+ * app/api/products/[id]/images; the local backend keeps them inline as data URLs.
+ *
+ * Images linked by URL (imports, products from before uploads) sit in the same
+ * gallery without a storage path and use their URL for every size.
+ */
+
+export interface ProductImage {
+  id: string
+  productId: string
+  /** Storage folder of the uploaded sizes; null for images linked by URL */
+  path: string | null
+  /** Full size, for the product page gallery and Open Graph */
+  url: string
+  /** For product cards and the main gallery slide */
+  mediumUrl: string
+  /** For the cart, admin lists and the gallery's thumbnail strip */
+  thumbnailUrl: string
+  alt: string
+  width: number | null
+  height: number | null
+  sortOrder: number
+}
+
+/** The three sizes of an image, scaled and re-encoded in the browser by `prepareProductImage`. */
+export interface PreparedImage {
+  full: File
+  medium: File
+  thumbnail: File
+  width: number
+  height: number
+}
+
+/**
+ * One entry of the gallery being edited, in order; the first is the cover.
+ * saved: already in the gallery. linked: an image URL to add as is. upload: a new image.
+ */
+export type ProductImageDraft =
+  | { kind: "saved"; image: ProductImage }
+  | { kind: "linked"; url: string }
+  | { kind: "upload"; key: string; image: PreparedImage; previewUrl: string; alt: string }
+
+export const PRODUCT_IMAGES_BUCKET = "product-images"
+export const PRODUCT_IMAGES_TABLE = "product_images"
+export const PRODUCT_IMAGES_KEY = "crime_zone_product_images"
+
+/** Largest size the API and the bucket accept, per image size. */
+export const MAX_PRODUCT_IMAGE_BYTES = 5 * 1024 * 1024
+/** Largest original file the browser will try to scale. */
+export const MAX_PRODUCT_IMAGE_INPUT_BYTES = 25 * 1024 * 1024
+
+/** Longest edge of each size, in pixels */
+export const PRODUCT_IMAGE_SIZES = { full: 1600, medium: 800, thumbnail: 200 } as const
+
+export type ProductImageSize = keyof typeof PRODUCT_IMAGE_SIZES
+
+const PRODUCT_IMAGE_JPEG_QUALITY = 0.85
+
+/** Raised when an image is too large, not a supported image, or cannot be stored. */
+export class ProductImageError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ProductImageError"
+  }
+}
+
+/** Object name of one size of an uploaded image inside the bucket. */
+export function productImageObject(path: string, size: ProductImageSize): string {
+  return `${path}/${size}.jpg`
+}
+
+export function productImageFromRow(row: any): ProductImage {
+  return {
+    id: row.id,
+    productId: row.product_id,
+    path: row.path ?? null,
+    url: row.url,
+    mediumUrl: row.medium_url ?? row.url,
+    thumbnailUrl: row.thumbnail_url ?? row.url,
+    alt: row.alt ?? "",
+    width: row.width ?? null,
+    height: row.height ?? null,
+    sortOrder: Number(row.sort_order) || 0,
+  }
+}
+
+/** Images linked by URL, as galleries were before uploads: every size is the same URL. */
+export function linkedImages(productId: string, urls: string[]): ProductImage[] {
+  return urls.map((url, index) => ({
+    id: `${productId}-linked-${index}`,
+    productId,
+    path: null,
+    url,
+    mediumUrl: url,
+    thumbnailUrl: url,
+    alt: "",
+    width: null,
+    height: null,
+    sortOrder: index,
+  }))
+}
+
+export function byImageOrder(a: ProductImage, b: ProductImage): number {
+  return a.sortOrder - b.sortOrder
+}
+
+function formatMegabytes(bytes: number): string {
+  return `${Math.round(bytes / (1024 * 1024))} MB`
+}
+
+/**
+ * Server-side check of one uploaded size: size limit and real image format from the
+ * magic bytes, then metadata stripping in case the client skipped scaling.
+ */
+export function sanitizeProductImage(bytes: Uint8Array<ArrayBuffer>): { bytes: Uint8Array<ArrayBuffer>; type: ImageType } {
+  if (bytes.length === 0) throw new ProductImageError("The image is empty")
+  if (bytes.length > MAX_PRODUCT_IMAGE_BYTES) {
+    throw new ProductImageError(`Product images must be smaller than ${formatMegabytes(MAX_PRODUCT_IMAGE_BYTES)}`)
+  }
+
+  const type = detectImageType(bytes)
+  if (!type || type === "image/gif") throw new ProductImageError("Product images must be JPEG, PNG or WebP images")
+
+  return { bytes: stripImageMetadata(bytes, type), type }
+}
+
+function canvasToBlob(canvas: HTMLCanvasElement, quality: number): Promise<Blob> {
+  return new Promise((resolve, reject) => {
+    canvas.toBlob((blob) => (blob ? resolve(blob) : reject(new Error("Image encoding failed"))), "image/jpeg", quality)
+  })
+}
+
+async function scaleImage(bitmap: ImageBitmap, maxDimension: number, name: string): Promise<File> {
+  const scale = Math.min(1, maxDimension / Math.max(bitmap.width, bitmap.height))
+  const canvas = document.createElement("canvas")
+  canvas.width = Math.max(1, Math.round(bitmap.width * scale))
+  canvas.height = Math.max(1, Math.round(bitmap.height * scale))
+
+  const context = canvas.getContext("2d")
+  if (!context) throw new ProductImageError("Your browser cannot process images")
+  // JPEG has no transparency; paint a white background for PNGs with alpha
+  context.fillStyle = "#fff"
+  context.fillRect(0, 0, canvas.width, canvas.height)
+  context.drawImage(bitmap, 0, 0, canvas.width, canvas.height)
+
+  const blob = await canvasToBlob(canvas, PRODUCT_IMAGE_JPEG_QUALITY)
+  if (blob.size > MAX_PRODUCT_IMAGE_BYTES) {
+    throw new ProductImageError(`Product images must be smaller than ${formatMegabytes(MAX_PRODUCT_IMAGE_BYTES)}`)
+  }
+  return new File([blob], name, { type: "image/jpeg" })
+}
+
+/**
+ * Browser-side preparation before upload: validate the file, then scale it to the
+ * full, medium and thumbnail sizes as JPEG, which also drops EXIF/GPS metadata.
+ */
+export async function prepareProductImage(file: File): Promise<PreparedImage> {
+  if (file.size > MAX_PRODUCT_IMAGE_INPUT_BYTES) {
+    throw new ProductImageError(`Please choose images smaller than ${formatMegabytes(MAX_PRODUCT_IMAGE_INPUT_BYTES)}`)
+  }
+
+  const header = new Uint8Array(await file.slice(0, 16).arrayBuffer())
+  const type = detectImageType(header)
+  if (!type || type === "image/gif") throw new ProductImageError(`${file.name} is not a JPEG, PNG or WebP image`)
+
+  let bitmap: ImageBitmap
+  try {
+    bitmap = await createImageBitmap(file)
+  } catch {
+    throw new ProductImageError(`${file.name} could not be read`)
+  }
+
+  try {
+    const full = await scaleImage(bitmap, PRODUCT_IMAGE_SIZES.full, "full.jpg")
+    const scale = Math.min(1, PRODUCT_IMAGE_SIZES.full / Math.max(bitmap.width, bitmap.height))
+    return {
+      full,
+      medium: await scaleImage(bitmap, PRODUCT_IMAGE_SIZES.medium, "medium.jpg"),
+      thumbnail: await scaleImage(bitmap, PRODUCT_IMAGE_SIZES.thumbnail, "thumbnail.jpg"),
+      width: Math.max(1, Math.round(bitmap.width * scale)),
+      height: Math.max(1, Math.round(bitmap.height * scale)),
+    }
+  } finally {
+    bitmap.close()
+  }
+}
+
+interface ProductImageStore {
+  list(productId: string): Promise<ProductImage[]>
+  upload(productId: string, image: PreparedImage, alt: string, sortOrder: number): Promise<ProductImage>
+  link(productId: string, url: string, sortOrder: number): Promise<ProductImage>
+  /** Also deletes the stored sizes of uploaded images */
+  remove(productId: string, ids: string[]): Promise<void>
+  reorder(productId: string, ids: string[]): Promise<void>
+}
+
+async function apiError(response: Response, fallback: string): Promise<Error> {
+  const body = await response.json().catch(() => ({}))
+  return response.status === 400 || response.status === 413
+    ? new ProductImageError(body.error || fallback)
+    : new Error(body.error || `${fallback} (${response.status})`)
+}
+
+// product_images is read-only for the anon key and storage writes need the service role
+// key, so every change goes through the API; rows are read directly
+const supabaseStore: ProductImageStore = {
+  async list(productId) {
+    const { data, error } = await getSupabase()
+      .from(PRODUCT_IMAGES_TABLE)
+      .select("*")
+      .eq("product_id", productId)
+      .order("sort_order")
+    if (error) throw error
+    return (data || []).map(productImageFromRow)
+  },
+
+  async upload(productId, image, alt, sortOrder) {
+    const form = new FormData()
+    form.append("full", image.full)
+    form.append("medium", image.medium)
+    form.append("thumbnail", image.thumbnail)
+    form.append("image", JSON.stringify({ alt, width: image.width, height: image.height, sortOrder }))
+
+    const response = await fetch(`/api/products/${encodeURIComponent(productId)}/images`, { method: "POST", body: form })
+    if (!response.ok) throw await apiError(response, "Could not upload the image")
+    return productImageFromRow((await response.json()).image)
+  },
+
+  async link(productId, url, sortOrder) {
+    const response = await fetch(`/api/products/${encodeURIComponent(productId)}/images`, {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ url, sortOrder }),
+    })
+    if (!response.ok) throw await apiError(response, "Could not add the image")
+    return productImageFromRow((await response.json()).image)
+  },
+
+  async remove(productId, ids) {
+    if (ids.length === 0) return
+    const response = await fetch(`/api/products/${encodeURIComponent(productId)}/images`, {
+      method: "DELETE",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ids }),
+    })
+    if (!response.ok) throw await apiError(response, "Could not delete the images")
+  },
+
+  async reorder(productId, ids) {
+    if (ids.length === 0) return
+    const response = await fetch(`/api/products/${encodeURIComponent(productId)}/images`, {
+      method: "PATCH",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ ids }),
+    })
+    if (!response.ok) throw await apiError(response, "Could not reorder the images")
+  },
+}
+
+function readLocalImages(): ProductImage[] {
+  return readLocal<ProductImage[]>(PRODUCT_IMAGES_KEY, [])
+}
+
+// localStorage holds a few megabytes; a full gallery of data URLs can run out of room
+function writeLocalImages(images: ProductImage[]) {
+  try {
+    writeLocal(PRODUCT_IMAGES_KEY, images)
+  } catch (error) {
+    console.error("[product-images] Could not store images locally:", error)
+    throw new ProductImageError("The browser's storage is full; remove some images or use fewer")
+  }
+}
+
+const localStore: ProductImageStore = {
+  async list(productId) {
+    return readLocalImages()
+      .filter((image) => image.productId === productId)
+      .sort(byImageOrder)
+  },
+
+  async upload(productId, image, alt, sortOrder) {
+    const id = newLocalId()
+    const stored: ProductImage = {
+      id,
+      productId,
+      path: `${productId}/${id}`,
+      url: await readFileAsDataUrl(image.full),
+      mediumUrl: await readFileAsDataUrl(image.medium),
+      thumbnailUrl: await readFileAsDataUrl(image.thumbnail),
+      alt,
+      width: image.width,
+      height: image.height,
+      sortOrder,
+    }
+    writeLocalImages([...readLocalImages(), stored])
+    return stored
+  },
+
+  async link(productId, url, sortOrder) {
+    const [linked] = linkedImages(productId, [url])
+    const stored = { ...linked, id: newLocalId(), sortOrder }
+    writeLocalImages([...readLocalImages(), stored])
+    return stored
+  },
+
+  async remove(_productId, ids) {
+    writeLocalImages(readLocalImages().filter((image) => !ids.includes(image.id)))
+  },
+
+  async reorder(_productId, ids) {
+    writeLocalImages(
+      readLocalImages().map((image) => (ids.includes(image.id) ? { ...image, sortOrder: ids.indexOf(image.id) } : image)),
+    )
+  },
+}
+
+function store(): ProductImageStore {
+  return pickBackend({ supabase: supabaseStore, local: localStore })
+}
+
+/**
+ * Replace a product's gallery with `drafts`, in this order; `saveProductImages` in
+ * lib/products.ts wraps this for the product form and imports. New images are uploaded
+ * and linked URLs added before anything is removed, so a failed upload leaves the
+ * gallery as it was. A linked URL that is already in the gallery keeps its image.
+ */
+export async function replaceProductImages(productId: string, drafts: ProductImageDraft[]): Promise<ProductImage[]> {
+  const current = await store().list(productId)
+  const saved: ProductImage[] = []
+  for (const [index, draft] of drafts.entries()) {
+    if (draft.kind === "saved") {
+      const image = current.find((c) => c.id === draft.image.id)
+      // Derived from the legacy image columns, not a row yet
+      saved.push(image ?? (await store().link(productId, draft.image.url, index)))
+    } else if (draft.kind === "linked") {
+      saved.push(current.find((c) => c.url === draft.url) ?? (await store().link(productId, draft.url, index)))
+    } else {
+      saved.push(await store().upload(productId, draft.image, draft.alt, index))
+    }
+  }
+
+  const keep = new Set(saved.map((image) => image.id))
+  await store().remove(
+    productId,
+    current.filter((image) => !keep.has(image.id)).map((image) => image.id),
+  )
+  await store().reorder(
+    productId,
+    saved.map((image) => image.id),
+  )
+  return saved.map((image, index) => ({ ...image, sortOrder: index }))
+}
+
+/** Remove every image of a product, with its stored sizes; before deleting the product. */
+export async function deleteProductImages(productId: string): Promise<void> {
+  const current = await store().list(productId)
+  await store().remove(
+    productId,
+    current.map((image) => image.id),
+  )
+}
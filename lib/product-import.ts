@@ -0,0 +1,495 @@
+import { slugify, type Category } from "@/lib/categories"
+import { adjustStock } from "@/lib/inventory"
+import {
+  createProduct,
+  DEFAULT_LOW_STOCK_THRESHOLD,
+  PLACEHOLDER_IMAGE,
+  PRODUCT_STATUSES,
+  saveProductImages,
+  updateProduct,
+  type Product,
+  type ProductInput,
+  type ProductStatus,
+} from "@/lib/products"
+
+/**
+ * Bulk product import and export for the admin products page. An import goes through
+ * three steps: the file is parsed into rows of text (`parseImportFile`), the admin maps
+ * its columns onto product fields (`guessMapping` suggests one), and `planImport` checks
+ * every row and decides whether it creates, updates or skips a product. Nothing is
+ * written until `applyImport` runs the plan, so the plan doubles as the dry run.
+ *
+ * Rows are matched against the catalog by SKU or by slug. Updates only touch the mapped
+ * columns. The export writes the same columns, so an exported file imports unchanged.
+ */
+
+export type ImportField =
+  | "sku"
+  | "name"
+  | "slug"
+  | "description"
+  | "longDescription"
+  | "price"
+  | "stock"
+  | "category"
+  | "image"
+  | "gallery"
+  | "downloadUrl"
+  | "status"
+
+export interface ImportFieldInfo {
+  field: ImportField
+  label: string
+  /** Column names recognised when guessing the mapping, lower-case without spaces */
+  aliases: string[]
+  /** Needed to create a product */
+  required?: boolean
+}
+
+export const IMPORT_FIELDS: ImportFieldInfo[] = [
+  { field: "sku", label: "SKU", aliases: ["sku", "code", "productcode", "itemcode", "articlenumber"] },
+  { field: "name", label: "Name", aliases: ["name", "title", "productname"], required: true },
+  { field: "slug", label: "Slug", aliases: ["slug", "handle", "urlkey"] },
+  { field: "description", label: "Description", aliases: ["description", "shortdescription", "summary"] },
+  { field: "longDescription", label: "Long description", aliases: ["longdescription", "details", "body", "markdown"] },
+  { field: "price", label: "Price", aliases: ["price", "unitprice", "amount"], required: true },
+  { field: "stock", label: "Stock", aliases: ["stock", "quantity", "qty", "inventory"] },
+  { field: "category", label: "Category", aliases: ["category", "categoryslug", "categoryname", "type"] },
+  { field: "image", label: "Image URL", aliases: ["image", "imageurl", "picture", "photo"] },
+  { field: "gallery", label: "Gallery URLs", aliases: ["gallery", "images", "galleryurls"] },
+  { field: "downloadUrl", label: "Download URL", aliases: ["downloadurl", "download", "fileurl"] },
+  { field: "status", label: "Status", aliases: ["status", "state", "visibility"] },
+]
+
+/** Several gallery URLs share one cell */
+export const GALLERY_SEPARATOR = "|"
+
+export const MAX_IMPORT_ROWS = 5000
+
+export type ImportRow = Record<string, string>
+
+export interface ImportFile {
+  columns: string[]
+  rows: ImportRow[]
+}
+
+/** File column for each product field; null leaves the field out */
+export type ColumnMapping = Record<ImportField, string | null>
+
+export type ImportMatch = "sku" | "slug"
+
+export type ImportAction = "create" | "update" | "skip"
+
+export interface PlannedRow {
+  /** Row number in the file as a spreadsheet shows it, the header being row 1 */
+  line: number
+  action: ImportAction
+  /** Why a row is skipped; the row is not imported while it has errors */
+  errors: string[]
+  /** Product the row updates */
+  product: Product | null
+  input: Partial<ProductInput>
+  /** Fields an update changes, for the preview */
+  changes: string[]
+}
+
+export interface ImportPlan {
+  rows: PlannedRow[]
+  creates: number
+  updates: number
+  skips: number
+}
+
+export interface ImportResult {
+  created: number
+  updated: number
+  failed: { line: number; message: string }[]
+}
+
+/** Raised when a file cannot be read as CSV or JSON. */
+export class ImportError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ImportError"
+  }
+}
+
+// CSV (RFC 4180: comma separated, double quotes around fields with commas, quotes or line breaks)
+
+export function parseCsv(text: string): string[][] {
+  const records: string[][] = []
+  let record: string[] = []
+  let field = ""
+  let quoted = false
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i]
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"'
+        i++
+      } else if (char === '"') {
+        quoted = false
+      } else {
+        field += char
+      }
+    } else if (char === '"' && field === "") {
+      quoted = true
+    } else if (char === ",") {
+      record.push(field)
+      field = ""
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++
+      record.push(field)
+      records.push(record)
+      record = []
+      field = ""
+    } else {
+      field += char
+    }
+  }
+  if (quoted) throw new ImportError("The CSV file ends inside a quoted field")
+  if (field !== "" || record.length > 0) {
+    record.push(field)
+    records.push(record)
+  }
+  // Blank lines carry no data
+  return records.filter((r) => r.some((value) => value.trim() !== ""))
+}
+
+function csvField(value: string): string {
+  return /[",\r\n]/.test(value) ? `"${value.replace(/"/g, '""')}"` : value
+}
+
+export function toCsv(columns: string[], rows: ImportRow[]): string {
+  return [columns, ...rows.map((row) => columns.map((column) => row[column] ?? ""))]
+    .map((record) => record.map(csvField).join(","))
+    .join("\r\n")
+}
+
+function cellText(value: unknown): string {
+  if (value === null || value === undefined) return ""
+  if (Array.isArray(value)) return value.map(cellText).join(GALLERY_SEPARATOR)
+  if (typeof value === "object") return JSON.stringify(value)
+  return String(value)
+}
+
+/** Rows of a CSV file with a header line, or of a JSON array of objects. */
+export function parseImportFile(fileName: string, text: string): ImportFile {
+  // Spreadsheet programs often save a byte order mark
+  const content = text.replace(/^\uFEFF/, "")
+  let file: ImportFile
+
+  if (fileName.toLowerCase().endsWith(".json")) {
+    let data: unknown
+    try {
+      data = JSON.parse(content)
+    } catch {
+      throw new ImportError("The file is not valid JSON")
+    }
+    const items = Array.isArray(data) ? data : (data as { products?: unknown })?.products
+    if (!Array.isArray(items) || items.some((item) => typeof item !== "object" || item === null || Array.isArray(item))) {
+      throw new ImportError("The JSON file must hold an array of product objects")
+    }
+    const columns = Array.from(new Set(items.flatMap((item) => Object.keys(item))))
+    file = {
+      columns,
+      rows: items.map((item) => Object.fromEntries(columns.map((column) => [column, cellText(item[column])]))),
+    }
+  } else {
+    const [header, ...records] = parseCsv(content)
+    if (!header) throw new ImportError("The file is empty")
+    const columns = header.map((column) => column.trim())
+    if (new Set(columns).size !== columns.length) throw new ImportError("The header has the same column twice")
+    file = {
+      columns,
+      rows: records.map((record) => Object.fromEntries(columns.map((column, i) => [column, record[i] ?? ""]))),
+    }
+  }
+
+  if (file.rows.length === 0) throw new ImportError("The file has no product rows")
+  if (file.rows.length > MAX_IMPORT_ROWS) throw new ImportError(`Import at most ${MAX_IMPORT_ROWS} products at a time`)
+  return file
+}
+
+// Mapping
+
+function normalizeColumn(column: string): string {
+  return column.toLowerCase().replace(/[^a-z0-9]/g, "")
+}
+
+export function guessMapping(columns: string[]): ColumnMapping {
+  const mapping = {} as ColumnMapping
+  for (const { field, aliases } of IMPORT_FIELDS) {
+    mapping[field] = columns.find((column) => aliases.includes(normalizeColumn(column))) ?? null
+  }
+  return mapping
+}
+
+// Planning
+
+function findCategory(categories: Category[], value: string): Category | undefined {
+  const wanted = value.trim().toLowerCase()
+  return categories.find((c) => c.slug === wanted) ?? categories.find((c) => c.name.trim().toLowerCase() === wanted)
+}
+
+/** The product fields of a row, with the problems found in its values. */
+function readRow(row: ImportRow, mapping: ColumnMapping, categories: Category[]) {
+  const input: Partial<ProductInput> = {}
+  const errors: string[] = []
+  const cell = (field: ImportField): string | undefined => {
+    const column = mapping[field]
+    return column ? (row[column] ?? "").trim() : undefined
+  }
+
+  const sku = cell("sku")
+  if (sku !== undefined) {
+    if (sku.length > 64) errors.push("SKU is longer than 64 characters")
+    input.sku = sku || null
+  }
+  const name = cell("name")
+  if (name !== undefined) {
+    if (name) input.name = name
+    else errors.push("Name is empty")
+  }
+  const slug = cell("slug")
+  if (slug) {
+    if (/^[a-z0-9]+(-[a-z0-9]+)*$/.test(slug)) input.slug = slug
+    else errors.push(`Slug "${slug}" is not lower-case letters and digits separated by dashes`)
+  }
+  const description = cell("description")
+  if (description !== undefined) input.description = description
+  const longDescription = cell("longDescription")
+  if (longDescription !== undefined) input.longDescription = longDescription
+
+  const price = cell("price")
+  if (price !== undefined) {
+    // Currency symbols and thousands separators are dropped: "$1,299.00" is 1299
+    const amount = price.replace(/[^0-9.-]/g, "")
+    const value = Number(amount)
+    if (amount === "" || !Number.isFinite(value) || value < 0) errors.push(`Price "${price}" is not a positive amount`)
+    else input.price = Math.round(value * 100) / 100
+  }
+  const stock = cell("stock")
+  if (stock) {
+    const value = Number(stock)
+    if (!Number.isInteger(value) || value < 0) errors.push(`Stock "${stock}" is not a whole number`)
+    else input.stock = value
+  }
+
+  const category = cell("category")
+  if (category !== undefined) {
+    if (!category) {
+      input.categoryId = null
+      input.category = "general"
+    } else {
+      const match = findCategory(categories, category)
+      if (match) {
+        input.categoryId = match.id
+        input.category = match.name
+      } else {
+        errors.push(`Category "${category}" does not exist; create it first`)
+      }
+    }
+  }
+
+  const image = cell("image")
+  if (image !== undefined) input.image = image
+  const gallery = cell("gallery")
+  if (gallery !== undefined) {
+    input.gallery = gallery
+      .split(GALLERY_SEPARATOR)
+      .map((url) => url.trim())
+      .filter(Boolean)
+  }
+  const downloadUrl = cell("downloadUrl")
+  if (downloadUrl !== undefined) input.downloadUrl = downloadUrl
+  const status = cell("status")?.toLowerCase()
+  if (status) {
+    if (PRODUCT_STATUSES.includes(status as ProductStatus)) input.status = status as ProductStatus
+    else errors.push(`Status "${status}" is not one of ${PRODUCT_STATUSES.join(", ")}`)
+  }
+
+  return { input, errors }
+}
+
+// The file holds full-size image URLs: the cover in `image`, the others in `gallery`
+function coverUrl(product: Product): string {
+  return product.images[0]?.url ?? ""
+}
+
+function changedFields(product: Product, input: Partial<ProductInput>): string[] {
+  return IMPORT_FIELDS.filter(({ field }) => {
+    if (field === "category") return input.categoryId !== undefined && input.categoryId !== product.categoryId
+    const before = field === "image" ? coverUrl(product) : product[field]
+    const after = input[field]
+    if (after === undefined) return false
+    return JSON.stringify(before ?? "") !== JSON.stringify(after ?? "")
+  }).map(({ label }) => label)
+}
+
+/**
+ * What importing the rows would do. A row updates the product with the same SKU (or slug)
+ * and creates one otherwise; it is skipped when it has errors, changes nothing, or repeats
+ * the SKU or slug of an earlier row.
+ */
+export function planImport(
+  file: ImportFile,
+  mapping: ColumnMapping,
+  match: ImportMatch,
+  products: Product[],
+  categories: Category[],
+): ImportPlan {
+  const seen = new Set<string>()
+  const slugsTaken = new Set(products.map((p) => p.slug))
+
+  const rows = file.rows.map((row, index): PlannedRow => {
+    const { input, errors } = readRow(row, mapping, categories)
+    const line = index + 2
+    const key = match === "sku" ? input.sku : (input.slug ?? (input.name ? slugify(input.name) : undefined))
+
+    if (match === "sku" && !key) errors.push("SKU is empty")
+    if (key && seen.has(key)) errors.push(`${match === "sku" ? "SKU" : "Slug"} "${key}" appears on an earlier row`)
+    if (key) seen.add(key)
+
+    const product = key ? (products.find((p) => (match === "sku" ? p.sku === key : p.slug === key)) ?? null) : null
+    if (errors.length > 0) return { line, action: "skip", errors, product, input, changes: [] }
+
+    if (product) {
+      const changes = changedFields(product, input)
+      return { line, action: changes.length > 0 ? "update" : "skip", errors: [], product, input, changes }
+    }
+
+    for (const { field, label, required } of IMPORT_FIELDS) {
+      if (required && input[field as keyof ProductInput] === undefined) errors.push(`${label} is needed for a new product`)
+    }
+    // New products get a slug from their name; it must not clash with another product
+    const slug = input.slug ?? (input.name ? slugify(input.name) : "")
+    if (input.name && !slug) errors.push("Name has no letters or digits to make a slug from")
+    else if (slug && slugsTaken.has(slug)) errors.push(`Slug "${slug}" is already used by another product`)
+    if (errors.length > 0) return { line, action: "skip", errors, product: null, input, changes: [] }
+
+    slugsTaken.add(slug)
+    return { line, action: "create", errors: [], product: null, input: { ...input, slug }, changes: [] }
+  })
+
+  return {
+    rows,
+    creates: rows.filter((row) => row.action === "create").length,
+    updates: rows.filter((row) => row.action === "update").length,
+    skips: rows.filter((row) => row.action === "skip").length,
+  }
+}
+
+/**
+ * The gallery a row leaves a product with: its image and gallery URLs, or the current
+ * ones for the columns that are not mapped. URLs already in the gallery keep their image.
+ */
+async function importImages(
+  productId: string,
+  product: Product | null,
+  image: string | undefined,
+  gallery: string[] | undefined,
+) {
+  if (image === undefined && gallery === undefined) return
+  const cover = image ?? (product ? coverUrl(product) : "")
+  const rest = gallery ?? product?.gallery ?? []
+  const urls = [...new Set([cover, ...rest].filter(Boolean))]
+  await saveProductImages(productId, urls.map((url) => ({ kind: "linked", url })))
+}
+
+/** Write the creates and updates of a plan, one product at a time; failed rows are reported, not retried. */
+export async function applyImport(plan: ImportPlan, onProgress?: (done: number, total: number) => void): Promise<ImportResult> {
+  const work = plan.rows.filter((row) => row.action !== "skip")
+  const result: ImportResult = { created: 0, updated: 0, failed: [] }
+
+  for (const [index, row] of work.entries()) {
+    try {
+      if (row.action === "update" && row.product) {
+        // A new stock figure is recorded in the inventory ledger as an adjustment
+        const { stock, image, gallery, ...changes } = row.input
+        if (Object.keys(changes).length > 0) await updateProduct(row.product.id, changes)
+        if (stock !== undefined && stock !== row.product.stock) {
+          await adjustStock(row.product.id, { kind: "adjustment", quantity: stock - row.product.stock, notes: "Import" })
+        }
+        await importImages(row.product.id, row.product, image, gallery)
+        result.updated++
+      } else {
+        const { image, gallery, ...input } = row.input
+        const created = await createProduct({
+          sku: null,
+          description: "",
+          longDescription: "",
+          image: PLACEHOLDER_IMAGE,
+          gallery: [],
+          categoryId: null,
+          category: "general",
+          stock: 0,
+          unlimitedStock: false,
+          lowStockThreshold: DEFAULT_LOW_STOCK_THRESHOLD,
+          // Without a status column imported products go straight to the storefront
+          status: "published",
+          publishAt: null,
+          unpublishAt: null,
+          ...input,
+        } as ProductInput)
+        await importImages(created.id, null, image, gallery)
+        result.created++
+      }
+    } catch (error) {
+      result.failed.push({ line: row.line, message: error instanceof Error ? error.message : "Could not be saved" })
+    }
+    onProgress?.(index + 1, work.length)
+  }
+  return result
+}
+
+// Export
+
+export const EXPORT_COLUMNS: { field: ImportField; column: string }[] = IMPORT_FIELDS.map(({ field }) => ({
+  field,
+  column: field === "longDescription" ? "long_description" : field === "downloadUrl" ? "download_url" : field,
+}))
+
+function exportRow(product: Product, categories: Category[]): ImportRow {
+  const category = categories.find((c) => c.id === product.categoryId)
+  const values: Record<ImportField, string> = {
+    sku: product.sku ?? "",
+    name: product.name,
+    slug: product.slug,
+    description: product.description,
+    longDescription: product.longDescription,
+    price: product.price.toFixed(2),
+    stock: String(product.stock),
+    category: category?.slug ?? "",
+    image: coverUrl(product),
+    gallery: product.gallery.join(GALLERY_SEPARATOR),
+    downloadUrl: product.downloadUrl ?? "",
+    status: product.status,
+  }
+  return Object.fromEntries(EXPORT_COLUMNS.map(({ field, column }) => [column, values[field]]))
+}
+
+export function exportProductsCsv(products: Product[], categories: Category[]): string {
+  return toCsv(
+    EXPORT_COLUMNS.map(({ column }) => column),
+    products.map((product) => exportRow(product, categories)),
+  )
+}
+
+export function exportProductsJson(products: Product[], categories: Category[]): string {
+  return JSON.stringify(
+    products.map((product) => {
+      const row = exportRow(product, categories)
+      return {
+        ...row,
+        price: product.price,
+        stock: product.stock,
+        sku: product.sku,
+        gallery: product.gallery,
+      }
+    }),
+    null,
+    2,
+  )
+}
@@ -1,101 +1,699 @@
+import { getSupabase, newLocalId, pickBackend, readLocal, writeLocal } from "@/lib/backend"
+import { CATEGORIES_KEY, slugify, type Category } from "@/lib/categories"
+import {
+  byImageOrder,
+  deleteProductImages,
+  linkedImages,
+  productImageFromRow,
+  replaceProductImages,
+  PRODUCT_IMAGES_KEY,
+  type ProductImage,
+  type ProductImageDraft,
+} from "@/lib/product-images"
+
 export interface Product {
   id: string
   name: string
+  /** Supplier or catalog code, unique when set; bulk imports match on it (scripts/027_product_sku.sql) */
+  sku: string | null
+  /** Lower-case words separated by dashes, used in /products/[slug] (scripts/025_product_pages.sql) */
+  slug: string
   description: string
+  /** Markdown shown on the product page */
+  longDescription: string
   price: number
+  /** Cover image in medium size, for cards; mirrors `images` (scripts/031_product_images.sql) */
   image: string
+  /** Full-size URLs of the images after the cover; mirrors `images` */
+  gallery: string[]
+  /** Uploaded and linked images, cover first; see lib/product-images.ts */
+  images: ProductImage[]
+  /** Row in `categories` (scripts/024_categories.sql), null when uncategorized */
+  categoryId: string | null
+  /** Name of the category, for display, search and coupon rules */
   category: string
+  /** Units left to sell; orders awaiting payment already hold theirs (scripts/029_inventory.sql) */
   stock: number
+  /** Pure digital goods that never run out; `stock` is not counted */
+  unlimitedStock: boolean
+  /** Admins are alerted when stock falls below this; 0 turns the alert off */
+  lowStockThreshold: number
+  downloadUrl?: string
+  /** License tiers or editions, in display order; when there are any the product is bought as one of them */
+  variants: ProductVariant[]
+  /** Only published products are on the storefront, see `isProductLive` (scripts/028_product_lifecycle.sql) */
+  status: ProductStatus
+  /** Published products appear from this time, when set */
+  publishAt: string | null
+  /** Published products disappear at this time, when set */
+  unpublishAt: string | null
   createdAt: string
 }
 
-const PRODUCTS_KEY = "crime_zone_products"
+/**
+ * One way to buy a product (scripts/030_product_variants.sql), e.g. a personal or a
+ * commercial license. It has its own price, stock and download; the product's status,
+ * images, sales and stock settings apply to all of its variants.
+ */
+export interface ProductVariant {
+  id: string
+  productId: string
+  name: string
+  price: number
+  /** Changed through the inventory ledger like a product's stock */
+  stock: number
+  downloadUrl?: string
+  /** Terms the buyer gets with the download; copied onto the order item */
+  licenseText: string
+  sortOrder: number
+}
 
-export function getProducts(): Product[] {
-  if (typeof window === "undefined") return []
-  const products = localStorage.getItem(PRODUCTS_KEY)
-  if (!products) {
-    // Initialize with sample products
-    const sampleProducts: Product[] = [
-      {
-        id: "1",
-        name: "Premium Digital Asset",
-        description: "High-quality digital product with instant delivery",
-        price: 49.99,
-        image: "/digital-product-abstract.jpg",
-        category: "Digital",
-        stock: 100,
-        createdAt: new Date().toISOString(),
-      },
-      {
-        id: "2",
-        name: "Exclusive Access Pass",
-        description: "Lifetime access to premium content and features",
-        price: 99.99,
-        image: "/vip-pass-card.jpg",
-        category: "Access",
-        stock: 50,
-        createdAt: new Date().toISOString(),
-      },
-      {
-        id: "3",
-        name: "Pro Toolkit Bundle",
-        description: "Complete toolkit for professionals",
-        price: 149.99,
-        image: "/toolkit-bundle.jpg",
-        category: "Bundle",
-        stock: 75,
-        createdAt: new Date().toISOString(),
-      },
-    ]
-    localStorage.setItem(PRODUCTS_KEY, JSON.stringify(sampleProducts))
-    return sampleProducts
+/** A variant as edited in the product form; without an id it is created with `stock` as its opening stock. */
+export type ProductVariantInput = Omit<ProductVariant, "id" | "productId" | "sortOrder"> & { id?: string }
+
+/**
+ * draft: only admins can preview it. published: on the storefront within its publish window.
+ * archived: off the storefront, but still resolvable for existing orders and downloads.
+ */
+export type ProductStatus = "draft" | "published" | "archived"
+
+export const PRODUCT_STATUSES: ProductStatus[] = ["draft", "published", "archived"]
+
+/** What the admin sees for a product: its status, with published split by the publish window. */
+export type ProductAvailability = "draft" | "scheduled" | "live" | "expired" | "archived"
+
+export type ProductInput = Omit<Product, "id" | "createdAt" | "variants" | "images">
+
+export const DEFAULT_LOW_STOCK_THRESHOLD = 5
+
+/** Shown for products without images */
+export const PLACEHOLDER_IMAGE = "/placeholder.svg"
+
+export const PRODUCTS_TABLE = "products"
+export const PRODUCTS_KEY = "crime_zone_products"
+export const PRODUCT_VARIANTS_TABLE = "product_variants"
+export const PRODUCT_VARIANTS_KEY = "crime_zone_product_variants"
+
+/** Products with the name of their category and their variants */
+export const PRODUCT_SELECT = "*, categories:category_id ( name, slug ), product_variants ( * ), product_images ( * )"
+
+/** Raised when a product is invalid or its slug is taken. */
+export class ProductError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "ProductError"
+  }
+}
+
+interface ProductStore {
+  list(): Promise<Product[]>
+  /** Only the products live at `now`, filtered by the query itself */
+  listLive(now: Date): Promise<Product[]>
+  get(id: string): Promise<Product | null>
+  /** By slug, or by id for old links; with `liveAt`, null unless live then */
+  find(slugOrId: string, liveAt: Date | null): Promise<Product | null>
+  getMany(ids: string[]): Promise<Product[]>
+  create(input: ProductInput): Promise<Product>
+  update(id: string, updates: Partial<ProductInput>): Promise<Product>
+  remove(id: string): Promise<void>
+  saveVariants(productId: string, variants: ProductVariantInput[]): Promise<ProductVariant[]>
+  updateVariantStock(id: string, stock: number): Promise<void>
+}
+
+// Supabase rows use `title` / `image_url` / `download_url`; the app uses `name` / `image` / `downloadUrl`.
+// These functions are the only place that mapping should live.
+
+export function variantFromRow(row: any): ProductVariant {
+  return {
+    id: row.id,
+    productId: row.product_id,
+    name: row.name ?? "",
+    price: Number(row.price) || 0,
+    stock: Number(row.stock) || 0,
+    downloadUrl: row.download_url || undefined,
+    licenseText: row.license_text ?? "",
+    sortOrder: Number(row.sort_order) || 0,
+  }
+}
+
+export function variantToRow(variant: ProductVariantInput, sortOrder: number) {
+  return {
+    name: variant.name.trim(),
+    price: variant.price,
+    download_url: variant.downloadUrl || null,
+    license_text: variant.licenseText,
+    sort_order: sortOrder,
   }
-  return JSON.parse(products)
 }
 
-export function saveProducts(products: Product[]) {
-  localStorage.setItem(PRODUCTS_KEY, JSON.stringify(products))
+function byVariantOrder(a: ProductVariant, b: ProductVariant): number {
+  return a.sortOrder - b.sortOrder
 }
 
-export function addProduct(product: Omit<Product, "id" | "createdAt">): Product {
-  const products = getProducts()
-  const newProduct: Product = {
+/** Products without gallery rows show their legacy `image_url` and `gallery` URLs. */
+function withImages<T extends { id: string; image: string; gallery: string[] }>(
+  product: T,
+  images: ProductImage[],
+): T & { images: ProductImage[] } {
+  const gallery = images.length
+    ? [...images].sort(byImageOrder)
+    : linkedImages(product.id, [product.image, ...product.gallery].filter((url) => url && url !== PLACEHOLDER_IMAGE))
+  return {
     ...product,
-    id: Date.now().toString(),
-    createdAt: new Date().toISOString(),
+    image: gallery[0]?.mediumUrl ?? PLACEHOLDER_IMAGE,
+    gallery: gallery.slice(1).map((image) => image.url),
+    images: gallery,
+  }
+}
+
+export function productFromRow(row: any): Product {
+  const product = {
+    id: row.id,
+    name: row.title ?? row.name ?? "Untitled",
+    sku: row.sku ?? null,
+    // Rows from before scripts/025_product_pages.sql have no slug; their pages use the id
+    slug: row.slug ?? row.id,
+    description: row.description ?? "",
+    longDescription: row.long_description ?? "",
+    price: Number(row.price) || 0,
+    image: row.image_url ?? row.image ?? PLACEHOLDER_IMAGE,
+    gallery: Array.isArray(row.gallery) ? row.gallery : [],
+    categoryId: row.category_id ?? null,
+    category: row.categories?.name ?? row.category ?? "general",
+    stock: Number(row.stock ?? row.stock_quantity) || 0,
+    unlimitedStock: Boolean(row.unlimited_stock),
+    lowStockThreshold: Number(row.low_stock_threshold ?? DEFAULT_LOW_STOCK_THRESHOLD),
+    downloadUrl: row.download_url || undefined,
+    // Variants removed from a product are archived; orders still load them on their own
+    variants: (row.product_variants || [])
+      .filter((variant: any) => !variant.archived_at)
+      .map(variantFromRow)
+      .sort(byVariantOrder),
+    // Rows from before scripts/028_product_lifecycle.sql were all on the storefront
+    status: PRODUCT_STATUSES.includes(row.status) ? row.status : "published",
+    publishAt: row.publish_at ?? null,
+    unpublishAt: row.unpublish_at ?? null,
+    createdAt: row.created_at ?? new Date().toISOString(),
+  }
+  return withImages(product, (row.product_images || []).map(productImageFromRow))
+}
+
+function productToRow(input: Partial<ProductInput>) {
+  const row: Record<string, unknown> = {}
+  if (input.name !== undefined) row.title = input.name
+  if (input.sku !== undefined) row.sku = input.sku || null
+  if (input.slug !== undefined) row.slug = input.slug
+  if (input.description !== undefined) row.description = input.description
+  if (input.longDescription !== undefined) row.long_description = input.longDescription
+  if (input.price !== undefined) row.price = input.price
+  if (input.image !== undefined) row.image_url = input.image
+  if (input.gallery !== undefined) row.gallery = input.gallery
+  if (input.categoryId !== undefined) row.category_id = input.categoryId
+  if (input.stock !== undefined) row.stock = input.stock
+  if (input.unlimitedStock !== undefined) row.unlimited_stock = input.unlimitedStock
+  if (input.lowStockThreshold !== undefined) row.low_stock_threshold = input.lowStockThreshold
+  if (input.downloadUrl !== undefined) row.download_url = input.downloadUrl || null
+  if (input.status !== undefined) row.status = input.status
+  if (input.publishAt !== undefined) row.publish_at = input.publishAt
+  if (input.unpublishAt !== undefined) row.unpublish_at = input.unpublishAt
+  return row
+}
+
+/** Whether customers can see and buy the product at `now`; mirrors `product_is_live` in SQL. */
+export function isProductLive(product: Pick<Product, "status" | "publishAt" | "unpublishAt">, now = new Date()): boolean {
+  return productAvailability(product, now) === "live"
+}
+
+export function productAvailability(
+  product: Pick<Product, "status" | "publishAt" | "unpublishAt">,
+  now = new Date(),
+): ProductAvailability {
+  if (product.status !== "published") return product.status
+  if (product.publishAt && new Date(product.publishAt) > now) return "scheduled"
+  if (product.unpublishAt && new Date(product.unpublishAt) <= now) return "expired"
+  return "live"
+}
+
+/**
+ * The product as bought in `variant`: the variant's price, stock and download in place
+ * of the product's, so pricing and stock checks work the same with or without variants.
+ */
+export function withVariant(product: Product, variant: ProductVariant | null | undefined): Product {
+  if (!variant) return product
+  return { ...product, price: variant.price, stock: variant.stock, downloadUrl: variant.downloadUrl }
+}
+
+/** The variant a product page or card starts on: the first one in stock, or the first one. */
+export function defaultVariant(product: Pick<Product, "variants" | "unlimitedStock">): ProductVariant | null {
+  return product.variants.find((v) => product.unlimitedStock || v.stock > 0) ?? product.variants[0] ?? null
+}
+
+/** Lowest price the product sells for, for "From ..." labels and sorting. */
+export function lowestPrice(product: Pick<Product, "price" | "variants">): number {
+  return product.variants.length > 0 ? Math.min(...product.variants.map((v) => v.price)) : product.price
+}
+
+/** What is stocked separately: one entry per variant, named after it, or the product itself. */
+export function stockedItems(product: Product): { product: Product; variant: ProductVariant | null }[] {
+  if (product.variants.length === 0) return [{ product, variant: null }]
+  return product.variants.map((variant) => ({
+    product: { ...withVariant(product, variant), name: `${product.name} (${variant.name})` },
+    variant,
+  }))
+}
+
+/** Where a product's page lives; this is the link to share. */
+/** Small cover image for lists and the cart; products kept in carts from before galleries have no `images`. */
+export function productThumbnail(product: Pick<Product, "image" | "images">): string {
+  return product.images?.[0]?.thumbnailUrl ?? (product.image || PLACEHOLDER_IMAGE)
+}
+
+export function productHref(product: Pick<Product, "slug">): string {
+  return `/products/${encodeURIComponent(product.slug)}`
+}
+
+/** The product a `/products/[id]` URL points at: by slug, or by id for old links. */
+export function findProduct(products: Product[], slugOrId: string): Product | undefined {
+  return products.find((p) => p.slug === slugOrId) ?? products.find((p) => p.id === slugOrId)
+}
+
+/** Products from the same category, then the rest of the catalog, for the product page. */
+export function relatedProducts(products: Product[], product: Product, limit = 4): Product[] {
+  const others = products.filter((p) => p.id !== product.id)
+  const sameCategory = others.filter((p) => product.categoryId && p.categoryId === product.categoryId)
+  return [...sameCategory, ...others.filter((p) => !sameCategory.includes(p))].slice(0, limit)
+}
+
+function validateProduct(input: Partial<ProductInput>) {
+  if (input.name !== undefined && !input.name.trim()) throw new ProductError("Give the product a name")
+  if (input.slug !== undefined && !/^[a-z0-9]+(-[a-z0-9]+)*$/.test(input.slug)) {
+    throw new ProductError("Slugs are lower-case letters and digits separated by dashes")
+  }
+  if (input.sku && input.sku.length > 64) throw new ProductError("SKUs are at most 64 characters")
+  if (input.lowStockThreshold !== undefined && !(Number.isInteger(input.lowStockThreshold) && input.lowStockThreshold >= 0)) {
+    throw new ProductError("The low-stock threshold must be a whole number of 0 or more")
+  }
+  if (input.status !== undefined && !PRODUCT_STATUSES.includes(input.status)) {
+    throw new ProductError(`Unknown product status ${input.status}`)
+  }
+  if (input.publishAt && input.unpublishAt && new Date(input.unpublishAt) <= new Date(input.publishAt)) {
+    throw new ProductError("The unpublish time must be after the publish time")
   }
-  products.push(newProduct)
-  saveProducts(products)
-  return newProduct
 }
 
-export function updateProduct(id: string, updates: Partial<Product>): boolean {
-  const products = getProducts()
-  const index = products.findIndex((p) => p.id === id)
-  if (index === -1) return false
+function validateVariants(variants: ProductVariantInput[]) {
+  const names = new Set<string>()
+  for (const variant of variants) {
+    const name = variant.name.trim()
+    if (!name) throw new ProductError("Give every variant a name")
+    if (names.has(name.toLowerCase())) throw new ProductError(`There are two variants named ${name}`)
+    names.add(name.toLowerCase())
+    if (!(variant.price >= 0)) throw new ProductError(`The price of ${name} must be 0 or more`)
+    if (!variant.id && !Number.isInteger(variant.stock)) throw new ProductError(`The stock of ${name} must be a whole number`)
+  }
+}
 
-  products[index] = { ...products[index], ...updates }
-  saveProducts(products)
-  return true
+// Unique indexes on slug and sku
+function duplicateError(error: { message?: string }, input: Partial<ProductInput>): ProductError {
+  return error.message?.includes("sku")
+    ? new ProductError(`The SKU ${input.sku} is already used`)
+    : new ProductError(`The slug ${input.slug} is already used`)
 }
 
-export function deleteProduct(id: string): boolean {
-  const products = getProducts()
-  const filtered = products.filter((p) => p.id !== id)
-  if (filtered.length === products.length) return false
+const UUID_PATTERN = /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i
 
-  saveProducts(filtered)
-  return true
+// The query side of `isProductLive`, so products that are not live never leave the database
+function onlyLive<Query extends { eq(column: string, value: unknown): Query; or(filters: string): Query }>(
+  query: Query,
+  now: Date,
+): Query {
+  const at = now.toISOString()
+  return query
+    .eq("status", "published")
+    .or(`publish_at.is.null,publish_at.lte.${at}`)
+    .or(`unpublish_at.is.null,unpublish_at.gt.${at}`)
 }
 
-export function searchProducts(query: string): Product[] {
-  const products = getProducts()
-  const lowerQuery = query.toLowerCase()
-  return products.filter(
-    (p) =>
-      p.name.toLowerCase().includes(lowerQuery) ||
-      p.description.toLowerCase().includes(lowerQuery) ||
-      p.category.toLowerCase().includes(lowerQuery),
+async function selectProducts(liveAt: Date | null): Promise<Product[]> {
+  const run = (select: string) => {
+    const query = getSupabase().from(PRODUCTS_TABLE).select(select)
+    return (liveAt ? onlyLive(query, liveAt) : query).order("created_at", { ascending: false })
+  }
+
+  const { data, error } = await run(PRODUCT_SELECT)
+  if (!error) return (data || []).map(productFromRow)
+
+  // The joins fail before scripts/024_categories.sql, 030_product_variants.sql or 031_product_images.sql;
+  // fall back to a plain select
+  console.error("[products] Category, variant or image join failed, retrying without them:", error.message)
+  const { data: simple, error: simpleError } = await run("*")
+  if (simpleError) throw simpleError
+  return (simple || []).map(productFromRow)
+}
+
+const supabaseStore: ProductStore = {
+  async list() {
+    return selectProducts(null)
+  },
+
+  async listLive(now) {
+    return selectProducts(now)
+  },
+
+  async get(id) {
+    const { data, error } = await getSupabase().from(PRODUCTS_TABLE).select(PRODUCT_SELECT).eq("id", id).maybeSingle()
+    if (error) throw error
+    return data ? productFromRow(data) : null
+  },
+
+  async find(slugOrId, liveAt) {
+    const query = getSupabase()
+      .from(PRODUCTS_TABLE)
+      .select(PRODUCT_SELECT)
+      .eq(UUID_PATTERN.test(slugOrId) ? "id" : "slug", slugOrId)
+    const { data, error } = await (liveAt ? onlyLive(query, liveAt) : query).maybeSingle()
+    if (error) throw error
+    return data ? productFromRow(data) : null
+  },
+
+  async getMany(ids) {
+    if (ids.length === 0) return []
+    const { data, error } = await getSupabase().from(PRODUCTS_TABLE).select(PRODUCT_SELECT).in("id", ids)
+    if (error) throw error
+    return (data || []).map(productFromRow)
+  },
+
+  async create(input) {
+    const { data, error } = await getSupabase()
+      .from(PRODUCTS_TABLE)
+      .insert(productToRow(input))
+      .select(PRODUCT_SELECT)
+      .single()
+    if (error?.code === "23505") throw duplicateError(error, input)
+    if (error) throw error
+    return productFromRow(data)
+  },
+
+  async update(id, updates) {
+    const { data, error } = await getSupabase()
+      .from(PRODUCTS_TABLE)
+      .update(productToRow(updates))
+      .eq("id", id)
+      .select(PRODUCT_SELECT)
+      .single()
+    if (error?.code === "23505") throw duplicateError(error, updates)
+    if (error) throw error
+    return productFromRow(data)
+  },
+
+  async remove(id) {
+    const { error } = await getSupabase().from(PRODUCTS_TABLE).delete().eq("id", id)
+    if (error) throw error
+  },
+
+  // product_variants is read-only with the anon key (scripts/032_server_side_writes.sql)
+  async saveVariants(productId, variants) {
+    const response = await fetch(`/api/products/${productId}/variants`, {
+      method: "PUT",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ variants }),
+    })
+    const body = await response.json().catch(() => ({}))
+    if (response.status === 409) throw new ProductError(body.error || "There are two variants with the same name")
+    if (!response.ok) throw new Error(body.error || `Saving the variants failed (${response.status})`)
+    return (body.variants as ProductVariant[]) ?? []
+  },
+
+  // Stock changes through adjust_stock and the order functions (app/api/products/[id]/stock)
+  async updateVariantStock() {
+    throw new Error("Variant stock only changes through the inventory ledger")
+  },
+}
+
+const sampleProducts: ProductInput[] = [
+  {
+    name: "Premium Digital Asset",
+    sku: null,
+    slug: "premium-digital-asset",
+    description: "High-quality digital product with instant delivery",
+    longDescription:
+      "## What you get\n\n- Source files in every common format\n- Free updates\n- Instant download after your payment is confirmed",
+    price: 49.99,
+    image: "/digital-product-abstract.jpg",
+    gallery: [],
+    categoryId: "digital",
+    category: "Digital",
+    stock: 100,
+    unlimitedStock: false,
+    lowStockThreshold: DEFAULT_LOW_STOCK_THRESHOLD,
+    status: "published",
+    publishAt: null,
+    unpublishAt: null,
+  },
+  {
+    name: "Exclusive Access Pass",
+    sku: null,
+    slug: "exclusive-access-pass",
+    description: "Lifetime access to premium content and features",
+    longDescription: "",
+    price: 99.99,
+    image: "/vip-pass-card.jpg",
+    gallery: [],
+    categoryId: "access",
+    category: "Access",
+    stock: 50,
+    unlimitedStock: false,
+    lowStockThreshold: DEFAULT_LOW_STOCK_THRESHOLD,
+    status: "published",
+    publishAt: null,
+    unpublishAt: null,
+  },
+  {
+    name: "Pro Toolkit Bundle",
+    sku: null,
+    slug: "pro-toolkit-bundle",
+    description: "Complete toolkit for professionals",
+    longDescription: "",
+    price: 149.99,
+    image: "/toolkit-bundle.jpg",
+    gallery: [],
+    categoryId: "bundle",
+    category: "Bundle",
+    stock: 75,
+    unlimitedStock: false,
+    lowStockThreshold: DEFAULT_LOW_STOCK_THRESHOLD,
+    status: "published",
+    publishAt: null,
+    unpublishAt: null,
+  },
+]
+
+// Category names are looked up on read so renaming a category renames it everywhere;
+// products saved before categories had no categoryId, before product pages no slug and
+// before drafts no status and before the inventory ledger no stock settings. Variants and
+// images are kept under their own keys, like their tables.
+function withCategoryNames(products: Product[]): Product[] {
+  const categories = readLocal<Category[]>(CATEGORIES_KEY, [])
+  const variants = readLocalVariants()
+  const images = readLocal<ProductImage[]>(PRODUCT_IMAGES_KEY, [])
+  return products.map((product) =>
+    withImages(
+      {
+        ...product,
+        sku: product.sku ?? null,
+        slug: product.slug || product.id,
+        longDescription: product.longDescription ?? "",
+        gallery: product.gallery ?? [],
+        categoryId: product.categoryId ?? null,
+        unlimitedStock: product.unlimitedStock ?? false,
+        lowStockThreshold: product.lowStockThreshold ?? DEFAULT_LOW_STOCK_THRESHOLD,
+        status: product.status ?? "published",
+        publishAt: product.publishAt ?? null,
+        unpublishAt: product.unpublishAt ?? null,
+        variants: variants.filter((v) => v.productId === product.id).sort(byVariantOrder),
+        category: categories.find((c) => c.id === product.categoryId)?.name ?? product.category,
+      },
+      images.filter((image) => image.productId === product.id),
+    ),
+  )
+}
+
+function readLocalVariants(): ProductVariant[] {
+  return readLocal<ProductVariant[]>(PRODUCT_VARIANTS_KEY, [])
+}
+
+// Uploaded images are kept once, under PRODUCT_IMAGES_KEY: their data URLs are not stored on
+// the product again, which would fill localStorage twice as fast
+function writeLocalProducts(products: Product[]) {
+  const galleries = new Set(readLocal<ProductImage[]>(PRODUCT_IMAGES_KEY, []).map((image) => image.productId))
+  writeLocal(
+    PRODUCTS_KEY,
+    products.map(({ images: _images, ...product }) =>
+      galleries.has(product.id) ? { ...product, image: PLACEHOLDER_IMAGE, gallery: [] } : product,
+    ),
+  )
+}
+
+function readLocalProducts(): Product[] {
+  const stored = readLocal<Product[] | null>(PRODUCTS_KEY, null)
+  if (stored) return withCategoryNames(stored)
+
+  // Initialize with sample products
+  const seeded = sampleProducts.map((product, index) =>
+    withImages({ ...product, variants: [], id: String(index + 1), createdAt: new Date().toISOString() }, []),
   )
+  writeLocalProducts(seeded)
+  return seeded
+}
+
+const localStore: ProductStore = {
+  async list() {
+    return readLocalProducts().sort((a, b) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime())
+  },
+
+  async listLive(now) {
+    return (await this.list()).filter((product) => isProductLive(product, now))
+  },
+
+  async get(id) {
+    return readLocalProducts().find((p) => p.id === id) || null
+  },
+
+  async find(slugOrId, liveAt) {
+    const product = findProduct(readLocalProducts(), slugOrId)
+    return product && (!liveAt || isProductLive(product, liveAt)) ? product : null
+  },
+
+  async getMany(ids) {
+    return readLocalProducts().filter((p) => ids.includes(p.id))
+  },
+
+  async create(input) {
+    const products = readLocalProducts()
+    if (products.some((p) => p.slug === input.slug)) throw new ProductError(`The slug ${input.slug} is already used`)
+    if (input.sku && products.some((p) => p.sku === input.sku)) throw new ProductError(`The SKU ${input.sku} is already used`)
+    const product = withImages({ ...input, variants: [], id: newLocalId(), createdAt: new Date().toISOString() }, [])
+    writeLocalProducts([...products, product])
+    return product
+  },
+
+  async update(id, updates) {
+    const products = readLocalProducts()
+    const index = products.findIndex((p) => p.id === id)
+    if (index === -1) throw new Error(`Product ${id} not found`)
+    if (updates.slug && products.some((p) => p.slug === updates.slug && p.id !== id)) {
+      throw new ProductError(`The slug ${updates.slug} is already used`)
+    }
+    if (updates.sku && products.some((p) => p.sku === updates.sku && p.id !== id)) {
+      throw new ProductError(`The SKU ${updates.sku} is already used`)
+    }
+
+    products[index] = { ...products[index], ...updates }
+    writeLocalProducts(products)
+    return products[index]
+  },
+
+  async remove(id) {
+    writeLocalProducts(readLocalProducts().filter((p) => p.id !== id))
+    writeLocal(
+      PRODUCT_VARIANTS_KEY,
+      readLocalVariants().filter((v) => v.productId !== id),
+    )
+  },
+
+  async saveVariants(productId, variants) {
+    const existing = readLocalVariants()
+    const saved = variants.map((variant, index): ProductVariant => {
+      const { id, ...details } = variant
+      const current = id ? existing.find((v) => v.id === id) : undefined
+      return {
+        ...details,
+        name: variant.name.trim(),
+        id: current?.id ?? newLocalId(),
+        productId,
+        stock: current ? current.stock : variant.stock,
+        sortOrder: index,
+      }
+    })
+    writeLocal(PRODUCT_VARIANTS_KEY, [...existing.filter((v) => v.productId !== productId), ...saved])
+    return saved
+  },
+
+  async updateVariantStock(id, stock) {
+    writeLocal(
+      PRODUCT_VARIANTS_KEY,
+      readLocalVariants().map((v) => (v.id === id ? { ...v, stock } : v)),
+    )
+  },
+}
+
+function store(): ProductStore {
+  return pickBackend({ supabase: supabaseStore, local: localStore })
+}
+
+export function getProducts(): Promise<Product[]> {
+  return store().list()
+}
+
+/** The products on the storefront right now; drafts, archived and scheduled products are left out. */
+export function getLiveProducts(): Promise<Product[]> {
+  return store().listLive(new Date())
+}
+
+/**
+ * The product behind a `/products/[id]` URL (slug, or id for old links). Only live
+ * products unless `preview` is set, for admins looking at drafts.
+ */
+export function findProductBySlug(slugOrId: string, { preview = false } = {}): Promise<Product | null> {
+  return store().find(slugOrId, preview ? null : new Date())
+}
+
+export function getProduct(id: string): Promise<Product | null> {
+  return store().get(id)
+}
+
+export function getProductsByIds(ids: string[]): Promise<Product[]> {
+  return store().getMany(ids)
+}
+
+export async function createProduct(input: ProductInput): Promise<Product> {
+  const product = { ...input, slug: input.slug || slugify(input.name) }
+  validateProduct(product)
+  return store().create(product)
+}
+
+export async function updateProduct(id: string, updates: Partial<ProductInput>): Promise<Product> {
+  validateProduct(updates)
+  return store().update(id, updates)
+}
+
+// Deleting the images first also removes their stored files, which the cascade would leave behind
+export async function deleteProduct(id: string): Promise<void> {
+  await deleteProductImages(id)
+  return store().remove(id)
+}
+
+/**
+ * Replace a product's variants with `variants`, in this order. Existing variants (with
+ * an id) keep their stock; new ones start with `stock` as their opening stock. Variants
+ * left out stop being sold but stay on the orders that bought them.
+ */
+export async function saveProductVariants(productId: string, variants: ProductVariantInput[]): Promise<ProductVariant[]> {
+  validateVariants(variants)
+  return store().saveVariants(productId, variants)
+}
+
+/** Set a variant's stock; only the local inventory ledger calls this. */
+export function updateVariantStock(id: string, stock: number): Promise<void> {
+  return store().updateVariantStock(id, stock)
+}
+
+/**
+ * Replace a product's gallery with `drafts`, in this order; the first is the cover. Once
+ * the gallery is empty the legacy image columns are cleared too, so they do not come back.
+ */
+export async function saveProductImages(productId: string, drafts: ProductImageDraft[]): Promise<ProductImage[]> {
+  const images = await replaceProductImages(productId, drafts)
+  if (images.length === 0) await store().update(productId, { image: PLACEHOLDER_IMAGE, gallery: [] })
+  return images
 }
@@ -0,0 +1,210 @@
+import { pickBackend, readLocal } from "@/lib/backend"
+import { descendantIds, getCategories } from "@/lib/categories"
+import { isPaidStatus, ORDERS_KEY, type Order } from "@/lib/orders"
+import { getLiveProducts, type Product } from "@/lib/products"
+
+/**
+ * Catalog search: a query with typo tolerance, category and price filters, sorting and
+ * cursor pagination. With Supabase it runs in Postgres through `/api/products/search`
+ * (`search_products` in scripts/026_product_search.sql); the local store searches in memory
+ * with the same rules. Only live products are found, see `isProductLive`. Storefront pages
+ * keep the search in the URL, see `searchToParams`.
+ */
+
+export type ProductSort = "relevance" | "newest" | "price_asc" | "price_desc" | "popular"
+
+export const PRODUCT_SORTS: { value: ProductSort; label: string }[] = [
+  { value: "relevance", label: "Best match" },
+  { value: "newest", label: "Newest" },
+  { value: "price_asc", label: "Price: low to high" },
+  { value: "price_desc", label: "Price: high to low" },
+  { value: "popular", label: "Most popular" },
+]
+
+export interface ProductSearch {
+  query: string
+  /** A category and its subcategories */
+  categorySlug: string | null
+  minPrice: number | null
+  maxPrice: number | null
+  sort: ProductSort
+}
+
+export interface ProductSearchPage {
+  products: Product[]
+  /** Pass back to get the next page; null on the last page */
+  nextCursor: string | null
+}
+
+export const SEARCH_PAGE_SIZE = 24
+export const MAX_SEARCH_PAGE_SIZE = 100
+
+export const EMPTY_SEARCH: ProductSearch = { query: "", categorySlug: null, minPrice: null, maxPrice: null, sort: "relevance" }
+
+export function isProductSort(value: unknown): value is ProductSort {
+  return PRODUCT_SORTS.some((sort) => sort.value === value)
+}
+
+// URL parameters
+
+function priceParam(value: string | null): number | null {
+  if (!value) return null
+  const price = Number(value)
+  return Number.isFinite(price) && price >= 0 ? price : null
+}
+
+/** The search in a storefront URL (`?q=&category=&min=&max=&sort=`); bad values are ignored. */
+export function searchFromParams(params: URLSearchParams, categorySlug?: string): ProductSearch {
+  const sort = params.get("sort")
+  return {
+    query: params.get("q") ?? "",
+    categorySlug: categorySlug ?? params.get("category") ?? null,
+    minPrice: priceParam(params.get("min")),
+    maxPrice: priceParam(params.get("max")),
+    sort: isProductSort(sort) ? sort : "relevance",
+  }
+}
+
+/** Parameters for a storefront URL or the search API; defaults are left out to keep links short. */
+export function searchToParams(search: ProductSearch, options: { includeCategory?: boolean } = {}): URLSearchParams {
+  const params = new URLSearchParams()
+  if (search.query.trim()) params.set("q", search.query.trim())
+  if (search.categorySlug && options.includeCategory !== false) params.set("category", search.categorySlug)
+  if (search.minPrice !== null) params.set("min", String(search.minPrice))
+  if (search.maxPrice !== null) params.set("max", String(search.maxPrice))
+  if (search.sort !== "relevance") params.set("sort", search.sort)
+  return params
+}
+
+// Cursors are opaque to callers: base64url JSON of the last row's sort key and id
+
+export interface SearchCursor {
+  key: string
+  id: string
+}
+
+export function encodeCursor(cursor: SearchCursor): string {
+  return btoa(JSON.stringify(cursor)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "")
+}
+
+export function decodeCursor(value: string): SearchCursor | null {
+  try {
+    const parsed = JSON.parse(atob(value.replace(/-/g, "+").replace(/_/g, "/")))
+    return typeof parsed?.key === "string" && typeof parsed?.id === "string" ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+// In-memory matching for the local store, close to what Postgres does: every word of the
+// query must appear in the product, allowing one typo (two in long words) against the
+// words of the name and category
+
+function words(text: string): string[] {
+  return text.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean)
+}
+
+function editDistance(a: string, b: string): number {
+  let previous = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    const current = [i]
+    for (let j = 1; j <= b.length; j++) {
+      current[j] = Math.min(previous[j] + 1, current[j - 1] + 1, previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1))
+    }
+    previous = current
+  }
+  return previous[b.length]
+}
+
+/** How well a product matches the query, 0 when it does not. */
+export function matchScore(product: Product, query: string): number {
+  const terms = words(query)
+  if (terms.length === 0) return 1
+  const titleWords = words(`${product.name} ${product.category}`)
+  const text = `${product.name} ${product.category} ${product.description}`.toLowerCase()
+
+  let score = 0
+  for (const term of terms) {
+    if (titleWords.some((word) => word.startsWith(term))) score += 3
+    else if (text.includes(term)) score += 2
+    else if (term.length >= 4 && titleWords.some((word) => editDistance(word, term) <= (term.length >= 8 ? 2 : 1))) {
+      score += 1
+    } else return 0
+  }
+  return score
+}
+
+interface SearchStore {
+  search(search: ProductSearch, cursor: string | null, limit: number): Promise<ProductSearchPage>
+}
+
+const supabaseStore: SearchStore = {
+  async search(search, cursor, limit) {
+    const params = searchToParams(search)
+    if (cursor) params.set("cursor", cursor)
+    params.set("limit", String(limit))
+
+    const response = await fetch(`/api/products/search?${params}`)
+    const body = await response.json().catch(() => ({}))
+    if (!response.ok) throw new Error(body.error || `Search request failed (${response.status})`)
+    return { products: body.products as Product[], nextCursor: body.nextCursor ?? null }
+  },
+}
+
+function unitsSold(): Map<string, number> {
+  const units = new Map<string, number>()
+  for (const order of readLocal<Order[]>(ORDERS_KEY, [])) {
+    if (!isPaidStatus(order.status)) continue
+    for (const item of order.items ?? []) units.set(item.productId, (units.get(item.productId) ?? 0) + item.quantity)
+  }
+  return units
+}
+
+const localStore: SearchStore = {
+  // The local cursor is the offset of the next page
+  async search(search, cursor, limit) {
+    let products = await getLiveProducts()
+    if (search.categorySlug) {
+      const categories = await getCategories()
+      const category = categories.find((c) => c.slug === search.categorySlug)
+      const ids = category ? descendantIds(categories, category.id) : []
+      products = products.filter((p) => p.categoryId && ids.includes(p.categoryId))
+    }
+    products = products.filter(
+      (p) => (search.minPrice === null || p.price >= search.minPrice) && (search.maxPrice === null || p.price <= search.maxPrice),
+    )
+
+    const scores = new Map(products.map((p) => [p.id, matchScore(p, search.query)]))
+    products = products.filter((p) => scores.get(p.id)! > 0)
+
+    const units = search.sort === "popular" ? unitsSold() : new Map<string, number>()
+    const newest = (a: Product, b: Product) => new Date(b.createdAt).getTime() - new Date(a.createdAt).getTime()
+    const compare: Record<ProductSort, (a: Product, b: Product) => number> = {
+      relevance: (a, b) => (search.query.trim() ? scores.get(b.id)! - scores.get(a.id)! : 0) || newest(a, b),
+      newest,
+      price_asc: (a, b) => a.price - b.price,
+      price_desc: (a, b) => b.price - a.price,
+      popular: (a, b) => (units.get(b.id) ?? 0) - (units.get(a.id) ?? 0),
+    }
+    products.sort((a, b) => compare[search.sort](a, b) || a.id.localeCompare(b.id))
+
+    const offset = cursor ? Number(decodeCursor(cursor)?.key) || 0 : 0
+    const next = offset + limit
+    return {
+      products: products.slice(offset, next),
+      nextCursor: next < products.length ? encodeCursor({ key: String(next), id: "" }) : null,
+    }
+  },
+}
+
+function store(): SearchStore {
+  return pickBackend({ supabase: supabaseStore, local: localStore })
+}
+
+export function searchCatalog(
+  search: ProductSearch,
+  cursor: string | null = null,
+  limit = SEARCH_PAGE_SIZE,
+): Promise<ProductSearchPage> {
+  return store().search(search, cursor, Math.min(Math.max(limit, 1), MAX_SEARCH_PAGE_SIZE))
+}
@@ -0,0 +1,85 @@
+import { createHmac, timingSafeEqual } from "node:crypto"
+import type { NextRequest, NextResponse } from "next/server"
+import type { User, UserRole } from "@/lib/users"
+
+/**
+ * Server-side sessions for the API routes. `/api/auth/session` checks the password in
+ * the database (and `/api/auth/register` creates the account), then sets this cookie,
+ * signed with SESSION_SECRET and out of reach of page scripts (HttpOnly). The `sb_local_session` / `sb_local_role` cookies from lib/auth.ts are
+ * written by the browser, so they only steer the middleware's redirects and must never
+ * grant access to data.
+ */
+
+export const SESSION_COOKIE = "crime_zone_session"
+export const SESSION_MAX_AGE_SECONDS = 7 * 24 * 60 * 60
+
+const DEVELOPMENT_SECRET = "session-development-secret"
+
+export interface Session {
+  userId: string
+  role: UserRole
+  /** Unix seconds */
+  expiresAt: number
+}
+
+function sessionSecret(): string {
+  const secret = process.env.SESSION_SECRET
+  if (secret) return secret
+  if (process.env.NODE_ENV === "production") throw new Error("SESSION_SECRET is not set")
+  return DEVELOPMENT_SECRET
+}
+
+function hmac(payload: string): string {
+  return createHmac("sha256", sessionSecret()).update(payload).digest("base64url")
+}
+
+/** Cookie value for a signed-in user: `<base64url JSON>.<base64url HMAC-SHA256>`. */
+export function signSession(user: Pick<User, "id" | "role">, now = Math.floor(Date.now() / 1000)): string {
+  const session: Session = { userId: user.id, role: user.role, expiresAt: now + SESSION_MAX_AGE_SECONDS }
+  const payload = Buffer.from(JSON.stringify(session)).toString("base64url")
+  return `${payload}.${hmac(payload)}`
+}
+
+/** The session in a cookie value, or null when it is missing, tampered with or expired. */
+export function verifySession(value: string | undefined): Session | null {
+  const [payload, signature, extra] = value?.split(".") ?? []
+  if (!payload || !signature || extra !== undefined) return null
+
+  const expected = Buffer.from(hmac(payload))
+  const received = Buffer.from(signature)
+  if (expected.length !== received.length || !timingSafeEqual(expected, received)) return null
+
+  try {
+    const session = JSON.parse(Buffer.from(payload, "base64url").toString("utf8"))
+    if (typeof session?.userId !== "string" || (session.role !== "user" && session.role !== "admin")) return null
+    if (!(Number(session.expiresAt) > Date.now() / 1000)) return null
+    return { userId: session.userId, role: session.role, expiresAt: Number(session.expiresAt) }
+  } catch {
+    return null
+  }
+}
+
+/** Signs the user in on `response`; throws when SESSION_SECRET is missing in production. */
+export function setSessionCookie(response: NextResponse, user: Pick<User, "id" | "role">) {
+  response.cookies.set(SESSION_COOKIE, signSession(user), {
+    httpOnly: true,
+    sameSite: "lax",
+    secure: process.env.NODE_ENV === "production",
+    path: "/",
+    maxAge: SESSION_MAX_AGE_SECONDS,
+  })
+}
+
+export function clearSessionCookie(response: NextResponse) {
+  response.cookies.set(SESSION_COOKIE, "", { httpOnly: true, path: "/", maxAge: 0 })
+}
+
+export function getSession(request: NextRequest): Session | null {
+  return verifySession(request.cookies.get(SESSION_COOKIE)?.value)
+}
+
+/** The signed-in admin's session, or null for customers and visitors. */
+export function getAdminSession(request: NextRequest): Session | null {
+  const session = getSession(request)
+  return session?.role === "admin" ? session : null
+}
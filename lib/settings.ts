@@ -1,91 +1,211 @@
-export interface DiscountSettings {
-  enabled: boolean
-  type: "percentage" | "fixed"
-  value: number
-}
+import { getSupabase, newLocalId, pickBackend, readLocal, writeLocal } from "@/lib/backend"
 
-export interface PaymentMethodConfig {
+export interface Discount {
+  id: string
   name: string
-  description: string
-  qrCode: string
-  address: string
-  enabled: boolean
-}
-
-export interface SiteSettings {
-  discount: DiscountSettings
-  paymentMethods: {
-    binance: PaymentMethodConfig
-    upi: PaymentMethodConfig
-    paypal: PaymentMethodConfig
+  percentage: number
+  active: boolean
+  /** Store-wide: applies to every product without a sale row (see lib/pricing.ts for stacking) */
+  appliesToAll: boolean
+  createdAt: string
+}
+
+export type DiscountInput = Omit<Discount, "id" | "createdAt">
+
+export interface Sale {
+  id: string
+  productId: string
+  discountId: string | null
+  startDate: string | null
+  endDate: string | null
+  createdAt: string
+}
+
+export type SaleInput = Omit<Sale, "id" | "createdAt">
+
+export const DISCOUNTS_TABLE = "discounts"
+export const SALES_TABLE = "sales"
+export const DISCOUNTS_KEY = "crime_zone_discounts"
+export const SALES_KEY = "crime_zone_sales"
+
+// Row mapping
+
+export function discountFromRow(row: any): Discount {
+  return {
+    id: row.id,
+    name: row.name ?? "",
+    percentage: Number(row.percentage) || 0,
+    active: Boolean(row.active),
+    appliesToAll: Boolean(row.applies_to_all),
+    createdAt: row.created_at ?? new Date().toISOString(),
+  }
+}
+
+function discountToRow(input: Partial<DiscountInput>): Record<string, unknown> {
+  const row: Record<string, unknown> = {}
+  if (input.name !== undefined) row.name = input.name
+  if (input.percentage !== undefined) row.percentage = input.percentage
+  if (input.active !== undefined) row.active = input.active
+  if (input.appliesToAll !== undefined) row.applies_to_all = input.appliesToAll
+  return row
+}
+
+function saleToRow(input: Partial<SaleInput>): Record<string, unknown> {
+  const row: Record<string, unknown> = {}
+  if (input.productId !== undefined) row.product_id = input.productId
+  if (input.discountId !== undefined) row.discount_id = input.discountId
+  if (input.startDate !== undefined) row.start_date = input.startDate
+  if (input.endDate !== undefined) row.end_date = input.endDate
+  return row
+}
+
+export function saleFromRow(row: any): Sale {
+  return {
+    id: row.id,
+    productId: row.product_id,
+    discountId: row.discount_id ?? null,
+    startDate: row.start_date ?? null,
+    endDate: row.end_date ?? null,
+    createdAt: row.created_at ?? new Date().toISOString(),
   }
 }
 
-const SETTINGS_KEY = "site_settings"
+interface SettingsStore {
+  listDiscounts(): Promise<Discount[]>
+  createDiscount(input: DiscountInput): Promise<Discount>
+  updateDiscount(id: string, updates: Partial<DiscountInput>): Promise<void>
+  listSales(): Promise<Sale[]>
+  createSale(input: SaleInput): Promise<Sale>
+  updateSale(id: string, updates: Partial<SaleInput>): Promise<void>
+  deleteSale(id: string): Promise<void>
+}
+
+const supabaseStore: SettingsStore = {
+  async listDiscounts() {
+    const { data, error } = await getSupabase()
+      .from(DISCOUNTS_TABLE)
+      .select("*")
+      .order("created_at", { ascending: false })
+    if (error) throw error
+    return (data || []).map(discountFromRow)
+  },
+
+  async createDiscount(input) {
+    const { data, error } = await getSupabase()
+      .from(DISCOUNTS_TABLE)
+      .insert(discountToRow(input))
+      .select("*")
+      .single()
+    if (error) throw error
+    return discountFromRow(data)
+  },
+
+  async updateDiscount(id, updates) {
+    const { error } = await getSupabase().from(DISCOUNTS_TABLE).update(discountToRow(updates)).eq("id", id)
+    if (error) throw error
+  },
+
+  async listSales() {
+    const { data, error } = await getSupabase()
+      .from(SALES_TABLE)
+      .select("*")
+      .order("created_at", { ascending: false })
+    if (error) throw error
+    return (data || []).map(saleFromRow)
+  },
+
+  async createSale(input) {
+    const { data, error } = await getSupabase().from(SALES_TABLE).insert(saleToRow(input)).select("*").single()
+    if (error) throw error
+    return saleFromRow(data)
+  },
 
-const defaultSettings: SiteSettings = {
-  discount: {
-    enabled: false,
-    type: "percentage",
-    value: 0,
+  async updateSale(id, updates) {
+    const { error } = await getSupabase().from(SALES_TABLE).update(saleToRow(updates)).eq("id", id)
+    if (error) throw error
   },
-  paymentMethods: {
-    binance: {
-      name: "Binance Pay",
-      description: "Scan with Binance App to pay",
-      qrCode: "/binance-qr-new.jpg",
-      address: "User-4a7ec",
-      enabled: true,
-    },
-    upi: {
-      name: "PhonePe UPI",
-      description: "Scan & Pay Using PhonePe App",
-      qrCode: "/phonepe-qr.jpg",
-      address: "PANCHANAN JANA",
-      enabled: true,
-    },
-    paypal: {
-      name: "PayPal",
-      description: "Pay with PayPal",
-      qrCode: "/paypal-qr.jpg",
-      address: "satyabanpain0@gmail.com",
-      enabled: true,
-    },
+
+  async deleteSale(id) {
+    const { error } = await getSupabase().from(SALES_TABLE).delete().eq("id", id)
+    if (error) throw error
   },
 }
 
-export function getSettings(): SiteSettings {
-  if (typeof window === "undefined") return defaultSettings
+const localStore: SettingsStore = {
+  // Discounts saved before store-wide discounts lack appliesToAll
+  async listDiscounts() {
+    return readLocal<Discount[]>(DISCOUNTS_KEY, []).map((d) => ({ ...d, appliesToAll: d.appliesToAll ?? false }))
+  },
 
-  const stored = localStorage.getItem(SETTINGS_KEY)
-  if (!stored) {
-    localStorage.setItem(SETTINGS_KEY, JSON.stringify(defaultSettings))
-    return defaultSettings
-  }
+  async createDiscount(input) {
+    const discount: Discount = { ...input, id: newLocalId(), createdAt: new Date().toISOString() }
+    writeLocal(DISCOUNTS_KEY, [discount, ...readLocal<Discount[]>(DISCOUNTS_KEY, [])])
+    return discount
+  },
+
+  async updateDiscount(id, updates) {
+    writeLocal(
+      DISCOUNTS_KEY,
+      readLocal<Discount[]>(DISCOUNTS_KEY, []).map((d) => (d.id === id ? { ...d, ...updates } : d)),
+    )
+  },
+
+  async listSales() {
+    return readLocal<Sale[]>(SALES_KEY, [])
+  },
+
+  async createSale(input) {
+    const sale: Sale = { ...input, id: newLocalId(), createdAt: new Date().toISOString() }
+    writeLocal(SALES_KEY, [sale, ...readLocal<Sale[]>(SALES_KEY, [])])
+    return sale
+  },
+
+  async updateSale(id, updates) {
+    writeLocal(
+      SALES_KEY,
+      readLocal<Sale[]>(SALES_KEY, []).map((s) => (s.id === id ? { ...s, ...updates } : s)),
+    )
+  },
 
-  return JSON.parse(stored)
+  async deleteSale(id) {
+    writeLocal(
+      SALES_KEY,
+      readLocal<Sale[]>(SALES_KEY, []).filter((s) => s.id !== id),
+    )
+  },
 }
 
-export function updateSettings(settings: SiteSettings): void {
-  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings))
+function store(): SettingsStore {
+  return pickBackend({ supabase: supabaseStore, local: localStore })
 }
 
-export function calculateDiscount(total: number): { discountAmount: number; finalTotal: number } {
-  const settings = getSettings()
+export function getDiscounts(): Promise<Discount[]> {
+  return store().listDiscounts()
+}
 
-  if (!settings.discount.enabled || settings.discount.value <= 0) {
-    return { discountAmount: 0, finalTotal: total }
-  }
+export function createDiscount(input: DiscountInput): Promise<Discount> {
+  return store().createDiscount(input)
+}
+
+export function updateDiscount(id: string, updates: Partial<DiscountInput>): Promise<void> {
+  return store().updateDiscount(id, updates)
+}
 
-  let discountAmount = 0
+export function getSales(): Promise<Sale[]> {
+  return store().listSales()
+}
 
-  if (settings.discount.type === "percentage") {
-    discountAmount = (total * settings.discount.value) / 100
-  } else {
-    discountAmount = settings.discount.value
+export async function createSale(input: SaleInput): Promise<Sale> {
+  if (input.startDate && input.endDate && new Date(input.endDate) <= new Date(input.startDate)) {
+    throw new Error("The sale must end after it starts")
   }
+  return store().createSale(input)
+}
 
-  const finalTotal = Math.max(0, total - discountAmount)
+export function updateSale(id: string, updates: Partial<SaleInput>): Promise<void> {
+  return store().updateSale(id, updates)
+}
 
-  return { discountAmount, finalTotal }
+export function deleteSale(id: string): Promise<void> {
+  return store().deleteSale(id)
 }
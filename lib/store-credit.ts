@@ -0,0 +1,94 @@
+import { getSupabase, newLocalId, pickBackend, readLocal, writeLocal } from "@/lib/backend"
+import { roundToCurrency, STORE_CURRENCY } from "@/lib/currency"
+
+/**
+ * Store credit ledger (scripts/020_partial_payments.sql). Credit is added when an
+ * admin records an overpayment as store credit; a customer's balance is the sum of
+ * their transactions in the store currency.
+ */
+
+export const STORE_CREDIT_TABLE = "store_credit_transactions"
+export const STORE_CREDIT_KEY = "crime_zone_store_credit"
+
+export interface StoreCreditTransaction {
+  id: string
+  userId: string
+  /** Positive for credit added, negative for credit spent */
+  amount: number
+  currency: string
+  orderId?: string
+  reason: string
+  createdAt: string
+}
+
+export type NewStoreCreditTransaction = Omit<StoreCreditTransaction, "id" | "createdAt">
+
+export function storeCreditFromRow(row: any): StoreCreditTransaction {
+  return {
+    id: row.id,
+    userId: row.user_id,
+    amount: Number(row.amount) || 0,
+    currency: row.currency ?? STORE_CURRENCY,
+    orderId: row.order_id ?? undefined,
+    reason: row.reason ?? "",
+    createdAt: row.created_at,
+  }
+}
+
+interface StoreCreditStore {
+  list(userId: string): Promise<StoreCreditTransaction[]>
+  add(input: NewStoreCreditTransaction): Promise<StoreCreditTransaction>
+}
+
+const supabaseStore: StoreCreditStore = {
+  async list(userId) {
+    const { data, error } = await getSupabase()
+      .from(STORE_CREDIT_TABLE)
+      .select("*")
+      .eq("user_id", userId)
+      .order("created_at", { ascending: false })
+    if (error) throw error
+    return (data || []).map(storeCreditFromRow)
+  },
+
+  // Credit from overpayments is written by record_order_payment in the same transaction;
+  // the table is read-only with the anon key (scripts/032_server_side_writes.sql)
+  async add() {
+    throw new Error("Store credit is only added when an admin records an overpayment")
+  },
+}
+
+const localStore: StoreCreditStore = {
+  async list(userId) {
+    return readLocal<StoreCreditTransaction[]>(STORE_CREDIT_KEY, [])
+      .filter((transaction) => transaction.userId === userId)
+      .sort((a, b) => b.createdAt.localeCompare(a.createdAt))
+  },
+
+  async add(input) {
+    const transaction: StoreCreditTransaction = { ...input, id: newLocalId(), createdAt: new Date().toISOString() }
+    writeLocal(STORE_CREDIT_KEY, [...readLocal<StoreCreditTransaction[]>(STORE_CREDIT_KEY, []), transaction])
+    return transaction
+  },
+}
+
+function store(): StoreCreditStore {
+  return pickBackend({ supabase: supabaseStore, local: localStore })
+}
+
+export function getStoreCreditTransactions(userId: string): Promise<StoreCreditTransaction[]> {
+  return store().list(userId)
+}
+
+export function addStoreCredit(input: NewStoreCreditTransaction): Promise<StoreCreditTransaction> {
+  return store().add(input)
+}
+
+/** Credit available to the customer, in the store currency. */
+export async function getStoreCreditBalance(userId: string): Promise<number> {
+  const transactions = await store().list(userId)
+  const balance = transactions
+    .filter((transaction) => transaction.currency === STORE_CURRENCY)
+    .reduce((sum, transaction) => sum + transaction.amount, 0)
+  return roundToCurrency(balance, STORE_CURRENCY)
+}
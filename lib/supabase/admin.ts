@@ -0,0 +1,19 @@
+import { createClient as createSupabaseClient } from "@supabase/supabase-js"
+
+/**
+ * Server-only client using the service role key. Only route handlers may import
+ * this: it bypasses RLS and is used for the private storage buckets and the
+ * database functions only the server may call, such as place_order.
+ */
+export function createAdminClient() {
+  const url = process.env.NEXT_PUBLIC_SUPABASE_URL ?? ""
+  const key = process.env.SUPABASE_SERVICE_ROLE_KEY ?? ""
+
+  if (!url || !key) {
+    throw new Error("[supabase] NEXT_PUBLIC_SUPABASE_URL or SUPABASE_SERVICE_ROLE_KEY is missing. Add the service role key to .env.local to place orders and store payment proofs.")
+  }
+
+  return createSupabaseClient(url, key, {
+    auth: { persistSession: false, autoRefreshToken: false },
+  })
+}
@@ -12,6 +12,7 @@
 import { SupabaseClient } from '@supabase/supabase-js'
 import { createClient as createBrowserClient } from './client'
 import { createClient as createServerClient } from './server'
+import { createAdminClient } from './admin'
 import { debugSupabaseOperation, DebugContext } from '../debug/supabase-debugger'
 
 // Database Types - Define your actual database schema here
@@ -52,7 +53,9 @@ export interface Database {
           image_url: string | null
           category_id: string | null
           stock_quantity: number
-          is_active: boolean
+          status: 'draft' | 'published' | 'archived'
+          publish_at: string | null
+          unpublish_at: string | null
           created_at: string
           updated_at: string
         }
@@ -64,7 +67,9 @@ export interface Database {
           image_url?: string | null
           category_id?: string | null
           stock_quantity?: number
-          is_active?: boolean
+          status?: 'draft' | 'published' | 'archived'
+          publish_at?: string | null
+          unpublish_at?: string | null
           created_at?: string
           updated_at?: string
         }
@@ -76,7 +81,9 @@ export interface Database {
           image_url?: string | null
           category_id?: string | null
           stock_quantity?: number
-          is_active?: boolean
+          status?: 'draft' | 'published' | 'archived'
+          publish_at?: string | null
+          unpublish_at?: string | null
           updated_at?: string
         }
       }
@@ -418,6 +425,17 @@ export class EnhancedSupabaseClient {
       )
     },
 
+    createSignedUrl: async (bucket: string, path: string, expiresIn: number) => {
+      return debugSupabaseOperation(
+        () => this.client.storage.from(bucket).createSignedUrl(path, expiresIn),
+        { 
+          ...this.context, 
+          function: 'storage_create_signed_url', 
+          parameters: { bucket, path, expiresIn } 
+        }
+      )
+    },
+
     getPublicUrl: (bucket: string, path: string) => {
       console.log(`📁 Getting public URL for ${bucket}/${path}`)
       return this.client.storage.from(bucket).getPublicUrl(path)
@@ -505,6 +523,12 @@ export async function createEnhancedServerClient(component: string = 'ServerClie
   return new EnhancedSupabaseClient(client, component)
 }
 
+// Service role client for route handlers (private buckets, no RLS)
+export function createEnhancedAdminClient(component: string = 'AdminClient'): EnhancedSupabaseClient {
+  const client = createAdminClient() as unknown as SupabaseClient<Database>
+  return new EnhancedSupabaseClient(client, component)
+}
+
 // Default exports for common usage
 export const supabase = createEnhancedBrowserClient('DefaultBrowserClient')
 
@@ -0,0 +1,251 @@
+import { z } from "zod"
+import { getSupabase, newLocalId, pickBackend, readLocal, writeLocal } from "@/lib/backend"
+import { roundMoney, type OrderQuote, type TaxLine } from "@/lib/pricing"
+
+/**
+ * Tax rules by billing country (scripts/023_taxes.sql), e.g. 18% GST for India.
+ * All active rules for the customer's country apply; a country without rules gets
+ * the rules that have no country, and no tax when there are none. Inclusive rules
+ * are already part of the prices and only broken out on the invoice; exclusive
+ * rules are added on top. Tax is worked out on the total after sales and coupons.
+ */
+
+export interface TaxRule {
+  id: string
+  /** Shown on the invoice, e.g. "GST" or "CGST" */
+  name: string
+  /** ISO 3166-1 alpha-2 code; null for every country without rules of its own */
+  country: string | null
+  /** Percent */
+  rate: number
+  inclusive: boolean
+  active: boolean
+  createdAt: string
+}
+
+export type TaxRuleInput = Omit<TaxRule, "id" | "createdAt">
+
+/** The shape of a `TaxRuleInput` sent to /api/tax-rules; `validateTaxRule` checks the rules. */
+export const taxRuleInputSchema = z.object({
+  name: z.string().max(100),
+  country: z.string().max(2).nullable(),
+  rate: z.number(),
+  inclusive: z.boolean(),
+  active: z.boolean(),
+})
+
+export const TAX_RULES_TABLE = "tax_rules"
+export const ORDER_TAX_LINES_TABLE = "order_tax_lines"
+export const TAX_RULES_KEY = "crime_zone_tax_rules"
+
+// ISO 3166-1 alpha-2, named for display with Intl.DisplayNames
+export const COUNTRY_CODES = (
+  "AD AE AF AG AI AL AM AO AQ AR AS AT AU AW AX AZ BA BB BD BE BF BG BH BI BJ BL BM BN BO BQ BR BS BT BV BW BY BZ " +
+  "CA CC CD CF CG CH CI CK CL CM CN CO CR CU CV CW CX CY CZ DE DJ DK DM DO DZ EC EE EG EH ER ES ET FI FJ FK FM FO FR " +
+  "GA GB GD GE GF GG GH GI GL GM GN GP GQ GR GS GT GU GW GY HK HM HN HR HT HU ID IE IL IM IN IO IQ IR IS IT JE JM JO " +
+  "JP KE KG KH KI KM KN KP KR KW KY KZ LA LB LC LI LK LR LS LT LU LV LY MA MC MD ME MF MG MH MK ML MM MN MO MP MQ MR " +
+  "MS MT MU MV MW MX MY MZ NA NC NE NF NG NI NL NO NP NR NU NZ OM PA PE PF PG PH PK PL PM PN PR PS PT PW PY QA RE RO " +
+  "RS RU RW SA SB SC SD SE SG SH SI SJ SK SL SM SN SO SR SS ST SV SX SY SZ TC TD TF TG TH TJ TK TL TM TN TO TR TT TV " +
+  "TW TZ UA UG UM US UY UZ VA VC VE VG VI VN VU WF WS YE YT ZA ZM ZW"
+).split(" ")
+
+/** Raised when a tax rule is invalid or the billing country is missing. */
+export class TaxError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = "TaxError"
+  }
+}
+
+export function normalizeCountry(code: string): string {
+  return code.trim().toUpperCase()
+}
+
+export function isCountryCode(code: string): boolean {
+  return COUNTRY_CODES.includes(normalizeCountry(code))
+}
+
+export function countryName(code: string): string {
+  try {
+    return new Intl.DisplayNames(["en"], { type: "region" }).of(code) ?? code
+  } catch {
+    return code
+  }
+}
+
+// Row mapping
+
+export function taxRuleFromRow(row: any): TaxRule {
+  return {
+    id: row.id,
+    name: row.name ?? "",
+    country: row.country ?? null,
+    rate: Number(row.rate) || 0,
+    inclusive: Boolean(row.inclusive),
+    active: Boolean(row.active),
+    createdAt: row.created_at ?? new Date().toISOString(),
+  }
+}
+
+export function taxRuleToRow(input: Partial<TaxRuleInput>): Record<string, unknown> {
+  const row: Record<string, unknown> = {}
+  if (input.name !== undefined) row.name = input.name.trim()
+  if (input.country !== undefined) row.country = input.country ? normalizeCountry(input.country) : null
+  if (input.rate !== undefined) row.rate = input.rate
+  if (input.inclusive !== undefined) row.inclusive = input.inclusive
+  if (input.active !== undefined) row.active = input.active
+  return row
+}
+
+export function taxLineFromRow(row: any): TaxLine {
+  return {
+    name: row.name ?? "",
+    rate: Number(row.rate) || 0,
+    inclusive: Boolean(row.inclusive),
+    amount: Number(row.amount) || 0,
+  }
+}
+
+// Evaluation
+
+/** The active rules that apply to a billing country. */
+export function taxRulesFor(rules: TaxRule[], country: string): TaxRule[] {
+  const active = rules.filter((rule) => rule.active)
+  const own = active.filter((rule) => rule.country === normalizeCountry(country))
+  return own.length > 0 ? own : active.filter((rule) => rule.country === null)
+}
+
+/**
+ * Work out the taxes on a quote for a billing country. Call it after any coupon, so
+ * coupons see the total before tax. Several inclusive rules share the price: with
+ * CGST 9% and SGST 9% included, each is 9% of the price without both.
+ */
+export function applyTax(quote: OrderQuote, rules: TaxRule[], country: string): OrderQuote {
+  const billingCountry = normalizeCountry(country)
+  if (!isCountryCode(billingCountry)) throw new TaxError("Please choose your billing country")
+
+  const applicable = taxRulesFor(rules, billingCountry)
+  const inclusiveRate = applicable.filter((rule) => rule.inclusive).reduce((sum, rule) => sum + rule.rate, 0)
+  const net = quote.total / (1 + inclusiveRate / 100)
+  const taxes = applicable.map(
+    (rule): TaxLine => ({
+      name: rule.name,
+      rate: rule.rate,
+      inclusive: rule.inclusive,
+      amount: roundMoney((net * rule.rate) / 100),
+    }),
+  )
+  const added = taxes.filter((tax) => !tax.inclusive).reduce((sum, tax) => sum + tax.amount, 0)
+  return { ...quote, billingCountry, taxes, total: roundMoney(quote.total + added) }
+}
+
+export function taxTotal(taxes: TaxLine[]): number {
+  return roundMoney(taxes.reduce((sum, tax) => sum + tax.amount, 0))
+}
+
+export function validateTaxRule(input: TaxRuleInput) {
+  if (!input.name.trim()) throw new TaxError("Give the tax a name, e.g. GST")
+  if (input.country && !isCountryCode(input.country)) throw new TaxError("Unknown country code")
+  if (!(input.rate > 0 && input.rate <= 100)) throw new TaxError("The rate must be between 0 and 100")
+}
+
+interface TaxRuleStore {
+  list(): Promise<TaxRule[]>
+  create(input: TaxRuleInput): Promise<TaxRule>
+  update(id: string, updates: Partial<TaxRuleInput>): Promise<void>
+  remove(id: string): Promise<void>
+}
+
+const supabaseStore: TaxRuleStore = {
+  async list() {
+    const { data, error } = await getSupabase()
+      .from(TAX_RULES_TABLE)
+      .select("*")
+      .order("country", { ascending: true, nullsFirst: false })
+      .order("created_at", { ascending: true })
+    if (error) throw error
+    return (data || []).map(taxRuleFromRow)
+  },
+
+  // The order API taxes with these rules, so admins write them through the API
+  // (scripts/032_server_side_writes.sql)
+  async create(input) {
+    const body = await taxRuleRequest("/api/tax-rules", "POST", input)
+    return body.rule as TaxRule
+  },
+
+  async update(id, updates) {
+    await taxRuleRequest(`/api/tax-rules/${id}`, "PATCH", updates)
+  },
+
+  // Orders keep their own copy of the tax lines, so rules can be deleted freely
+  async remove(id) {
+    await taxRuleRequest(`/api/tax-rules/${id}`, "DELETE")
+  },
+}
+
+/** Invalid rules come back as `TaxError`, with the API's message. */
+async function taxRuleRequest(url: string, method: string, payload?: unknown) {
+  const response = await fetch(url, {
+    method,
+    headers: payload === undefined ? undefined : { "Content-Type": "application/json" },
+    body: payload === undefined ? undefined : JSON.stringify(payload),
+  })
+  const body = await response.json().catch(() => ({}))
+  if (response.status === 400) throw new TaxError(body.error || "Invalid tax rule")
+  if (!response.ok) throw new Error(body.error || `Tax rule request failed (${response.status})`)
+  return body
+}
+
+const localStore: TaxRuleStore = {
+  async list() {
+    return readLocal<TaxRule[]>(TAX_RULES_KEY, [])
+  },
+
+  async create(input) {
+    const rule: TaxRule = {
+      ...input,
+      name: input.name.trim(),
+      country: input.country ? normalizeCountry(input.country) : null,
+      id: newLocalId(),
+      createdAt: new Date().toISOString(),
+    }
+    writeLocal(TAX_RULES_KEY, [...readLocal<TaxRule[]>(TAX_RULES_KEY, []), rule])
+    return rule
+  },
+
+  async update(id, updates) {
+    writeLocal(
+      TAX_RULES_KEY,
+      readLocal<TaxRule[]>(TAX_RULES_KEY, []).map((rule) => (rule.id === id ? { ...rule, ...updates } : rule)),
+    )
+  },
+
+  async remove(id) {
+    writeLocal(
+      TAX_RULES_KEY,
+      readLocal<TaxRule[]>(TAX_RULES_KEY, []).filter((rule) => rule.id !== id),
+    )
+  },
+}
+
+function store(): TaxRuleStore {
+  return pickBackend({ supabase: supabaseStore, local: localStore })
+}
+
+export function getTaxRules(): Promise<TaxRule[]> {
+  return store().list()
+}
+
+export async function createTaxRule(input: TaxRuleInput): Promise<TaxRule> {
+  validateTaxRule(input)
+  return store().create(input)
+}
+
+export function updateTaxRule(id: string, updates: Partial<TaxRuleInput>): Promise<void> {
+  return store().update(id, updates)
+}
+
+export function deleteTaxRule(id: string): Promise<void> {
+  return store().remove(id)
+}
@@ -0,0 +1,42 @@
+/**
+ * UPI deep links (`upi://pay?...`) as understood by PhonePe, Google Pay, Paytm and
+ * BHIM. The same URI is encoded in the checkout QR code and opened directly on
+ * mobile, so the customer's app is pre-filled with the payee, the exact amount and
+ * the order id as the transaction note.
+ */
+
+export interface UpiPaymentRequest {
+  /** Payee virtual payment address, e.g. `shop@ybl` */
+  vpa: string
+  payeeName: string
+  amount: number
+  /** Sent as the transaction note so the payment can be matched to the order */
+  orderId?: string
+}
+
+// name@handle; handles are letters only, the name part allows dots, dashes and underscores
+const VPA_PATTERN = /^[a-zA-Z0-9._-]{2,256}@[a-zA-Z]{2,64}$/
+
+// Some UPI apps reject notes longer than this
+const MAX_NOTE_LENGTH = 50
+
+export function isValidVpa(value: string | null | undefined): value is string {
+  return VPA_PATTERN.test((value || "").trim())
+}
+
+export function upiTransactionNote(orderId: string): string {
+  return `Order ${orderId}`.slice(0, MAX_NOTE_LENGTH)
+}
+
+export function buildUpiUri({ vpa, payeeName, amount, orderId }: UpiPaymentRequest): string {
+  const params = new URLSearchParams({
+    pa: vpa.trim(),
+    pn: payeeName,
+    am: amount.toFixed(2),
+    cu: "INR",
+  })
+  if (orderId) params.set("tn", upiTransactionNote(orderId))
+  // UPI apps expect %20 rather than the + that URLSearchParams uses for spaces, and
+  // several do not decode an escaped @ in the payee address
+  return `upi://pay?${params.toString().replace(/\+/g, "%20").replace(/%40/g, "@")}`
+}
@@ -0,0 +1,139 @@
+import { getSupabase, newLocalId, pickBackend, readLocal, writeLocal } from "@/lib/backend"
+
+export type UserRole = "user" | "admin"
+
+export interface User {
+  id: string
+  email: string
+  name: string
+  role: UserRole
+  createdAt: string
+}
+
+export interface NewUser {
+  email: string
+  name: string
+  password: string
+}
+
+export const USERS_TABLE = "users"
+export const USERS_KEY = "crime_zone_users"
+const PASSWORDS_KEY = "crime_zone_passwords"
+
+interface UserStore {
+  list(): Promise<User[]>
+  getByEmail(email: string): Promise<User | null>
+  create(input: NewUser): Promise<User>
+  verifyPassword(email: string, password: string): Promise<User | null>
+}
+
+export function userFromRow(row: any): User {
+  return {
+    id: row.id,
+    email: row.email ?? "",
+    name: row.name ?? row.full_name ?? row.email?.split("@")[0] ?? "User",
+    role: row.role === "admin" ? "admin" : "user",
+    createdAt: row.created_at ?? row.createdAt ?? new Date().toISOString(),
+  }
+}
+
+const supabaseStore: UserStore = {
+  async list() {
+    const { data, error } = await getSupabase()
+      .from(USERS_TABLE)
+      .select("id, name, email, role, created_at")
+      .order("created_at", { ascending: false })
+    if (error) throw error
+    return (data || []).map(userFromRow)
+  },
+
+  async getByEmail(email) {
+    // maybeSingle() avoids 406 errors when no row matches
+    const { data, error } = await getSupabase()
+      .from(USERS_TABLE)
+      .select("id, name, email, role, created_at")
+      .eq("email", email)
+      .maybeSingle()
+    if (error) throw error
+    return data ? userFromRow(data) : null
+  },
+
+  // Accounts are written and passwords checked on the server (scripts/032_server_side_writes.sql);
+  // both routes also set the signed session cookie the API routes trust
+  async create(input) {
+    const response = await fetch("/api/auth/register", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ email: input.email, name: input.name, password: input.password }),
+    })
+    const body = await response.json().catch(() => ({}))
+    if (!response.ok) throw new Error(body.error || `Could not create your account (${response.status})`)
+    return userFromRow(body.user)
+  },
+
+  async verifyPassword(email, password) {
+    const response = await fetch("/api/auth/session", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ email, password }),
+    })
+    if (response.status === 401) return null
+    const body = await response.json().catch(() => ({}))
+    if (!response.ok) throw new Error(body.error || `Sign-in failed (${response.status})`)
+    return userFromRow(body.user)
+  },
+}
+
+const localStore: UserStore = {
+  async list() {
+    return readLocal<User[]>(USERS_KEY, [])
+  },
+
+  async getByEmail(email) {
+    return readLocal<User[]>(USERS_KEY, []).find((u) => u.email === email) || null
+  },
+
+  async create(input) {
+    const users = readLocal<User[]>(USERS_KEY, [])
+    const user: User = {
+      id: newLocalId(),
+      email: input.email,
+      name: input.name,
+      // Demo mode: the first account on this browser runs the shop
+      role: users.length === 0 ? "admin" : "user",
+      createdAt: new Date().toISOString(),
+    }
+
+    // Store password separately (in real app, this would be hashed)
+    const passwords = readLocal<Record<string, string>>(PASSWORDS_KEY, {})
+    writeLocal(PASSWORDS_KEY, { ...passwords, [input.email]: input.password })
+    writeLocal(USERS_KEY, [...users, user])
+    return user
+  },
+
+  async verifyPassword(email, password) {
+    const user = await localStore.getByEmail(email)
+    const passwords = readLocal<Record<string, string>>(PASSWORDS_KEY, {})
+    return user && passwords[email] === password ? user : null
+  },
+}
+
+function store(): UserStore {
+  return pickBackend({ supabase: supabaseStore, local: localStore })
+}
+
+export function getUsers(): Promise<User[]> {
+  return store().list()
+}
+
+export function getUserByEmail(email: string): Promise<User | null> {
+  return store().getByEmail(email)
+}
+
+export function createUser(input: NewUser): Promise<User> {
+  return store().create(input)
+}
+
+export function verifyUserPassword(email: string, password: string): Promise<User | null> {
+  return store().verifyPassword(email, password)
+}
@@ -0,0 +1,41 @@
+-- ======================================================
+-- Columns and tables expected by the lib/ repository modules
+-- Run this in your Supabase SQL Editor after setup_database_schema.sql
+-- ======================================================
+
+-- Orders: payment method and admin notes are written by lib/orders.ts
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS payment_method text,
+ADD COLUMN IF NOT EXISTS notes text;
+
+-- Chat: read receipts for lib/chat.ts
+CREATE TABLE IF NOT EXISTS public.chat_messages (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL REFERENCES public.users(id) ON DELETE CASCADE,
+    message text NOT NULL,
+    sender text NOT NULL CHECK (sender IN ('user', 'admin')),
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+ALTER TABLE public.chat_messages
+ADD COLUMN IF NOT EXISTS read boolean NOT NULL DEFAULT false;
+
+CREATE INDEX IF NOT EXISTS idx_chat_messages_user_id ON public.chat_messages(user_id);
+
+-- Discounts and sales managed in app/admin/settings
+CREATE TABLE IF NOT EXISTS public.discounts (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL,
+    percentage numeric(5, 2) NOT NULL DEFAULT 0,
+    active boolean NOT NULL DEFAULT true,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE TABLE IF NOT EXISTS public.sales (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    product_id uuid REFERENCES public.products(id) ON DELETE CASCADE,
+    discount_id uuid REFERENCES public.discounts(id) ON DELETE SET NULL,
+    start_date timestamptz,
+    end_date timestamptz,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
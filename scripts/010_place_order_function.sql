@@ -0,0 +1,60 @@
+-- ======================================================
+-- Atomic order placement used by app/api/orders
+-- Run this in your Supabase SQL Editor after 009_data_layer_columns.sql
+-- ======================================================
+
+-- p_lines: [{ "product_id": uuid, "quantity": int, "total_amount": numeric }, ...]
+-- Totals are computed by the API route from the products/sales tables.
+-- Every product row is locked while its stock is checked and decremented, so either
+-- all lines are inserted or none are.
+CREATE OR REPLACE FUNCTION public.place_order(
+    p_user_id uuid,
+    p_payment_method text,
+    p_lines jsonb
+)
+RETURNS SETOF public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    line jsonb;
+    line_product_id uuid;
+    line_quantity integer;
+    available integer;
+    product_title text;
+BEGIN
+    IF jsonb_array_length(coalesce(p_lines, '[]'::jsonb)) = 0 THEN
+        RAISE EXCEPTION 'Order has no items' USING ERRCODE = 'P0001';
+    END IF;
+
+    FOR line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+        line_product_id := (line->>'product_id')::uuid;
+        line_quantity := (line->>'quantity')::integer;
+
+        SELECT stock, title INTO available, product_title
+        FROM public.products
+        WHERE id = line_product_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'A product in your cart is no longer available' USING ERRCODE = 'P0001';
+        END IF;
+
+        IF line_quantity IS NULL OR line_quantity <= 0 OR available < line_quantity THEN
+            RAISE EXCEPTION 'Not enough stock for "%"', product_title USING ERRCODE = 'P0001';
+        END IF;
+
+        UPDATE public.products
+        SET stock = stock - line_quantity
+        WHERE id = line_product_id;
+
+        RETURN QUERY
+        INSERT INTO public.orders (user_id, product_id, quantity, total_amount, payment_method, status)
+        VALUES (p_user_id, line_product_id, line_quantity, (line->>'total_amount')::numeric, p_payment_method, 'pending')
+        RETURNING *;
+    END LOOP;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(uuid, text, jsonb) TO anon, authenticated;
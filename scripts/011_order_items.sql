@@ -0,0 +1,102 @@
+-- ======================================================
+-- One order per checkout, with its lines in order_items
+-- Run this in your Supabase SQL Editor after 010_place_order_function.sql
+-- ======================================================
+
+-- Line items: product reference, quantity and the unit price charged at checkout
+CREATE TABLE IF NOT EXISTS public.order_items (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+    quantity integer NOT NULL,
+    price numeric(10, 2) NOT NULL,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_items_order_id ON public.order_items(order_id);
+
+-- Same access model as orders (the app uses its own users table, not Supabase Auth)
+ALTER TABLE public.order_items DISABLE ROW LEVEL SECURITY;
+
+-- orders.product_id / quantity only describe legacy single-product orders now
+ALTER TABLE public.orders ALTER COLUMN product_id DROP NOT NULL;
+
+-- Copy legacy single-product orders into order_items so every order has lines
+INSERT INTO public.order_items (order_id, product_id, quantity, price, created_at)
+SELECT o.id, o.product_id, o.quantity, round(o.total_amount / greatest(o.quantity, 1), 2), o.created_at
+FROM public.orders o
+WHERE o.product_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.order_items oi WHERE oi.order_id = o.id);
+
+-- p_lines: [{ "product_id": uuid, "quantity": int, "unit_price": numeric }, ...]
+-- Creates a single order for the whole basket plus its payment proof.
+DROP FUNCTION IF EXISTS public.place_order(uuid, text, jsonb);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+    p_user_id uuid,
+    p_payment_method text,
+    p_lines jsonb,
+    p_payment_proof text DEFAULT NULL
+)
+RETURNS SETOF public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    line jsonb;
+    line_product_id uuid;
+    line_quantity integer;
+    available integer;
+    product_title text;
+    new_order public.orders;
+BEGIN
+    IF jsonb_array_length(coalesce(p_lines, '[]'::jsonb)) = 0 THEN
+        RAISE EXCEPTION 'Order has no items' USING ERRCODE = 'P0001';
+    END IF;
+
+    INSERT INTO public.orders (user_id, quantity, total_amount, payment_method, status)
+    VALUES (p_user_id, 0, 0, p_payment_method, 'pending')
+    RETURNING * INTO new_order;
+
+    FOR line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+        line_product_id := (line->>'product_id')::uuid;
+        line_quantity := (line->>'quantity')::integer;
+
+        SELECT stock, title INTO available, product_title
+        FROM public.products
+        WHERE id = line_product_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'A product in your cart is no longer available' USING ERRCODE = 'P0001';
+        END IF;
+
+        IF line_quantity IS NULL OR line_quantity <= 0 OR available < line_quantity THEN
+            RAISE EXCEPTION 'Not enough stock for "%"', product_title USING ERRCODE = 'P0001';
+        END IF;
+
+        UPDATE public.products
+        SET stock = stock - line_quantity
+        WHERE id = line_product_id;
+
+        INSERT INTO public.order_items (order_id, product_id, quantity, price)
+        VALUES (new_order.id, line_product_id, line_quantity, (line->>'unit_price')::numeric);
+    END LOOP;
+
+    UPDATE public.orders
+    SET quantity = (SELECT sum(quantity) FROM public.order_items WHERE order_id = new_order.id),
+        total_amount = (SELECT sum(quantity * price) FROM public.order_items WHERE order_id = new_order.id)
+    WHERE id = new_order.id
+    RETURNING * INTO new_order;
+
+    IF p_payment_proof IS NOT NULL THEN
+        INSERT INTO public.payment_proofs (user_id, order_id, file_path)
+        VALUES (p_user_id, new_order.id, p_payment_proof);
+    END IF;
+
+    RETURN NEXT new_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(uuid, text, jsonb, text) TO anon, authenticated;
@@ -0,0 +1,14 @@
+-- ======================================================
+-- Private storage bucket for payment proof screenshots
+-- Run this in your Supabase SQL Editor after 012_order_status_history.sql
+-- ======================================================
+
+-- Not public: files are only reachable through signed URLs created by
+-- app/api/orders/[id]/proof with the service role key (SUPABASE_SERVICE_ROLE_KEY).
+-- No storage policies are added, so the anon key cannot read or list proofs.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('payment-proofs', 'payment-proofs', false, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp', 'image/gif'])
+ON CONFLICT (id) DO UPDATE SET public = false;
+
+-- payment_proofs.file_path now holds the object path inside the bucket
+CREATE INDEX IF NOT EXISTS idx_payment_proofs_order_id ON public.payment_proofs(order_id);
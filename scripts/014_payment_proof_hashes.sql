@@ -0,0 +1,56 @@
+-- ======================================================
+-- Duplicate payment proof detection
+-- Run this in your Supabase SQL Editor after 013_payment_proofs_storage.sql
+-- ======================================================
+
+-- perceptual_hash: 64-bit difference hash (16 hex chars) of the screenshot, see lib/payment-proofs.ts
+-- sha256: hash of the stored file bytes, catches byte-identical re-uploads
+-- duplicate_order_ids: earlier orders whose proof looked the same when this one was uploaded
+ALTER TABLE public.payment_proofs
+ADD COLUMN IF NOT EXISTS perceptual_hash text,
+ADD COLUMN IF NOT EXISTS sha256 text,
+ADD COLUMN IF NOT EXISTS duplicate_order_ids uuid[] NOT NULL DEFAULT '{}';
+
+CREATE INDEX IF NOT EXISTS idx_payment_proofs_sha256 ON public.payment_proofs(sha256);
+
+-- Store the hashes for an order's proof and link it to earlier orders with a visually
+-- identical proof (Hamming distance of the perceptual hashes <= p_max_distance).
+-- Returns the ids of those earlier orders.
+CREATE OR REPLACE FUNCTION public.record_payment_proof_hashes(
+    p_order_id uuid,
+    p_perceptual_hash text,
+    p_sha256 text,
+    p_max_distance integer DEFAULT 5
+)
+RETURNS uuid[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    matches uuid[];
+BEGIN
+    SELECT coalesce(array_agg(DISTINCT p.order_id), '{}')
+    INTO matches
+    FROM public.payment_proofs p
+    WHERE p.order_id <> p_order_id
+      AND (
+          (p_sha256 IS NOT NULL AND p.sha256 = p_sha256)
+          OR (
+              p_perceptual_hash ~ '^[0-9a-f]{16}$'
+              AND p.perceptual_hash ~ '^[0-9a-f]{16}$'
+              AND bit_count(('x' || p.perceptual_hash)::bit(64) # ('x' || p_perceptual_hash)::bit(64)) <= p_max_distance
+          )
+      );
+
+    UPDATE public.payment_proofs
+    SET perceptual_hash = p_perceptual_hash,
+        sha256 = p_sha256,
+        duplicate_order_ids = matches
+    WHERE order_id = p_order_id;
+
+    RETURN matches;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_payment_proof_hashes(uuid, text, text, integer) TO anon, authenticated;
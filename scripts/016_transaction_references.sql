@@ -0,0 +1,95 @@
+-- ======================================================
+-- Transaction references (UPI UTR, Binance Pay order ID, PayPal transaction ID)
+-- Run this in your Supabase SQL Editor after 015_client_order_ids.sql
+-- ======================================================
+
+-- Entered by the customer at checkout, normalized and format-checked by lib/payment-references.ts.
+-- A reference can only ever pay for one order.
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS transaction_reference text;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_orders_transaction_reference
+ON public.orders(transaction_reference)
+WHERE transaction_reference IS NOT NULL;
+
+DROP FUNCTION IF EXISTS public.place_order(uuid, text, jsonb, text, uuid);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+    p_user_id uuid,
+    p_payment_method text,
+    p_lines jsonb,
+    p_payment_proof text DEFAULT NULL,
+    p_order_id uuid DEFAULT NULL,
+    p_transaction_reference text DEFAULT NULL
+)
+RETURNS SETOF public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    line jsonb;
+    line_product_id uuid;
+    line_quantity integer;
+    available integer;
+    product_title text;
+    new_order public.orders;
+BEGIN
+    IF jsonb_array_length(coalesce(p_lines, '[]'::jsonb)) = 0 THEN
+        RAISE EXCEPTION 'Order has no items' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF p_order_id IS NOT NULL AND EXISTS (SELECT 1 FROM public.orders WHERE id = p_order_id) THEN
+        RAISE EXCEPTION 'This order has already been submitted' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF p_transaction_reference IS NOT NULL
+       AND EXISTS (SELECT 1 FROM public.orders WHERE transaction_reference = p_transaction_reference) THEN
+        RAISE EXCEPTION 'This transaction reference was already used for another order' USING ERRCODE = 'P0001';
+    END IF;
+
+    INSERT INTO public.orders (id, user_id, quantity, total_amount, payment_method, status, transaction_reference)
+    VALUES (coalesce(p_order_id, gen_random_uuid()), p_user_id, 0, 0, p_payment_method, 'pending', p_transaction_reference)
+    RETURNING * INTO new_order;
+
+    FOR line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+        line_product_id := (line->>'product_id')::uuid;
+        line_quantity := (line->>'quantity')::integer;
+
+        SELECT stock, title INTO available, product_title
+        FROM public.products
+        WHERE id = line_product_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'A product in your cart is no longer available' USING ERRCODE = 'P0001';
+        END IF;
+
+        IF line_quantity IS NULL OR line_quantity <= 0 OR available < line_quantity THEN
+            RAISE EXCEPTION 'Not enough stock for "%"', product_title USING ERRCODE = 'P0001';
+        END IF;
+
+        UPDATE public.products
+        SET stock = stock - line_quantity
+        WHERE id = line_product_id;
+
+        INSERT INTO public.order_items (order_id, product_id, quantity, price)
+        VALUES (new_order.id, line_product_id, line_quantity, (line->>'unit_price')::numeric);
+    END LOOP;
+
+    UPDATE public.orders
+    SET quantity = (SELECT sum(quantity) FROM public.order_items WHERE order_id = new_order.id),
+        total_amount = (SELECT sum(quantity * price) FROM public.order_items WHERE order_id = new_order.id)
+    WHERE id = new_order.id
+    RETURNING * INTO new_order;
+
+    IF p_payment_proof IS NOT NULL THEN
+        INSERT INTO public.payment_proofs (user_id, order_id, file_path)
+        VALUES (p_user_id, new_order.id, p_payment_proof);
+    END IF;
+
+    RETURN NEXT new_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(uuid, text, jsonb, text, uuid, text) TO anon, authenticated;
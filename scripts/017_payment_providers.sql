@@ -0,0 +1,97 @@
+-- ======================================================
+-- Payment provider registry
+-- Run this in your Supabase SQL Editor after 016_transaction_references.sql
+-- ======================================================
+
+-- One row per payment method offered at checkout (lib/payment-providers.ts).
+-- `key` is what orders.payment_method stores; `type` decides checkout behaviour
+-- (dynamic UPI QR, transaction reference format). New methods such as USDT-TRC20
+-- or a bank transfer are just new rows.
+CREATE TABLE IF NOT EXISTS public.payment_providers (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    key text NOT NULL UNIQUE CHECK (key ~ '^[a-z0-9][a-z0-9_-]*$'),
+    type text NOT NULL DEFAULT 'other'
+        CHECK (type IN ('upi', 'binance', 'paypal', 'crypto', 'bank_transfer', 'other')),
+    display_name text NOT NULL,
+    instructions text NOT NULL DEFAULT '',
+    qr_code_url text NOT NULL DEFAULT '',
+    account_identifier text NOT NULL DEFAULT '',
+    currency text NOT NULL DEFAULT 'USD',
+    min_amount numeric(12, 2),
+    max_amount numeric(12, 2),
+    sort_order integer NOT NULL DEFAULT 0,
+    active boolean NOT NULL DEFAULT true,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    CHECK (min_amount IS NULL OR max_amount IS NULL OR min_amount <= max_amount)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_providers_sort_order ON public.payment_providers(sort_order);
+
+-- Same access model as the other settings tables (the app uses its own users table, not Supabase Auth)
+ALTER TABLE public.payment_providers DISABLE ROW LEVEL SECURITY;
+
+-- Carry over the configuration from the wide payment_methods columns, when that table exists
+DO $$
+BEGIN
+    IF to_regclass('public.payment_methods') IS NOT NULL THEN
+        INSERT INTO public.payment_providers
+            (key, type, display_name, qr_code_url, account_identifier, currency, sort_order, active)
+        SELECT DISTINCT ON (m.key)
+            m.key, m.key, pm.method_name,
+            coalesce(CASE m.key WHEN 'upi' THEN pm.upi_qr WHEN 'binance' THEN pm.binance_qr ELSE pm.paypal_qr END, ''),
+            coalesce(CASE m.key WHEN 'upi' THEN pm.upi_id WHEN 'binance' THEN pm.binance_id ELSE pm.paypal_id END, ''),
+            m.currency, m.sort_order, pm.active
+        FROM public.payment_methods pm
+        CROSS JOIN LATERAL (
+            SELECT * FROM (VALUES
+                ('upi', 'INR', 10, lower(pm.method_name) LIKE '%upi%' OR lower(pm.method_name) LIKE '%phonepe%'),
+                ('binance', 'USDT', 20, lower(pm.method_name) LIKE '%binance%'),
+                ('paypal', 'USD', 30, lower(pm.method_name) LIKE '%paypal%')
+            ) AS v(key, currency, sort_order, matches)
+            WHERE v.matches
+        ) m
+        -- Prefer the active row when a method was configured more than once
+        ORDER BY m.key, pm.active DESC
+        ON CONFLICT (key) DO NOTHING;
+    END IF;
+END;
+$$;
+
+-- Defaults for anything not configured before
+INSERT INTO public.payment_providers
+    (key, type, display_name, instructions, qr_code_url, account_identifier, currency, sort_order)
+VALUES
+    ('upi', 'upi', 'PhonePe UPI', 'Scan & Pay Using PhonePe App', '/phonepe-qr.jpg', '', 'INR', 10),
+    ('binance', 'binance', 'Binance Pay', 'Scan with Binance App to pay', '/binance-qr-new.jpg', 'User-4a7ec', 'USDT', 20),
+    ('paypal', 'paypal', 'PayPal', 'Pay with PayPal', '/paypal-qr.jpg', 'satyabanpain0@gmail.com', 'USD', 30)
+ON CONFLICT (key) DO NOTHING;
+
+-- Older orders stored the method's display name ("PhonePe UPI", "Binance Pay", ...)
+UPDATE public.orders SET payment_method = 'upi'
+WHERE (lower(payment_method) LIKE '%upi%' OR lower(payment_method) LIKE '%phonepe%') AND payment_method <> 'upi';
+UPDATE public.orders SET payment_method = 'binance'
+WHERE lower(payment_method) LIKE '%binance%' AND payment_method <> 'binance';
+UPDATE public.orders SET payment_method = 'paypal'
+WHERE lower(payment_method) LIKE '%paypal%' AND payment_method <> 'paypal';
+
+-- Any other method names found on orders become inactive providers, so every order
+-- can reference one and keeps showing its original name
+INSERT INTO public.payment_providers (key, type, display_name, active, sort_order)
+SELECT DISTINCT payment_method, 'other', payment_method, false, 100
+FROM public.orders
+WHERE payment_method IS NOT NULL
+  AND payment_method ~ '^[a-z0-9][a-z0-9_-]*$'
+ON CONFLICT (key) DO NOTHING;
+
+UPDATE public.orders SET payment_method = NULL
+WHERE payment_method IS NOT NULL
+  AND payment_method NOT IN (SELECT key FROM public.payment_providers);
+
+-- Lets order queries join the provider name; a provider with orders cannot be deleted, only deactivated
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_payment_method_fkey;
+ALTER TABLE public.orders
+ADD CONSTRAINT orders_payment_method_fkey
+FOREIGN KEY (payment_method) REFERENCES public.payment_providers(key) ON UPDATE CASCADE;
+
+-- payment_methods is no longer read by the app; drop it once the providers above look right:
+-- DROP TABLE public.payment_methods;
@@ -0,0 +1,43 @@
+-- ======================================================
+-- Payment gateways and webhook events
+-- Run this in your Supabase SQL Editor after 017_payment_providers.sql
+-- ======================================================
+
+-- Which gateway collects the money for a provider (lib/payment-gateways). 'manual' is
+-- the QR code + screenshot flow confirmed by an admin; other gateways confirm orders
+-- through /api/payments/<gateway>/webhook.
+ALTER TABLE public.payment_providers
+ADD COLUMN IF NOT EXISTS gateway text NOT NULL DEFAULT 'manual';
+
+ALTER TABLE public.payment_providers DROP CONSTRAINT IF EXISTS payment_providers_gateway_check;
+ALTER TABLE public.payment_providers
+ADD CONSTRAINT payment_providers_gateway_check CHECK (gateway IN ('manual', 'fake'));
+
+-- Development provider for the fake gateway; activate it in Admin > Settings to try the
+-- redirect and webhook flow. Keep it inactive in production.
+INSERT INTO public.payment_providers
+    (key, type, gateway, display_name, instructions, currency, sort_order, active)
+VALUES
+    ('fake', 'other', 'fake', 'Test Payment', 'Pay on a simulated gateway page (development only)', 'USD', 900, false)
+ON CONFLICT (key) DO NOTHING;
+
+-- Every webhook event that passed signature verification. Gateways redeliver events,
+-- so the unique (gateway, event_id) makes handling them idempotent.
+CREATE TABLE IF NOT EXISTS public.payment_events (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    gateway text NOT NULL,
+    event_id text NOT NULL,
+    type text NOT NULL,
+    order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+    payment_id text,
+    amount numeric(12, 2),
+    currency text,
+    payload jsonb NOT NULL DEFAULT '{}'::jsonb,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    UNIQUE (gateway, event_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_payment_events_order_id ON public.payment_events(order_id);
+
+-- Same access model as the other order tables (the app uses its own users table, not Supabase Auth)
+ALTER TABLE public.payment_events DISABLE ROW LEVEL SECURITY;
@@ -0,0 +1,131 @@
+-- ======================================================
+-- Exchange rates and order payment currency
+-- Run this in your Supabase SQL Editor after 018_payment_gateways.sql
+-- ======================================================
+
+-- Admin-managed conversion from the store currency (NEXT_PUBLIC_STORE_CURRENCY) to the
+-- currencies payment methods take (lib/currency.ts). `rate` is units of `currency` per
+-- one unit of `base_currency`. Rates are never edited: a new row with a later
+-- effective_from replaces the previous one, so past orders can be traced to their rate.
+CREATE TABLE IF NOT EXISTS public.exchange_rates (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    base_currency text NOT NULL DEFAULT 'USD',
+    currency text NOT NULL CHECK (currency ~ '^[A-Z0-9]{3,5}$'),
+    rate numeric(20, 8) NOT NULL CHECK (rate > 0),
+    effective_from timestamptz NOT NULL DEFAULT now(),
+    created_at timestamptz NOT NULL DEFAULT now(),
+    CHECK (currency <> base_currency)
+);
+
+CREATE INDEX IF NOT EXISTS idx_exchange_rates_lookup
+ON public.exchange_rates(base_currency, currency, effective_from DESC);
+
+-- Same access model as the other settings tables (the app uses its own users table, not Supabase Auth)
+ALTER TABLE public.exchange_rates DISABLE ROW LEVEL SECURITY;
+
+-- Snapshot of what the customer was asked to pay: total_amount stays in the store
+-- currency, payment_amount is it converted at exchange_rate into payment_currency
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS currency text NOT NULL DEFAULT 'USD',
+ADD COLUMN IF NOT EXISTS payment_currency text,
+ADD COLUMN IF NOT EXISTS payment_amount numeric(20, 8),
+ADD COLUMN IF NOT EXISTS exchange_rate numeric(20, 8);
+
+-- Orders placed before this migration were paid in the store currency
+UPDATE public.orders
+SET payment_currency = currency,
+    payment_amount = total_amount,
+    exchange_rate = 1
+WHERE payment_currency IS NULL;
+
+DROP FUNCTION IF EXISTS public.place_order(uuid, text, jsonb, text, uuid, text);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+    p_user_id uuid,
+    p_payment_method text,
+    p_lines jsonb,
+    p_payment_proof text DEFAULT NULL,
+    p_order_id uuid DEFAULT NULL,
+    p_transaction_reference text DEFAULT NULL,
+    p_currency text DEFAULT NULL,
+    p_payment_currency text DEFAULT NULL,
+    p_payment_amount numeric DEFAULT NULL,
+    p_exchange_rate numeric DEFAULT NULL
+)
+RETURNS SETOF public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    line jsonb;
+    line_product_id uuid;
+    line_quantity integer;
+    available integer;
+    product_title text;
+    new_order public.orders;
+BEGIN
+    IF jsonb_array_length(coalesce(p_lines, '[]'::jsonb)) = 0 THEN
+        RAISE EXCEPTION 'Order has no items' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF p_order_id IS NOT NULL AND EXISTS (SELECT 1 FROM public.orders WHERE id = p_order_id) THEN
+        RAISE EXCEPTION 'This order has already been submitted' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF p_transaction_reference IS NOT NULL
+       AND EXISTS (SELECT 1 FROM public.orders WHERE transaction_reference = p_transaction_reference) THEN
+        RAISE EXCEPTION 'This transaction reference was already used for another order' USING ERRCODE = 'P0001';
+    END IF;
+
+    INSERT INTO public.orders (
+        id, user_id, quantity, total_amount, payment_method, status, transaction_reference,
+        currency, payment_currency, payment_amount, exchange_rate
+    )
+    VALUES (
+        coalesce(p_order_id, gen_random_uuid()), p_user_id, 0, 0, p_payment_method, 'pending', p_transaction_reference,
+        coalesce(p_currency, 'USD'), p_payment_currency, p_payment_amount, p_exchange_rate
+    )
+    RETURNING * INTO new_order;
+
+    FOR line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+        line_product_id := (line->>'product_id')::uuid;
+        line_quantity := (line->>'quantity')::integer;
+
+        SELECT stock, title INTO available, product_title
+        FROM public.products
+        WHERE id = line_product_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'A product in your cart is no longer available' USING ERRCODE = 'P0001';
+        END IF;
+
+        IF line_quantity IS NULL OR line_quantity <= 0 OR available < line_quantity THEN
+            RAISE EXCEPTION 'Not enough stock for "%"', product_title USING ERRCODE = 'P0001';
+        END IF;
+
+        UPDATE public.products
+        SET stock = stock - line_quantity
+        WHERE id = line_product_id;
+
+        INSERT INTO public.order_items (order_id, product_id, quantity, price)
+        VALUES (new_order.id, line_product_id, line_quantity, (line->>'unit_price')::numeric);
+    END LOOP;
+
+    UPDATE public.orders
+    SET quantity = (SELECT sum(quantity) FROM public.order_items WHERE order_id = new_order.id),
+        total_amount = (SELECT sum(quantity * price) FROM public.order_items WHERE order_id = new_order.id)
+    WHERE id = new_order.id
+    RETURNING * INTO new_order;
+
+    IF p_payment_proof IS NOT NULL THEN
+        INSERT INTO public.payment_proofs (user_id, order_id, file_path)
+        VALUES (p_user_id, new_order.id, p_payment_proof);
+    END IF;
+
+    RETURN NEXT new_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(uuid, text, jsonb, text, uuid, text, text, text, numeric, numeric) TO anon, authenticated;
@@ -0,0 +1,225 @@
+-- ======================================================
+-- Partial payments, top-up proofs and store credit
+-- Run this in your Supabase SQL Editor after 019_exchange_rates.sql
+-- ======================================================
+
+ALTER TABLE public.orders DROP CONSTRAINT IF EXISTS orders_status_check;
+ALTER TABLE public.orders
+ADD CONSTRAINT orders_status_check
+CHECK (status IN ('pending', 'partially_paid', 'confirmed', 'processing', 'completed', 'cancelled', 'refunded'));
+
+-- amount_received and overpaid_amount are in payment_currency, like payment_amount.
+-- overpayment_resolution says what happens to money received beyond payment_amount:
+-- 'store_credit' (added to store_credit_transactions) or 'refund' (to be paid back by an admin)
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS amount_received numeric(20, 8) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS overpaid_amount numeric(20, 8) NOT NULL DEFAULT 0,
+ADD COLUMN IF NOT EXISTS overpayment_resolution text CHECK (overpayment_resolution IN ('store_credit', 'refund'));
+
+-- Orders confirmed before this migration were paid in full
+UPDATE public.orders
+SET amount_received = coalesce(payment_amount, total_amount)
+WHERE status IN ('confirmed', 'processing', 'completed', 'refunded')
+  AND amount_received = 0;
+
+-- One row per amount an admin confirmed receiving for an order
+CREATE TABLE IF NOT EXISTS public.order_payments (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    amount numeric(20, 8) NOT NULL CHECK (amount > 0),
+    currency text NOT NULL,
+    recorded_by text, -- users.id of the admin, or a built-in admin id
+    recorded_by_name text,
+    notes text,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_payments_order_id ON public.order_payments(order_id);
+
+-- Store credit ledger in the store currency; a customer's balance is the sum of their rows
+CREATE TABLE IF NOT EXISTS public.store_credit_transactions (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    user_id uuid NOT NULL,
+    amount numeric(20, 8) NOT NULL,
+    currency text NOT NULL,
+    order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+    reason text NOT NULL,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_store_credit_transactions_user_id ON public.store_credit_transactions(user_id);
+
+-- Same access model as orders (the app uses its own users table, not Supabase Auth)
+ALTER TABLE public.order_payments DISABLE ROW LEVEL SECURITY;
+ALTER TABLE public.store_credit_transactions DISABLE ROW LEVEL SECURITY;
+
+-- Record money received for a pending or partially paid order. The order becomes
+-- confirmed once everything due has arrived and partially_paid otherwise; anything
+-- beyond payment_amount is kept as overpaid_amount and either credited to the
+-- customer (converted back into the store currency) or flagged for refund.
+CREATE OR REPLACE FUNCTION public.record_order_payment(
+    p_order_id uuid,
+    p_amount numeric,
+    p_overpayment text DEFAULT 'store_credit',
+    p_recorded_by text DEFAULT NULL,
+    p_recorded_by_name text DEFAULT NULL,
+    p_notes text DEFAULT NULL
+)
+RETURNS SETOF public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    o public.orders;
+    due numeric;
+    received numeric;
+    overpaid numeric;
+    next_status text;
+BEGIN
+    IF p_amount IS NULL OR p_amount <= 0 THEN
+        RAISE EXCEPTION 'The received amount must be greater than zero' USING ERRCODE = 'P0001';
+    END IF;
+    IF p_overpayment NOT IN ('store_credit', 'refund') THEN
+        RAISE EXCEPTION 'Unknown overpayment handling %', p_overpayment USING ERRCODE = 'P0001';
+    END IF;
+
+    SELECT * INTO o FROM public.orders WHERE id = p_order_id FOR UPDATE;
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Order % not found', p_order_id USING ERRCODE = 'P0001';
+    END IF;
+    IF o.status NOT IN ('pending', 'partially_paid') THEN
+        RAISE EXCEPTION 'Order % is no longer awaiting payment', p_order_id USING ERRCODE = 'P0001';
+    END IF;
+
+    due := coalesce(o.payment_amount, o.total_amount);
+    received := o.amount_received + p_amount;
+    overpaid := greatest(received - due, 0);
+    next_status := CASE WHEN received >= due THEN 'confirmed' ELSE 'partially_paid' END;
+
+    INSERT INTO public.order_payments (order_id, amount, currency, recorded_by, recorded_by_name, notes)
+    VALUES (p_order_id, p_amount, coalesce(o.payment_currency, o.currency), p_recorded_by, p_recorded_by_name, p_notes);
+
+    UPDATE public.orders
+    SET status = next_status,
+        amount_received = received,
+        overpaid_amount = overpaid,
+        overpayment_resolution = CASE WHEN overpaid > 0 THEN p_overpayment END,
+        notes = coalesce(p_notes, notes)
+    WHERE id = p_order_id;
+
+    IF overpaid > 0 AND p_overpayment = 'store_credit' THEN
+        INSERT INTO public.store_credit_transactions (user_id, amount, currency, order_id, reason)
+        VALUES (
+            o.user_id,
+            round(overpaid / coalesce(nullif(o.exchange_rate, 0), 1), 2),
+            o.currency,
+            p_order_id,
+            'Overpayment'
+        );
+    END IF;
+
+    INSERT INTO public.order_status_history (order_id, from_status, to_status, changed_by, changed_by_name, notes)
+    VALUES (
+        p_order_id,
+        o.status,
+        next_status,
+        p_recorded_by,
+        p_recorded_by_name,
+        coalesce(p_notes, format('Received %s %s', trim_scale(p_amount), coalesce(o.payment_currency, o.currency)))
+    );
+
+    RETURN QUERY SELECT * FROM public.orders WHERE id = p_order_id;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.record_order_payment(uuid, numeric, text, text, text, text) TO anon, authenticated;
+
+-- Attach another payment proof to a partially paid order and put it back in the
+-- review queue. Only the customer who placed the order can do this.
+CREATE OR REPLACE FUNCTION public.submit_top_up_proof(
+    p_order_id uuid,
+    p_user_id uuid,
+    p_payment_proof text,
+    p_transaction_reference text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE public.orders
+    SET status = 'pending'
+    WHERE id = p_order_id
+      AND user_id = p_user_id
+      AND status = 'partially_paid';
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Order % is not waiting for a top-up', p_order_id USING ERRCODE = 'P0001';
+    END IF;
+
+    INSERT INTO public.payment_proofs (user_id, order_id, file_path)
+    VALUES (p_user_id, p_order_id, p_payment_proof);
+
+    INSERT INTO public.order_status_history (order_id, from_status, to_status, changed_by, changed_by_name, notes)
+    VALUES (
+        p_order_id,
+        'partially_paid',
+        'pending',
+        p_user_id::text,
+        'Customer',
+        CASE
+            WHEN nullif(p_transaction_reference, '') IS NULL THEN 'Top-up proof submitted'
+            ELSE format('Top-up proof submitted (reference %s)', p_transaction_reference)
+        END
+    );
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.submit_top_up_proof(uuid, uuid, text, text) TO anon, authenticated;
+
+-- Orders can now have several proofs: only hash the newest one instead of overwriting all of them
+CREATE OR REPLACE FUNCTION public.record_payment_proof_hashes(
+    p_order_id uuid,
+    p_perceptual_hash text,
+    p_sha256 text,
+    p_max_distance integer DEFAULT 5
+)
+RETURNS uuid[]
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    latest uuid;
+    matches uuid[];
+BEGIN
+    SELECT id INTO latest
+    FROM public.payment_proofs
+    WHERE order_id = p_order_id
+    ORDER BY created_at DESC
+    LIMIT 1;
+
+    SELECT coalesce(array_agg(DISTINCT p.order_id), '{}')
+    INTO matches
+    FROM public.payment_proofs p
+    WHERE p.order_id <> p_order_id
+      AND (
+          (p_sha256 IS NOT NULL AND p.sha256 = p_sha256)
+          OR (
+              p_perceptual_hash ~ '^[0-9a-f]{16}$'
+              AND p.perceptual_hash ~ '^[0-9a-f]{16}$'
+              AND bit_count(('x' || p.perceptual_hash)::bit(64) # ('x' || p_perceptual_hash)::bit(64)) <= p_max_distance
+          )
+      );
+
+    UPDATE public.payment_proofs
+    SET perceptual_hash = p_perceptual_hash,
+        sha256 = p_sha256,
+        duplicate_order_ids = matches
+    WHERE id = latest;
+
+    RETURN matches;
+END;
+$$;
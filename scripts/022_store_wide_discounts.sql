@@ -0,0 +1,18 @@
+-- ======================================================
+-- Store-wide discounts and sale scheduling
+-- Run this in your Supabase SQL Editor after 021_coupons.sql
+-- ======================================================
+
+-- A store-wide discount applies to every product without a sale row. It stacks with
+-- the best running sale of a product; see lib/pricing.ts for the stacking rules.
+ALTER TABLE public.discounts
+ADD COLUMN IF NOT EXISTS applies_to_all boolean NOT NULL DEFAULT false;
+
+-- Sales are scheduled by their dates; an open end means the sale runs until removed
+ALTER TABLE public.sales
+DROP CONSTRAINT IF EXISTS sales_dates_check;
+
+ALTER TABLE public.sales
+ADD CONSTRAINT sales_dates_check CHECK (start_date IS NULL OR end_date IS NULL OR end_date > start_date);
+
+CREATE INDEX IF NOT EXISTS idx_sales_product_id ON public.sales(product_id);
@@ -0,0 +1,206 @@
+-- ======================================================
+-- Tax rules by billing country, with the tax lines stored on each order
+-- Run this in your Supabase SQL Editor after 022_store_wide_discounts.sql
+-- ======================================================
+
+-- country is an ISO 3166-1 alpha-2 code; NULL rules apply to countries without rules
+-- of their own. Inclusive rules are part of the prices, exclusive rules are added on top.
+CREATE TABLE IF NOT EXISTS public.tax_rules (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL,
+    country char(2) CHECK (country IS NULL OR country ~ '^[A-Z]{2}$'),
+    rate numeric(5, 2) NOT NULL CHECK (rate > 0 AND rate <= 100),
+    inclusive boolean NOT NULL DEFAULT false,
+    active boolean NOT NULL DEFAULT true,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_tax_rules_country ON public.tax_rules(country);
+
+-- 18% GST for Indian customers, none for others
+INSERT INTO public.tax_rules (name, country, rate, inclusive)
+SELECT 'GST', 'IN', 18, false
+WHERE NOT EXISTS (SELECT 1 FROM public.tax_rules);
+
+-- A copy of the taxes charged, so later rule changes do not rewrite old invoices.
+-- tax_amount is their sum, inclusive ones included.
+ALTER TABLE public.orders
+ADD COLUMN IF NOT EXISTS billing_country char(2),
+ADD COLUMN IF NOT EXISTS tax_amount numeric(10, 2) NOT NULL DEFAULT 0;
+
+CREATE TABLE IF NOT EXISTS public.order_tax_lines (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    name text NOT NULL,
+    rate numeric(5, 2) NOT NULL,
+    inclusive boolean NOT NULL,
+    amount numeric(10, 2) NOT NULL,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_order_tax_lines_order_id ON public.order_tax_lines(order_id);
+
+-- Same access model as the other settings tables (the app uses its own users table, not Supabase Auth)
+ALTER TABLE public.tax_rules DISABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_tax_lines DISABLE ROW LEVEL SECURITY;
+
+-- place_order: records the billing country and tax lines worked out by the order API
+-- and adds exclusive taxes to the total
+DROP FUNCTION IF EXISTS public.place_order(uuid, text, jsonb, text, uuid, text, text, text, numeric, numeric, uuid, numeric);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+    p_user_id uuid,
+    p_payment_method text,
+    p_lines jsonb,
+    p_payment_proof text DEFAULT NULL,
+    p_order_id uuid DEFAULT NULL,
+    p_transaction_reference text DEFAULT NULL,
+    p_currency text DEFAULT NULL,
+    p_payment_currency text DEFAULT NULL,
+    p_payment_amount numeric DEFAULT NULL,
+    p_exchange_rate numeric DEFAULT NULL,
+    p_coupon_id uuid DEFAULT NULL,
+    p_coupon_discount numeric DEFAULT 0,
+    p_billing_country text DEFAULT NULL,
+    p_tax_lines jsonb DEFAULT '[]'::jsonb
+)
+RETURNS SETOF public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    line jsonb;
+    line_product_id uuid;
+    line_quantity integer;
+    available integer;
+    product_title text;
+    new_order public.orders;
+    c public.coupons;
+    used integer;
+    tax_line jsonb;
+BEGIN
+    IF jsonb_array_length(coalesce(p_lines, '[]'::jsonb)) = 0 THEN
+        RAISE EXCEPTION 'Order has no items' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF p_order_id IS NOT NULL AND EXISTS (SELECT 1 FROM public.orders WHERE id = p_order_id) THEN
+        RAISE EXCEPTION 'This order has already been submitted' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF p_transaction_reference IS NOT NULL
+       AND EXISTS (SELECT 1 FROM public.orders WHERE transaction_reference = p_transaction_reference) THEN
+        RAISE EXCEPTION 'This transaction reference was already used for another order' USING ERRCODE = 'P0001';
+    END IF;
+
+    -- The coupon row is locked so concurrent checkouts see each other's redemptions
+    IF p_coupon_id IS NOT NULL THEN
+        SELECT * INTO c FROM public.coupons WHERE id = p_coupon_id FOR UPDATE;
+
+        IF NOT FOUND OR NOT c.active
+           OR (c.starts_at IS NOT NULL AND c.starts_at > now())
+           OR (c.ends_at IS NOT NULL AND c.ends_at < now()) THEN
+            RAISE EXCEPTION 'This coupon is no longer valid' USING ERRCODE = 'P0001';
+        END IF;
+
+        IF c.max_uses IS NOT NULL THEN
+            SELECT count(*) INTO used
+            FROM public.coupon_redemptions r
+            JOIN public.orders o ON o.id = r.order_id
+            WHERE r.coupon_id = c.id AND o.status <> 'cancelled';
+            IF used >= c.max_uses THEN
+                RAISE EXCEPTION 'This coupon has reached its usage limit' USING ERRCODE = 'P0001';
+            END IF;
+        END IF;
+
+        IF c.max_uses_per_user IS NOT NULL THEN
+            SELECT count(*) INTO used
+            FROM public.coupon_redemptions r
+            JOIN public.orders o ON o.id = r.order_id
+            WHERE r.coupon_id = c.id AND r.user_id = p_user_id AND o.status <> 'cancelled';
+            IF used >= c.max_uses_per_user THEN
+                RAISE EXCEPTION 'You have already used this coupon' USING ERRCODE = 'P0001';
+            END IF;
+        END IF;
+
+        IF c.first_order_only
+           AND EXISTS (SELECT 1 FROM public.orders WHERE user_id = p_user_id AND status <> 'cancelled') THEN
+            RAISE EXCEPTION 'This coupon is only valid on your first order' USING ERRCODE = 'P0001';
+        END IF;
+    END IF;
+
+    INSERT INTO public.orders (
+        id, user_id, quantity, total_amount, payment_method, status, transaction_reference,
+        currency, payment_currency, payment_amount, exchange_rate, coupon_id, coupon_code, coupon_discount,
+        billing_country
+    )
+    VALUES (
+        coalesce(p_order_id, gen_random_uuid()), p_user_id, 0, 0, p_payment_method, 'pending', p_transaction_reference,
+        coalesce(p_currency, 'USD'), p_payment_currency, p_payment_amount, p_exchange_rate,
+        p_coupon_id, c.code, CASE WHEN p_coupon_id IS NULL THEN 0 ELSE coalesce(p_coupon_discount, 0) END,
+        p_billing_country
+    )
+    RETURNING * INTO new_order;
+
+    FOR line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+        line_product_id := (line->>'product_id')::uuid;
+        line_quantity := (line->>'quantity')::integer;
+
+        SELECT stock, title INTO available, product_title
+        FROM public.products
+        WHERE id = line_product_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'A product in your cart is no longer available' USING ERRCODE = 'P0001';
+        END IF;
+
+        IF line_quantity IS NULL OR line_quantity <= 0 OR available < line_quantity THEN
+            RAISE EXCEPTION 'Not enough stock for "%"', product_title USING ERRCODE = 'P0001';
+        END IF;
+
+        UPDATE public.products
+        SET stock = stock - line_quantity
+        WHERE id = line_product_id;
+
+        INSERT INTO public.order_items (order_id, product_id, quantity, price)
+        VALUES (new_order.id, line_product_id, line_quantity, (line->>'unit_price')::numeric);
+    END LOOP;
+
+    FOR tax_line IN SELECT * FROM jsonb_array_elements(coalesce(p_tax_lines, '[]'::jsonb)) LOOP
+        INSERT INTO public.order_tax_lines (order_id, name, rate, inclusive, amount)
+        VALUES (
+            new_order.id,
+            tax_line->>'name',
+            (tax_line->>'rate')::numeric,
+            (tax_line->>'inclusive')::boolean,
+            (tax_line->>'amount')::numeric
+        );
+    END LOOP;
+
+    -- Inclusive taxes are already in the item prices; exclusive ones are added on top
+    UPDATE public.orders
+    SET quantity = (SELECT sum(quantity) FROM public.order_items WHERE order_id = new_order.id),
+        tax_amount = coalesce((SELECT sum(amount) FROM public.order_tax_lines WHERE order_id = new_order.id), 0),
+        total_amount = greatest(
+            (SELECT sum(quantity * price) FROM public.order_items WHERE order_id = new_order.id) - new_order.coupon_discount,
+            0
+        ) + coalesce((SELECT sum(amount) FROM public.order_tax_lines WHERE order_id = new_order.id AND NOT inclusive), 0)
+    WHERE id = new_order.id
+    RETURNING * INTO new_order;
+
+    IF p_coupon_id IS NOT NULL THEN
+        INSERT INTO public.coupon_redemptions (coupon_id, order_id, user_id, discount)
+        VALUES (p_coupon_id, new_order.id, p_user_id, new_order.coupon_discount);
+    END IF;
+
+    IF p_payment_proof IS NOT NULL THEN
+        INSERT INTO public.payment_proofs (user_id, order_id, file_path)
+        VALUES (p_user_id, new_order.id, p_payment_proof);
+    END IF;
+
+    RETURN NEXT new_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(uuid, text, jsonb, text, uuid, text, text, text, numeric, numeric, uuid, numeric, text, jsonb) TO anon, authenticated;
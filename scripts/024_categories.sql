@@ -0,0 +1,53 @@
+-- ======================================================
+-- Categories with hierarchy, slugs, images and sort order
+-- Run this in your Supabase SQL Editor after 023_taxes.sql
+-- ======================================================
+
+CREATE TABLE IF NOT EXISTS public.categories (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    name text NOT NULL,
+    slug text NOT NULL CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$'),
+    description text NOT NULL DEFAULT '',
+    image_url text,
+    -- Deleting a category moves its subcategories to the top level
+    parent_id uuid REFERENCES public.categories(id) ON DELETE SET NULL CHECK (parent_id <> id),
+    sort_order integer NOT NULL DEFAULT 0,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_categories_slug ON public.categories(slug);
+CREATE INDEX IF NOT EXISTS idx_categories_parent_id ON public.categories(parent_id);
+
+-- Deleting a category leaves its products uncategorized
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS category_id uuid REFERENCES public.categories(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_products_category_id ON public.products(category_id);
+
+-- Older setups kept a free-text category on products; turn those into categories
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'products' AND column_name = 'category'
+    ) THEN
+        INSERT INTO public.categories (name, slug)
+        SELECT DISTINCT ON (slug) initcap(trim(category)), slug
+        FROM (
+            SELECT category, trim(both '-' FROM regexp_replace(lower(category), '[^a-z0-9]+', '-', 'g')) AS slug
+            FROM public.products
+            WHERE category IS NOT NULL
+        ) p
+        WHERE slug <> ''
+        ON CONFLICT (slug) DO NOTHING;
+
+        UPDATE public.products p
+        SET category_id = c.id
+        FROM public.categories c
+        WHERE p.category_id IS NULL
+          AND c.slug = trim(both '-' FROM regexp_replace(lower(p.category), '[^a-z0-9]+', '-', 'g'));
+    END IF;
+END $$;
+
+-- Same access model as the other settings tables (the app uses its own users table, not Supabase Auth)
+ALTER TABLE public.categories DISABLE ROW LEVEL SECURITY;
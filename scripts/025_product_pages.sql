@@ -0,0 +1,42 @@
+-- ======================================================
+-- Product pages: slugs, long descriptions and image galleries
+-- Run this in your Supabase SQL Editor after 024_categories.sql
+-- ======================================================
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS slug text,
+-- Markdown, shown on /products/[slug] below the short description
+ADD COLUMN IF NOT EXISTS long_description text NOT NULL DEFAULT '',
+-- Extra image URLs shown after image_url in the gallery
+ADD COLUMN IF NOT EXISTS gallery text[] NOT NULL DEFAULT '{}';
+
+-- Give existing products a slug from their title; titles used twice get the start of the id appended
+WITH slugs AS (
+    SELECT id, trim(both '-' FROM regexp_replace(lower(title), '[^a-z0-9]+', '-', 'g')) AS slug
+    FROM public.products
+    WHERE slug IS NULL
+),
+numbered AS (
+    SELECT id, slug, row_number() OVER (PARTITION BY slug ORDER BY id) AS n
+    FROM slugs
+)
+UPDATE public.products p
+SET slug = CASE
+    WHEN numbered.slug = '' THEN left(p.id::text, 8)
+    WHEN numbered.n = 1 AND NOT EXISTS (SELECT 1 FROM public.products o WHERE o.slug = numbered.slug) THEN numbered.slug
+    ELSE numbered.slug || '-' || left(p.id::text, 8)
+END
+FROM numbered
+WHERE p.id = numbered.id;
+
+ALTER TABLE public.products ALTER COLUMN slug SET NOT NULL;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'products_slug_check') THEN
+        ALTER TABLE public.products
+        ADD CONSTRAINT products_slug_check CHECK (slug ~ '^[a-z0-9]+(-[a-z0-9]+)*$');
+    END IF;
+END $$;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_products_slug ON public.products(slug);
@@ -0,0 +1,158 @@
+-- ======================================================
+-- Product search: full-text index, typo tolerance, filters, sorting and cursor pagination
+-- Run this in your Supabase SQL Editor after 025_product_pages.sql
+-- ======================================================
+
+CREATE EXTENSION IF NOT EXISTS pg_trgm;
+
+-- Title, category name and description, weighted in that order
+CREATE OR REPLACE FUNCTION public.product_search_vector(p_title text, p_category text, p_description text)
+RETURNS tsvector
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT setweight(to_tsvector('english', coalesce(p_title, '')), 'A')
+        || setweight(to_tsvector('english', coalesce(p_category, '')), 'B')
+        || setweight(to_tsvector('english', coalesce(p_description, '')), 'C');
+$$;
+
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS search_vector tsvector;
+
+-- The category name lives in another table, so the vector is kept up to date by triggers
+-- rather than a generated column
+CREATE OR REPLACE FUNCTION public.products_search_vector_trigger()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    NEW.search_vector := product_search_vector(
+        NEW.title,
+        (SELECT name FROM categories WHERE id = NEW.category_id),
+        NEW.description
+    );
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS products_search_vector ON public.products;
+CREATE TRIGGER products_search_vector
+BEFORE INSERT OR UPDATE OF title, description, category_id ON public.products
+FOR EACH ROW EXECUTE FUNCTION public.products_search_vector_trigger();
+
+CREATE OR REPLACE FUNCTION public.categories_search_vector_trigger()
+RETURNS trigger
+LANGUAGE plpgsql
+SET search_path = public
+AS $$
+BEGIN
+    UPDATE products
+    SET search_vector = product_search_vector(title, NEW.name, description)
+    WHERE category_id = NEW.id;
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS categories_search_vector ON public.categories;
+CREATE TRIGGER categories_search_vector
+AFTER UPDATE OF name ON public.categories
+FOR EACH ROW EXECUTE FUNCTION public.categories_search_vector_trigger();
+
+UPDATE public.products p
+SET search_vector = public.product_search_vector(
+    p.title,
+    (SELECT name FROM public.categories c WHERE c.id = p.category_id),
+    p.description
+);
+
+CREATE INDEX IF NOT EXISTS idx_products_search_vector ON public.products USING gin (search_vector);
+CREATE INDEX IF NOT EXISTS idx_products_title_trgm ON public.products USING gin (title gin_trgm_ops);
+CREATE INDEX IF NOT EXISTS idx_products_price ON public.products(price);
+CREATE INDEX IF NOT EXISTS idx_order_items_product_id ON public.order_items(product_id);
+
+-- Rows come ordered by sort_key, then id. sort_key is returned as text so the cursor
+-- (p_after_key, p_after_id) round-trips exactly through JSON:
+-- - relevance: full-text rank plus title similarity, best first (newest first without a query)
+-- - newest / price_asc / price_desc: by created_at or price
+-- - popular: units sold in paid orders, most first
+-- A query matches the full-text index or, for typos, is similar enough to a word of the
+-- title or category name.
+DROP FUNCTION IF EXISTS public.search_products(text, uuid[], numeric, numeric, text, numeric, uuid, integer);
+
+CREATE OR REPLACE FUNCTION public.search_products(
+    p_query text DEFAULT NULL,
+    p_category_ids uuid[] DEFAULT NULL,
+    p_min_price numeric DEFAULT NULL,
+    p_max_price numeric DEFAULT NULL,
+    p_sort text DEFAULT 'relevance',
+    p_after_key numeric DEFAULT NULL,
+    p_after_id uuid DEFAULT NULL,
+    p_limit integer DEFAULT 24
+)
+RETURNS TABLE (product jsonb, sort_key text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH search AS (
+        SELECT nullif(trim(p_query), '') AS text,
+               websearch_to_tsquery('english', coalesce(p_query, '')) AS tsquery
+    ),
+    sold AS (
+        SELECT oi.product_id, sum(oi.quantity) AS units
+        FROM order_items oi
+        JOIN orders o ON o.id = oi.order_id
+        WHERE o.status IN ('confirmed', 'processing', 'completed')
+        GROUP BY oi.product_id
+    ),
+    matches AS (
+        SELECT p.*,
+               c.name AS category_name,
+               c.slug AS category_slug,
+               coalesce(sold.units, 0) AS units_sold,
+               CASE WHEN search.text IS NULL THEN 0
+                    ELSE ts_rank(p.search_vector, search.tsquery)
+                       + word_similarity(search.text, p.title || ' ' || coalesce(c.name, ''))
+               END AS rank,
+               search.text AS query
+        FROM products p
+        CROSS JOIN search
+        LEFT JOIN categories c ON c.id = p.category_id
+        LEFT JOIN sold ON sold.product_id = p.id
+        WHERE (
+                search.text IS NULL
+                OR p.search_vector @@ search.tsquery
+                OR word_similarity(search.text, p.title || ' ' || coalesce(c.name, '')) >= 0.4
+              )
+          AND (p_category_ids IS NULL OR p.category_id = ANY (p_category_ids))
+          AND (p_min_price IS NULL OR p.price >= p_min_price)
+          AND (p_max_price IS NULL OR p.price <= p_max_price)
+    ),
+    keyed AS (
+        SELECT m.*,
+               round(CASE
+                   WHEN p_sort = 'price_asc' THEN m.price
+                   WHEN p_sort = 'price_desc' THEN -m.price
+                   WHEN p_sort = 'popular' THEN -m.units_sold
+                   WHEN p_sort = 'relevance' AND m.query IS NOT NULL THEN -m.rank::numeric
+                   ELSE -extract(epoch FROM m.created_at)
+               END, 6) AS key
+        FROM matches m
+    )
+    SELECT (to_jsonb(k) - 'category_name' - 'category_slug' - 'units_sold' - 'rank' - 'query' - 'key' - 'search_vector')
+               || jsonb_build_object(
+                   'categories',
+                   CASE WHEN k.category_id IS NULL THEN NULL
+                        ELSE jsonb_build_object('name', k.category_name, 'slug', k.category_slug)
+                   END
+               ),
+           k.key::text
+    FROM keyed k
+    WHERE p_after_key IS NULL OR (k.key, k.id) > (p_after_key, p_after_id)
+    ORDER BY k.key, k.id
+    LIMIT least(greatest(p_limit, 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_products(text, uuid[], numeric, numeric, text, numeric, uuid, integer) TO anon, authenticated;
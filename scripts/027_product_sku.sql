@@ -0,0 +1,10 @@
+-- ======================================================
+-- Product SKUs, to match rows of a bulk import against the catalog
+-- Run this in your Supabase SQL Editor after 026_product_search.sql
+-- ======================================================
+
+-- Optional; products without one are matched by slug
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS sku text CHECK (sku IS NULL OR (sku <> '' AND length(sku) <= 64));
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_products_sku ON public.products(sku);
@@ -0,0 +1,131 @@
+-- ======================================================
+-- Product lifecycle: drafts, scheduled publishing and archived products
+-- Run this in your Supabase SQL Editor after 027_product_sku.sql
+-- ======================================================
+
+-- draft: being written, only admins can preview it
+-- published: on the storefront between publish_at and unpublish_at (either may be empty)
+-- archived: off the storefront, but kept so existing orders and downloads still resolve
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS status text NOT NULL DEFAULT 'published'
+    CHECK (status IN ('draft', 'published', 'archived')),
+ADD COLUMN IF NOT EXISTS publish_at timestamptz,
+ADD COLUMN IF NOT EXISTS unpublish_at timestamptz;
+
+DO $$
+BEGIN
+    IF NOT EXISTS (SELECT 1 FROM pg_constraint WHERE conname = 'products_publish_window_check') THEN
+        ALTER TABLE public.products
+        ADD CONSTRAINT products_publish_window_check
+        CHECK (publish_at IS NULL OR unpublish_at IS NULL OR unpublish_at > publish_at);
+    END IF;
+
+    -- Some setups have an unused is_active flag; inactive products become archived
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'products' AND column_name = 'is_active'
+    ) THEN
+        EXECUTE 'UPDATE public.products SET status = ''archived'' WHERE is_active = false AND status = ''published''';
+    END IF;
+END $$;
+
+CREATE INDEX IF NOT EXISTS idx_products_status ON public.products(status);
+
+-- Whether a product is on the storefront right now; mirrors isProductLive in lib/products.ts
+CREATE OR REPLACE FUNCTION public.product_is_live(p_status text, p_publish_at timestamptz, p_unpublish_at timestamptz)
+RETURNS boolean
+LANGUAGE sql
+STABLE
+AS $$
+    SELECT p_status = 'published'
+        AND (p_publish_at IS NULL OR p_publish_at <= now())
+        AND (p_unpublish_at IS NULL OR p_unpublish_at > now());
+$$;
+
+-- search_products from 026_product_search.sql, now only returning live products
+-- Rows come ordered by sort_key, then id. sort_key is returned as text so the cursor
+-- (p_after_key, p_after_id) round-trips exactly through JSON:
+-- - relevance: full-text rank plus title similarity, best first (newest first without a query)
+-- - newest / price_asc / price_desc: by created_at or price
+-- - popular: units sold in paid orders, most first
+-- A query matches the full-text index or, for typos, is similar enough to a word of the
+-- title or category name.
+DROP FUNCTION IF EXISTS public.search_products(text, uuid[], numeric, numeric, text, numeric, uuid, integer);
+
+CREATE OR REPLACE FUNCTION public.search_products(
+    p_query text DEFAULT NULL,
+    p_category_ids uuid[] DEFAULT NULL,
+    p_min_price numeric DEFAULT NULL,
+    p_max_price numeric DEFAULT NULL,
+    p_sort text DEFAULT 'relevance',
+    p_after_key numeric DEFAULT NULL,
+    p_after_id uuid DEFAULT NULL,
+    p_limit integer DEFAULT 24
+)
+RETURNS TABLE (product jsonb, sort_key text)
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public
+AS $$
+    WITH search AS (
+        SELECT nullif(trim(p_query), '') AS text,
+               websearch_to_tsquery('english', coalesce(p_query, '')) AS tsquery
+    ),
+    sold AS (
+        SELECT oi.product_id, sum(oi.quantity) AS units
+        FROM order_items oi
+        JOIN orders o ON o.id = oi.order_id
+        WHERE o.status IN ('confirmed', 'processing', 'completed')
+        GROUP BY oi.product_id
+    ),
+    matches AS (
+        SELECT p.*,
+               c.name AS category_name,
+               c.slug AS category_slug,
+               coalesce(sold.units, 0) AS units_sold,
+               CASE WHEN search.text IS NULL THEN 0
+                    ELSE ts_rank(p.search_vector, search.tsquery)
+                       + word_similarity(search.text, p.title || ' ' || coalesce(c.name, ''))
+               END AS rank,
+               search.text AS query
+        FROM products p
+        CROSS JOIN search
+        LEFT JOIN categories c ON c.id = p.category_id
+        LEFT JOIN sold ON sold.product_id = p.id
+        WHERE (
+                search.text IS NULL
+                OR p.search_vector @@ search.tsquery
+                OR word_similarity(search.text, p.title || ' ' || coalesce(c.name, '')) >= 0.4
+              )
+          AND public.product_is_live(p.status, p.publish_at, p.unpublish_at)
+          AND (p_category_ids IS NULL OR p.category_id = ANY (p_category_ids))
+          AND (p_min_price IS NULL OR p.price >= p_min_price)
+          AND (p_max_price IS NULL OR p.price <= p_max_price)
+    ),
+    keyed AS (
+        SELECT m.*,
+               round(CASE
+                   WHEN p_sort = 'price_asc' THEN m.price
+                   WHEN p_sort = 'price_desc' THEN -m.price
+                   WHEN p_sort = 'popular' THEN -m.units_sold
+                   WHEN p_sort = 'relevance' AND m.query IS NOT NULL THEN -m.rank::numeric
+                   ELSE -extract(epoch FROM m.created_at)
+               END, 6) AS key
+        FROM matches m
+    )
+    SELECT (to_jsonb(k) - 'category_name' - 'category_slug' - 'units_sold' - 'rank' - 'query' - 'key' - 'search_vector')
+               || jsonb_build_object(
+                   'categories',
+                   CASE WHEN k.category_id IS NULL THEN NULL
+                        ELSE jsonb_build_object('name', k.category_name, 'slug', k.category_slug)
+                   END
+               ),
+           k.key::text
+    FROM keyed k
+    WHERE p_after_key IS NULL OR (k.key, k.id) > (p_after_key, p_after_id)
+    ORDER BY k.key, k.id
+    LIMIT least(greatest(p_limit, 1), 100);
+$$;
+
+GRANT EXECUTE ON FUNCTION public.search_products(text, uuid[], numeric, numeric, text, numeric, uuid, integer) TO anon, authenticated;
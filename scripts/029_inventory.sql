@@ -0,0 +1,388 @@
+-- ======================================================
+-- Inventory ledger, stock reservations and low-stock thresholds
+-- Run this in your Supabase SQL Editor after 028_product_lifecycle.sql
+-- ======================================================
+
+-- unlimited_stock: pure digital goods that never run out; their stock is not counted.
+-- low_stock_threshold: admins are alerted when stock falls below it (0 turns alerts off).
+ALTER TABLE public.products
+ADD COLUMN IF NOT EXISTS unlimited_stock boolean NOT NULL DEFAULT false,
+ADD COLUMN IF NOT EXISTS low_stock_threshold integer NOT NULL DEFAULT 5 CHECK (low_stock_threshold >= 0);
+
+-- Every change to products.stock, newest last. quantity is signed: negative for sales,
+-- positive for restocks and returns. stock_after is the stock once the movement applied,
+-- so the ledger can be read without summing it.
+CREATE TABLE IF NOT EXISTS public.inventory_movements (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+    kind text NOT NULL CHECK (kind IN ('sale', 'restock', 'adjustment', 'cancellation_return')),
+    quantity integer NOT NULL CHECK (quantity <> 0),
+    stock_after integer NOT NULL,
+    order_id uuid REFERENCES public.orders(id) ON DELETE SET NULL,
+    notes text,
+    created_by text, -- users.id of the admin, or NULL for orders
+    created_by_name text,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_inventory_movements_product_id ON public.inventory_movements(product_id, created_at DESC);
+
+-- Stock taken by an order. held: the order is awaiting payment; committed: it was paid;
+-- released: it was cancelled and the stock went back. expires_at is only set for gateway
+-- payments, which are abandoned when the customer never pays; manual payments come with
+-- a proof and wait for an admin.
+CREATE TABLE IF NOT EXISTS public.stock_reservations (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    order_id uuid NOT NULL REFERENCES public.orders(id) ON DELETE CASCADE,
+    product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+    quantity integer NOT NULL CHECK (quantity > 0),
+    status text NOT NULL DEFAULT 'held' CHECK (status IN ('held', 'committed', 'released')),
+    expires_at timestamptz,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    resolved_at timestamptz
+);
+
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_order_id ON public.stock_reservations(order_id);
+CREATE INDEX IF NOT EXISTS idx_stock_reservations_held ON public.stock_reservations(expires_at) WHERE status = 'held';
+
+-- Same access model as the other tables (the app uses its own users table, not Supabase Auth)
+ALTER TABLE public.inventory_movements DISABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_reservations DISABLE ROW LEVEL SECURITY;
+
+-- Opening balance, so each product's ledger adds up to its current stock
+INSERT INTO public.inventory_movements (product_id, kind, quantity, stock_after, notes)
+SELECT p.id, 'restock', p.stock, p.stock, 'Opening stock'
+FROM public.products p
+WHERE p.stock <> 0
+  AND NOT EXISTS (SELECT 1 FROM public.inventory_movements m WHERE m.product_id = p.id);
+
+-- The only way stock changes: applies the movement and records it. Raises P0001 when
+-- stock would go below zero. Called by the functions below, not by the app.
+CREATE OR REPLACE FUNCTION public.move_stock(
+    p_product_id uuid,
+    p_kind text,
+    p_quantity integer,
+    p_order_id uuid DEFAULT NULL,
+    p_notes text DEFAULT NULL,
+    p_created_by text DEFAULT NULL,
+    p_created_by_name text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    new_stock integer;
+    product_title text;
+BEGIN
+    UPDATE public.products
+    SET stock = stock + p_quantity
+    WHERE id = p_product_id
+    RETURNING stock, title INTO new_stock, product_title;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'A product in your cart is no longer available' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF new_stock < 0 THEN
+        RAISE EXCEPTION 'Not enough stock for "%"', product_title USING ERRCODE = 'P0001';
+    END IF;
+
+    INSERT INTO public.inventory_movements (product_id, kind, quantity, stock_after, order_id, notes, created_by, created_by_name)
+    VALUES (p_product_id, p_kind, p_quantity, new_stock, p_order_id, p_notes, p_created_by, p_created_by_name);
+
+    RETURN new_stock;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.move_stock(uuid, text, integer, uuid, text, text, text) FROM PUBLIC;
+
+-- Restocks and manual adjustments from the admin inventory dialog; returns the new stock
+CREATE OR REPLACE FUNCTION public.adjust_stock(
+    p_product_id uuid,
+    p_kind text,
+    p_quantity integer,
+    p_notes text DEFAULT NULL,
+    p_changed_by text DEFAULT NULL,
+    p_changed_by_name text DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF p_kind NOT IN ('restock', 'adjustment') THEN
+        RAISE EXCEPTION 'Stock can only be restocked or adjusted by hand' USING ERRCODE = 'P0001';
+    END IF;
+    IF p_quantity IS NULL OR p_quantity = 0 OR (p_kind = 'restock' AND p_quantity < 0) THEN
+        RAISE EXCEPTION 'Restocks add a positive quantity; adjustments change stock by a non-zero amount'
+            USING ERRCODE = 'P0001';
+    END IF;
+
+    RETURN public.move_stock(p_product_id, p_kind, p_quantity, NULL, p_notes, p_changed_by, p_changed_by_name);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.adjust_stock(uuid, text, integer, text, text, text) TO anon, authenticated;
+
+-- New products start their ledger with the stock they were created with
+CREATE OR REPLACE FUNCTION public.products_opening_stock_trigger()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.stock <> 0 THEN
+        INSERT INTO public.inventory_movements (product_id, kind, quantity, stock_after, notes)
+        VALUES (NEW.id, 'restock', NEW.stock, NEW.stock, 'Opening stock');
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS products_opening_stock ON public.products;
+CREATE TRIGGER products_opening_stock
+AFTER INSERT ON public.products
+FOR EACH ROW EXECUTE FUNCTION public.products_opening_stock_trigger();
+
+-- Reservations follow the order: paid orders keep their stock, cancelled ones give it back
+CREATE OR REPLACE FUNCTION public.orders_stock_reservations_trigger()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    r public.stock_reservations;
+BEGIN
+    IF NEW.status = 'cancelled' THEN
+        FOR r IN
+            SELECT * FROM public.stock_reservations WHERE order_id = NEW.id AND status = 'held' FOR UPDATE
+        LOOP
+            PERFORM public.move_stock(r.product_id, 'cancellation_return', r.quantity, NEW.id, 'Order cancelled');
+            UPDATE public.stock_reservations SET status = 'released', resolved_at = now() WHERE id = r.id;
+        END LOOP;
+    ELSIF NEW.status IN ('confirmed', 'processing', 'completed') THEN
+        UPDATE public.stock_reservations
+        SET status = 'committed', resolved_at = now()
+        WHERE order_id = NEW.id AND status = 'held';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS orders_stock_reservations ON public.orders;
+CREATE TRIGGER orders_stock_reservations
+AFTER UPDATE OF status ON public.orders
+FOR EACH ROW
+WHEN (OLD.status IS DISTINCT FROM NEW.status)
+EXECUTE FUNCTION public.orders_stock_reservations_trigger();
+
+-- Cancel pending orders whose reservation expired, which gives their stock back through
+-- the trigger above. The order API runs it before placing an order and the admin pages
+-- when they load; to run it on a schedule as well, with pg_cron:
+--   SELECT cron.schedule('release-expired-reservations', '*/5 * * * *', 'SELECT public.release_expired_reservations()');
+-- Returns how many orders were cancelled.
+CREATE OR REPLACE FUNCTION public.release_expired_reservations()
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    expired_order_id uuid;
+    cancelled integer := 0;
+BEGIN
+    FOR expired_order_id IN
+        SELECT o.id
+        FROM public.orders o
+        WHERE o.status = 'pending'
+          AND EXISTS (
+              SELECT 1 FROM public.stock_reservations r
+              WHERE r.order_id = o.id AND r.status = 'held' AND r.expires_at <= now()
+          )
+        FOR UPDATE OF o SKIP LOCKED
+    LOOP
+        UPDATE public.orders SET status = 'cancelled' WHERE id = expired_order_id;
+        INSERT INTO public.order_status_history (order_id, from_status, to_status, changed_by_name, notes)
+        VALUES (expired_order_id, 'pending', 'cancelled', 'System', 'Payment was not received before the stock reservation expired');
+        cancelled := cancelled + 1;
+    END LOOP;
+    RETURN cancelled;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.release_expired_reservations() TO anon, authenticated;
+
+-- place_order: takes stock through the ledger and reserves it for the order. Unlimited
+-- products are not counted. p_reservation_minutes makes the reservation expire, for
+-- gateway payments that may never be completed.
+DROP FUNCTION IF EXISTS public.place_order(uuid, text, jsonb, text, uuid, text, text, text, numeric, numeric, uuid, numeric, text, jsonb);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+    p_user_id uuid,
+    p_payment_method text,
+    p_lines jsonb,
+    p_payment_proof text DEFAULT NULL,
+    p_order_id uuid DEFAULT NULL,
+    p_transaction_reference text DEFAULT NULL,
+    p_currency text DEFAULT NULL,
+    p_payment_currency text DEFAULT NULL,
+    p_payment_amount numeric DEFAULT NULL,
+    p_exchange_rate numeric DEFAULT NULL,
+    p_coupon_id uuid DEFAULT NULL,
+    p_coupon_discount numeric DEFAULT 0,
+    p_billing_country text DEFAULT NULL,
+    p_tax_lines jsonb DEFAULT '[]'::jsonb,
+    p_reservation_minutes integer DEFAULT NULL
+)
+RETURNS SETOF public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    line jsonb;
+    line_product_id uuid;
+    line_quantity integer;
+    available integer;
+    product_title text;
+    unlimited boolean;
+    new_order public.orders;
+    c public.coupons;
+    used integer;
+    tax_line jsonb;
+BEGIN
+    IF jsonb_array_length(coalesce(p_lines, '[]'::jsonb)) = 0 THEN
+        RAISE EXCEPTION 'Order has no items' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF p_order_id IS NOT NULL AND EXISTS (SELECT 1 FROM public.orders WHERE id = p_order_id) THEN
+        RAISE EXCEPTION 'This order has already been submitted' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF p_transaction_reference IS NOT NULL
+       AND EXISTS (SELECT 1 FROM public.orders WHERE transaction_reference = p_transaction_reference) THEN
+        RAISE EXCEPTION 'This transaction reference was already used for another order' USING ERRCODE = 'P0001';
+    END IF;
+
+    -- The coupon row is locked so concurrent checkouts see each other's redemptions
+    IF p_coupon_id IS NOT NULL THEN
+        SELECT * INTO c FROM public.coupons WHERE id = p_coupon_id FOR UPDATE;
+
+        IF NOT FOUND OR NOT c.active
+           OR (c.starts_at IS NOT NULL AND c.starts_at > now())
+           OR (c.ends_at IS NOT NULL AND c.ends_at < now()) THEN
+            RAISE EXCEPTION 'This coupon is no longer valid' USING ERRCODE = 'P0001';
+        END IF;
+
+        IF c.max_uses IS NOT NULL THEN
+            SELECT count(*) INTO used
+            FROM public.coupon_redemptions r
+            JOIN public.orders o ON o.id = r.order_id
+            WHERE r.coupon_id = c.id AND o.status <> 'cancelled';
+            IF used >= c.max_uses THEN
+                RAISE EXCEPTION 'This coupon has reached its usage limit' USING ERRCODE = 'P0001';
+            END IF;
+        END IF;
+
+        IF c.max_uses_per_user IS NOT NULL THEN
+            SELECT count(*) INTO used
+            FROM public.coupon_redemptions r
+            JOIN public.orders o ON o.id = r.order_id
+            WHERE r.coupon_id = c.id AND r.user_id = p_user_id AND o.status <> 'cancelled';
+            IF used >= c.max_uses_per_user THEN
+                RAISE EXCEPTION 'You have already used this coupon' USING ERRCODE = 'P0001';
+            END IF;
+        END IF;
+
+        IF c.first_order_only
+           AND EXISTS (SELECT 1 FROM public.orders WHERE user_id = p_user_id AND status <> 'cancelled') THEN
+            RAISE EXCEPTION 'This coupon is only valid on your first order' USING ERRCODE = 'P0001';
+        END IF;
+    END IF;
+
+    INSERT INTO public.orders (
+        id, user_id, quantity, total_amount, payment_method, status, transaction_reference,
+        currency, payment_currency, payment_amount, exchange_rate, coupon_id, coupon_code, coupon_discount,
+        billing_country
+    )
+    VALUES (
+        coalesce(p_order_id, gen_random_uuid()), p_user_id, 0, 0, p_payment_method, 'pending', p_transaction_reference,
+        coalesce(p_currency, 'USD'), p_payment_currency, p_payment_amount, p_exchange_rate,
+        p_coupon_id, c.code, CASE WHEN p_coupon_id IS NULL THEN 0 ELSE coalesce(p_coupon_discount, 0) END,
+        p_billing_country
+    )
+    RETURNING * INTO new_order;
+
+    FOR line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+        line_product_id := (line->>'product_id')::uuid;
+        line_quantity := (line->>'quantity')::integer;
+
+        SELECT stock, title, unlimited_stock INTO available, product_title, unlimited
+        FROM public.products
+        WHERE id = line_product_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'A product in your cart is no longer available' USING ERRCODE = 'P0001';
+        END IF;
+
+        IF line_quantity IS NULL OR line_quantity <= 0 OR (NOT unlimited AND available < line_quantity) THEN
+            RAISE EXCEPTION 'Not enough stock for "%"', product_title USING ERRCODE = 'P0001';
+        END IF;
+
+        -- Held until the order is paid or cancelled, see orders_stock_reservations
+        IF NOT unlimited THEN
+            PERFORM public.move_stock(line_product_id, 'sale', -line_quantity, new_order.id);
+            INSERT INTO public.stock_reservations (order_id, product_id, quantity, expires_at)
+            VALUES (
+                new_order.id, line_product_id, line_quantity,
+                CASE WHEN p_reservation_minutes IS NULL THEN NULL ELSE now() + make_interval(mins => p_reservation_minutes) END
+            );
+        END IF;
+
+        INSERT INTO public.order_items (order_id, product_id, quantity, price)
+        VALUES (new_order.id, line_product_id, line_quantity, (line->>'unit_price')::numeric);
+    END LOOP;
+
+    FOR tax_line IN SELECT * FROM jsonb_array_elements(coalesce(p_tax_lines, '[]'::jsonb)) LOOP
+        INSERT INTO public.order_tax_lines (order_id, name, rate, inclusive, amount)
+        VALUES (
+            new_order.id,
+            tax_line->>'name',
+            (tax_line->>'rate')::numeric,
+            (tax_line->>'inclusive')::boolean,
+            (tax_line->>'amount')::numeric
+        );
+    END LOOP;
+
+    -- Inclusive taxes are already in the item prices; exclusive ones are added on top
+    UPDATE public.orders
+    SET quantity = (SELECT sum(quantity) FROM public.order_items WHERE order_id = new_order.id),
+        tax_amount = coalesce((SELECT sum(amount) FROM public.order_tax_lines WHERE order_id = new_order.id), 0),
+        total_amount = greatest(
+            (SELECT sum(quantity * price) FROM public.order_items WHERE order_id = new_order.id) - new_order.coupon_discount,
+            0
+        ) + coalesce((SELECT sum(amount) FROM public.order_tax_lines WHERE order_id = new_order.id AND NOT inclusive), 0)
+    WHERE id = new_order.id
+    RETURNING * INTO new_order;
+
+    IF p_coupon_id IS NOT NULL THEN
+        INSERT INTO public.coupon_redemptions (coupon_id, order_id, user_id, discount)
+        VALUES (p_coupon_id, new_order.id, p_user_id, new_order.coupon_discount);
+    END IF;
+
+    IF p_payment_proof IS NOT NULL THEN
+        INSERT INTO public.payment_proofs (user_id, order_id, file_path)
+        VALUES (p_user_id, new_order.id, p_payment_proof);
+    END IF;
+
+    RETURN NEXT new_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(uuid, text, jsonb, text, uuid, text, text, text, numeric, numeric, uuid, numeric, text, jsonb, integer) TO anon, authenticated;
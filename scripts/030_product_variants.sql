@@ -0,0 +1,371 @@
+-- ======================================================
+-- Product variants and license tiers
+-- Run this in your Supabase SQL Editor after 029_inventory.sql
+-- ======================================================
+
+-- A product may be sold in several variants ("Personal license", "Commercial license",
+-- "Source files"), each with its own price, stock, download and license text. A product
+-- with variants is always bought as one of them; its own price, stock and download_url
+-- are only used while it has none.
+CREATE TABLE IF NOT EXISTS public.product_variants (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+    name text NOT NULL CHECK (length(trim(name)) > 0),
+    price numeric(10, 2) NOT NULL CHECK (price >= 0),
+    stock integer NOT NULL DEFAULT 0,
+    download_url text,
+    license_text text NOT NULL DEFAULT '',
+    sort_order integer NOT NULL DEFAULT 0,
+    created_at timestamptz NOT NULL DEFAULT now(),
+    UNIQUE (product_id, name)
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_variants_product_id ON public.product_variants(product_id, sort_order);
+
+-- Same access model as the other tables (the app uses its own users table, not Supabase Auth)
+ALTER TABLE public.product_variants DISABLE ROW LEVEL SECURITY;
+
+-- The ledger and reservations count a variant's stock when variant_id is set
+ALTER TABLE public.inventory_movements
+ADD COLUMN IF NOT EXISTS variant_id uuid REFERENCES public.product_variants(id) ON DELETE CASCADE;
+
+ALTER TABLE public.stock_reservations
+ADD COLUMN IF NOT EXISTS variant_id uuid REFERENCES public.product_variants(id) ON DELETE CASCADE;
+
+-- The variant bought. Its name and license text are copied onto the order item: the
+-- customer keeps the license they paid for even if the admin rewords or removes it.
+ALTER TABLE public.order_items
+ADD COLUMN IF NOT EXISTS variant_id uuid REFERENCES public.product_variants(id) ON DELETE SET NULL,
+ADD COLUMN IF NOT EXISTS variant_name text,
+ADD COLUMN IF NOT EXISTS license_text text;
+
+-- move_stock and adjust_stock gain p_variant_id, which changes their signatures
+DROP FUNCTION IF EXISTS public.adjust_stock(uuid, text, integer, text, text, text);
+DROP FUNCTION IF EXISTS public.move_stock(uuid, text, integer, uuid, text, text, text);
+
+-- The only way stock changes: applies the movement to the product, or to its variant
+-- when p_variant_id is given, and records it. Raises P0001 when stock would go below
+-- zero. Called by the functions below, not by the app.
+CREATE OR REPLACE FUNCTION public.move_stock(
+    p_product_id uuid,
+    p_kind text,
+    p_quantity integer,
+    p_order_id uuid DEFAULT NULL,
+    p_notes text DEFAULT NULL,
+    p_created_by text DEFAULT NULL,
+    p_created_by_name text DEFAULT NULL,
+    p_variant_id uuid DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    new_stock integer;
+    product_title text;
+BEGIN
+    IF p_variant_id IS NULL THEN
+        UPDATE public.products
+        SET stock = stock + p_quantity
+        WHERE id = p_product_id
+        RETURNING stock, title INTO new_stock, product_title;
+    ELSE
+        UPDATE public.product_variants v
+        SET stock = v.stock + p_quantity
+        FROM public.products p
+        WHERE v.id = p_variant_id AND v.product_id = p_product_id AND p.id = v.product_id
+        RETURNING v.stock, p.title || ' (' || v.name || ')' INTO new_stock, product_title;
+    END IF;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'A product in your cart is no longer available' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF new_stock < 0 THEN
+        RAISE EXCEPTION 'Not enough stock for "%"', product_title USING ERRCODE = 'P0001';
+    END IF;
+
+    INSERT INTO public.inventory_movements (
+        product_id, variant_id, kind, quantity, stock_after, order_id, notes, created_by, created_by_name
+    )
+    VALUES (
+        p_product_id, p_variant_id, p_kind, p_quantity, new_stock, p_order_id, p_notes, p_created_by, p_created_by_name
+    );
+
+    RETURN new_stock;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.move_stock(uuid, text, integer, uuid, text, text, text, uuid) FROM PUBLIC;
+
+-- Restocks and manual adjustments from the admin inventory dialog; returns the new stock
+CREATE OR REPLACE FUNCTION public.adjust_stock(
+    p_product_id uuid,
+    p_kind text,
+    p_quantity integer,
+    p_notes text DEFAULT NULL,
+    p_changed_by text DEFAULT NULL,
+    p_changed_by_name text DEFAULT NULL,
+    p_variant_id uuid DEFAULT NULL
+)
+RETURNS integer
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF p_kind NOT IN ('restock', 'adjustment') THEN
+        RAISE EXCEPTION 'Stock can only be restocked or adjusted by hand' USING ERRCODE = 'P0001';
+    END IF;
+    IF p_quantity IS NULL OR p_quantity = 0 OR (p_kind = 'restock' AND p_quantity < 0) THEN
+        RAISE EXCEPTION 'Restocks add a positive quantity; adjustments change stock by a non-zero amount'
+            USING ERRCODE = 'P0001';
+    END IF;
+
+    RETURN public.move_stock(p_product_id, p_kind, p_quantity, NULL, p_notes, p_changed_by, p_changed_by_name, p_variant_id);
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.adjust_stock(uuid, text, integer, text, text, text, uuid) TO anon, authenticated;
+
+-- New variants start their ledger with the stock they were created with
+CREATE OR REPLACE FUNCTION public.product_variants_opening_stock_trigger()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NEW.stock <> 0 THEN
+        INSERT INTO public.inventory_movements (product_id, variant_id, kind, quantity, stock_after, notes)
+        VALUES (NEW.product_id, NEW.id, 'restock', NEW.stock, NEW.stock, 'Opening stock');
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS product_variants_opening_stock ON public.product_variants;
+CREATE TRIGGER product_variants_opening_stock
+AFTER INSERT ON public.product_variants
+FOR EACH ROW EXECUTE FUNCTION public.product_variants_opening_stock_trigger();
+
+-- Reservations follow the order: paid orders keep their stock, cancelled ones give it
+-- back to the product or variant it was taken from
+CREATE OR REPLACE FUNCTION public.orders_stock_reservations_trigger()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    r public.stock_reservations;
+BEGIN
+    IF NEW.status = 'cancelled' THEN
+        FOR r IN
+            SELECT * FROM public.stock_reservations WHERE order_id = NEW.id AND status = 'held' FOR UPDATE
+        LOOP
+            PERFORM public.move_stock(
+                r.product_id, 'cancellation_return', r.quantity, NEW.id, 'Order cancelled', NULL, NULL, r.variant_id
+            );
+            UPDATE public.stock_reservations SET status = 'released', resolved_at = now() WHERE id = r.id;
+        END LOOP;
+    ELSIF NEW.status IN ('confirmed', 'processing', 'completed') THEN
+        UPDATE public.stock_reservations
+        SET status = 'committed', resolved_at = now()
+        WHERE order_id = NEW.id AND status = 'held';
+    END IF;
+    RETURN NEW;
+END;
+$$;
+
+-- place_order: lines carry an optional variant_id. Products with variants must be
+-- bought as one of them; the stock is taken from the variant and its name and license
+-- text are copied onto the order item.
+DROP FUNCTION IF EXISTS public.place_order(uuid, text, jsonb, text, uuid, text, text, text, numeric, numeric, uuid, numeric, text, jsonb, integer);
+
+CREATE OR REPLACE FUNCTION public.place_order(
+    p_user_id uuid,
+    p_payment_method text,
+    p_lines jsonb,
+    p_payment_proof text DEFAULT NULL,
+    p_order_id uuid DEFAULT NULL,
+    p_transaction_reference text DEFAULT NULL,
+    p_currency text DEFAULT NULL,
+    p_payment_currency text DEFAULT NULL,
+    p_payment_amount numeric DEFAULT NULL,
+    p_exchange_rate numeric DEFAULT NULL,
+    p_coupon_id uuid DEFAULT NULL,
+    p_coupon_discount numeric DEFAULT 0,
+    p_billing_country text DEFAULT NULL,
+    p_tax_lines jsonb DEFAULT '[]'::jsonb,
+    p_reservation_minutes integer DEFAULT NULL
+)
+RETURNS SETOF public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    line jsonb;
+    line_product_id uuid;
+    line_variant_id uuid;
+    line_quantity integer;
+    available integer;
+    product_title text;
+    unlimited boolean;
+    variant public.product_variants;
+    new_order public.orders;
+    c public.coupons;
+    used integer;
+    tax_line jsonb;
+BEGIN
+    IF jsonb_array_length(coalesce(p_lines, '[]'::jsonb)) = 0 THEN
+        RAISE EXCEPTION 'Order has no items' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF p_order_id IS NOT NULL AND EXISTS (SELECT 1 FROM public.orders WHERE id = p_order_id) THEN
+        RAISE EXCEPTION 'This order has already been submitted' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF p_transaction_reference IS NOT NULL
+       AND EXISTS (SELECT 1 FROM public.orders WHERE transaction_reference = p_transaction_reference) THEN
+        RAISE EXCEPTION 'This transaction reference was already used for another order' USING ERRCODE = 'P0001';
+    END IF;
+
+    -- The coupon row is locked so concurrent checkouts see each other's redemptions
+    IF p_coupon_id IS NOT NULL THEN
+        SELECT * INTO c FROM public.coupons WHERE id = p_coupon_id FOR UPDATE;
+
+        IF NOT FOUND OR NOT c.active
+           OR (c.starts_at IS NOT NULL AND c.starts_at > now())
+           OR (c.ends_at IS NOT NULL AND c.ends_at < now()) THEN
+            RAISE EXCEPTION 'This coupon is no longer valid' USING ERRCODE = 'P0001';
+        END IF;
+
+        IF c.max_uses IS NOT NULL THEN
+            SELECT count(*) INTO used
+            FROM public.coupon_redemptions r
+            JOIN public.orders o ON o.id = r.order_id
+            WHERE r.coupon_id = c.id AND o.status <> 'cancelled';
+            IF used >= c.max_uses THEN
+                RAISE EXCEPTION 'This coupon has reached its usage limit' USING ERRCODE = 'P0001';
+            END IF;
+        END IF;
+
+        IF c.max_uses_per_user IS NOT NULL THEN
+            SELECT count(*) INTO used
+            FROM public.coupon_redemptions r
+            JOIN public.orders o ON o.id = r.order_id
+            WHERE r.coupon_id = c.id AND r.user_id = p_user_id AND o.status <> 'cancelled';
+            IF used >= c.max_uses_per_user THEN
+                RAISE EXCEPTION 'You have already used this coupon' USING ERRCODE = 'P0001';
+            END IF;
+        END IF;
+
+        IF c.first_order_only
+           AND EXISTS (SELECT 1 FROM public.orders WHERE user_id = p_user_id AND status <> 'cancelled') THEN
+            RAISE EXCEPTION 'This coupon is only valid on your first order' USING ERRCODE = 'P0001';
+        END IF;
+    END IF;
+
+    INSERT INTO public.orders (
+        id, user_id, quantity, total_amount, payment_method, status, transaction_reference,
+        currency, payment_currency, payment_amount, exchange_rate, coupon_id, coupon_code, coupon_discount,
+        billing_country
+    )
+    VALUES (
+        coalesce(p_order_id, gen_random_uuid()), p_user_id, 0, 0, p_payment_method, 'pending', p_transaction_reference,
+        coalesce(p_currency, 'USD'), p_payment_currency, p_payment_amount, p_exchange_rate,
+        p_coupon_id, c.code, CASE WHEN p_coupon_id IS NULL THEN 0 ELSE coalesce(p_coupon_discount, 0) END,
+        p_billing_country
+    )
+    RETURNING * INTO new_order;
+
+    FOR line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+        line_product_id := (line->>'product_id')::uuid;
+        line_variant_id := nullif(line->>'variant_id', '')::uuid;
+        line_quantity := (line->>'quantity')::integer;
+        variant := NULL;
+
+        SELECT stock, title, unlimited_stock INTO available, product_title, unlimited
+        FROM public.products
+        WHERE id = line_product_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'A product in your cart is no longer available' USING ERRCODE = 'P0001';
+        END IF;
+
+        IF line_variant_id IS NOT NULL THEN
+            SELECT * INTO variant
+            FROM public.product_variants
+            WHERE id = line_variant_id AND product_id = line_product_id
+            FOR UPDATE;
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'An option of "%" in your cart is no longer available', product_title USING ERRCODE = 'P0001';
+            END IF;
+            available := variant.stock;
+            product_title := product_title || ' (' || variant.name || ')';
+        ELSIF EXISTS (SELECT 1 FROM public.product_variants WHERE product_id = line_product_id) THEN
+            RAISE EXCEPTION 'Please choose an option for "%"', product_title USING ERRCODE = 'P0001';
+        END IF;
+
+        IF line_quantity IS NULL OR line_quantity <= 0 OR (NOT unlimited AND available < line_quantity) THEN
+            RAISE EXCEPTION 'Not enough stock for "%"', product_title USING ERRCODE = 'P0001';
+        END IF;
+
+        -- Held until the order is paid or cancelled, see orders_stock_reservations
+        IF NOT unlimited THEN
+            PERFORM public.move_stock(line_product_id, 'sale', -line_quantity, new_order.id, NULL, NULL, NULL, line_variant_id);
+            INSERT INTO public.stock_reservations (order_id, product_id, variant_id, quantity, expires_at)
+            VALUES (
+                new_order.id, line_product_id, line_variant_id, line_quantity,
+                CASE WHEN p_reservation_minutes IS NULL THEN NULL ELSE now() + make_interval(mins => p_reservation_minutes) END
+            );
+        END IF;
+
+        INSERT INTO public.order_items (order_id, product_id, variant_id, variant_name, license_text, quantity, price)
+        VALUES (
+            new_order.id, line_product_id, line_variant_id, variant.name, variant.license_text, line_quantity,
+            (line->>'unit_price')::numeric
+        );
+    END LOOP;
+
+    FOR tax_line IN SELECT * FROM jsonb_array_elements(coalesce(p_tax_lines, '[]'::jsonb)) LOOP
+        INSERT INTO public.order_tax_lines (order_id, name, rate, inclusive, amount)
+        VALUES (
+            new_order.id,
+            tax_line->>'name',
+            (tax_line->>'rate')::numeric,
+            (tax_line->>'inclusive')::boolean,
+            (tax_line->>'amount')::numeric
+        );
+    END LOOP;
+
+    -- Inclusive taxes are already in the item prices; exclusive ones are added on top
+    UPDATE public.orders
+    SET quantity = (SELECT sum(quantity) FROM public.order_items WHERE order_id = new_order.id),
+        tax_amount = coalesce((SELECT sum(amount) FROM public.order_tax_lines WHERE order_id = new_order.id), 0),
+        total_amount = greatest(
+            (SELECT sum(quantity * price) FROM public.order_items WHERE order_id = new_order.id) - new_order.coupon_discount,
+            0
+        ) + coalesce((SELECT sum(amount) FROM public.order_tax_lines WHERE order_id = new_order.id AND NOT inclusive), 0)
+    WHERE id = new_order.id
+    RETURNING * INTO new_order;
+
+    IF p_coupon_id IS NOT NULL THEN
+        INSERT INTO public.coupon_redemptions (coupon_id, order_id, user_id, discount)
+        VALUES (p_coupon_id, new_order.id, p_user_id, new_order.coupon_discount);
+    END IF;
+
+    IF p_payment_proof IS NOT NULL THEN
+        INSERT INTO public.payment_proofs (user_id, order_id, file_path)
+        VALUES (p_user_id, new_order.id, p_payment_proof);
+    END IF;
+
+    RETURN NEXT new_order;
+END;
+$$;
+
+GRANT EXECUTE ON FUNCTION public.place_order(uuid, text, jsonb, text, uuid, text, text, text, numeric, numeric, uuid, numeric, text, jsonb, integer) TO anon, authenticated;
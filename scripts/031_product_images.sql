@@ -0,0 +1,82 @@
+-- ======================================================
+-- Uploaded product images with thumbnail and medium sizes
+-- Run this in your Supabase SQL Editor after 030_product_variants.sql
+-- ======================================================
+
+-- Public: product images are shown to everyone, so the storefront links to them
+-- directly. Uploads and deletes go through app/api/products/[id]/images with the
+-- service role key (SUPABASE_SERVICE_ROLE_KEY); no storage policies are added, so the
+-- anon key cannot write to the bucket.
+INSERT INTO storage.buckets (id, name, public, file_size_limit, allowed_mime_types)
+VALUES ('product-images', 'product-images', true, 5242880, ARRAY['image/jpeg', 'image/png', 'image/webp'])
+ON CONFLICT (id) DO UPDATE SET public = true;
+
+-- A product's gallery, cover first. Uploaded images keep their three sizes under
+-- path (<product id>/<image id>/full.jpg, medium.jpg and thumbnail.jpg); images linked
+-- by URL (imports, products from before this migration) have no path and use the same
+-- URL for every size.
+CREATE TABLE IF NOT EXISTS public.product_images (
+    id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+    product_id uuid NOT NULL REFERENCES public.products(id) ON DELETE CASCADE,
+    path text,
+    url text NOT NULL,
+    medium_url text NOT NULL,
+    thumbnail_url text NOT NULL,
+    alt text NOT NULL DEFAULT '',
+    width integer,
+    height integer,
+    sort_order integer NOT NULL DEFAULT 0,
+    created_at timestamptz NOT NULL DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_product_images_product_id ON public.product_images(product_id, sort_order);
+
+-- Same access model as the other tables (the app uses its own users table, not Supabase Auth)
+ALTER TABLE public.product_images DISABLE ROW LEVEL SECURITY;
+
+-- products.image_url and products.gallery mirror the gallery (cover in medium size, then
+-- the other images), so search results, exports and older code see the same images
+CREATE OR REPLACE FUNCTION public.product_images_mirror_trigger()
+RETURNS trigger
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    target uuid := coalesce(NEW.product_id, OLD.product_id);
+BEGIN
+    UPDATE public.products p
+    SET image_url = (
+            SELECT i.medium_url FROM public.product_images i
+            WHERE i.product_id = target
+            ORDER BY i.sort_order, i.created_at
+            LIMIT 1
+        ),
+        gallery = coalesce((
+            SELECT array_agg(g.url ORDER BY g.sort_order, g.created_at)
+            FROM (
+                SELECT i.url, i.sort_order, i.created_at FROM public.product_images i
+                WHERE i.product_id = target
+                ORDER BY i.sort_order, i.created_at
+                OFFSET 1
+            ) g
+        ), '{}')
+    WHERE p.id = target;
+    RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS product_images_mirror ON public.product_images;
+CREATE TRIGGER product_images_mirror
+AFTER INSERT OR UPDATE OR DELETE ON public.product_images
+FOR EACH ROW EXECUTE FUNCTION public.product_images_mirror_trigger();
+
+-- Existing products: their image URLs become the first gallery rows, cover first, so
+-- the gallery is the only place images are edited from now on
+INSERT INTO public.product_images (product_id, url, medium_url, thumbnail_url, sort_order)
+SELECT p.id, u.url, u.url, u.url, u.ord - 1
+FROM public.products p
+CROSS JOIN LATERAL unnest(array_prepend(p.image_url, coalesce(p.gallery, '{}'))) WITH ORDINALITY AS u(url, ord)
+WHERE u.url IS NOT NULL
+  AND u.url NOT IN ('', '/placeholder.svg')
+  AND NOT EXISTS (SELECT 1 FROM public.product_images i WHERE i.product_id = p.id);
@@ -0,0 +1,552 @@
+-- ======================================================
+-- Server-side accounts and writes
+-- Run this in your Supabase SQL Editor after 031_product_images.sql
+-- ======================================================
+
+-- The anon key ships with every page, so anything it may write can be written by any
+-- visitor. From here on the browser only reads; accounts, orders and admin changes go
+-- through the API routes, which check the signed session (lib/session.ts) and write
+-- with the service role key.
+
+CREATE EXTENSION IF NOT EXISTS pgcrypto;
+
+-- Accounts: passwords are stored as bcrypt hashes and never leave the database
+ALTER TABLE public.users ADD COLUMN IF NOT EXISTS password_hash text;
+
+DO $$
+BEGIN
+    IF EXISTS (
+        SELECT 1 FROM information_schema.columns
+        WHERE table_schema = 'public' AND table_name = 'users' AND column_name = 'password'
+    ) THEN
+        PERFORM set_config('search_path', 'public, extensions', true);
+
+        -- The passwords of the seeded test admins (005, 008) were published with the code
+        EXECUTE $sql$
+            UPDATE public.users SET role = 'user'
+            WHERE role = 'admin' AND password IN ('admin123', 'demo123', 'Mafi123')
+        $sql$;
+        EXECUTE 'ALTER TABLE public.users ALTER COLUMN password DROP NOT NULL';
+        EXECUTE $sql$
+            UPDATE public.users
+            SET password_hash = crypt(password, gen_salt('bf')),
+                password = NULL
+            WHERE password IS NOT NULL AND password_hash IS NULL
+        $sql$;
+    END IF;
+END $$;
+
+-- Anyone could set their own role before this migration; check who is an admin:
+--   SELECT email, created_at FROM public.users WHERE role = 'admin';
+-- and make someone an admin only from here, e.g.
+--   UPDATE public.users SET role = 'admin' WHERE email = 'you@example.com';
+ALTER TABLE public.users ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view user names" ON public.users;
+CREATE POLICY "Anyone can view user names"
+  ON public.users FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+REVOKE INSERT, UPDATE, DELETE ON public.users FROM anon, authenticated;
+REVOKE SELECT ON public.users FROM anon, authenticated;
+GRANT SELECT (id, name, email, role, created_at) ON public.users TO anon, authenticated;
+
+-- New accounts are always customers
+CREATE OR REPLACE FUNCTION public.register_user(p_email text, p_name text, p_password text)
+RETURNS SETOF public.users
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+BEGIN
+    IF EXISTS (SELECT 1 FROM public.users WHERE lower(email) = lower(p_email)) THEN
+        RAISE EXCEPTION 'User with this email already exists. Please login instead.' USING ERRCODE = 'P0001';
+    END IF;
+
+    RETURN QUERY
+    INSERT INTO public.users (email, name, password_hash, role)
+    VALUES (p_email, p_name, crypt(p_password, gen_salt('bf')), 'user')
+    RETURNING *;
+END;
+$$;
+
+-- The account for these credentials, or no row
+CREATE OR REPLACE FUNCTION public.authenticate_user(p_email text, p_password text)
+RETURNS SETOF public.users
+LANGUAGE sql
+STABLE
+SECURITY DEFINER
+SET search_path = public, extensions
+AS $$
+    SELECT * FROM public.users
+    WHERE lower(email) = lower(p_email)
+      AND password_hash IS NOT NULL
+      AND password_hash = crypt(p_password, password_hash);
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.register_user(text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.register_user(text, text, text) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.authenticate_user(text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.authenticate_user(text, text) TO service_role;
+
+-- setup_database_schema.sql left this callable by anyone
+DO $$
+BEGIN
+    IF to_regprocedure('public.create_admin_user(text)') IS NOT NULL THEN
+        REVOKE EXECUTE ON FUNCTION public.create_admin_user(text) FROM PUBLIC, anon, authenticated;
+    END IF;
+END $$;
+
+-- Orders: place_order trusts the prices in p_items, so only app/api/orders may call
+-- it; the route recomputes them and connects with the service role key. Every
+-- overload from 010 onwards was granted to anon and authenticated.
+DO $$
+DECLARE
+    fn regprocedure;
+BEGIN
+    FOR fn IN SELECT p.oid::regprocedure FROM pg_proc p
+              WHERE p.pronamespace = 'public'::regnamespace AND p.proname = 'place_order'
+    LOOP
+        EXECUTE format('REVOKE EXECUTE ON FUNCTION %s FROM PUBLIC, anon, authenticated', fn);
+        EXECUTE format('GRANT EXECUTE ON FUNCTION %s TO service_role', fn);
+    END LOOP;
+END $$;
+
+-- Partial payments: only app/api/orders/[id]/payments (after checking the admin
+-- session) and app/api/orders/[id]/top-up (for the signed-in customer) call these
+REVOKE EXECUTE ON FUNCTION public.record_order_payment(uuid, numeric, text, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_order_payment(uuid, numeric, text, text, text, text) TO service_role;
+REVOKE EXECUTE ON FUNCTION public.submit_top_up_proof(uuid, uuid, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.submit_top_up_proof(uuid, uuid, text, text) TO service_role;
+
+-- Payments and store credit are only written by those functions
+ALTER TABLE public.order_payments ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.store_credit_transactions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view order payments" ON public.order_payments;
+CREATE POLICY "Anyone can view order payments"
+  ON public.order_payments FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Anyone can view store credit" ON public.store_credit_transactions;
+CREATE POLICY "Anyone can view store credit"
+  ON public.store_credit_transactions FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- Order status: the same graph as ORDER_TRANSITIONS in lib/orders.ts; keep the two in step
+CREATE OR REPLACE FUNCTION public.order_transition_allowed(p_from_status text, p_to_status text)
+RETURNS boolean
+LANGUAGE sql
+IMMUTABLE
+AS $$
+    SELECT CASE p_from_status
+        WHEN 'pending' THEN p_to_status IN ('confirmed', 'partially_paid', 'cancelled')
+        WHEN 'partially_paid' THEN p_to_status IN ('pending', 'confirmed', 'cancelled')
+        WHEN 'confirmed' THEN p_to_status IN ('processing', 'completed', 'refunded')
+        WHEN 'processing' THEN p_to_status IN ('completed', 'refunded')
+        WHEN 'completed' THEN p_to_status IN ('refunded')
+        ELSE false
+    END;
+$$;
+
+-- Rejects transitions the graph does not allow, and only applies the change if the
+-- order is still in p_from_status, so two admins acting on the same order cannot
+-- both succeed, and that history is never skipped.
+CREATE OR REPLACE FUNCTION public.change_order_status(
+    p_order_id uuid,
+    p_from_status text,
+    p_to_status text,
+    p_changed_by text DEFAULT NULL,
+    p_changed_by_name text DEFAULT NULL,
+    p_notes text DEFAULT NULL
+)
+RETURNS void
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+BEGIN
+    IF NOT public.order_transition_allowed(p_from_status, p_to_status) THEN
+        RAISE EXCEPTION 'An order cannot go from % to %', p_from_status, p_to_status USING ERRCODE = 'P0001';
+    END IF;
+
+    UPDATE public.orders
+    SET status = p_to_status,
+        notes = coalesce(p_notes, notes)
+    WHERE id = p_order_id
+      AND status = p_from_status;
+
+    IF NOT FOUND THEN
+        RAISE EXCEPTION 'Order % is no longer %', p_order_id, p_from_status USING ERRCODE = 'P0001';
+    END IF;
+
+    INSERT INTO public.order_status_history (order_id, from_status, to_status, changed_by, changed_by_name, notes)
+    VALUES (p_order_id, p_from_status, p_to_status, p_changed_by, p_changed_by_name, p_notes);
+END;
+$$;
+
+-- Called by the API routes with the service role key after checking the admin session
+-- (app/api/orders/[id]/status) or the gateway's signature (payment webhooks)
+REVOKE EXECUTE ON FUNCTION public.change_order_status(uuid, text, text, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.change_order_status(uuid, text, text, text, text, text) TO service_role;
+
+-- Orders are only written by the functions above and place_order; a direct UPDATE of
+-- status would skip the graph and the history and still fire the stock triggers
+REVOKE INSERT, UPDATE, DELETE ON public.orders FROM anon, authenticated;
+
+ALTER TABLE public.order_status_history ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view order status history" ON public.order_status_history;
+CREATE POLICY "Anyone can view order status history"
+  ON public.order_status_history FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- Inventory: move_stock is only called by the other functions, and adjust_stock only by
+-- app/api/products/[id]/stock, after checking the admin session
+REVOKE EXECUTE ON FUNCTION public.move_stock(uuid, text, integer, uuid, text, text, text) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.adjust_stock(uuid, text, integer, text, text, text) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.adjust_stock(uuid, text, integer, text, text, text) TO service_role;
+
+-- The ledger and the reservations are written by those functions and the order triggers only
+ALTER TABLE public.inventory_movements ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.stock_reservations ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view inventory movements" ON public.inventory_movements;
+CREATE POLICY "Anyone can view inventory movements"
+  ON public.inventory_movements FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Anyone can view stock reservations" ON public.stock_reservations;
+CREATE POLICY "Anyone can view stock reservations"
+  ON public.stock_reservations FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- Variants: the variant-aware move_stock and adjust_stock from 030
+REVOKE EXECUTE ON FUNCTION public.move_stock(uuid, text, integer, uuid, text, text, text, uuid) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.adjust_stock(uuid, text, integer, text, text, text, uuid) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.adjust_stock(uuid, text, integer, text, text, text, uuid) TO service_role;
+
+-- Variants removed from a product are archived, never deleted: order items, ledger
+-- entries and reservations keep pointing at them. Only live variants need unique names.
+ALTER TABLE public.product_variants ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+ALTER TABLE public.product_variants DROP CONSTRAINT IF EXISTS product_variants_product_id_name_key;
+CREATE UNIQUE INDEX IF NOT EXISTS idx_product_variants_live_name
+  ON public.product_variants(product_id, name) WHERE archived_at IS NULL;
+
+-- Written by app/api/products/[id]/variants with the service role key
+ALTER TABLE public.product_variants ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view product variants" ON public.product_variants;
+CREATE POLICY "Anyone can view product variants"
+  ON public.product_variants FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- Variant items keep the download they were sold with, next to their license text
+ALTER TABLE public.order_items ADD COLUMN IF NOT EXISTS download_url text;
+
+UPDATE public.order_items oi
+SET download_url = v.download_url
+FROM public.product_variants v
+WHERE oi.variant_id = v.id AND oi.download_url IS NULL;
+
+-- place_order: archived variants are no longer sold, and a product whose variants were
+-- all removed is sold on its own again. The signature is unchanged, so the grants above stay.
+CREATE OR REPLACE FUNCTION public.place_order(
+    p_user_id uuid,
+    p_payment_method text,
+    p_lines jsonb,
+    p_payment_proof text DEFAULT NULL,
+    p_order_id uuid DEFAULT NULL,
+    p_transaction_reference text DEFAULT NULL,
+    p_currency text DEFAULT NULL,
+    p_payment_currency text DEFAULT NULL,
+    p_payment_amount numeric DEFAULT NULL,
+    p_exchange_rate numeric DEFAULT NULL,
+    p_coupon_id uuid DEFAULT NULL,
+    p_coupon_discount numeric DEFAULT 0,
+    p_billing_country text DEFAULT NULL,
+    p_tax_lines jsonb DEFAULT '[]'::jsonb,
+    p_reservation_minutes integer DEFAULT NULL
+)
+RETURNS SETOF public.orders
+LANGUAGE plpgsql
+SECURITY DEFINER
+SET search_path = public
+AS $$
+DECLARE
+    line jsonb;
+    line_product_id uuid;
+    line_variant_id uuid;
+    line_quantity integer;
+    available integer;
+    product_title text;
+    unlimited boolean;
+    variant public.product_variants;
+    new_order public.orders;
+    c public.coupons;
+    used integer;
+    tax_line jsonb;
+BEGIN
+    IF jsonb_array_length(coalesce(p_lines, '[]'::jsonb)) = 0 THEN
+        RAISE EXCEPTION 'Order has no items' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF p_order_id IS NOT NULL AND EXISTS (SELECT 1 FROM public.orders WHERE id = p_order_id) THEN
+        RAISE EXCEPTION 'This order has already been submitted' USING ERRCODE = 'P0001';
+    END IF;
+
+    IF p_transaction_reference IS NOT NULL
+       AND EXISTS (SELECT 1 FROM public.orders WHERE transaction_reference = p_transaction_reference) THEN
+        RAISE EXCEPTION 'This transaction reference was already used for another order' USING ERRCODE = 'P0001';
+    END IF;
+
+    -- The coupon row is locked so concurrent checkouts see each other's redemptions
+    IF p_coupon_id IS NOT NULL THEN
+        SELECT * INTO c FROM public.coupons WHERE id = p_coupon_id FOR UPDATE;
+
+        IF NOT FOUND OR NOT c.active
+           OR (c.starts_at IS NOT NULL AND c.starts_at > now())
+           OR (c.ends_at IS NOT NULL AND c.ends_at < now()) THEN
+            RAISE EXCEPTION 'This coupon is no longer valid' USING ERRCODE = 'P0001';
+        END IF;
+
+        IF c.max_uses IS NOT NULL THEN
+            SELECT count(*) INTO used
+            FROM public.coupon_redemptions r
+            JOIN public.orders o ON o.id = r.order_id
+            WHERE r.coupon_id = c.id AND o.status <> 'cancelled';
+            IF used >= c.max_uses THEN
+                RAISE EXCEPTION 'This coupon has reached its usage limit' USING ERRCODE = 'P0001';
+            END IF;
+        END IF;
+
+        IF c.max_uses_per_user IS NOT NULL THEN
+            SELECT count(*) INTO used
+            FROM public.coupon_redemptions r
+            JOIN public.orders o ON o.id = r.order_id
+            WHERE r.coupon_id = c.id AND r.user_id = p_user_id AND o.status <> 'cancelled';
+            IF used >= c.max_uses_per_user THEN
+                RAISE EXCEPTION 'You have already used this coupon' USING ERRCODE = 'P0001';
+            END IF;
+        END IF;
+
+        IF c.first_order_only
+           AND EXISTS (SELECT 1 FROM public.orders WHERE user_id = p_user_id AND status <> 'cancelled') THEN
+            RAISE EXCEPTION 'This coupon is only valid on your first order' USING ERRCODE = 'P0001';
+        END IF;
+    END IF;
+
+    INSERT INTO public.orders (
+        id, user_id, quantity, total_amount, payment_method, status, transaction_reference,
+        currency, payment_currency, payment_amount, exchange_rate, coupon_id, coupon_code, coupon_discount,
+        billing_country
+    )
+    VALUES (
+        coalesce(p_order_id, gen_random_uuid()), p_user_id, 0, 0, p_payment_method, 'pending', p_transaction_reference,
+        coalesce(p_currency, 'USD'), p_payment_currency, p_payment_amount, p_exchange_rate,
+        p_coupon_id, c.code, CASE WHEN p_coupon_id IS NULL THEN 0 ELSE coalesce(p_coupon_discount, 0) END,
+        p_billing_country
+    )
+    RETURNING * INTO new_order;
+
+    FOR line IN SELECT * FROM jsonb_array_elements(p_lines) LOOP
+        line_product_id := (line->>'product_id')::uuid;
+        line_variant_id := nullif(line->>'variant_id', '')::uuid;
+        line_quantity := (line->>'quantity')::integer;
+        variant := NULL;
+
+        SELECT stock, title, unlimited_stock INTO available, product_title, unlimited
+        FROM public.products
+        WHERE id = line_product_id
+        FOR UPDATE;
+
+        IF NOT FOUND THEN
+            RAISE EXCEPTION 'A product in your cart is no longer available' USING ERRCODE = 'P0001';
+        END IF;
+
+        IF line_variant_id IS NOT NULL THEN
+            SELECT * INTO variant
+            FROM public.product_variants
+            WHERE id = line_variant_id AND product_id = line_product_id AND archived_at IS NULL
+            FOR UPDATE;
+            IF NOT FOUND THEN
+                RAISE EXCEPTION 'An option of "%" in your cart is no longer available', product_title USING ERRCODE = 'P0001';
+            END IF;
+            available := variant.stock;
+            product_title := product_title || ' (' || variant.name || ')';
+        ELSIF EXISTS (SELECT 1 FROM public.product_variants WHERE product_id = line_product_id AND archived_at IS NULL) THEN
+            RAISE EXCEPTION 'Please choose an option for "%"', product_title USING ERRCODE = 'P0001';
+        END IF;
+
+        IF line_quantity IS NULL OR line_quantity <= 0 OR (NOT unlimited AND available < line_quantity) THEN
+            RAISE EXCEPTION 'Not enough stock for "%"', product_title USING ERRCODE = 'P0001';
+        END IF;
+
+        -- Held until the order is paid or cancelled, see orders_stock_reservations
+        IF NOT unlimited THEN
+            PERFORM public.move_stock(line_product_id, 'sale', -line_quantity, new_order.id, NULL, NULL, NULL, line_variant_id);
+            INSERT INTO public.stock_reservations (order_id, product_id, variant_id, quantity, expires_at)
+            VALUES (
+                new_order.id, line_product_id, line_variant_id, line_quantity,
+                CASE WHEN p_reservation_minutes IS NULL THEN NULL ELSE now() + make_interval(mins => p_reservation_minutes) END
+            );
+        END IF;
+
+        INSERT INTO public.order_items (order_id, product_id, variant_id, variant_name, license_text, download_url, quantity, price)
+        VALUES (
+            new_order.id, line_product_id, line_variant_id, variant.name, variant.license_text, variant.download_url, line_quantity,
+            (line->>'unit_price')::numeric
+        );
+    END LOOP;
+
+    FOR tax_line IN SELECT * FROM jsonb_array_elements(coalesce(p_tax_lines, '[]'::jsonb)) LOOP
+        INSERT INTO public.order_tax_lines (order_id, name, rate, inclusive, amount)
+        VALUES (
+            new_order.id,
+            tax_line->>'name',
+            (tax_line->>'rate')::numeric,
+            (tax_line->>'inclusive')::boolean,
+            (tax_line->>'amount')::numeric
+        );
+    END LOOP;
+
+    -- Inclusive taxes are already in the item prices; exclusive ones are added on top
+    UPDATE public.orders
+    SET quantity = (SELECT sum(quantity) FROM public.order_items WHERE order_id = new_order.id),
+        tax_amount = coalesce((SELECT sum(amount) FROM public.order_tax_lines WHERE order_id = new_order.id), 0),
+        total_amount = greatest(
+            (SELECT sum(quantity * price) FROM public.order_items WHERE order_id = new_order.id) - new_order.coupon_discount,
+            0
+        ) + coalesce((SELECT sum(amount) FROM public.order_tax_lines WHERE order_id = new_order.id AND NOT inclusive), 0)
+    WHERE id = new_order.id
+    RETURNING * INTO new_order;
+
+    IF p_coupon_id IS NOT NULL THEN
+        INSERT INTO public.coupon_redemptions (coupon_id, order_id, user_id, discount)
+        VALUES (p_coupon_id, new_order.id, p_user_id, new_order.coupon_discount);
+    END IF;
+
+    IF p_payment_proof IS NOT NULL THEN
+        INSERT INTO public.payment_proofs (user_id, order_id, file_path)
+        VALUES (p_user_id, new_order.id, p_payment_proof);
+    END IF;
+
+    RETURN NEXT new_order;
+END;
+$$;
+
+-- Exchange rates: written by app/api/exchange-rates after checking the admin session
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view exchange rates" ON public.exchange_rates;
+CREATE POLICY "Anyone can view exchange rates"
+  ON public.exchange_rates FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- Coupons: written by app/api/coupons after checking the admin session; redemptions
+-- only by place_order
+ALTER TABLE public.coupons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.coupon_redemptions ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view coupons" ON public.coupons;
+CREATE POLICY "Anyone can view coupons"
+  ON public.coupons FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Anyone can view coupon redemptions" ON public.coupon_redemptions;
+CREATE POLICY "Anyone can view coupon redemptions"
+  ON public.coupon_redemptions FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- Taxes: rules are written by app/api/tax-rules after checking the admin session; an
+-- order's tax lines only by place_order
+ALTER TABLE public.tax_rules ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.order_tax_lines ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view tax rules" ON public.tax_rules;
+CREATE POLICY "Anyone can view tax rules"
+  ON public.tax_rules FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+DROP POLICY IF EXISTS "Anyone can view order tax lines" ON public.order_tax_lines;
+CREATE POLICY "Anyone can view order tax lines"
+  ON public.order_tax_lines FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- Payment methods: written by app/api/payment-providers after checking the admin session
+ALTER TABLE public.payment_providers ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view payment providers" ON public.payment_providers;
+CREATE POLICY "Anyone can view payment providers"
+  ON public.payment_providers FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- Gateway webhook events: only the webhook route reads and writes them, with the
+-- service role key, so the anon key gets no policy at all
+ALTER TABLE public.payment_events ENABLE ROW LEVEL SECURITY;
+
+-- Order items are only written by place_order
+ALTER TABLE public.order_items ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view order items" ON public.order_items;
+CREATE POLICY "Anyone can view order items"
+  ON public.order_items FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- Payment proof hashes: the API routes decode the stored proof and compute both hashes
+-- themselves (lib/payment-proof-hash.ts), then record them with the service role key.
+-- 014 granted this to anon and authenticated, so anyone could attach made-up hashes.
+REVOKE EXECUTE ON FUNCTION public.record_payment_proof_hashes(uuid, text, text, integer) FROM PUBLIC, anon, authenticated;
+GRANT EXECUTE ON FUNCTION public.record_payment_proof_hashes(uuid, text, text, integer) TO service_role;
+
+-- Proof rows are only written by place_order, submit_top_up_proof and the function above
+ALTER TABLE public.payment_proofs ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view payment proofs" ON public.payment_proofs;
+CREATE POLICY "Anyone can view payment proofs"
+  ON public.payment_proofs FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- Product images: 031 left RLS off; galleries are written by app/api/products/[id]/images
+-- after checking the admin session
+ALTER TABLE public.product_images ENABLE ROW LEVEL SECURITY;
+
+DROP POLICY IF EXISTS "Anyone can view product images" ON public.product_images;
+CREATE POLICY "Anyone can view product images"
+  ON public.product_images FOR SELECT
+  TO anon, authenticated
+  USING (true);
+
+-- Promotions: the storefront banner (hooks/use-promotions.ts) listens for sale and
+-- discount changes; postgres_changes only fires for tables in the realtime publication
+DO $$
+BEGIN
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'discounts'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.discounts;
+    END IF;
+    IF NOT EXISTS (
+        SELECT 1 FROM pg_publication_tables
+        WHERE pubname = 'supabase_realtime' AND schemaname = 'public' AND tablename = 'sales'
+    ) THEN
+        ALTER PUBLICATION supabase_realtime ADD TABLE public.sales;
+    END IF;
+END;
+$$;